@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BrokerageAccount" ADD COLUMN     "transactionsSyncedAt" TIMESTAMP(3);
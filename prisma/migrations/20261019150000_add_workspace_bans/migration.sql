@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "WorkspaceBan" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bannedBy" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkspaceBan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkspaceBan_workspaceId_idx" ON "WorkspaceBan"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceBan_bannedBy_idx" ON "WorkspaceBan"("bannedBy");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceBan_workspaceId_userId_key" ON "WorkspaceBan"("workspaceId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceBan" ADD CONSTRAINT "WorkspaceBan_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceBan" ADD CONSTRAINT "WorkspaceBan_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceBan" ADD CONSTRAINT "WorkspaceBan_bannedBy_fkey" FOREIGN KEY ("bannedBy") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
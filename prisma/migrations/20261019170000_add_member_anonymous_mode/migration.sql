@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WorkspaceMember" ADD COLUMN "anonymous" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "IntradaySnapshot" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "totalValue" DOUBLE PRECISION NOT NULL,
+    "totalCash" DOUBLE PRECISION NOT NULL,
+    "totalInvestments" DOUBLE PRECISION NOT NULL,
+    "totalPL" DOUBLE PRECISION NOT NULL,
+    "snapshotAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IntradaySnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IntradaySnapshot_accountId_snapshotAt_idx" ON "IntradaySnapshot"("accountId", "snapshotAt");
+
+-- CreateIndex
+CREATE INDEX "IntradaySnapshot_snapshotAt_idx" ON "IntradaySnapshot"("snapshotAt");
+
+-- AddForeignKey
+ALTER TABLE "IntradaySnapshot" ADD CONSTRAINT "IntradaySnapshot_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "BrokerageAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "BrokerageAccount" ADD COLUMN     "snapshotsBackfilledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "HistoricalPrice" (
+    "symbol" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "close" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HistoricalPrice_pkey" PRIMARY KEY ("symbol","date")
+);
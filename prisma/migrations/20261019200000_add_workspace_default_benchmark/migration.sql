@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "defaultBenchmark" TEXT NOT NULL DEFAULT 'SPY';
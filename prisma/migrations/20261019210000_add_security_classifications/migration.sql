@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "SecurityClassification" (
+    "symbol" TEXT NOT NULL,
+    "sector" TEXT NOT NULL,
+    "industry" TEXT,
+    "assetClass" TEXT NOT NULL,
+    "country" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SecurityClassification_pkey" PRIMARY KEY ("symbol")
+);
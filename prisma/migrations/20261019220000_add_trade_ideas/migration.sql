@@ -0,0 +1,101 @@
+-- CreateTable
+CREATE TABLE "TradeIdea" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "thesis" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "entryPrice" DOUBLE PRECISION NOT NULL,
+    "targetPrice" DOUBLE PRECISION NOT NULL,
+    "stopPrice" DOUBLE PRECISION NOT NULL,
+    "timeframe" TEXT NOT NULL,
+    "tags" TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "closePrice" DOUBLE PRECISION,
+    "returnPercent" DOUBLE PRECISION,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TradeIdea_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TradeIdeaLike" (
+    "id" TEXT NOT NULL,
+    "ideaId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TradeIdeaLike_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TradeIdeaView" (
+    "ideaId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "viewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TradeIdeaView_pkey" PRIMARY KEY ("ideaId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "TradeIdeaComment" (
+    "id" TEXT NOT NULL,
+    "ideaId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TradeIdeaComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TradeIdea_workspaceId_createdAt_idx" ON "TradeIdea"("workspaceId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "TradeIdea_workspaceId_authorId_status_idx" ON "TradeIdea"("workspaceId", "authorId", "status");
+
+-- CreateIndex
+CREATE INDEX "TradeIdea_status_expiresAt_idx" ON "TradeIdea"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "TradeIdeaLike_userId_idx" ON "TradeIdeaLike"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeIdeaLike_ideaId_userId_key" ON "TradeIdeaLike"("ideaId", "userId");
+
+-- CreateIndex
+CREATE INDEX "TradeIdeaComment_ideaId_createdAt_idx" ON "TradeIdeaComment"("ideaId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TradeIdeaComment_userId_idx" ON "TradeIdeaComment"("userId");
+
+-- AddForeignKey
+ALTER TABLE "TradeIdea" ADD CONSTRAINT "TradeIdea_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeIdea" ADD CONSTRAINT "TradeIdea_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeIdeaLike" ADD CONSTRAINT "TradeIdeaLike_ideaId_fkey" FOREIGN KEY ("ideaId") REFERENCES "TradeIdea"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeIdeaLike" ADD CONSTRAINT "TradeIdeaLike_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeIdeaView" ADD CONSTRAINT "TradeIdeaView_ideaId_fkey" FOREIGN KEY ("ideaId") REFERENCES "TradeIdea"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeIdeaView" ADD CONSTRAINT "TradeIdeaView_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeIdeaComment" ADD CONSTRAINT "TradeIdeaComment_ideaId_fkey" FOREIGN KEY ("ideaId") REFERENCES "TradeIdea"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeIdeaComment" ADD CONSTRAINT "TradeIdeaComment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
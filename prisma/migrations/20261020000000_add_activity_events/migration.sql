@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ActivityEvent" (
+    "id" SERIAL NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "activityId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "commentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ActivityEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_workspaceId_id_idx" ON "ActivityEvent"("workspaceId", "id");
+
+-- CreateIndex
+CREATE INDEX "ActivityEvent_createdAt_idx" ON "ActivityEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ActivityEvent" ADD CONSTRAINT "ActivityEvent_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ActivityEvent" ADD CONSTRAINT "ActivityEvent_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "WorkspaceActivity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -1,49 +1,154 @@
 "use client";
 
-import { MessageSquare, Send, Users, Hash } from "lucide-react";
+import { MessageSquare, Send, Users, Hash, Plus, RefreshCw } from "lucide-react";
 import { Card } from "@/components/ui/card";
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useWorkspaceContext } from "@/lib/use-workspace-context";
+import {
+  useChannels,
+  useMessages,
+  usePresence,
+  useChatQuotes,
+  useChatStream,
+  useCreateChannel,
+  useSendMessage,
+  useEditMessage,
+  useDeleteMessage,
+  useMarkChannelRead,
+  useUpdatePresence,
+} from "@/hooks/use-chat";
+import { ChatMessageItem } from "@/components/chat-message";
+import type { ChatMessage, MemberPresenceStatus, PresenceStatus } from "@/lib/validations/chat";
+
+const STATUS_DOTS: Record<MemberPresenceStatus, string> = {
+  online: "bg-emerald-400",
+  trading: "bg-emerald-400",
+  away: "bg-amber-400",
+  offline: "bg-slate-600",
+};
+
+const MY_STATUSES: Array<{ value: PresenceStatus; label: string }> = [
+  { value: "online", label: "Online" },
+  { value: "trading", label: "Trading 📊" },
+  { value: "away", label: "Away" },
+];
 
 export default function ChatPage() {
+  const { currentContext } = useWorkspaceContext();
   const [message, setMessage] = useState("");
+  const [selectedChannelId, setSelectedChannelId] = useState<string | null>(null);
+  const [newChannel, setNewChannel] = useState<string | null>(null);
+  const [myStatus, setMyStatus] = useState<PresenceStatus>("online");
+  const bottomRef = useRef<HTMLDivElement>(null);
 
-  const channels = [
-    { id: "general", name: "general-chat", unread: 3 },
-    { id: "trading", name: "trading-ideas", unread: 7 },
-    { id: "earnings", name: "earnings-plays", unread: 0 },
-    { id: "memes", name: "stonk-memes", unread: 12 },
-  ];
-
-  const messages = [
-    {
-      id: 1,
-      username: "MoonShotKing",
-      avatar: "AC",
-      message: "Just bought the NVDA dip. Looking juicy at this level 🚀",
-      time: "2m ago"
-    },
-    {
-      id: 2,
-      username: "TechQueenGG",
-      avatar: "SK",
-      message: "Nice entry! I'm waiting for confirmation above $495",
-      time: "1m ago"
-    },
-    {
-      id: 3,
-      username: "ChartMaster420",
-      avatar: "MJ",
-      message: "RSI showing oversold on the 4H chart. Could bounce here",
-      time: "30s ago"
+  // Chat belongs to a squad, so there's nothing to show in solo mode
+  const workspaceId = currentContext.type !== "solo" ? currentContext.id : null;
+
+  const { data: channelsData } = useChannels(workspaceId);
+  const channels = channelsData?.channels ?? [];
+  const activeChannel = channels.find((channel) => channel.id === selectedChannelId) ?? channels[0] ?? null;
+  const activeChannelId = activeChannel?.id ?? null;
+
+  const { data: messagePages, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useMessages(
+    workspaceId,
+    activeChannelId
+  );
+  const { data: presenceData } = usePresence(workspaceId);
+
+  const createChannel = useCreateChannel(workspaceId);
+  const sendMessage = useSendMessage(workspaceId, activeChannelId);
+  const editMessage = useEditMessage(workspaceId);
+  const deleteMessage = useDeleteMessage(workspaceId, activeChannelId);
+  const markRead = useMarkChannelRead(workspaceId);
+  const updatePresence = useUpdatePresence(workspaceId);
+
+  // Pages are newest first; messages within a page are oldest first
+  const messages = useMemo(
+    () => [...(messagePages?.pages ?? [])].reverse().flatMap((page) => page.messages),
+    [messagePages]
+  );
+  const { data: quotesData } = useChatQuotes(
+    workspaceId,
+    messages.flatMap((msg) => msg.tickers)
+  );
+  const quotes = useMemo(
+    () => new Map((quotesData?.quotes ?? []).map((quote) => [quote.symbol, quote])),
+    [quotesData]
+  );
+
+  // Messages arriving in the open channel are read straight away
+  const { mutate: markChannelRead } = markRead;
+  const handleActiveChannelMessage = useCallback(
+    (incoming: ChatMessage) => {
+      if (!incoming.isAuthor && !incoming.editedAt && !incoming.deletedAt) {
+        markChannelRead(incoming.channelId);
+      }
     },
-  ];
+    [markChannelRead]
+  );
+  useChatStream(workspaceId, activeChannelId, handleActiveChannelMessage);
+
+  useEffect(() => {
+    if (activeChannelId && (activeChannel?.unreadCount ?? 0) > 0) {
+      markChannelRead(activeChannelId);
+    }
+  }, [activeChannelId, activeChannel?.unreadCount, markChannelRead]);
+
+  // Show the chosen status, and "away" while the tab is in the background
+  const { mutate: setPresence } = updatePresence;
+  useEffect(() => {
+    if (!workspaceId) return;
+    const report = () => setPresence(document.hidden ? "away" : myStatus);
+    report();
+    document.addEventListener("visibilitychange", report);
+    return () => document.removeEventListener("visibilitychange", report);
+  }, [workspaceId, myStatus, setPresence]);
+
+  // Follow new messages, but not when loading older ones
+  const newestId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [newestId, activeChannelId]);
 
-  const onlineMembers = [
-    { username: "MoonShotKing", status: "trading" },
-    { username: "TechQueenGG", status: "online" },
-    { username: "ChartMaster420", status: "online" },
-    { username: "DayTradeDemon", status: "away" },
-  ];
+  const handleSend = () => {
+    const content = message.trim();
+    if (!content || sendMessage.isPending) return;
+    sendMessage.mutate(content, {
+      onSuccess: () => setMessage(""),
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  const handleCreateChannel = () => {
+    if (!newChannel?.trim()) {
+      setNewChannel(null);
+      return;
+    }
+    createChannel.mutate(
+      { name: newChannel },
+      {
+        onSuccess: ({ channel }) => {
+          setNewChannel(null);
+          setSelectedChannelId(channel.id);
+        },
+        onError: (error) => alert(error.message),
+      }
+    );
+  };
+
+  const members = presenceData?.members ?? [];
+  const onlineCount = members.filter((member) => member.status !== "offline").length;
+
+  if (!workspaceId) {
+    return (
+      <div className="px-4 sm:px-6 py-4">
+        <Card className="border-slate-700 bg-slate-900/50 p-8 text-center">
+          <MessageSquare className="w-8 h-8 text-cyan-400 mx-auto mb-3" />
+          <p className="text-slate-400">Switch to a squad to chat with its members</p>
+        </Card>
+      </div>
+    );
+  }
 
   return (
     <div className="px-4 sm:px-6 py-4 h-[calc(100vh-200px)]">
@@ -53,25 +158,48 @@ export default function ChatPage() {
           <div className="flex items-center gap-2 mb-4">
             <Hash className="w-5 h-5 text-cyan-400" />
             <h2 className="text-slate-100">Channels</h2>
+            <button
+              onClick={() => setNewChannel(newChannel === null ? "" : null)}
+              className="ml-auto text-slate-400 hover:text-cyan-400 transition-colors"
+              title="New channel"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
           </div>
           <div className="space-y-2">
+            {newChannel !== null && (
+              <input
+                autoFocus
+                value={newChannel}
+                onChange={(e) => setNewChannel(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleCreateChannel();
+                  if (e.key === "Escape") setNewChannel(null);
+                }}
+                placeholder="new-channel"
+                maxLength={32}
+                disabled={createChannel.isPending}
+                className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-100 text-sm placeholder-slate-500 focus:outline-none focus:border-cyan-500/50"
+              />
+            )}
             {channels.map((channel) => (
               <button
                 key={channel.id}
+                onClick={() => setSelectedChannelId(channel.id)}
                 className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
-                  channel.id === "general"
+                  channel.id === activeChannelId
                     ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/30"
                     : "text-slate-400 hover:bg-slate-800 hover:text-slate-300"
                 }`}
               >
                 <div className="flex items-center justify-between">
-                  <span className="flex items-center gap-2">
-                    <Hash className="w-4 h-4" />
+                  <span className="flex items-center gap-2 truncate">
+                    <Hash className="w-4 h-4 flex-shrink-0" />
                     {channel.name}
                   </span>
-                  {channel.unread > 0 && (
+                  {channel.unreadCount > 0 && channel.id !== activeChannelId && (
                     <span className="px-2 py-0.5 rounded-full bg-red-500/20 text-red-400 text-xs font-mono">
-                      {channel.unread}
+                      {channel.unreadCount}
                     </span>
                   )}
                 </div>
@@ -83,16 +211,27 @@ export default function ChatPage() {
             <div className="flex items-center gap-2 mb-4">
               <Users className="w-5 h-5 text-emerald-400" />
               <h2 className="text-slate-100">Online</h2>
+              <span className="text-xs text-slate-500 font-mono">{onlineCount}</span>
+              <select
+                value={myStatus}
+                onChange={(e) => setMyStatus(e.target.value as PresenceStatus)}
+                className="ml-auto bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 px-1 py-0.5 focus:outline-none"
+                title="Your status"
+              >
+                {MY_STATUSES.map((status) => (
+                  <option key={status.value} value={status.value}>
+                    {status.label}
+                  </option>
+                ))}
+              </select>
             </div>
             <div className="space-y-2">
-              {onlineMembers.map((member) => (
-                <div key={member.username} className="flex items-center gap-2 text-sm">
-                  <div className={`w-2 h-2 rounded-full ${
-                    member.status === "online" || member.status === "trading" 
-                      ? "bg-emerald-400" 
-                      : "bg-amber-400"
-                  }`} />
-                  <span className="text-slate-300">{member.username}</span>
+              {members.map((member) => (
+                <div key={member.memberId} className="flex items-center gap-2 text-sm">
+                  <div className={`w-2 h-2 rounded-full ${STATUS_DOTS[member.status]}`} />
+                  <span className={member.status === "offline" ? "text-slate-500" : "text-slate-300"}>
+                    {member.isCurrentUser ? `${member.memberName} (you)` : member.memberName}
+                  </span>
                   {member.status === "trading" && (
                     <span className="text-xs text-cyan-400">📊</span>
                   )}
@@ -103,32 +242,54 @@ export default function ChatPage() {
         </Card>
 
         {/* Chat Area */}
-        <Card className="border-slate-700 bg-slate-900/50 lg:col-span-3 flex flex-col">
+        <Card className="border-slate-700 bg-slate-900/50 lg:col-span-3 flex flex-col min-h-0">
           {/* Chat Header */}
           <div className="border-b border-slate-700 p-4">
             <div className="flex items-center gap-2">
               <Hash className="w-5 h-5 text-cyan-400" />
-              <h2 className="text-slate-100">general-chat</h2>
-              <span className="text-xs text-slate-500 ml-auto">8 members</span>
+              <h2 className="text-slate-100">{activeChannel?.name ?? "…"}</h2>
+              {activeChannel?.description && (
+                <span className="text-sm text-slate-500 truncate">{activeChannel.description}</span>
+              )}
+              <span className="text-xs text-slate-500 ml-auto">{members.length} members</span>
             </div>
           </div>
 
           {/* Messages */}
           <div className="flex-1 overflow-auto p-4 space-y-4">
-            {messages.map((msg) => (
-              <div key={msg.id} className="flex gap-3">
-                <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-purple-500 flex items-center justify-center flex-shrink-0">
-                  <span className="text-white text-sm font-mono">{msg.avatar}</span>
-                </div>
-                <div className="flex-1">
-                  <div className="flex items-baseline gap-2 mb-1">
-                    <span className="text-slate-100">{msg.username}</span>
-                    <span className="text-xs text-slate-500">{msg.time}</span>
-                  </div>
-                  <p className="text-slate-300">{msg.message}</p>
-                </div>
+            {hasNextPage && (
+              <div className="text-center">
+                <button
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load older messages"}
+                </button>
               </div>
-            ))}
+            )}
+            {isLoading ? (
+              <div className="flex items-center justify-center h-full">
+                <RefreshCw className="w-6 h-6 text-cyan-400 animate-spin" />
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-sm text-slate-500">
+                No messages yet. Say hi! Mention a ticker like $NVDA to show its price.
+              </div>
+            ) : (
+              messages.map((msg) => (
+                <ChatMessageItem
+                  key={msg.id}
+                  message={msg}
+                  quotes={quotes}
+                  onEdit={(content) =>
+                    editMessage.mutate({ messageId: msg.id, content }, { onError: (error) => alert(error.message) })
+                  }
+                  onDelete={() => deleteMessage.mutate(msg.id, { onError: (error) => alert(error.message) })}
+                />
+              ))
+            )}
+            <div ref={bottomRef} />
           </div>
 
           {/* Message Input */}
@@ -138,10 +299,17 @@ export default function ChatPage() {
                 type="text"
                 value={message}
                 onChange={(e) => setMessage(e.target.value)}
-                placeholder="Message #general-chat"
+                onKeyDown={(e) => e.key === "Enter" && handleSend()}
+                placeholder={activeChannel ? `Message #${activeChannel.name}` : "Message"}
+                maxLength={4000}
+                disabled={!activeChannel}
                 className="flex-1 px-4 py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-100 placeholder-slate-500 focus:outline-none focus:border-cyan-500/50 transition-colors"
               />
-              <button className="px-4 py-2 rounded-lg bg-cyan-500/20 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/30 transition-colors">
+              <button
+                onClick={handleSend}
+                disabled={!message.trim() || sendMessage.isPending}
+                className="px-4 py-2 rounded-lg bg-cyan-500/20 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/30 transition-colors disabled:opacity-50"
+              >
                 <Send className="w-5 h-5" />
               </button>
             </div>
@@ -1,6 +1,7 @@
 "use client";
 
 import { PrivacySettings } from '@/components/privacy-settings';
+import { NotificationSettings } from '@/components/notification-settings';
 import { Settings } from 'lucide-react';
 
 export default function SettingsPage() {
@@ -13,12 +14,15 @@ export default function SettingsPage() {
         </div>
         <div>
           <h1 className="text-slate-100">Settings</h1>
-          <p className="text-slate-400">Manage your privacy and preferences</p>
+          <p className="text-slate-400">Manage your privacy, notifications and preferences</p>
         </div>
       </div>
 
       {/* Privacy Settings */}
       <PrivacySettings />
+
+      {/* Notification Settings */}
+      <NotificationSettings />
     </div>
   );
 }
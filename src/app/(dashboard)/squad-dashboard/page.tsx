@@ -13,6 +13,8 @@ import { InfoPills } from "@/components/info-pills";
 import { SquadPortfolioChart } from "@/components/squad-portfolio-chart";
 import { TeamPortfolios } from "@/components/team-portfolios";
 import { SquadActivityFeed } from "@/components/activity/squad-activity-feed";
+import { SquadAllocation } from "@/components/allocation-breakdown";
+import { SquadOverlap } from "@/components/squad-overlap";
 
 export default function SquadDashboardPage() {
   const { currentContext } = useWorkspaceContext();
@@ -27,7 +29,7 @@ export default function SquadDashboardPage() {
 
   return (
     <>
-      <InfoPills />
+      <InfoPills workspaceId={workspaceId} />
       
       <div className="px-4 sm:px-6 py-4 space-y-6">
         {/* Squad Portfolio Chart with Privacy-Aware Features */}
@@ -57,6 +59,12 @@ export default function SquadDashboardPage() {
             />
           </div>
         </div>
+
+        {/* Sector, asset class and geography breakdown */}
+        <SquadAllocation workspaceId={workspaceId} />
+
+        {/* Shared holdings and how alike members' portfolios are */}
+        <SquadOverlap workspaceId={workspaceId} />
       </div>
     </>
   );
@@ -1,60 +1,23 @@
 "use client";
 
-import { TrendingUp, MessageCircle, Lightbulb, AlertCircle, ThumbsUp, Eye } from "lucide-react";
+import { useState } from "react";
+import { TrendingUp, Lightbulb, AlertCircle, RefreshCw } from "lucide-react";
 import { Card } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import { useWorkspaceContext } from "@/lib/use-workspace-context";
+import { useTradeIdeas } from "@/hooks/use-trade-ideas";
+import { TradeIdeaCard, PostIdeaDialog, IdeaHitRates } from "@/components/trade-ideas";
+
+type IdeaSort = "trending" | "recent";
+type IdeaStatusFilter = "open" | "closed" | "all";
 
 export default function TradingTerminalPage() {
-  const tradeIdeas = [
-    {
-      id: 1,
-      author: "MoonShotKing",
-      symbol: "NVDA",
-      title: "NVDA Bullish Breakout Setup - Target $550",
-      thesis: "AI demand continues to surge. Earnings beat expectations by 15%. Breaking out of 3-month consolidation pattern with strong volume. RSI healthy at 62.",
-      direction: "Long",
-      entry: 495.30,
-      target: 550.00,
-      stopLoss: 475.00,
-      timeframe: "2-4 weeks",
-      likes: 24,
-      comments: 8,
-      views: 156,
-      tags: ["AI", "Earnings Play", "Breakout"]
-    },
-    {
-      id: 2,
-      author: "ChartMaster420",
-      symbol: "TSLA",
-      title: "Tesla Short-Term Bounce Play",
-      thesis: "Oversold on daily RSI (28). Bouncing off 200-day MA support. China sales numbers better than expected. Looking for dead cat bounce to $265.",
-      direction: "Long",
-      entry: 251.80,
-      target: 265.00,
-      stopLoss: 245.00,
-      timeframe: "1-2 weeks",
-      likes: 18,
-      comments: 12,
-      views: 203,
-      tags: ["Technical", "Bounce Play", "Short-term"]
-    },
-    {
-      id: 3,
-      author: "TechQueenGG",
-      symbol: "AAPL",
-      title: "Apple Put Spreads - Expecting Pullback",
-      thesis: "Overextended after iPhone launch hype. Forward P/E at 32 (historical avg 25). Rate cut expectations priced in. Bearish divergence on MACD.",
-      direction: "Short",
-      entry: 189.45,
-      target: 175.00,
-      stopLoss: 195.00,
-      timeframe: "3-6 weeks",
-      likes: 15,
-      comments: 6,
-      views: 142,
-      tags: ["Options", "Mean Reversion", "Overvalued"]
-    }
-  ];
+  const { currentContext } = useWorkspaceContext();
+  const [sort, setSort] = useState<IdeaSort>("trending");
+  const [status, setStatus] = useState<IdeaStatusFilter>("all");
+
+  // Ideas are shared with a squad, so there are none in solo mode
+  const workspaceId = currentContext.type !== "solo" ? currentContext.id : null;
+  const { data, isLoading, error } = useTradeIdeas(workspaceId, { sort, status });
 
   return (
     <div className="px-4 sm:px-6 py-4 space-y-6">
@@ -67,10 +30,7 @@ export default function TradingTerminalPage() {
           <h1 className="text-slate-100">Trading Terminal</h1>
           <p className="text-slate-400">Advanced charts and community trade ideas</p>
         </div>
-        <button className="px-4 py-2 rounded-lg bg-cyan-500/20 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/30 transition-colors">
-          <Lightbulb className="w-5 h-5 inline mr-2" />
-          Post Idea
-        </button>
+        <PostIdeaDialog workspaceId={workspaceId} />
       </div>
 
       {/* TradingView Integration Placeholder */}
@@ -90,90 +50,70 @@ export default function TradingTerminalPage() {
       </Card>
 
       {/* Trade Ideas Feed */}
-      <div>
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-slate-200 flex items-center gap-2">
-            <Lightbulb className="w-5 h-5 text-amber-400" />
-            Community Trade Ideas
-          </h2>
-          <div className="flex gap-2">
-            <button className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:border-cyan-500/50 transition-colors text-sm">
-              Trending
-            </button>
-            <button className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:border-cyan-500/50 transition-colors text-sm">
-              Recent
-            </button>
-          </div>
-        </div>
-
-        <div className="space-y-4">
-          {tradeIdeas.map((idea) => (
-            <Card key={idea.id} className="border-slate-700 bg-slate-900/50 p-6 hover:border-cyan-500/50 transition-all">
-              {/* Header */}
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 mb-2">
-                    <span className="font-mono text-cyan-400">${idea.symbol}</span>
-                    <Badge variant={idea.direction === "Long" ? "default" : "destructive"}>
-                      {idea.direction}
-                    </Badge>
-                    <span className="text-xs text-slate-500">by {idea.author}</span>
-                  </div>
-                  <h3 className="text-slate-100 mb-2">{idea.title}</h3>
-                </div>
-              </div>
-
-              {/* Thesis */}
-              <p className="text-slate-300 text-sm mb-4 leading-relaxed">
-                {idea.thesis}
-              </p>
-
-              {/* Trade Details */}
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
-                <div className="bg-slate-800/50 rounded-lg p-3">
-                  <p className="text-xs text-slate-500 mb-1">Entry</p>
-                  <p className="font-mono text-slate-100 text-sm">${idea.entry}</p>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-3">
-                  <p className="text-xs text-slate-500 mb-1">Target</p>
-                  <p className="font-mono text-emerald-400 text-sm">${idea.target}</p>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-3">
-                  <p className="text-xs text-slate-500 mb-1">Stop Loss</p>
-                  <p className="font-mono text-red-400 text-sm">${idea.stopLoss}</p>
-                </div>
-                <div className="bg-slate-800/50 rounded-lg p-3">
-                  <p className="text-xs text-slate-500 mb-1">Timeframe</p>
-                  <p className="text-slate-100 text-sm">{idea.timeframe}</p>
-                </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <div className="flex items-center justify-between mb-4 gap-2 flex-wrap">
+            <h2 className="text-slate-200 flex items-center gap-2">
+              <Lightbulb className="w-5 h-5 text-amber-400" />
+              Squad Trade Ideas
+            </h2>
+            <div className="flex gap-2">
+              <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1 border border-slate-700/50">
+                {(["open", "closed", "all"] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setStatus(option)}
+                    className={`px-3 py-1 rounded-md text-sm capitalize transition-colors ${
+                      status === option
+                        ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/40"
+                        : "text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
               </div>
-
-              {/* Tags */}
-              <div className="flex flex-wrap gap-2 mb-4">
-                {idea.tags.map((tag, idx) => (
-                  <span key={idx} className="px-2 py-1 rounded bg-purple-500/10 border border-purple-500/30 text-purple-400 text-xs">
-                    {tag}
-                  </span>
+              <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1 border border-slate-700/50">
+                {(["trending", "recent"] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setSort(option)}
+                    className={`px-3 py-1 rounded-md text-sm capitalize transition-colors ${
+                      sort === option
+                        ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/40"
+                        : "text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    {option}
+                  </button>
                 ))}
               </div>
+            </div>
+          </div>
 
-              {/* Engagement */}
-              <div className="flex items-center gap-4 pt-4 border-t border-slate-700">
-                <button className="flex items-center gap-1 text-slate-400 hover:text-emerald-400 transition-colors">
-                  <ThumbsUp className="w-4 h-4" />
-                  <span className="text-sm font-mono">{idea.likes}</span>
-                </button>
-                <button className="flex items-center gap-1 text-slate-400 hover:text-cyan-400 transition-colors">
-                  <MessageCircle className="w-4 h-4" />
-                  <span className="text-sm font-mono">{idea.comments}</span>
-                </button>
-                <div className="flex items-center gap-1 text-slate-500">
-                  <Eye className="w-4 h-4" />
-                  <span className="text-sm font-mono">{idea.views}</span>
-                </div>
+          <div className="space-y-4">
+            {!workspaceId ? (
+              <Card className="border-slate-700 bg-slate-900/50 p-8 text-center text-slate-400 text-sm">
+                Switch to a squad to see and post trade ideas
+              </Card>
+            ) : isLoading ? (
+              <div className="flex items-center justify-center h-48">
+                <RefreshCw className="w-6 h-6 text-cyan-400 animate-spin" />
               </div>
-            </Card>
-          ))}
+            ) : error ? (
+              <div className="flex items-center justify-center h-48 text-sm text-red-400">{error.message}</div>
+            ) : !data || data.ideas.length === 0 ? (
+              <Card className="border-slate-700 bg-slate-900/50 p-8 text-center text-slate-400 text-sm">
+                No trade ideas yet. Post the first one!
+              </Card>
+            ) : (
+              data.ideas.map((idea) => <TradeIdeaCard key={idea.id} workspaceId={workspaceId} idea={idea} />)
+            )}
+          </div>
+        </div>
+
+        <div>
+          <IdeaHitRates workspaceId={workspaceId} />
         </div>
       </div>
 
@@ -20,6 +20,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { CreateWorkspaceDialog } from "@/components/create-workspace-dialog";
+import { useLeaveWorkspace } from "@/hooks/use-workspace-members";
 
 interface Workspace {
   id: string;
@@ -33,20 +34,76 @@ interface Workspace {
   messagesToday: number;
   isActive: boolean;
   isMember: boolean;
+  role?: "OWNER" | "ADMIN" | "MEMBER";
   category: string;
   avatarColor: string;
 }
 
+/**
+ * Join a workspace with an invite link token or join code
+ * Returns an error message, or null on success
+ */
+async function redeemInvite(invite: { token?: string; code?: string }): Promise<string | null> {
+  try {
+    const response = await fetch('/api/workspace/join', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(invite),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      return data.error || 'Failed to join workspace';
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error joining workspace:', error);
+    return 'Failed to join workspace';
+  }
+}
+
 export default function WorkspacesPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [myWorkspaces, setMyWorkspaces] = useState<Workspace[]>([]);
   const [loading, setLoading] = useState(true);
+  const [joinCode, setJoinCode] = useState("");
+  const [joining, setJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const leaveWorkspace = useLeaveWorkspace();
 
   useEffect(() => {
     fetchWorkspaces();
+
+    // Redeem invite links (/workspaces?invite=<token>)
+    const inviteToken = new URLSearchParams(window.location.search).get("invite");
+    if (inviteToken) {
+      window.history.replaceState(null, "", window.location.pathname);
+      setJoining(true);
+      redeemInvite({ token: inviteToken }).then((error) => {
+        setJoinError(error);
+        setJoining(false);
+        if (!error) fetchWorkspaces();
+      });
+    }
   }, []);
 
+  const handleJoin = async (invite: { token?: string; code?: string }) => {
+    setJoining(true);
+    setJoinError(null);
+
+    const error = await redeemInvite(invite);
+    if (error) {
+      setJoinError(error);
+    } else {
+      setJoinCode("");
+      await fetchWorkspaces();
+    }
+
+    setJoining(false);
+  };
+
   const fetchWorkspaces = async () => {
     try {
       const response = await fetch('/api/workspace');
@@ -65,6 +122,7 @@ export default function WorkspacesPage() {
         messagesToday: 0, // TODO: Fetch from activity API
         isActive: w.isActive || false,
         isMember: true, // User is always a member of their workspaces
+        role: w.role,
         category: "Trading Squad",
         avatarColor: "from-purple-500 to-pink-500",
       })) || [];
@@ -77,6 +135,18 @@ export default function WorkspacesPage() {
     }
   };
 
+  const handleLeave = async (workspace: Workspace) => {
+    if (!window.confirm(`Leave ${workspace.name}?`)) return;
+
+    setJoinError(null);
+    try {
+      await leaveWorkspace.mutateAsync(workspace.id);
+      await fetchWorkspaces();
+    } catch (error) {
+      setJoinError(error instanceof Error ? error.message : 'Failed to leave workspace');
+    }
+  };
+
   const recommendedWorkspaces: Workspace[] = []; // TODO: Implement recommended workspaces
 
   const WorkspaceCard = ({ workspace }: { workspace: Workspace }) => {
@@ -155,15 +225,31 @@ export default function WorkspacesPage() {
                 {getTypeIcon()}
                 <span className="ml-1">{getTypeText()}</span>
               </Badge>
+              {workspace.role && workspace.role !== "MEMBER" && (
+                <Badge variant="outline" className="border-cyan-500/30 text-cyan-400 text-xs">
+                  {workspace.role.toLowerCase()}
+                </Badge>
+              )}
               <span className="text-xs text-slate-500 truncate">
                 {workspace.memberCount} / {workspace.maxMembers} members
               </span>
             </div>
             {workspace.isMember ? (
-              <Button size="sm" className="bg-cyan-500/20 text-cyan-400 border border-cyan-500/30 hover:bg-cyan-500/30">
-                Enter
-                <ArrowRight className="w-4 h-4 ml-1" />
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={leaveWorkspace.isPending}
+                  onClick={() => handleLeave(workspace)}
+                  className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                >
+                  Leave
+                </Button>
+                <Button size="sm" className="bg-cyan-500/20 text-cyan-400 border border-cyan-500/30 hover:bg-cyan-500/30">
+                  Enter
+                  <ArrowRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
             ) : (
               <Button size="sm" variant="outline" className="border-slate-600 hover:border-cyan-500 hover:text-cyan-400">
                 {workspace.type === "request" ? "Request" : "Join"}
@@ -183,9 +269,38 @@ export default function WorkspacesPage() {
           <h1 className="text-slate-100 mb-1">Workspaces</h1>
           <p className="text-slate-400">Discover and join trading communities</p>
         </div>
-        <CreateWorkspaceDialog onWorkspaceCreated={fetchWorkspaces} />
+        <div className="flex items-center gap-2">
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (joinCode.trim()) handleJoin({ code: joinCode.trim() });
+            }}
+          >
+            <Input
+              placeholder="Join code"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value)}
+              className="w-32 bg-slate-800/50 border-slate-700 text-white uppercase"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              variant="outline"
+              disabled={joining || !joinCode.trim()}
+              className="border-slate-600 hover:border-cyan-500 hover:text-cyan-400"
+            >
+              {joining ? "Joining..." : "Join"}
+            </Button>
+          </form>
+          <CreateWorkspaceDialog onWorkspaceCreated={fetchWorkspaces} />
+        </div>
       </div>
 
+      {joinError && (
+        <p className="text-sm text-red-400">{joinError}</p>
+      )}
+
       {/* Search & Filters */}
       <div className="flex gap-3 flex-wrap">
         <div className="relative flex-1 min-w-[200px]">
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronAuth } from "@/lib/cron-auth";
+import { evaluateTradeIdeas } from "@/lib/trade-ideas";
+
+/**
+ * GET /api/cron/evaluate-ideas
+ * Close open trade ideas that hit their target or stop, or expired, and announce the outcomes
+ */
+export async function GET(req: NextRequest) {
+  if (!verifyCronAuth(req)) {
+    console.error("[Cron Ideas] Unauthorized request");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await evaluateTradeIdeas();
+
+    console.log(
+      `[Cron Ideas] Evaluated ${summary.evaluated} open ideas. Target hit: ${summary.closed.target_hit}, Stopped out: ${summary.closed.stopped_out}, Expired: ${summary.closed.expired}`
+    );
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[Cron Ideas] Fatal error:", errorMessage);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { verifyCronAuth } from "@/lib/cron-auth";
+import { enqueueSyncJob, processSyncQueue } from "@/lib/sync-queue";
+import { compactIntradaySnapshots, isIntradayWindow } from "@/lib/intraday-snapshots";
+
+/**
+ * GET /api/cron/intraday-snapshots
+ * During market hours, queue a positions sync for every connected user so the snapshots
+ * stage records an intraday snapshot; always collapse expired intraday snapshots into daily rows
+ */
+export async function GET(req: NextRequest) {
+  if (!verifyCronAuth(req)) {
+    console.error("[Cron Intraday] Unauthorized request");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const now = new Date();
+    const compacted = await compactIntradaySnapshots(now);
+
+    if (!isIntradayWindow(now)) {
+      return NextResponse.json({ success: true, skipped: "market closed", compacted });
+    }
+
+    const snaptradeUsers = await prisma.snaptradeUser.findMany({
+      where: { brokerageConnections: { some: { status: "active" } } },
+      select: { userId: true },
+    });
+
+    // Users who already have a queued or running job keep that one
+    for (const snaptradeUser of snaptradeUsers) {
+      await enqueueSyncJob(snaptradeUser.userId, "positions");
+    }
+
+    const summary = await processSyncQueue({ timeBudgetMs: 4 * 60 * 1000 });
+
+    console.log(
+      `[Cron Intraday] Queued ${snaptradeUsers.length} users. Processed: ${summary.processed}, Success: ${summary.completed}, Retrying: ${summary.retried}, Failed: ${summary.failed}, Compacted: ${compacted}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary: { totalUsers: snaptradeUsers.length, compacted, ...summary },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[Cron Intraday] Fatal error:", errorMessage);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
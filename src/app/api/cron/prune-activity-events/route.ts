@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronAuth } from "@/lib/cron-auth";
+import { EVENT_RETENTION_DAYS, pruneActivityEvents } from "@/lib/activity-events";
+
+/**
+ * GET /api/cron/prune-activity-events
+ * Delete live activity stream events older than the retention window
+ */
+export async function GET(req: NextRequest) {
+  if (!verifyCronAuth(req)) {
+    console.error("[Cron Activity Events] Unauthorized request");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const deleted = await pruneActivityEvents();
+
+    console.log(
+      `[Cron Activity Events] Deleted ${deleted} events older than ${EVENT_RETENTION_DAYS} days`
+    );
+
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[Cron Activity Events] Fatal error:", errorMessage);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronAuth } from "@/lib/cron-auth";
+import { sendDigests } from "@/lib/digest";
+
+/**
+ * GET /api/cron/send-digests
+ * Email the daily digest, and on Mondays the weekly one, to members who opted in
+ */
+export async function GET(req: NextRequest) {
+  if (!verifyCronAuth(req)) {
+    console.error("[Cron Digest] Unauthorized request");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await sendDigests();
+
+    console.log(
+      `[Cron Digest] Sent ${summary.sent} of ${summary.considered} digests ` +
+        `(${summary.empty} empty, ${summary.skipped} already sent, ${summary.failed} failed)`
+    );
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[Cron Digest] Fatal error:", errorMessage);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronAuth } from "@/lib/cron-auth";
+import { processSyncQueue } from "@/lib/sync-queue";
+
+/**
+ * GET /api/cron/sync-queue
+ * Process due sync jobs, including retries waiting out their backoff
+ */
+export async function GET(req: NextRequest) {
+  if (!verifyCronAuth(req)) {
+    console.error("[Cron SyncQueue] Unauthorized request");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await processSyncQueue();
+
+    if (summary.processed > 0) {
+      console.log(
+        `[Cron SyncQueue] Processed ${summary.processed} job(s): ${summary.completed} completed, ${summary.retried} retrying, ${summary.failed} failed`
+      );
+    }
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[Cron SyncQueue] Fatal error:", errorMessage);
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { buildDigest, renderDigest } from "@/lib/digest";
+
+/**
+ * Preview the current user's digest email without sending it (development only)
+ * GET /api/debug/digest-preview?frequency=daily|weekly&format=html|text
+ *
+ * Renders even when there's nothing to report, so the empty state can be checked too
+ */
+export async function GET(req: NextRequest) {
+  if (process.env.NODE_ENV !== "development") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const session = await auth.api.getSession({ headers: req.headers });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const frequency = url.searchParams.get("frequency") === "weekly" ? "weekly" : "daily";
+    const format = url.searchParams.get("format") === "text" ? "text" : "html";
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: session.user.id },
+      select: { id: true, name: true, settings: true },
+    });
+    const { subject, html, text } = await renderDigest(await buildDigest(user, frequency));
+
+    return new NextResponse(format === "text" ? `Subject: ${subject}\n\n${text}` : html, {
+      headers: { "Content-Type": `text/${format === "text" ? "plain" : "html"}; charset=utf-8` },
+    });
+  } catch (error) {
+    console.error("Error rendering digest preview:", error);
+    return NextResponse.json(
+      { error: "Failed to render digest preview" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getNotificationPreferences, updateNotificationPreferences } from "@/lib/notifications";
+import {
+  UpdateNotificationPreferencesSchema,
+  type NotificationPreferencesResponse,
+} from "@/lib/validations/notifications";
+
+/**
+ * GET /api/notifications/preferences
+ * Which events notify the current user, in which workspaces and over which channels
+ */
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const response: NotificationPreferencesResponse = {
+      preferences: await getNotificationPreferences(session.user.id),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications/preferences
+ * Update some of the current user's notification preferences
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const bodyResult = UpdateNotificationPreferencesSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    const response: NotificationPreferencesResponse = {
+      preferences: await updateNotificationPreferences(session.user.id, bodyResult.data),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update notification preferences" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { markAllNotificationsRead } from "@/lib/notifications";
+import type { MarkNotificationsReadResponse } from "@/lib/validations/notifications";
+
+/**
+ * POST /api/notifications/read-all
+ * Mark all of the current user's notifications read
+ */
+export async function POST() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const response: MarkNotificationsReadResponse = {
+      updated: await markAllNotificationsRead(session.user.id),
+      unreadCount: 0,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error marking all notifications read:", error);
+    return NextResponse.json(
+      { error: "Failed to mark notifications read" },
+      { status: 500 }
+    );
+  }
+}
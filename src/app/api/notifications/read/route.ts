@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getUnreadNotificationCount, markNotificationsRead } from "@/lib/notifications";
+import {
+  MarkNotificationsReadSchema,
+  type MarkNotificationsReadResponse,
+} from "@/lib/validations/notifications";
+
+/**
+ * POST /api/notifications/read
+ * Mark some of the current user's notifications read
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const body = await request.json();
+    const bodyResult = MarkNotificationsReadSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    const updated = await markNotificationsRead(userId, bodyResult.data.ids);
+    const response: MarkNotificationsReadResponse = {
+      updated,
+      unreadCount: await getUnreadNotificationCount(userId),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error marking notifications read:", error);
+    return NextResponse.json(
+      { error: "Failed to mark notifications read" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getNotifications, getUnreadNotificationCount } from "@/lib/notifications";
+import {
+  NotificationsQuerySchema,
+  type NotificationsResponse,
+} from "@/lib/validations/notifications";
+
+/**
+ * GET /api/notifications?unreadOnly=true&before=<id>&limit=20
+ * The current user's notifications across all workspaces, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = NotificationsQuerySchema.safeParse({
+      unreadOnly: searchParams.get("unreadOnly") || undefined,
+      before: searchParams.get("before") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: queryResult.error },
+        { status: 400 }
+      );
+    }
+
+    const [page, unreadCount] = await Promise.all([
+      getNotifications(userId, queryResult.data),
+      getUnreadNotificationCount(userId),
+    ]);
+
+    const response: NotificationsResponse = { ...page, unreadCount };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { unsubscribeFromDigest, verifyUnsubscribeToken } from "@/lib/digest";
+
+/**
+ * GET /api/notifications/unsubscribe?token=...
+ * Confirmation page for the digest's unsubscribe link (doesn't unsubscribe by itself,
+ * so link scanners opening it don't turn the digest off)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const token = req.nextUrl.searchParams.get("token") ?? "";
+    if (!verifyUnsubscribeToken(token)) {
+      return page("This unsubscribe link is invalid. Turn the digest off in your notification settings instead.", 400);
+    }
+
+    return page(
+      `<p>Stop getting the squad digest email?</p>
+       <form method="POST" action="?token=${encodeURIComponent(token)}">
+         <button type="submit">Unsubscribe</button>
+       </form>`
+    );
+  } catch (error) {
+    console.error("Error checking digest unsubscribe link:", error);
+    return NextResponse.json(
+      { error: "Failed to check unsubscribe link" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/notifications/unsubscribe?token=...
+ * Turn the digest off, from the confirmation page or a mail client's one-click unsubscribe
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = verifyUnsubscribeToken(req.nextUrl.searchParams.get("token") ?? "");
+    if (!userId || !(await unsubscribeFromDigest(userId))) {
+      return page("This unsubscribe link is invalid. Turn the digest off in your notification settings instead.", 400);
+    }
+
+    return page("You won't get the squad digest any more. Turn it back on any time in your notification settings.");
+  } catch (error) {
+    console.error("Error unsubscribing from digest:", error);
+    return NextResponse.json(
+      { error: "Failed to unsubscribe" },
+      { status: 500 }
+    );
+  }
+}
+
+function page(body: string, status = 200) {
+  return new NextResponse(
+    `<!doctype html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Squad digest</title></head><body style="font-family: sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px;">${body}</body></html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseQueryParams, zodErrorResponse } from "@/lib/api-helpers";
+import { buildAllocation } from "@/lib/allocation";
+import { classifySecurities } from "@/lib/security-classification";
+import {
+  PortfolioAllocationQuerySchema,
+  type PortfolioAllocationResponse,
+} from "@/lib/validations/portfolio";
+
+/**
+ * GET /api/portfolio/allocation?accountId=
+ * Sector, asset class and geography breakdown of your holdings (or one account's)
+ */
+export async function GET(req: NextRequest) {
+  const session = await auth.api.getSession({ headers: req.headers });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const queryResult = parseQueryParams(req, PortfolioAllocationQuerySchema);
+  if (!queryResult.success) {
+    return NextResponse.json(zodErrorResponse(queryResult.error), { status: 400 });
+  }
+
+  const { accountId } = queryResult.data as { accountId?: string };
+
+  const positions = await prisma.position.findMany({
+    where: {
+      quantity: { gt: 0 },
+      account: {
+        connection: { snaptradeUser: { userId: session.user.id } },
+        ...(accountId ? { id: accountId } : {}),
+      },
+    },
+    select: { symbol: true, securityType: true, marketValue: true },
+  });
+
+  const classifications = await classifySecurities(positions);
+
+  const response: PortfolioAllocationResponse = {
+    allocation: buildAllocation(positions, classifications),
+  };
+
+  return NextResponse.json(response);
+}
@@ -3,9 +3,30 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import {
   PortfolioHistoryQuerySchema,
+  type IntradayInterval,
+  type ReturnMode,
   type TimePeriod,
 } from "@/lib/validations/portfolio";
 import { parseQueryParams, zodErrorResponse } from "@/lib/api-helpers";
+import {
+  computeReturnSeries,
+  computeReturnSummary,
+  computeTwrSeries,
+  getCashFlowsByAccount,
+  type ReturnPoint,
+} from "@/lib/returns";
+import {
+  bucketIntradaySnapshots,
+  DEFAULT_INTRADAY_INTERVAL,
+  formatIntradayLabel,
+  getChartSessions,
+  getIntradayQueryStart,
+  isIntradayPeriod,
+  type IntradayPeriod,
+  type IntradayPoint,
+} from "@/lib/intraday-snapshots";
+import { isReconstructedSnapshot } from "@/lib/snapshot-backfill";
+import { DEFAULT_BENCHMARK, getBenchmarkSeries } from "@/lib/benchmarks";
 
 // Define sampling intervals for each period
 // This ensures consistent, evenly-spaced data points for charts
@@ -14,8 +35,16 @@ interface SamplingConfig {
   maxPoints: number;     // Maximum data points to return
 }
 
+interface DailyTotals {
+  totalValue: number;
+  totalPL: number;
+  isReconstructed: boolean; // Rebuilt from transactions rather than recorded by a sync
+}
+
+// 1D and 1W normally come from intraday snapshots; these are the fallbacks
+// until enough intraday snapshots exist (e.g. right after connecting)
 const SAMPLING_CONFIG: Record<TimePeriod, SamplingConfig> = {
-  "1D": { intervalDays: 1, maxPoints: 1 },      // Single current point (future: hourly)
+  "1D": { intervalDays: 1, maxPoints: 1 },      // Single current point
   "1W": { intervalDays: 1, maxPoints: 7 },      // Daily for a week
   "1M": { intervalDays: 7, maxPoints: 5 },      // Weekly for a month (~4-5 points)
   "3M": { intervalDays: 7, maxPoints: 13 },     // Weekly for 3 months
@@ -78,15 +107,15 @@ function generateSampleDates(
 // Find the closest snapshot value for a given date
 function findClosestValue(
   targetDate: Date,
-  groupedData: Map<string, { totalValue: number; totalPL: number }>,
+  groupedData: Map<string, DailyTotals>,
   sortedDates: string[]
-): { value: number; pl: number; isInterpolated: boolean } {
+): { value: number; pl: number; isInterpolated: boolean; isReconstructed: boolean } {
   const targetKey = targetDate.toISOString().split("T")[0];
   
   // Exact match
   if (groupedData.has(targetKey)) {
     const data = groupedData.get(targetKey)!;
-    return { value: data.totalValue, pl: data.totalPL, isInterpolated: false };
+    return { value: data.totalValue, pl: data.totalPL, isInterpolated: false, isReconstructed: data.isReconstructed };
   }
   
   // Find nearest date before target (backward fill)
@@ -101,17 +130,83 @@ function findClosestValue(
   
   if (nearestBefore) {
     const data = groupedData.get(nearestBefore)!;
-    return { value: data.totalValue, pl: data.totalPL, isInterpolated: true };
+    return { value: data.totalValue, pl: data.totalPL, isInterpolated: true, isReconstructed: data.isReconstructed };
   }
   
   // Find nearest date after target (forward fill for dates before first snapshot)
   const nearestAfter = sortedDates.find(d => d > targetKey);
   if (nearestAfter) {
     const data = groupedData.get(nearestAfter)!;
-    return { value: data.totalValue, pl: data.totalPL, isInterpolated: true };
+    return { value: data.totalValue, pl: data.totalPL, isInterpolated: true, isReconstructed: data.isReconstructed };
   }
   
-  return { value: 0, pl: 0, isInterpolated: true };
+  return { value: 0, pl: 0, isInterpolated: true, isReconstructed: false };
+}
+
+// Find the cumulative return as of a given date (backward fill, 0 before the first point)
+function findReturnAtDate(dateKey: string, series: ReturnPoint[]): number {
+  let returnPercent = 0;
+  for (const point of series) {
+    if (point.date > dateKey) break;
+    returnPercent = point.returnPercent;
+  }
+  return returnPercent;
+}
+
+// P/L as a percentage of the amount invested
+function computePlPercent(value: number, pl: number): number {
+  const initialInvestment = value - pl;
+  if (Math.abs(initialInvestment) <= 0.01) return 0;
+  const calculated = (pl / initialInvestment) * 100;
+  return isFinite(calculated) ? calculated : 0;
+}
+
+// Build the response for a 1D/1W chart from bucketed intraday points
+async function buildIntradayHistory(
+  points: IntradayPoint[],
+  accountIds: string[],
+  period: IntradayPeriod,
+  interval: IntradayInterval,
+  returnMode: ReturnMode,
+  benchmarkSymbols: string[]
+) {
+  const valueSeries = points.map((point) => ({ date: point.date, value: point.value }));
+  const cashFlows = [
+    ...(await getCashFlowsByAccount(accountIds, new Date(points[0].date))).values(),
+  ].flat();
+
+  // XIRR isn't meaningful over a few sessions, so both return modes use the time-weighted return
+  const returnSeries = returnMode === "value" ? null : computeTwrSeries(valueSeries, cashFlows);
+
+  const history = points.map((point, i) => ({
+    date: point.date,
+    value: point.value,
+    pl: point.pl,
+    plPercent: computePlPercent(point.value, point.pl),
+    isInterpolated: false,
+    label: formatIntradayLabel(new Date(point.date), period),
+    ...(returnSeries ? { returnPercent: returnSeries[i].returnPercent } : {}),
+  }));
+
+  const benchmarks = await getBenchmarkSeries(
+    benchmarkSymbols,
+    points.map((point) => point.date),
+    { intraday: true, ...(returnMode === "value" ? { baseValue: points[0].value } : {}) }
+  );
+
+  return {
+    history,
+    benchmarks,
+    period,
+    returnMode,
+    interval,
+    returns: { ...computeReturnSummary(valueSeries, cashFlows), mwr: null },
+    dataQuality: {
+      actualPoints: history.length,
+      totalPoints: history.length,
+      coverage: 100,
+    },
+  };
 }
 
 export async function GET(req: NextRequest) {
@@ -126,7 +221,14 @@ export async function GET(req: NextRequest) {
     return NextResponse.json(zodErrorResponse(queryResult.error), { status: 400 });
   }
 
-  const { period, accountId } = queryResult.data as { period: TimePeriod; accountId?: string };
+  const { period, accountId, returnMode, interval, benchmarks } = queryResult.data as {
+    period: TimePeriod;
+    accountId?: string;
+    returnMode: ReturnMode;
+    interval?: IntradayInterval;
+    benchmarks?: string[];
+  };
+  const benchmarkSymbols = benchmarks ?? [DEFAULT_BENCHMARK];
   const config = SAMPLING_CONFIG[period];
 
   // Calculate date range
@@ -141,6 +243,7 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ 
       history: [], 
       period,
+      returnMode,
       dataQuality: {
         actualPoints: 0,
         totalPoints: 0,
@@ -149,6 +252,33 @@ export async function GET(req: NextRequest) {
     });
   }
 
+  // 1D/1W: intraday snapshots bucketed within market sessions
+  if (isIntradayPeriod(period)) {
+    const sessions = getChartSessions(period, now);
+    const intradaySnapshots = sessions.length > 0
+      ? await prisma.intradaySnapshot.findMany({
+          where: {
+            snapshotAt: { gte: getIntradayQueryStart(sessions) },
+            account: {
+              connection: { snaptradeUserId: snaptradeUser.id },
+              ...(accountId ? { id: accountId } : {}),
+            },
+          },
+          orderBy: { snapshotAt: "asc" },
+        })
+      : [];
+
+    const bucketInterval = interval ?? DEFAULT_INTRADAY_INTERVAL[period];
+    const points = bucketIntradaySnapshots(intradaySnapshots, sessions, bucketInterval);
+
+    if (points.length >= 2) {
+      const accountIds = [...new Set(intradaySnapshots.map((snap) => snap.accountId))];
+      return NextResponse.json(
+        await buildIntradayHistory(points, accountIds, period, bucketInterval, returnMode, benchmarkSymbols)
+      );
+    }
+  }
+
   // Get the first connection/snapshot date for join date
   const firstConnection = await prisma.brokerageConnection.findFirst({
     where: {
@@ -196,19 +326,30 @@ export async function GET(req: NextRequest) {
   });
 
   // Group snapshots by date and aggregate across accounts
-  const groupedData = new Map<string, { totalValue: number; totalPL: number }>();
+  // (a day counts as reconstructed if any account's snapshot for it was)
+  const groupedData = new Map<string, DailyTotals>();
   
   for (const snap of snapshots) {
     const dateKey = snap.snapshotDate.toISOString().split("T")[0];
-    const existing = groupedData.get(dateKey) || { totalValue: 0, totalPL: 0 };
+    const existing = groupedData.get(dateKey) || { totalValue: 0, totalPL: 0, isReconstructed: false };
     groupedData.set(dateKey, {
       totalValue: existing.totalValue + snap.totalValue,
       totalPL: existing.totalPL + snap.totalPL,
+      isReconstructed: existing.isReconstructed || isReconstructedSnapshot(snap.metadata),
     });
   }
 
   const sortedDates = Array.from(groupedData.keys()).sort();
 
+  // Cash-flow adjusted returns (deposits/withdrawals from synced transactions)
+  const valueSeries = sortedDates.map((date) => ({
+    date,
+    value: groupedData.get(date)!.totalValue,
+  }));
+  const accountIds = [...new Set(snapshots.map((snap) => snap.accountId))];
+  const cashFlows = [...(await getCashFlowsByAccount(accountIds, effectiveStart)).values()].flat();
+  const returnSeries = computeReturnSeries(returnMode, valueSeries, cashFlows);
+
   // Generate sample dates for this period
   const sampleDates = generateSampleDates(effectiveStart, now, config);
 
@@ -219,27 +360,27 @@ export async function GET(req: NextRequest) {
     pl: number;
     plPercent: number;
     isInterpolated: boolean;
+    isReconstructed?: boolean;
     label: string;  // Pre-formatted label for the chart
+    returnPercent?: number;
   }> = [];
 
   let actualPointCount = 0;
+  let reconstructedPointCount = 0;
 
   for (const sampleDate of sampleDates) {
     const dateKey = sampleDate.toISOString().split("T")[0];
-    const { value, pl, isInterpolated } = findClosestValue(sampleDate, groupedData, sortedDates);
+    const { value, pl, isInterpolated, isReconstructed } = findClosestValue(sampleDate, groupedData, sortedDates);
     
     if (!isInterpolated) {
       actualPointCount++;
     }
-
-    // Calculate plPercent
-    const initialInvestment = value - pl;
-    let plPercent = 0;
-    if (Math.abs(initialInvestment) > 0.01) {
-      const calculated = (pl / initialInvestment) * 100;
-      plPercent = isFinite(calculated) ? calculated : 0;
+    if (isReconstructed) {
+      reconstructedPointCount++;
     }
 
+    const plPercent = computePlPercent(value, pl);
+
     // Generate label based on period
     const label = formatDateLabel(sampleDate, period);
 
@@ -249,7 +390,9 @@ export async function GET(req: NextRequest) {
       pl,
       plPercent,
       isInterpolated,
+      ...(isReconstructed ? { isReconstructed } : {}),
       label,
+      ...(returnSeries ? { returnPercent: findReturnAtDate(dateKey, returnSeries) } : {}),
     });
   }
 
@@ -257,13 +400,26 @@ export async function GET(req: NextRequest) {
   const totalPoints = history.length;
   const coverage = totalPoints > 0 ? (actualPointCount / totalPoints) * 100 : 0;
 
+  // Benchmarks start with the chart (and, for value charts, at its starting value)
+  const benchmarkSeries = history.length > 0
+    ? await getBenchmarkSeries(
+        benchmarkSymbols,
+        history.map((point) => point.date),
+        returnMode === "value" ? { baseValue: history[0].value } : {}
+      )
+    : [];
+
   return NextResponse.json({
     history,
+    benchmarks: benchmarkSeries,
     period,
+    returnMode,
+    returns: computeReturnSummary(valueSeries, cashFlows),
     dataQuality: {
       actualPoints: actualPointCount,
       totalPoints,
       coverage: Math.round(coverage),
+      reconstructedPoints: reconstructedPointCount,
     },
   });
 }
@@ -272,7 +428,7 @@ export async function GET(req: NextRequest) {
 function formatDateLabel(date: Date, period: TimePeriod): string {
   switch (period) {
     case "1D":
-      // For intraday (future), show time; for now show "Today"
+      // Only reached before intraday snapshots exist (single current point)
       return "Today";
     
     case "1W":
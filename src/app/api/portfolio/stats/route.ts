@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseQueryParams, zodErrorResponse } from "@/lib/api-helpers";
+import { DEFAULT_BENCHMARK } from "@/lib/benchmarks";
+import { computePortfolioStats, getBenchmarkLevels, loadStatsInputs } from "@/lib/portfolio-stats";
+import {
+  PortfolioStatsQuerySchema,
+  type PortfolioStatsResponse,
+  type TimePeriod,
+} from "@/lib/validations/portfolio";
+
+/**
+ * GET /api/portfolio/stats?period=1Y&accountId=&benchmark=SPY
+ * Risk and performance statistics for your portfolio (or one account) from daily snapshots
+ */
+export async function GET(req: NextRequest) {
+  const session = await auth.api.getSession({ headers: req.headers });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const queryResult = parseQueryParams(req, PortfolioStatsQuerySchema);
+  if (!queryResult.success) {
+    return NextResponse.json(zodErrorResponse(queryResult.error), { status: 400 });
+  }
+
+  const { period, accountId, benchmark } = queryResult.data as {
+    period: TimePeriod;
+    accountId?: string;
+    benchmark?: string;
+  };
+  const benchmarkSymbol = benchmark ?? DEFAULT_BENCHMARK;
+  const now = new Date();
+
+  const accounts = await prisma.brokerageAccount.findMany({
+    where: {
+      connection: { snaptradeUser: { userId: session.user.id } },
+      ...(accountId ? { id: accountId } : {}),
+    },
+    select: { id: true },
+  });
+
+  const inputs = await loadStatsInputs(accounts.map((account) => account.id), period, now);
+  const levels = inputs.returns.length > 0
+    ? await getBenchmarkLevels(benchmarkSymbol, [inputs.returns], now)
+    : new Map<string, number>();
+
+  const response: PortfolioStatsResponse = {
+    stats: computePortfolioStats(inputs, { symbol: benchmarkSymbol, levels }),
+    period,
+  };
+
+  return NextResponse.json(response);
+}
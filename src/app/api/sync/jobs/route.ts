@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { serializeSyncJob } from "@/lib/sync-queue";
+import { SyncJobsQuerySchema, type SyncJobsResponse } from "@/lib/validations/portfolio";
+import { parseQueryParams, zodErrorResponse } from "@/lib/api-helpers";
+
+/**
+ * GET /api/sync/jobs
+ * Recent sync jobs for the current user, with per-stage progress
+ */
+export async function GET(req: NextRequest) {
+  const session = await auth.api.getSession({ headers: req.headers });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const queryResult = parseQueryParams(req, SyncJobsQuerySchema);
+  if (!queryResult.success) {
+    return NextResponse.json(zodErrorResponse(queryResult.error), { status: 400 });
+  }
+
+  const { jobId, limit } = queryResult.data;
+
+  const jobs = await prisma.syncJob.findMany({
+    where: {
+      userId: session.user.id,
+      ...(jobId ? { id: jobId } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  const response: SyncJobsResponse = {
+    jobs: jobs.map(serializeSyncJob),
+  };
+
+  return NextResponse.json(response);
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { createSyncService } from "@/lib/sync-service";
+import { claimSyncJob, createWorkerId, enqueueSyncJob, runSyncJob } from "@/lib/sync-queue";
 import { SyncRequestSchema, SyncResponseSchema } from "@/lib/validations/portfolio";
 import { parseRequestBody, zodErrorResponse } from "@/lib/api-helpers";
 
@@ -16,20 +16,46 @@ export async function POST(req: NextRequest) {
     return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
   }
 
-  const { type } = bodyResult.data as { type: "full" | "quick" | "incremental" | "positions" | "transactions" };
+  const { type } = bodyResult.data as { type: "full" | "quick" | "incremental" | "positions" | "transactions" | "backfill" };
 
   try {
-    const syncService = await createSyncService(session.user.id);
+    const job = await enqueueSyncJob(session.user.id, type);
 
-    if (type === "quick") {
-      await syncService.quickSync();
-    } else {
-      await syncService.fullSync();
+    // Run the job inline when we can take the user's lock; otherwise another
+    // sync (manual or cron) is already running and the client can poll it
+    const claimed = await claimSyncJob(job.id, createWorkerId());
+    if (!claimed) {
+      const response = SyncResponseSchema.parse({
+        success: true,
+        message: "Sync already queued or in progress",
+        jobId: job.id,
+      });
+      return NextResponse.json(response, { status: 202 });
+    }
+
+    const result = await runSyncJob(claimed);
+
+    if (result.status === "pending") {
+      // Retryable SnapTrade error - the queue will try again after backoff
+      const response = SyncResponseSchema.parse({
+        success: false,
+        message: `Sync failed, retrying after ${result.runAfter.toISOString()}`,
+        jobId: result.id,
+      });
+      return NextResponse.json(response, { status: 202 });
+    }
+
+    if (result.status !== "completed") {
+      return NextResponse.json(
+        { error: result.error || "Sync failed", jobId: result.id },
+        { status: 500 }
+      );
     }
 
     const response = SyncResponseSchema.parse({
       success: true,
       message: "Sync completed",
+      jobId: result.id,
     });
 
     return NextResponse.json(response);
@@ -41,4 +67,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
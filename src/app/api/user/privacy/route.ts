@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@/lib/auth';
-import { DEFAULT_PRIVACY, type PrivacySettings } from '@/lib/privacy-resolver';
+import {
+  DEFAULT_PRIVACY,
+  PRIVACY_LEVEL_ORDER,
+  parsePrivacySettings,
+  type PrivacySettings,
+} from '@/lib/privacy';
 
 /**
  * GET /api/user/privacy
@@ -24,7 +29,9 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    const privacyDefaults = (user.privacyDefaults as PrivacySettings) || DEFAULT_PRIVACY;
+    const privacyDefaults = user.privacyDefaults
+      ? parsePrivacySettings(user.privacyDefaults)
+      : DEFAULT_PRIVACY;
 
     return NextResponse.json({ privacyDefaults });
   } catch (error) {
@@ -51,19 +58,36 @@ export async function PUT(req: NextRequest) {
     const body = await req.json();
     const { privacyDefaults } = body;
 
+    if (!privacyDefaults || typeof privacyDefaults !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid privacy settings format' },
+        { status: 400 }
+      );
+    }
+
+    // Fields left out (e.g. by clients that predate a setting) keep their stored value
+    const current = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { privacyDefaults: true },
+    });
+    const merged = {
+      ...(current?.privacyDefaults ? parsePrivacySettings(current.privacyDefaults) : DEFAULT_PRIVACY),
+      ...privacyDefaults,
+    };
+
     // Validate privacy settings
-    if (!isValidPrivacySettings(privacyDefaults)) {
+    if (!isValidPrivacySettings(merged)) {
       return NextResponse.json(
         { error: 'Invalid privacy settings format' },
         { status: 400 }
       );
     }
 
-    // Update user's privacy defaults
+    // Update user's privacy defaults (known fields only, whatever else the client sent)
     const user = await prisma.user.update({
       where: { id: session.user.id },
       data: {
-        privacyDefaults: privacyDefaults as any,
+        privacyDefaults: { ...parsePrivacySettings(merged) },
       },
       select: { privacyDefaults: true },
     });
@@ -81,20 +105,12 @@ export async function PUT(req: NextRequest) {
 /**
  * Validate privacy settings structure
  */
-function isValidPrivacySettings(settings: any): settings is PrivacySettings {
+function isValidPrivacySettings(settings: unknown): settings is PrivacySettings {
   if (!settings || typeof settings !== 'object') return false;
 
-  const validValues: Record<keyof PrivacySettings, string[]> = {
-    portfolioValue: ['exact', 'approximate', 'hidden'],
-    performance: ['visible', 'hidden'],
-    positions: ['full', 'tickers_only', 'hidden'],
-    activity: ['full', 'without_amounts', 'hidden'],
-    watchlist: ['visible', 'hidden'],
-  };
-
-  for (const [key, validOptions] of Object.entries(validValues)) {
-    if (!(key in settings)) return false;
-    if (!validOptions.includes(settings[key])) return false;
+  for (const [key, validOptions] of Object.entries(PRIVACY_LEVEL_ORDER)) {
+    const value = (settings as Record<string, unknown>)[key];
+    if (typeof value !== 'string' || !validOptions.includes(value)) return false;
   }
 
   return true;
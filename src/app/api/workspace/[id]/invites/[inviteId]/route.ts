@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { canManageInvites, serializeInvite } from '@/lib/workspace-invites';
+
+/**
+ * DELETE /api/workspace/:id/invites/:inviteId
+ * Revoke an invite (OWNER/ADMIN only)
+ * Invites are kept for the audit trail; revoked invites can no longer be redeemed
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; inviteId: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId, inviteId } = params;
+
+    const member = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    if (!canManageInvites(member.role)) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    const invite = await prisma.workspaceInvite.findFirst({
+      where: { id: inviteId, workspaceId },
+    });
+
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'Invite not found' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = invite.revokedAt
+      ? invite
+      : await prisma.workspaceInvite.update({
+          where: { id: invite.id },
+          data: { revokedAt: new Date() },
+        });
+
+    return NextResponse.json({ invite: serializeInvite(revoked) });
+  } catch (error) {
+    console.error('Error revoking workspace invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { parseQueryParams, parseRequestBody, zodErrorResponse } from '@/lib/api-helpers';
+import {
+  canManageInvites,
+  createWorkspaceInvite,
+  getInviteStatus,
+  sendInviteEmail,
+  serializeInvite,
+} from '@/lib/workspace-invites';
+import {
+  CreateInviteSchema,
+  InvitesQuerySchema,
+  type CreateInviteInput,
+} from '@/lib/validations/workspace';
+
+const CREATED_BY_SELECT = {
+  select: {
+    id: true,
+    name: true,
+    username: true,
+  },
+} as const;
+
+/**
+ * GET /api/workspace/:id/invites
+ * List invites for a workspace (OWNER/ADMIN only)
+ * Only active invites are returned unless ?includeInactive=true
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaceId = params.id;
+
+    const queryResult = parseQueryParams(req, InvitesQuerySchema);
+    if (!queryResult.success) {
+      return NextResponse.json(zodErrorResponse(queryResult.error), { status: 400 });
+    }
+
+    const member = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    if (!canManageInvites(member.role)) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    const invites = await prisma.workspaceInvite.findMany({
+      where: { workspaceId },
+      include: { createdByUser: CREATED_BY_SELECT },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const now = new Date();
+    const visibleInvites = queryResult.data.includeInactive
+      ? invites
+      : invites.filter((invite) => getInviteStatus(invite, now) === 'active');
+
+    return NextResponse.json({ invites: visibleInvites.map(serializeInvite) });
+  } catch (error) {
+    console.error('Error fetching workspace invites:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invites' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workspace/:id/invites
+ * Create an invite link, email invite or join code (OWNER/ADMIN only)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaceId = params.id;
+
+    const bodyResult = await parseRequestBody(req, CreateInviteSchema);
+    if (!bodyResult.success) {
+      return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
+    }
+
+    const { kind, email, maxUses, expiresInHours } = bodyResult.data as CreateInviteInput;
+
+    const member = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+      include: { workspace: true },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    if (!canManageInvites(member.role)) {
+      return NextResponse.json(
+        { error: 'Only owners and admins can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    const invite = await createWorkspaceInvite({
+      workspaceId,
+      createdBy: session.user.id,
+      kind,
+      email,
+      maxUses,
+      expiresInHours,
+    });
+
+    // Email failures shouldn't lose the invite - the link can still be shared manually
+    let emailSent = false;
+    if (kind === 'email') {
+      try {
+        await sendInviteEmail(
+          invite,
+          member.workspace,
+          session.user.name || session.user.email
+        );
+        emailSent = true;
+      } catch (error) {
+        console.error('Error sending invite email:', error);
+      }
+    }
+
+    return NextResponse.json(
+      { invite: serializeInvite(invite), emailSent },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating workspace invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invite' },
+      { status: 500 }
+    );
+  }
+}
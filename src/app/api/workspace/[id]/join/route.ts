@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@/lib/auth';
+import { zodErrorResponse } from '@/lib/api-helpers';
+import { findInvite, joinWorkspace } from '@/lib/workspace-invites';
+import { JoinWorkspaceSchema } from '@/lib/validations/workspace';
 
 /**
  * POST /api/workspace/:id/join
  * Join a workspace
+ * Body: { token?: string, code?: string } - an invite is required for PRIVATE and COMPETITIVE workspaces
  */
 export async function POST(
   req: NextRequest,
@@ -19,6 +23,13 @@ export async function POST(
 
     const workspaceId = params.id;
 
+    // Body is optional (PUBLIC workspaces can be joined without an invite)
+    const body = await req.json().catch(() => ({}));
+    const bodyResult = JoinWorkspaceSchema.safeParse(body);
+    if (!bodyResult.success) {
+      return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
+    }
+
     // Check if workspace exists
     const workspace = await prisma.workspace.findUnique({
       where: { id: workspaceId },
@@ -31,41 +42,23 @@ export async function POST(
       );
     }
 
-    // Check if user is already a member
-    const existingMembership = await prisma.workspaceMember.findUnique({
-      where: {
-        workspaceId_userId: {
-          workspaceId,
-          userId: session.user.id,
-        },
-      },
-    });
+    const { token, code } = bodyResult.data;
+    const invite = token || code ? await findInvite({ token, code }) : null;
 
-    if (existingMembership) {
+    if ((token || code) && !invite) {
       return NextResponse.json(
-        { error: 'Already a member of this workspace' },
-        { status: 409 }
+        { error: 'Invite not found' },
+        { status: 404 }
       );
     }
 
-    // Add user as a member
-    const membership = await prisma.workspaceMember.create({
-      data: {
-        workspaceId,
-        userId: session.user.id,
-        role: 'MEMBER',
-      },
-      include: {
-        workspace: {
-          select: {
-            id: true,
-            name: true,
-            type: true,
-            description: true,
-          },
-        },
-      },
-    });
+    const result = await joinWorkspace(session.user, workspace, invite);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const membership = result.data;
 
     return NextResponse.json({
       membership: {
@@ -73,10 +66,10 @@ export async function POST(
         role: membership.role,
         joinedAt: membership.joinedAt,
         workspace: {
-          id: membership.workspace.id,
-          name: membership.workspace.name,
-          type: membership.workspace.type.toLowerCase(),
-          description: membership.workspace.description,
+          id: workspace.id,
+          name: workspace.name,
+          type: workspace.type.toLowerCase(),
+          description: workspace.description,
         },
       },
     }, { status: 201 });
@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@/lib/auth';
+import { redactIdentity, resolveWorkspacePrivacy } from '@/lib/privacy';
+import { parseQueryParams, zodErrorResponse } from '@/lib/api-helpers';
 import {
-  resolvePrivacy,
-  formatPortfolioValue,
-  formatPerformance,
-  filterPositions,
-  canViewUserData,
-} from '@/lib/privacy-resolver';
+  compareLeaderboardMembers,
+  getMemberPortfolioSummary,
+  redactMemberPortfolio,
+} from '@/lib/leaderboard';
+import {
+  LeaderboardQuerySchema,
+  type LeaderboardMetric,
+  type LeaderboardPeriod,
+} from '@/lib/validations/portfolio';
 
 /**
- * GET /api/workspace/:id/leaderboard
+ * GET /api/workspace/:id/leaderboard?period=1D|1W|1M|YTD&metric=absolute|percent|twr
  * Get workspace leaderboard with privacy-filtered data
+ * Performance is computed from PortfolioSnapshot rows, net of deposits/withdrawals
  */
 export async function GET(
   req: NextRequest,
@@ -26,14 +32,22 @@ export async function GET(
 
     const workspaceId = params.id;
 
-    // Verify user is a member of this workspace
-    const canView = await canViewUserData(
-      session.user.id,
-      session.user.id,
-      workspaceId
-    );
+    const queryResult = parseQueryParams(req, LeaderboardQuerySchema);
+    if (!queryResult.success) {
+      return NextResponse.json(zodErrorResponse(queryResult.error), { status: 400 });
+    }
+
+    const { period, metric } = queryResult.data as {
+      period: LeaderboardPeriod;
+      metric: LeaderboardMetric;
+    };
 
-    if (!canView) {
+    const now = new Date();
+
+    // Resolve privacy for all members at once (also verifies membership)
+    const privacyByUser = await resolveWorkspacePrivacy(workspaceId);
+
+    if (!privacyByUser.has(session.user.id)) {
       return NextResponse.json(
         { error: 'Not a member of this workspace' },
         { status: 403 }
@@ -55,109 +69,73 @@ export async function GET(
       },
     });
 
-    // Get portfolio data for each member
+    // Get portfolio data for each member, redacted by their privacy settings
     const leaderboardData = await Promise.all(
       members.map(async (member) => {
-        // Get member's brokerage accounts and calculate total value
-        const accounts = await prisma.brokerageAccount.findMany({
-          where: {
-            connection: {
-              snaptradeUser: {
-                userId: member.userId,
-              },
-            },
-          },
-          include: {
-            positions: true,
-          },
-        });
+        const summary = await getMemberPortfolioSummary(member.userId, period, now);
+        const privacy = privacyByUser.get(member.userId)!;
 
-        // Calculate total portfolio value
-        const totalValue = accounts.reduce(
-          (sum, account) => sum + account.totalValue,
-          0
+        const identity = redactIdentity(
+          { userId: member.userId, ...member.user },
+          privacy,
+          { workspaceId, viewerId: session.user.id }
         );
 
-        // Calculate today's change (simplified - would need historical data)
-        const todayChange = accounts.reduce((sum, account) => {
-          const positionsValue = account.positions.reduce(
-            (pSum, pos) => pSum + (pos.unrealizedPL || 0),
-            0
-          );
-          return sum + positionsValue;
-        }, 0);
-
-        const todayChangePercent = totalValue > 0 ? (todayChange / totalValue) * 100 : 0;
-
-        // Get all positions for this user
-        const allPositions = accounts.flatMap(account => account.positions);
-
-        // Resolve privacy for this member
-        const privacy = await resolvePrivacy(member.userId, workspaceId);
-
-        // Format data based on privacy settings
-        const portfolioValue = formatPortfolioValue(totalValue, privacy.portfolioValue);
-        const performance = formatPerformance(
-          todayChange,
-          todayChangePercent,
-          privacy.performance
-        );
-        const positions = filterPositions(allPositions, privacy.positions);
-
         return {
-          userId: member.userId,
-          username: member.user.username,
-          name: member.user.name,
-          image: member.user.image,
-          role: member.role,
+          ...identity,
+          role: identity.isAnonymous ? null : member.role,
           joinedAt: member.joinedAt,
-          portfolioValue,
-          performance,
-          positions: {
-            count: allPositions.length,
-            data: positions,
-            privacyLevel: privacy.positions,
-          },
-          privacySettings: {
-            portfolioValue: privacy.portfolioValue,
-            performance: privacy.performance,
-            positions: privacy.positions,
-          },
+          ...redactMemberPortfolio(summary, privacy, now),
         };
       })
     );
 
-    // Sort by portfolio value (use midpoint of range for approximate)
-    const sortedLeaderboard = leaderboardData
-      .map((member) => ({
-        ...member,
-        sortValue:
-          member.portfolioValue.exact !== null
-            ? member.portfolioValue.exact
-            : member.portfolioValue.range
-            ? (member.portfolioValue.range[0] + member.portfolioValue.range[1]) / 2
-            : 0,
-      }))
-      .sort((a, b) => b.sortValue - a.sortValue)
-      .map((member, index) => ({
-        ...member,
-        rank: index + 1,
-        sortValue: undefined, // Remove sort value from response
-      }));
-
-    // Calculate workspace aggregates
-    const totalCombinedValue = sortedLeaderboard.reduce(
-      (sum, member) => sum + (member.sortValue || 0),
-      0
-    );
+    // Rank by the selected metric. Members who hide performance (or have no
+    // snapshot history yet) are listed after ranked members with rank: null.
+    const metricValue = (member: (typeof leaderboardData)[number]): number | null => {
+      if (!member.performance.hasData) return null;
+      switch (metric) {
+        case 'absolute': return member.performance.changeAmount;
+        case 'percent': return member.performance.changePercent;
+        case 'twr': return member.performance.twr;
+      }
+    };
 
+    const sortedLeaderboard = leaderboardData
+      .map((member) => ({ ...member, metricValue: metricValue(member) }))
+      .sort(compareLeaderboardMembers);
+
+    // Join dates are only used for ordering anonymous members, never returned
+    let nextRank = 1;
+    const rankedLeaderboard = sortedLeaderboard.map((member) => ({
+      ...member,
+      joinedAt: member.isAnonymous ? null : member.joinedAt,
+      rank: member.metricValue !== null ? nextRank++ : null,
+    }));
+
+    // Calculate workspace aggregates (use midpoint of range for approximate values)
+    const totalCombinedValue = rankedLeaderboard.reduce((sum, member) => {
+      const value =
+        member.portfolioValue.exact !== null
+          ? member.portfolioValue.exact
+          : member.portfolioValue.range
+          ? (member.portfolioValue.range[0] + member.portfolioValue.range[1]) / 2
+          : 0;
+      return sum + value;
+    }, 0);
+
+    const visibleReturns = rankedLeaderboard
+      .map((member) => member.performance.hasData ? member.performance.changePercent : null)
+      .filter((value): value is number => value !== null);
     const avgReturn =
-      sortedLeaderboard.reduce((sum, member) => {
-        return sum + (member.performance.changePercent || 0);
-      }, 0) / sortedLeaderboard.length;
+      visibleReturns.length > 0
+        ? visibleReturns.reduce((sum, value) => sum + value, 0) / visibleReturns.length
+        : 0;
 
     return NextResponse.json({
-      leaderboard: sortedLeaderboard,
+      leaderboard: rankedLeaderboard,
+      period,
+      metric,
       stats: {
         totalMembers: members.length,
         combinedValue: totalCombinedValue,
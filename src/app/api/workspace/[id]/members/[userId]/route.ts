@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { parseQueryParams, parseRequestBody, zodErrorResponse } from '@/lib/api-helpers';
+import { removeMember, updateMemberRole } from '@/lib/workspace-members';
+import {
+  RemoveMemberQuerySchema,
+  UpdateMemberRoleSchema,
+  type RemoveMemberQuery,
+} from '@/lib/validations/workspace';
+
+/**
+ * PATCH /api/workspace/:id/members/:userId
+ * Promote or demote a member (OWNER/ADMIN only, target must rank below you)
+ * Body: { role: "ADMIN" | "MEMBER" }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId, userId } = params;
+
+    const bodyResult = await parseRequestBody(req, UpdateMemberRoleSchema);
+    if (!bodyResult.success) {
+      return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
+    }
+
+    const actor = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const result = await updateMemberRole(actor, userId, bodyResult.data.role);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      member: {
+        userId: result.data.userId,
+        role: result.data.role,
+        joinedAt: result.data.joinedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    return NextResponse.json(
+      { error: 'Failed to update member role' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workspace/:id/members/:userId
+ * Remove (kick) a member. Pass ?ban=true to also ban them from re-joining.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId, userId } = params;
+
+    const queryResult = parseQueryParams(req, RemoveMemberQuerySchema);
+    if (!queryResult.success) {
+      return NextResponse.json(zodErrorResponse(queryResult.error), { status: 400 });
+    }
+
+    const { ban, reason } = queryResult.data as RemoveMemberQuery;
+
+    const actor = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const result = await removeMember(actor, userId, { ban, reason });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, banned: ban });
+  } catch (error) {
+    console.error('Error removing workspace member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
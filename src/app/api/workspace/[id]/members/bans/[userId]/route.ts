@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { unbanUser } from '@/lib/workspace-members';
+
+/**
+ * DELETE /api/workspace/:id/members/bans/:userId
+ * Lift a ban (OWNER/ADMIN only). The user still needs an invite to re-join private workspaces.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: workspaceId, userId } = params;
+
+    const actor = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const result = await unbanUser(actor, userId);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error lifting workspace ban:', error);
+    return NextResponse.json(
+      { error: 'Failed to lift ban' },
+      { status: 500 }
+    );
+  }
+}
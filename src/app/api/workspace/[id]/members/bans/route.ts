@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { parseRequestBody, zodErrorResponse } from '@/lib/api-helpers';
+import { banUser } from '@/lib/workspace-members';
+import { BanUserSchema } from '@/lib/validations/workspace';
+
+/**
+ * GET /api/workspace/:id/members/bans
+ * List banned users (OWNER/ADMIN only)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaceId = params.id;
+
+    const member = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    if (member.role === 'MEMBER') {
+      return NextResponse.json(
+        { error: 'Only owners and admins can view bans' },
+        { status: 403 }
+      );
+    }
+
+    const bans = await prisma.workspaceBan.findMany({
+      where: { workspaceId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            username: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      bans: bans.map((ban) => ({
+        userId: ban.userId,
+        name: ban.user.name,
+        username: ban.user.username,
+        reason: ban.reason,
+        bannedBy: ban.bannedBy,
+        createdAt: ban.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching workspace bans:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bans' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workspace/:id/members/bans
+ * Ban a user. Current members are removed; bans block re-joining even with an invite.
+ * Body: { userId: string, reason?: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaceId = params.id;
+
+    const bodyResult = await parseRequestBody(req, BanUserSchema);
+    if (!bodyResult.success) {
+      return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
+    }
+
+    const actor = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const result = await banUser(actor, bodyResult.data.userId, bodyResult.data.reason);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error('Error banning user:', error);
+    return NextResponse.json(
+      { error: 'Failed to ban user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { leaveWorkspace } from '@/lib/workspace-members';
+
+/**
+ * POST /api/workspace/:id/members/leave
+ * Leave a workspace
+ * The last owner must transfer ownership first; the last member leaving deletes the workspace
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaceId = params.id;
+
+    const member = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const result = await leaveWorkspace(member);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error('Error leaving workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to leave workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { canManageMember, MEMBER_USER_SELECT } from '@/lib/workspace-members';
+
+const ROLE_ORDER = { OWNER: 0, ADMIN: 1, MEMBER: 2 } as const;
+
+/**
+ * GET /api/workspace/:id/members
+ * List workspace members (owners first, then admins, then members by join date)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaceId = params.id;
+
+    // Verify user is a member of this workspace
+    const member = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const members = await prisma.workspaceMember.findMany({
+      where: { workspaceId },
+      include: { user: MEMBER_USER_SELECT },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      members: members
+        .sort((a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role])
+        .map((m) => ({
+          userId: m.userId,
+          name: m.user.name,
+          username: m.user.username,
+          image: m.user.image,
+          role: m.role,
+          joinedAt: m.joinedAt,
+          isCurrentUser: m.userId === session.user.id,
+          canManage: canManageMember(member.role, m.role),
+        })),
+      currentUserRole: member.role,
+    });
+  } catch (error) {
+    console.error('Error fetching workspace members:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch members' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { parseRequestBody, zodErrorResponse } from '@/lib/api-helpers';
+import { transferOwnership } from '@/lib/workspace-members';
+import { TransferOwnershipSchema } from '@/lib/validations/workspace';
+
+/**
+ * POST /api/workspace/:id/members/transfer
+ * Transfer ownership to another member (OWNER only). The previous owner becomes an ADMIN.
+ * Body: { userId: string }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaceId = params.id;
+
+    const bodyResult = await parseRequestBody(req, TransferOwnershipSchema);
+    if (!bodyResult.success) {
+      return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
+    }
+
+    const actor = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const result = await transferOwnership(actor, bodyResult.data.userId);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      owner: {
+        userId: result.data.userId,
+        role: result.data.role,
+      },
+    });
+  } catch (error) {
+    console.error('Error transferring workspace ownership:', error);
+    return NextResponse.json(
+      { error: 'Failed to transfer ownership' },
+      { status: 500 }
+    );
+  }
+}
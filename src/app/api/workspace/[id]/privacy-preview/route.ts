@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { parseQueryParams, zodErrorResponse } from '@/lib/api-helpers';
+import { buildPrivacyPreview } from '@/lib/privacy-preview';
+import { PrivacyPreviewQuerySchema } from '@/lib/validations/workspace';
+
+/**
+ * GET /api/workspace/:id/privacy-preview
+ * What other members of this workspace see about the current user
+ * Query: optional draft default settings (portfolioValue, performance, positions, activity, watchlist)
+ * to preview changes before saving them
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const queryResult = parseQueryParams(req, PrivacyPreviewQuerySchema);
+    if (!queryResult.success) {
+      return NextResponse.json(zodErrorResponse(queryResult.error), { status: 400 });
+    }
+
+    const preview = await buildPrivacyPreview(session.user.id, params.id, queryResult.data);
+
+    if (!preview) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('Error building privacy preview:', error);
+    return NextResponse.json(
+      { error: 'Failed to build privacy preview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { parseRequestBody, zodErrorResponse } from '@/lib/api-helpers';
+import {
+  getFieldsBelowMinimum,
+  getPrivacyFieldSources,
+  parsePartialPrivacySettings,
+  parsePrivacySettings,
+  parseWorkspacePrivacyPolicy,
+  resolvePrivacySettings,
+} from '@/lib/privacy';
+import { UpdatePrivacyOverrideSchema } from '@/lib/validations/workspace';
+
+/**
+ * GET /api/workspace/:id/privacy
+ * Get the current user's privacy override for this workspace, their defaults,
+ * the workspace policy and the resolved result (with the source of each field)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const member = await findMemberWithPrivacy(params.id, session.user.id);
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(buildPrivacyResponse(member, member.workspace.privacyPolicy));
+  } catch (error) {
+    console.error('Error fetching workspace privacy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace privacy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/workspace/:id/privacy
+ * Set (or clear, with null) the current user's privacy override for this workspace,
+ * and/or opt in or out of anonymous mode
+ * Body: { override?: Partial<PrivacySettings> | null, anonymous?: boolean }
+ * Values below the workspace minimum are rejected, as is anonymous mode where it isn't allowed
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const bodyResult = await parseRequestBody(req, UpdatePrivacyOverrideSchema);
+    if (!bodyResult.success) {
+      return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
+    }
+
+    const member = await findMemberWithPrivacy(params.id, session.user.id);
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const { anonymous } = bodyResult.data;
+    const override = bodyResult.data.override
+      ? parsePartialPrivacySettings(bodyResult.data.override)
+      : bodyResult.data.override;
+    const policy = parseWorkspacePrivacyPolicy(member.workspace.privacyPolicy);
+    const belowMinimum = override ? getFieldsBelowMinimum(override, policy) : [];
+
+    if (belowMinimum.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Some settings share less than this workspace requires',
+          fields: belowMinimum,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (anonymous && !policy.allowAnonymousMode) {
+      return NextResponse.json(
+        { error: 'This workspace does not allow anonymous mode' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.workspaceMember.update({
+      where: { id: member.id },
+      data: {
+        ...(override !== undefined && {
+          privacyOverride:
+            override && Object.keys(override).length > 0
+              ? (override as Prisma.InputJsonValue)
+              : Prisma.DbNull,
+        }),
+        ...(anonymous !== undefined && { anonymous }),
+      },
+    });
+
+    return NextResponse.json(
+      buildPrivacyResponse({ ...updated, user: member.user }, member.workspace.privacyPolicy)
+    );
+  } catch (error) {
+    console.error('Error updating workspace privacy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workspace privacy' },
+      { status: 500 }
+    );
+  }
+}
+
+function findMemberWithPrivacy(workspaceId: string, userId: string) {
+  return prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId, userId },
+    },
+    include: {
+      workspace: { select: { privacyPolicy: true } },
+      user: { select: { privacyDefaults: true } },
+    },
+  });
+}
+
+function buildPrivacyResponse(
+  member: {
+    privacyOverride: Prisma.JsonValue;
+    anonymous: boolean;
+    user: { privacyDefaults: Prisma.JsonValue };
+  },
+  privacyPolicy: Prisma.JsonValue
+) {
+  const { privacyOverride, anonymous } = member;
+  const privacyDefaults = member.user.privacyDefaults;
+  const policy = parseWorkspacePrivacyPolicy(privacyPolicy);
+  const override = parsePartialPrivacySettings(privacyOverride);
+
+  return {
+    override: Object.keys(override).length > 0 ? override : null,
+    defaults: parsePrivacySettings(privacyDefaults),
+    policy: {
+      minimumSharing: policy.minimumSharing ?? null,
+      enforcedTransparency: policy.enforcedTransparency,
+      allowAnonymousMode: policy.allowAnonymousMode,
+    },
+    anonymous,
+    resolved: resolvePrivacySettings(privacyDefaults, privacyOverride, policy, anonymous),
+    fieldSources: getPrivacyFieldSources(privacyDefaults, privacyOverride, policy),
+  };
+}
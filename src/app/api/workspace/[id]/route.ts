@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { parseRequestBody, zodErrorResponse } from '@/lib/api-helpers';
+import { parseWorkspacePrivacyPolicy } from '@/lib/privacy';
+import { updateWorkspaceSettings } from '@/lib/workspace-settings';
+import { UpdateWorkspaceSchema } from '@/lib/validations/workspace';
+
+/**
+ * PATCH /api/workspace/:id
+ * Update workspace metadata, default benchmark and privacy policy (OWNER/ADMIN only)
+ * Body: { name?, description?, type?, defaultBenchmark?, privacyPolicy?: { minimumSharing?, enforcedTransparency?, allowAnonymousMode? } }
+ * Members who are forced to share more by a policy change are notified
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const workspaceId = params.id;
+
+    const bodyResult = await parseRequestBody(req, UpdateWorkspaceSchema);
+    if (!bodyResult.success) {
+      return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
+    }
+
+    const actor = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: session.user.id,
+        },
+      },
+    });
+
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const result = await updateWorkspaceSettings(actor, bodyResult.data);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const { workspace, affectedMembers } = result.data;
+
+    return NextResponse.json({
+      workspace: {
+        id: workspace.id,
+        name: workspace.name,
+        type: workspace.type.toLowerCase(),
+        description: workspace.description,
+        defaultBenchmark: workspace.defaultBenchmark,
+        privacyPolicy: parseWorkspacePrivacyPolicy(workspace.privacyPolicy),
+        updatedAt: workspace.updatedAt,
+      },
+      affectedMembers,
+    });
+  } catch (error) {
+    console.error('Error updating workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workspace' },
+      { status: 500 }
+    );
+  }
+}
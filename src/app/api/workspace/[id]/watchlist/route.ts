@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@/lib/auth';
+import {
+  DEFAULT_PRIVACY,
+  redactIdentity,
+  redactWatchlistItem,
+  resolveWorkspacePrivacy,
+} from '@/lib/privacy';
 
 /**
  * GET /api/workspace/:id/watchlist
@@ -37,18 +43,42 @@ export async function GET(
     }
 
     // Get workspace watchlist
-    const watchlist = await prisma.workspaceWatchlist.findMany({
-      where: { workspaceId },
-      include: {
-        addedByUser: {
-          select: {
-            id: true,
-            username: true,
-            name: true,
+    const [items, privacyByUser] = await Promise.all([
+      prisma.workspaceWatchlist.findMany({
+        where: { workspaceId },
+        include: {
+          addedByUser: {
+            select: {
+              id: true,
+              username: true,
+              name: true,
+            },
           },
         },
-      },
-      orderBy: { addedAt: 'desc' },
+        orderBy: { addedAt: 'desc' },
+      }),
+      resolveWorkspacePrivacy(workspaceId),
+    ]);
+
+    // Hide who added an item if they keep their watchlist private,
+    // and show members in anonymous mode by their pseudonym
+    const watchlist = items.map((item) => {
+      if (item.addedBy === session.user.id) return item;
+
+      const privacy = privacyByUser.get(item.addedBy);
+      const redacted = redactWatchlistItem(item, privacy ?? DEFAULT_PRIVACY);
+      if (!redacted.addedByUser) return redacted;
+
+      const identity = redactIdentity(
+        { userId: item.addedBy, ...redacted.addedByUser },
+        privacy,
+        { workspaceId, viewerId: session.user.id }
+      );
+      return {
+        ...redacted,
+        addedBy: identity.userId,
+        addedByUser: { id: identity.userId, username: identity.username, name: identity.name },
+      };
     });
 
     return NextResponse.json({ watchlist });
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { parseRequestBody, zodErrorResponse } from '@/lib/api-helpers';
+import { findInvite, joinWorkspace } from '@/lib/workspace-invites';
+import { JoinWorkspaceSchema } from '@/lib/validations/workspace';
+
+/**
+ * POST /api/workspace/join
+ * Join a workspace from an invite link token or join code alone
+ * Body: { token: string } or { code: string }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const bodyResult = await parseRequestBody(req, JoinWorkspaceSchema);
+    if (!bodyResult.success) {
+      return NextResponse.json(zodErrorResponse(bodyResult.error), { status: 400 });
+    }
+
+    const { token, code } = bodyResult.data;
+
+    if (!token && !code) {
+      return NextResponse.json(
+        { error: 'An invite token or join code is required' },
+        { status: 400 }
+      );
+    }
+
+    const invite = await findInvite({ token, code });
+
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'Invite not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await joinWorkspace(session.user, invite.workspace, invite);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const membership = result.data;
+
+    return NextResponse.json({
+      membership: {
+        workspaceId: membership.workspaceId,
+        role: membership.role,
+        joinedAt: membership.joinedAt,
+        workspace: {
+          id: invite.workspace.id,
+          name: invite.workspace.name,
+          type: invite.workspace.type.toLowerCase(),
+          description: invite.workspace.description,
+        },
+      },
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error joining workspace with invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to join workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,8 @@ import {
   CommentOnActivitySchema,
   CommentResponseSchema,
 } from "@/lib/validations/activity";
+import { recordActivityEvent } from "@/lib/activity-events";
+import { notifyComment } from "@/lib/notifications";
 
 /**
  * POST /api/workspaces/[workspaceId]/activity/[activityId]/comment
@@ -87,6 +89,21 @@ export async function POST(
       },
     });
 
+    await recordActivityEvent({
+      workspaceId,
+      activityId,
+      type: "comment-added",
+      commentId: comment.id,
+    });
+    await notifyComment({
+      workspaceId,
+      actorId: userId,
+      authorId: activity.userId,
+      content,
+      activityId,
+      symbol: activity.symbol,
+    });
+
     const response = CommentResponseSchema.parse({
       comment: {
         id: comment.id,
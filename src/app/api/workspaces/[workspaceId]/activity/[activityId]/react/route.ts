@@ -4,6 +4,8 @@ import { headers } from "next/headers";
 import { prisma } from "@/lib/prisma";
 import { ReactToActivitySchema, ReactResponseSchema } from "@/lib/validations/activity";
 import { aggregateReactionCounts } from "@/lib/activity-utils";
+import { recordActivityEvent } from "@/lib/activity-events";
+import { notifyReaction } from "@/lib/notifications";
 
 /**
  * POST /api/workspaces/[workspaceId]/activity/[activityId]/react
@@ -104,6 +106,18 @@ export async function POST(
       });
     }
 
+    await recordActivityEvent({ workspaceId, activityId, type: "reaction-changed" });
+    if (reaction) {
+      await notifyReaction({
+        workspaceId,
+        actorId: userId,
+        authorId: activity.userId,
+        activityId,
+        symbol: activity.symbol,
+        emoji,
+      });
+    }
+
     // Get updated reaction counts
     const allReactions = await prisma.activityReaction.findMany({
       where: { activityId },
@@ -181,13 +195,18 @@ export async function DELETE(
     }
 
     // Remove all user's reactions on this activity
-    await prisma.activityReaction.deleteMany({
+    const { count: removed } = await prisma.activityReaction.deleteMany({
       where: {
         activityId,
         userId,
+        activity: { workspaceId },
       },
     });
 
+    if (removed > 0) {
+      await recordActivityEvent({ workspaceId, activityId, type: "reaction-changed" });
+    }
+
     // Get updated counts
     const allReactions = await prisma.activityReaction.findMany({
       where: { activityId },
@@ -9,9 +9,13 @@ import {
   CreateActivityResponseSchema,
 } from "@/lib/validations/activity";
 import {
-  aggregateReactionCounts,
-  getUserReactions,
-} from "@/lib/activity-utils";
+  DEFAULT_PRIVACY,
+  isDisclosureDelayed,
+  resolveMemberId,
+  resolveWorkspacePrivacy,
+} from "@/lib/privacy";
+import { activityFeedInclude, formatFeedActivity } from "@/lib/activity-feed";
+import { recordActivityEvent } from "@/lib/activity-events";
 
 /**
  * GET /api/workspaces/[workspaceId]/activity
@@ -84,6 +88,8 @@ export async function GET(
       );
     }
 
+    const privacyByUser = await resolveWorkspacePrivacy(workspaceId);
+
     // Build where clause
     const where: any = {
       workspaceId,
@@ -95,7 +101,10 @@ export async function GET(
     }
 
     if (query.userId) {
-      where.userId = query.userId;
+      // Anonymous members are filtered by their pseudonym id; no match returns nothing
+      where.userId =
+        resolveMemberId(query.userId, privacyByUser, { workspaceId, viewerId: userId }) ??
+        { in: [] };
     }
 
     if (query.symbol) {
@@ -112,39 +121,7 @@ export async function GET(
     const [activities, total] = await Promise.all([
       prisma.workspaceActivity.findMany({
         where,
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              image: true,
-            },
-          },
-          reactions: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                },
-              },
-            },
-          },
-          comments: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                  image: true,
-                },
-              },
-            },
-            orderBy: {
-              createdAt: "asc",
-            },
-          },
-        },
+        include: activityFeedInclude,
         orderBy: {
           createdAt: "desc",
         },
@@ -155,57 +132,32 @@ export async function GET(
     ]);
 
     const hasMore = activities.length > query.limit;
-    const returnedActivities = hasMore ? activities.slice(0, query.limit) : activities;
 
-    // Format response
-    const formattedActivities = returnedActivities.map((activity) => {
-      const reactionCounts = aggregateReactionCounts(activity.reactions);
-      const hasUserReacted = getUserReactions(activity.reactions, userId);
-
-      return {
-        id: activity.id,
-        workspaceId: activity.workspaceId,
-        userId: activity.userId,
-        userName: activity.user.name,
-        userImage: activity.user.image,
-        type: activity.type,
-        symbol: activity.symbol,
-        quantity: activity.quantity,
-        price: activity.price,
-        value: activity.value,
-        message: activity.message,
-        metadata: activity.metadata as any,
-        visibility: activity.visibility,
-        reactions: activity.reactions.map((r) => ({
-          id: r.id,
-          activityId: r.activityId,
-          userId: r.userId,
-          userName: r.user.name,
-          emoji: r.emoji,
-          createdAt: r.createdAt,
-        })),
-        comments: activity.comments.map((c) => ({
-          id: c.id,
-          activityId: c.activityId,
-          userId: c.userId,
-          userName: c.user.name,
-          userImage: c.user.image,
-          content: c.content,
-          createdAt: c.createdAt,
-          updatedAt: c.updatedAt,
-        })),
-        reactionCounts,
-        hasUserReacted,
-        createdAt: activity.createdAt,
-        updatedAt: activity.updatedAt,
-      };
-    });
+    const now = new Date();
+    const pageActivities = hasMore ? activities.slice(0, query.limit) : activities;
+    const privacyOf = (authorId: string) => privacyByUser.get(authorId) ?? DEFAULT_PRIVACY;
+
+    // Redact with each author's current settings (former members fall back to defaults).
+    // Your own activity is never redacted for you.
+    const formattedActivities = pageActivities
+      .map((activity) =>
+        formatFeedActivity(activity, { workspaceId, viewerId: userId, privacyByUser, now })
+      )
+      .filter((activity) => activity !== null);
+
+    // Trades still inside their author's activity delay (shown once it passes)
+    const delayedCount = pageActivities.filter(
+      (activity) =>
+        activity.userId !== userId &&
+        isDisclosureDelayed(activity.type, activity.createdAt, privacyOf(activity.userId), now)
+    ).length;
 
     const response = ActivityFeedResponseSchema.parse({
       activities: formattedActivities,
       total,
       hasMore,
       nextOffset: hasMore ? query.offset + query.limit : undefined,
+      delayedCount,
     });
 
     return NextResponse.json(response);
@@ -320,6 +272,8 @@ export async function POST(
       },
     });
 
+    await recordActivityEvent({ workspaceId, activityId: activity.id, type: "activity-created" });
+
     // Format response
     const formattedActivity = {
       id: activity.id,
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspacePrivacy } from "@/lib/privacy";
+import {
+  getActivityEventsSince,
+  getLatestEventId,
+  isEventCursorExpired,
+} from "@/lib/activity-events";
+import { activityFeedInclude, formatFeedActivity } from "@/lib/activity-feed";
+import { createPollingStream, getLastEventId, type StreamEvent } from "@/lib/event-stream";
+import type { CommentAddedEvent, ReactionChangedEvent } from "@/lib/validations/activity";
+
+// Streams end before this and the client reconnects
+export const maxDuration = 60;
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * GET /api/workspaces/[workspaceId]/activity/stream
+ * Server-Sent Events for the activity feed, redacted exactly as GET /activity is:
+ *   activity-created  a new activity the viewer can see
+ *   reaction-changed  an activity's reactions after one was added or removed
+ *   comment-added     a new comment on an activity the viewer can see
+ *   reset             events since the client's last id were pruned; refetch the feed
+ * Event ids are the activity event log's ids, so a reconnect resumes where it left off.
+ * Activities still inside their author's delay aren't streamed; they show up on refetch
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const privacyByUser = await resolveWorkspacePrivacy(workspaceId);
+
+    // Resume after the last delivered event, or start from now
+    const resumeFrom = Number(getLastEventId(request));
+    let cursor = Number.isInteger(resumeFrom) && resumeFrom > 0 ? resumeFrom : await getLatestEventId();
+    let reset = false;
+    if (cursor === resumeFrom && (await isEventCursorExpired(cursor))) {
+      cursor = await getLatestEventId();
+      reset = true;
+    }
+    const sent = new Map<number, number>();
+
+    return createPollingStream(request, {
+      intervalMs: POLL_INTERVAL_MS,
+      poll: async () => {
+        const events: StreamEvent[] = [];
+
+        if (reset) {
+          reset = false;
+          events.push({ event: "reset", id: String(cursor), data: {} });
+        }
+
+        const now = new Date();
+        const changes = await getActivityEventsSince(workspaceId, cursor, sent, now);
+        if (changes.length === 0) return events;
+
+        const activities = await prisma.workspaceActivity.findMany({
+          where: {
+            workspaceId,
+            id: { in: Array.from(new Set(changes.map((change) => change.activityId))) },
+          },
+          include: activityFeedInclude,
+        });
+        const activitiesById = new Map(activities.map((activity) => [activity.id, activity]));
+        const context = { workspaceId, viewerId: userId, privacyByUser, now };
+
+        for (const change of changes) {
+          if (change.id > cursor) cursor = change.id;
+
+          const record = activitiesById.get(change.activityId);
+          const activity = record ? formatFeedActivity(record, context) : null;
+          // Deleted, hidden or delayed: nothing the viewer may see
+          if (!activity) continue;
+
+          const id = String(cursor);
+          if (change.type === "activity-created") {
+            events.push({ event: "activity-created", id, data: activity });
+          } else if (change.type === "reaction-changed") {
+            const data: ReactionChangedEvent = {
+              activityId: activity.id,
+              reactions: activity.reactions,
+              reactionCounts: activity.reactionCounts,
+              hasUserReacted: activity.hasUserReacted,
+            };
+            events.push({ event: "reaction-changed", id, data });
+          } else if (change.type === "comment-added") {
+            const comment = activity.comments.find((c) => c.id === change.commentId);
+            if (!comment) continue;
+            const data: CommentAddedEvent = { activityId: activity.id, comment };
+            events.push({ event: "comment-added", id, data });
+          }
+        }
+
+        return events;
+      },
+    });
+  } catch (error) {
+    console.error("Error opening activity stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open activity stream" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { isDisclosureDelayed, redactIdentity, resolveWorkspacePrivacy } from "@/lib/privacy";
+import { averageAllocations, buildAllocation, redactAllocation } from "@/lib/allocation";
+import { classifySecurities } from "@/lib/security-classification";
+import type { SquadAllocationResponse } from "@/lib/validations/portfolio";
+
+/**
+ * GET /api/workspaces/[workspaceId]/allocation
+ * Sector, asset class and geography breakdowns for each member and for the squad
+ * Members sharing tickers_only show percentages without values; hidden members get null and
+ * are left out of the squad's breakdown. Positions still inside a member's activity delay
+ * don't count yet
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const [privacyByUser, members, positions] = await Promise.all([
+      resolveWorkspacePrivacy(workspaceId),
+      prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        include: { user: { select: { id: true, name: true, email: true } } },
+      }),
+      prisma.position.findMany({
+        where: {
+          quantity: { gt: 0 },
+          account: {
+            status: "active",
+            connection: {
+              status: "active",
+              snaptradeUser: {
+                user: { workspaces: { some: { workspaceId } } },
+              },
+            },
+          },
+        },
+        select: {
+          symbol: true,
+          securityType: true,
+          marketValue: true,
+          createdAt: true,
+          account: {
+            select: { connection: { select: { snaptradeUser: { select: { userId: true } } } } },
+          },
+        },
+      }),
+    ]);
+
+    const now = new Date();
+    const classifications = await classifySecurities(positions);
+
+    // The same delay applies to the squad's breakdown as to each member's
+    const positionsByUser = new Map<string, typeof positions>();
+    for (const position of positions) {
+      const ownerId = position.account.connection.snaptradeUser.userId;
+      const privacy = privacyByUser.get(ownerId);
+      if (ownerId !== userId) {
+        if (!privacy || privacy.positions === "hidden") continue;
+        if (isDisclosureDelayed("POSITION_OPENED", position.createdAt, privacy, now)) continue;
+      }
+
+      const owned = positionsByUser.get(ownerId) ?? [];
+      owned.push(position);
+      positionsByUser.set(ownerId, owned);
+    }
+
+    const membersData = members.map((member) => {
+      const privacy = privacyByUser.get(member.userId)!;
+      const isCurrentUser = member.userId === userId;
+      const allocation = buildAllocation(positionsByUser.get(member.userId) ?? [], classifications);
+
+      const identity = redactIdentity(
+        { userId: member.userId, name: member.user.name || member.user.email || "Unknown" },
+        privacy,
+        { workspaceId, viewerId: userId }
+      );
+
+      return {
+        allocation,
+        visible: privacy.positions !== "hidden",
+        member: {
+          memberId: identity.userId,
+          memberName: identity.name ?? "Unknown",
+          isCurrentUser,
+          // Your own breakdown is always shown in full
+          allocation: isCurrentUser ? allocation : redactAllocation(allocation, privacy),
+        },
+      };
+    });
+
+    const response: SquadAllocationResponse = {
+      squad: averageAllocations(membersData.filter((m) => m.visible).map((m) => m.allocation)),
+      members: membersData.map((m) => m.member),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching squad allocation:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch squad allocation" },
+      { status: 500 }
+    );
+  }
+}
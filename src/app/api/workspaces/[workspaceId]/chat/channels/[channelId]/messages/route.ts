@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspacePrivacy } from "@/lib/privacy";
+import {
+  markChannelRead,
+  messageInclude,
+  serializeMessages,
+  touchPresence,
+} from "@/lib/chat";
+import { notifyMentions } from "@/lib/notifications";
+import {
+  MessagesQuerySchema,
+  SendMessageSchema,
+  type MessageResponse,
+  type MessagesResponse,
+} from "@/lib/validations/chat";
+
+/**
+ * GET /api/workspaces/[workspaceId]/chat/channels/[channelId]/messages
+ * A page of messages, newest page first; pass nextCursor as `before` for older messages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; channelId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, channelId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = MessagesQuerySchema.safeParse({
+      before: searchParams.get("before") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: queryResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { before, limit } = queryResult.data;
+
+    const channel = await prisma.channel.findFirst({
+      where: { id: channelId, workspaceId },
+      select: { id: true },
+    });
+
+    if (!channel) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    }
+
+    const [page, privacyByUser] = await Promise.all([
+      prisma.message.findMany({
+        where: { channelId, deletedAt: null },
+        include: messageInclude,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        // One extra to tell whether there's an older page
+        take: limit + 1,
+        ...(before ? { cursor: { id: before }, skip: 1 } : {}),
+      }),
+      resolveWorkspacePrivacy(workspaceId),
+    ]);
+
+    const hasMore = page.length > limit;
+    const messages = page.slice(0, limit).reverse();
+
+    const response: MessagesResponse = {
+      messages: serializeMessages(messages, privacyByUser, { workspaceId, viewerId: userId }),
+      hasMore,
+      nextCursor: hasMore ? messages[0].id : undefined,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching chat messages:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch messages" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workspaces/[workspaceId]/chat/channels/[channelId]/messages
+ * Send a message; the channel counts as read up to it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; channelId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, channelId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const bodyResult = SendMessageSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    const channel = await prisma.channel.findFirst({
+      where: { id: channelId, workspaceId },
+      select: { id: true, name: true },
+    });
+
+    if (!channel) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    }
+
+    const message = await prisma.message.create({
+      data: {
+        channelId,
+        workspaceId,
+        authorId: userId,
+        content: bodyResult.data.content,
+      },
+      include: messageInclude,
+    });
+
+    await Promise.all([
+      markChannelRead(channelId, userId, message.createdAt),
+      touchPresence(workspaceId, userId),
+    ]);
+    await notifyMentions({
+      workspaceId,
+      actorId: userId,
+      content: message.content,
+      data: { channelId, channelName: channel.name },
+    });
+
+    const response: MessageResponse = {
+      // Authors always see themselves, so no privacy lookup is needed
+      message: serializeMessages([message], new Map(), { workspaceId, viewerId: userId })[0],
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("Error sending chat message:", error);
+    return NextResponse.json(
+      { error: "Failed to send message" },
+      { status: 500 }
+    );
+  }
+}
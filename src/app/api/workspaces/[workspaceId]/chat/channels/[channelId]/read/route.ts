@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { markChannelRead } from "@/lib/chat";
+
+/**
+ * POST /api/workspaces/[workspaceId]/chat/channels/[channelId]/read
+ * Mark everything in the channel as read
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; channelId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, channelId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const channel = await prisma.channel.findFirst({
+      where: { id: channelId, workspaceId },
+      select: { id: true },
+    });
+
+    if (!channel) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    }
+
+    await markChannelRead(channelId, userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error marking channel read:", error);
+    return NextResponse.json(
+      { error: "Failed to mark channel as read" },
+      { status: 500 }
+    );
+  }
+}
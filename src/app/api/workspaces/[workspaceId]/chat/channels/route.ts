@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { ensureDefaultChannel, getUnreadCounts } from "@/lib/chat";
+import {
+  CreateChannelSchema,
+  type ChannelResponse,
+  type ChannelsResponse,
+} from "@/lib/validations/chat";
+
+/**
+ * GET /api/workspaces/[workspaceId]/chat/channels
+ * The workspace's channels with the member's unread counts, #general first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    await ensureDefaultChannel(workspaceId);
+
+    const channels = await prisma.channel.findMany({
+      where: { workspaceId },
+      orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+    });
+
+    const unread = await getUnreadCounts(userId, channels.map((channel) => channel.id));
+
+    const response: ChannelsResponse = {
+      channels: channels.map((channel) => ({
+        id: channel.id,
+        name: channel.name,
+        description: channel.description,
+        isDefault: channel.isDefault,
+        unreadCount: unread.get(channel.id) ?? 0,
+        createdAt: channel.createdAt,
+      })),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching chat channels:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch channels" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workspaces/[workspaceId]/chat/channels
+ * Create a channel (any member)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const bodyResult = CreateChannelSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, description } = bodyResult.data;
+
+    const existing = await prisma.channel.findUnique({
+      where: { workspaceId_name: { workspaceId, name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `#${name} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const channel = await prisma.channel.create({
+      data: {
+        workspaceId,
+        name,
+        description: description || null,
+        createdById: userId,
+      },
+    });
+
+    const response: ChannelResponse = {
+      channel: {
+        id: channel.id,
+        name: channel.name,
+        description: channel.description,
+        isDefault: channel.isDefault,
+        unreadCount: 0,
+        createdAt: channel.createdAt,
+      },
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("Error creating chat channel:", error);
+    return NextResponse.json(
+      { error: "Failed to create channel" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { messageInclude, serializeMessages } from "@/lib/chat";
+import { EditMessageSchema, type MessageResponse } from "@/lib/validations/chat";
+
+/**
+ * PATCH /api/workspaces/[workspaceId]/chat/messages/[messageId]
+ * Edit your own message
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; messageId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, messageId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, workspaceId, deletedAt: null },
+      select: { id: true, authorId: true },
+    });
+
+    if (!message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    if (message.authorId !== userId) {
+      return NextResponse.json(
+        { error: "Only the author can edit this message" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const bodyResult = EditMessageSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.message.update({
+      where: { id: messageId },
+      data: { content: bodyResult.data.content, editedAt: new Date() },
+      include: messageInclude,
+    });
+
+    const response: MessageResponse = {
+      message: serializeMessages([updated], new Map(), { workspaceId, viewerId: userId })[0],
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error editing chat message:", error);
+    return NextResponse.json(
+      { error: "Failed to edit message" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[workspaceId]/chat/messages/[messageId]
+ * Delete a message (its author, or a workspace owner/admin)
+ * The row stays with its content cleared so live clients can drop it
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; messageId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, messageId } = await params;
+
+    const [message, workspaceMember] = await Promise.all([
+      prisma.message.findFirst({
+        where: { id: messageId, workspaceId, deletedAt: null },
+        select: { id: true, authorId: true },
+      }),
+      prisma.workspaceMember.findUnique({
+        where: {
+          workspaceId_userId: {
+            workspaceId,
+            userId,
+          },
+        },
+      }),
+    ]);
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    if (!message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    const isModerator = workspaceMember.role === "OWNER" || workspaceMember.role === "ADMIN";
+    if (message.authorId !== userId && !isModerator) {
+      return NextResponse.json(
+        { error: "Only the author or a workspace admin can delete this message" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.message.update({
+      where: { id: messageId },
+      data: { content: "", deletedAt: new Date() },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting chat message:", error);
+    return NextResponse.json(
+      { error: "Failed to delete message" },
+      { status: 500 }
+    );
+  }
+}
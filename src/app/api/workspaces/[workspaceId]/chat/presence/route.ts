@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspacePrivacy } from "@/lib/privacy";
+import { getWorkspacePresence, touchPresence } from "@/lib/chat";
+import { UpdatePresenceSchema, type PresenceResponse } from "@/lib/validations/chat";
+
+/**
+ * GET /api/workspaces/[workspaceId]/chat/presence
+ * Who's online, away or trading
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const privacyByUser = await resolveWorkspacePrivacy(workspaceId);
+    const response: PresenceResponse = {
+      members: await getWorkspacePresence(workspaceId, userId, privacyByUser),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching chat presence:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch presence" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workspaces/[workspaceId]/chat/presence
+ * Heartbeat from the chat page, with the status the member wants to show
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const bodyResult = UpdatePresenceSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    await touchPresence(workspaceId, userId, bodyResult.data.status);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating chat presence:", error);
+    return NextResponse.json(
+      { error: "Failed to update presence" },
+      { status: 500 }
+    );
+  }
+}
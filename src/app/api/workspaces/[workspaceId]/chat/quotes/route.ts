@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { getQuotes } from "@/lib/market-data";
+import { ChatQuotesQuerySchema, type ChatQuotesResponse } from "@/lib/validations/chat";
+
+/**
+ * GET /api/workspaces/[workspaceId]/chat/quotes?symbols=NVDA,TSLA
+ * Live prices for the $TICKER chips in chat messages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = ChatQuotesQuerySchema.safeParse({
+      symbols: searchParams.get("symbols") || undefined,
+    });
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: queryResult.error },
+        { status: 400 }
+      );
+    }
+
+    const quotes = await getQuotes(queryResult.data.symbols);
+
+    const response: ChatQuotesResponse = {
+      quotes: [...quotes.values()].map((quote) => ({
+        symbol: quote.symbol,
+        price: quote.price,
+        change: quote.change,
+        changePercent: quote.changePercent,
+      })),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching chat quotes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quotes" },
+      { status: 500 }
+    );
+  }
+}
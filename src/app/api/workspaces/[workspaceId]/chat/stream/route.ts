@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { resolveWorkspacePrivacy } from "@/lib/privacy";
+import {
+  getMessageChanges,
+  getWorkspacePresence,
+  serializeMessages,
+  touchPresence,
+} from "@/lib/chat";
+import { createPollingStream, getLastEventId, type StreamEvent } from "@/lib/event-stream";
+
+// Streams end before this and the client reconnects
+export const maxDuration = 60;
+
+const POLL_INTERVAL_MS = 2000;
+
+// Presence is checked every few polls; an open stream keeps the member online
+const PRESENCE_EVERY_POLLS = 5;
+const HEARTBEAT_EVERY_POLLS = 15;
+
+/**
+ * GET /api/workspaces/[workspaceId]/chat/stream
+ * Server-Sent Events for the chat page:
+ *   message   a message was sent, edited or deleted (deletedAt set) in any channel
+ *   presence  the member list with statuses, whenever it changes
+ * Message event ids are the change cursor, so a reconnect resumes where it left off
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const privacyByUser = await resolveWorkspacePrivacy(workspaceId);
+    const context = { workspaceId, viewerId: userId };
+
+    // Resume from the last delivered change, or start from now
+    const resumeFrom = Number(getLastEventId(request));
+    let cursor = new Date(resumeFrom > 0 ? Math.min(resumeFrom, Date.now()) : Date.now());
+    const sent = new Map<string, number>();
+    let lastPresence = "";
+    let polls = 0;
+
+    return createPollingStream(request, {
+      intervalMs: POLL_INTERVAL_MS,
+      poll: async () => {
+        const events: StreamEvent[] = [];
+
+        if (polls % HEARTBEAT_EVERY_POLLS === 0) {
+          await touchPresence(workspaceId, userId);
+        }
+
+        if (polls % PRESENCE_EVERY_POLLS === 0) {
+          const members = await getWorkspacePresence(workspaceId, userId, privacyByUser);
+          const snapshot = JSON.stringify(members.map((member) => [member.memberId, member.status]));
+          if (snapshot !== lastPresence) {
+            lastPresence = snapshot;
+            events.push({ event: "presence", data: { members } });
+          }
+        }
+        polls++;
+
+        const changes = await getMessageChanges(workspaceId, cursor, sent);
+        const messages = serializeMessages(changes, privacyByUser, context);
+        changes.forEach((change, i) => {
+          if (change.updatedAt > cursor) cursor = change.updatedAt;
+          events.push({ event: "message", id: String(cursor.getTime()), data: messages[i] });
+        });
+
+        return events;
+      },
+    });
+  } catch (error) {
+    console.error("Error opening chat stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open chat stream" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { isDisclosureDelayed, resolveWorkspacePrivacy } from "@/lib/privacy";
+import { getQuotes } from "@/lib/market-data";
+import type { SquadHolding } from "@/lib/validations/portfolio";
+
+/**
+ * GET /api/workspaces/[workspaceId]/holdings
+ * The squad's combined holdings with live quotes, largest absolute daily move first
+ * Only tickers and holder counts are returned, so tickers_only members are included;
+ * hidden positions and positions still inside a member's activity delay are not
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const [privacyByUser, positions] = await Promise.all([
+      resolveWorkspacePrivacy(workspaceId),
+      prisma.position.findMany({
+        where: {
+          quantity: { gt: 0 },
+          account: {
+            status: "active",
+            connection: {
+              status: "active",
+              snaptradeUser: {
+                user: { workspaces: { some: { workspaceId } } },
+              },
+            },
+          },
+        },
+        select: {
+          symbol: true,
+          securityName: true,
+          currentPrice: true,
+          createdAt: true,
+          account: {
+            select: { connection: { select: { snaptradeUser: { select: { userId: true } } } } },
+          },
+        },
+      }),
+    ]);
+
+    // Combine by symbol, counting each member once
+    const now = new Date();
+    const bySymbol = new Map<string, { securityName: string | null; prices: number[]; holders: Set<string> }>();
+
+    for (const position of positions) {
+      const ownerId = position.account.connection.snaptradeUser.userId;
+      const privacy = privacyByUser.get(ownerId);
+
+      if (ownerId !== userId) {
+        if (!privacy || privacy.positions === "hidden") continue;
+        if (isDisclosureDelayed("POSITION_OPENED", position.createdAt, privacy, now)) continue;
+      }
+
+      const symbol = position.symbol.toUpperCase();
+      const entry = bySymbol.get(symbol) || { securityName: null, prices: [], holders: new Set<string>() };
+      entry.securityName ??= position.securityName;
+      entry.prices.push(position.currentPrice);
+      entry.holders.add(ownerId);
+      bySymbol.set(symbol, entry);
+    }
+
+    const quotes = await getQuotes([...bySymbol.keys()]);
+
+    const holdings: SquadHolding[] = [...bySymbol.entries()].map(([symbol, entry]) => {
+      const quote = quotes.get(symbol);
+      return {
+        symbol,
+        securityName: entry.securityName,
+        // Without a quote, fall back to the last synced position price
+        price: quote?.price ?? entry.prices.reduce((sum, price) => sum + price, 0) / entry.prices.length,
+        change: quote?.change ?? null,
+        changePercent: quote?.changePercent ?? null,
+        holders: entry.holders.size,
+      };
+    });
+
+    // Biggest movers first; holdings without a quote go last
+    const dailyMove = (holding: SquadHolding) =>
+      holding.changePercent === null ? -1 : Math.abs(holding.changePercent);
+    holdings.sort((a, b) => dailyMove(b) - dailyMove(a) || a.symbol.localeCompare(b.symbol));
+
+    const quoteTimes = [...quotes.values()].map((quote) => quote.asOf.getTime());
+
+    return NextResponse.json({
+      holdings,
+      quotedAt: quoteTimes.length > 0 ? new Date(Math.min(...quoteTimes)).toISOString() : null,
+    });
+  } catch (error) {
+    console.error("Error fetching squad holdings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch squad holdings" },
+      { status: 500 }
+    );
+  }
+}
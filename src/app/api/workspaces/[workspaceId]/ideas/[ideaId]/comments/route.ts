@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { redactIdentity } from "@/lib/privacy";
+import { notifyComment } from "@/lib/notifications";
+import { CommentOnIdeaSchema, type IdeaCommentResponse } from "@/lib/validations/ideas";
+
+/**
+ * POST /api/workspaces/[workspaceId]/ideas/[ideaId]/comments
+ * Comment on a trade idea
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; ideaId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, ideaId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    // Verify idea exists in this workspace
+    const idea = await prisma.tradeIdea.findFirst({
+      where: { id: ideaId, workspaceId },
+      select: { id: true, authorId: true, symbol: true },
+    });
+
+    if (!idea) {
+      return NextResponse.json({ error: "Trade idea not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const bodyResult = CommentOnIdeaSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    const comment = await prisma.tradeIdeaComment.create({
+      data: {
+        ideaId,
+        userId,
+        content: bodyResult.data.content,
+      },
+      include: { user: { select: { id: true, name: true, image: true } } },
+    });
+
+    await notifyComment({
+      workspaceId,
+      actorId: userId,
+      authorId: idea.authorId,
+      content: comment.content,
+      ideaId,
+      symbol: idea.symbol,
+    });
+
+    // You always see yourself under your real name
+    const commenter = redactIdentity({ userId, ...comment.user }, undefined, { workspaceId, viewerId: userId });
+
+    const response: IdeaCommentResponse = {
+      comment: {
+        id: comment.id,
+        ideaId: comment.ideaId,
+        userId: commenter.userId,
+        userName: commenter.name,
+        userImage: commenter.image,
+        content: comment.content,
+        createdAt: comment.createdAt,
+      },
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("Error commenting on trade idea:", error);
+    return NextResponse.json(
+      { error: "Failed to comment on trade idea" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import type { LikeIdeaResponse } from "@/lib/validations/ideas";
+
+/**
+ * POST /api/workspaces/[workspaceId]/ideas/[ideaId]/like
+ * Like a trade idea, or unlike it if you already do
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; ideaId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, ideaId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    // Verify idea exists in this workspace
+    const idea = await prisma.tradeIdea.findFirst({
+      where: { id: ideaId, workspaceId },
+      select: { id: true },
+    });
+
+    if (!idea) {
+      return NextResponse.json({ error: "Trade idea not found" }, { status: 404 });
+    }
+
+    // Toggle like (remove if exists, add if doesn't)
+    const { count: removed } = await prisma.tradeIdeaLike.deleteMany({
+      where: { ideaId, userId },
+    });
+
+    if (removed === 0) {
+      await prisma.tradeIdeaLike.createMany({
+        data: [{ ideaId, userId }],
+        skipDuplicates: true,
+      });
+    }
+
+    const response: LikeIdeaResponse = {
+      liked: removed === 0,
+      likeCount: await prisma.tradeIdeaLike.count({ where: { ideaId } }),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error liking trade idea:", error);
+    return NextResponse.json(
+      { error: "Failed to like trade idea" },
+      { status: 500 }
+    );
+  }
+}
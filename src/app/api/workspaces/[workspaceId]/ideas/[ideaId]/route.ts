@@ -0,0 +1,287 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { redactIdentity, resolveWorkspacePrivacy } from "@/lib/privacy";
+import { getQuotes } from "@/lib/market-data";
+import { serializeTradeIdea, tradeIdeaInclude, validateIdeaLevels } from "@/lib/trade-ideas";
+import { UpdateTradeIdeaSchema, type TradeIdeaResponse } from "@/lib/validations/ideas";
+
+/**
+ * GET /api/workspaces/[workspaceId]/ideas/[ideaId]
+ * A trade idea with its comments; counts a view the first time each member opens it
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; ideaId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, ideaId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.tradeIdea.findFirst({
+      where: { id: ideaId, workspaceId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Trade idea not found" }, { status: 404 });
+    }
+
+    // Views are distinct members, so re-opening an idea doesn't inflate it
+    const { count: newView } = await prisma.tradeIdeaView.createMany({
+      data: [{ ideaId, userId }],
+      skipDuplicates: true,
+    });
+
+    const [idea, privacyByUser] = await Promise.all([
+      newView > 0
+        ? prisma.tradeIdea.update({
+            where: { id: ideaId },
+            data: { viewCount: { increment: 1 } },
+            include: tradeIdeaInclude(userId),
+          })
+        : prisma.tradeIdea.findUniqueOrThrow({
+            where: { id: ideaId },
+            include: tradeIdeaInclude(userId),
+          }),
+      resolveWorkspacePrivacy(workspaceId),
+    ]);
+
+    const comments = await prisma.tradeIdeaComment.findMany({
+      where: { ideaId },
+      include: { user: { select: { id: true, name: true, image: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const context = { workspaceId, viewerId: userId };
+    const identityOf = (user: { id: string; name: string | null; image: string | null }) =>
+      redactIdentity({ userId: user.id, ...user }, privacyByUser.get(user.id), context);
+
+    const quote = idea.status === "open" ? (await getQuotes([idea.symbol])).get(idea.symbol) : undefined;
+
+    const response: TradeIdeaResponse = {
+      idea: serializeTradeIdea(idea, identityOf(idea.author), { viewerId: userId, quote }),
+      comments: comments.map((comment) => {
+        const commenter = identityOf(comment.user);
+        return {
+          id: comment.id,
+          ideaId: comment.ideaId,
+          userId: commenter.userId,
+          userName: commenter.name,
+          userImage: commenter.image,
+          content: comment.content,
+          createdAt: comment.createdAt,
+        };
+      }),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching trade idea:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trade idea" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/workspaces/[workspaceId]/ideas/[ideaId]
+ * Edit your own idea while it's open (title, thesis, tags, target and stop)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; ideaId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, ideaId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const idea = await prisma.tradeIdea.findFirst({
+      where: { id: ideaId, workspaceId },
+    });
+
+    if (!idea) {
+      return NextResponse.json({ error: "Trade idea not found" }, { status: 404 });
+    }
+
+    if (idea.authorId !== userId) {
+      return NextResponse.json(
+        { error: "Only the author can edit this idea" },
+        { status: 403 }
+      );
+    }
+
+    if (idea.status !== "open") {
+      return NextResponse.json(
+        { error: "Closed ideas can't be edited" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const bodyResult = UpdateTradeIdeaSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    const data = bodyResult.data;
+    const levelsError = validateIdeaLevels({
+      direction: idea.direction,
+      entryPrice: idea.entryPrice,
+      targetPrice: data.targetPrice ?? idea.targetPrice,
+      stopPrice: data.stopPrice ?? idea.stopPrice,
+    });
+    if (levelsError) {
+      return NextResponse.json({ error: levelsError }, { status: 400 });
+    }
+
+    const updated = await prisma.tradeIdea.update({
+      where: { id: ideaId },
+      data: {
+        ...data,
+        ...(data.tags ? { tags: [...new Set(data.tags)] } : {}),
+      },
+      include: tradeIdeaInclude(userId),
+    });
+
+    const quote = (await getQuotes([updated.symbol])).get(updated.symbol);
+
+    const response: TradeIdeaResponse = {
+      idea: serializeTradeIdea(
+        updated,
+        redactIdentity({ userId, ...updated.author }, undefined, { workspaceId, viewerId: userId }),
+        { viewerId: userId, quote }
+      ),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error updating trade idea:", error);
+    return NextResponse.json(
+      { error: "Failed to update trade idea" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[workspaceId]/ideas/[ideaId]
+ * Delete an idea (its author, or a workspace owner/admin)
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string; ideaId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId, ideaId } = await params;
+
+    const [idea, workspaceMember] = await Promise.all([
+      prisma.tradeIdea.findFirst({
+        where: { id: ideaId, workspaceId },
+        select: { id: true, authorId: true },
+      }),
+      prisma.workspaceMember.findUnique({
+        where: {
+          workspaceId_userId: {
+            workspaceId,
+            userId,
+          },
+        },
+      }),
+    ]);
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    if (!idea) {
+      return NextResponse.json({ error: "Trade idea not found" }, { status: 404 });
+    }
+
+    const isModerator = workspaceMember.role === "OWNER" || workspaceMember.role === "ADMIN";
+    if (idea.authorId !== userId && !isModerator) {
+      return NextResponse.json(
+        { error: "Only the author or a workspace admin can delete this idea" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.tradeIdea.delete({ where: { id: ideaId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting trade idea:", error);
+    return NextResponse.json(
+      { error: "Failed to delete trade idea" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { redactIdentity, resolveWorkspacePrivacy } from "@/lib/privacy";
+import { getIdeaHitRates, MIN_RANKED_IDEAS } from "@/lib/trade-ideas";
+import type { IdeaHitRate, IdeaHitRatesResponse } from "@/lib/validations/ideas";
+
+/**
+ * GET /api/workspaces/[workspaceId]/ideas/hit-rates
+ * Each member's trade idea record, best hit rate first
+ * Members with fewer than MIN_RANKED_IDEAS closed ideas are listed after the ranked ones
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const [privacyByUser, members, hitRates] = await Promise.all([
+      resolveWorkspacePrivacy(workspaceId),
+      prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        include: { user: { select: { id: true, name: true, email: true, image: true } } },
+      }),
+      getIdeaHitRates(workspaceId),
+    ]);
+
+    // Current members who have posted at least one idea
+    const ranking: IdeaHitRate[] = members.flatMap((member) => {
+      const counts = hitRates.get(member.userId);
+      if (!counts) return [];
+
+      const identity = redactIdentity(
+        {
+          userId: member.userId,
+          name: member.user.name || member.user.email || "Unknown",
+          image: member.user.image,
+        },
+        privacyByUser.get(member.userId),
+        { workspaceId, viewerId: userId }
+      );
+
+      return [{
+        memberId: identity.userId,
+        memberName: identity.name ?? "Unknown",
+        memberImage: identity.image,
+        isCurrentUser: member.userId === userId,
+        ...counts,
+      }];
+    });
+
+    ranking.sort(
+      (a, b) =>
+        Number(b.ranked) - Number(a.ranked) ||
+        (b.hitRate ?? -1) - (a.hitRate ?? -1) ||
+        (b.averageReturn ?? -Infinity) - (a.averageReturn ?? -Infinity) ||
+        b.closed - a.closed
+    );
+
+    const response: IdeaHitRatesResponse = {
+      members: ranking,
+      minClosedIdeas: MIN_RANKED_IDEAS,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching idea hit rates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch idea hit rates" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { redactIdentity, resolveMemberId, resolveWorkspacePrivacy } from "@/lib/privacy";
+import { getQuotes } from "@/lib/market-data";
+import { generateActivityFromIdea } from "@/lib/activity-generator";
+import {
+  getIdeaExpiry,
+  serializeTradeIdea,
+  tradeIdeaInclude,
+  validateIdeaLevels,
+} from "@/lib/trade-ideas";
+import {
+  CreateTradeIdeaSchema,
+  TradeIdeaQuerySchema,
+  type TradeIdeaResponse,
+  type TradeIdeasResponse,
+} from "@/lib/validations/ideas";
+
+/**
+ * GET /api/workspaces/[workspaceId]/ideas?status=open&sort=trending&symbol=&authorId=
+ * The squad's trade ideas, newest first or by likes, comments and views (trending)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = TradeIdeaQuerySchema.safeParse({
+      status: searchParams.get("status") || undefined,
+      sort: searchParams.get("sort") || undefined,
+      symbol: searchParams.get("symbol") || undefined,
+      authorId: searchParams.get("authorId") || undefined,
+      limit: searchParams.get("limit") || undefined,
+      offset: searchParams.get("offset") || undefined,
+    });
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters" },
+        { status: 400 }
+      );
+    }
+    const query = queryResult.data;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const privacyByUser = await resolveWorkspacePrivacy(workspaceId);
+    const context = { workspaceId, viewerId: userId };
+
+    const where = {
+      workspaceId,
+      ...(query.status === "open" ? { status: "open" } : {}),
+      ...(query.status === "closed" ? { status: { not: "open" } } : {}),
+      ...(query.symbol ? { symbol: query.symbol } : {}),
+      // Anonymous members are filtered by their pseudonym id; no match returns nothing
+      ...(query.authorId
+        ? { authorId: resolveMemberId(query.authorId, privacyByUser, context) ?? { in: [] } }
+        : {}),
+    };
+
+    const [ideas, total] = await Promise.all([
+      prisma.tradeIdea.findMany({
+        where,
+        include: tradeIdeaInclude(userId),
+        orderBy:
+          query.sort === "trending"
+            ? [{ likes: { _count: "desc" } }, { comments: { _count: "desc" } }, { viewCount: "desc" }, { createdAt: "desc" }]
+            : [{ createdAt: "desc" }],
+        take: query.limit + 1, // Fetch one extra to check if there's more
+        skip: query.offset,
+      }),
+      prisma.tradeIdea.count({ where }),
+    ]);
+
+    const hasMore = ideas.length > query.limit;
+    const pageIdeas = hasMore ? ideas.slice(0, query.limit) : ideas;
+
+    const quotes = await getQuotes(
+      pageIdeas.filter((idea) => idea.status === "open").map((idea) => idea.symbol)
+    );
+
+    const response: TradeIdeasResponse = {
+      ideas: pageIdeas.map((idea) =>
+        serializeTradeIdea(
+          idea,
+          redactIdentity({ userId: idea.author.id, ...idea.author }, privacyByUser.get(idea.authorId), context),
+          { viewerId: userId, quote: quotes.get(idea.symbol) }
+        )
+      ),
+      total,
+      hasMore,
+      nextOffset: hasMore ? query.offset + query.limit : undefined,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching trade ideas:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trade ideas" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workspaces/[workspaceId]/ideas
+ * Share a trade idea with the squad (posts an IDEA_SHARED activity)
+ * The entry defaults to the current quote
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const bodyResult = CreateTradeIdeaSchema.safeParse(body);
+
+    if (!bodyResult.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: bodyResult.error },
+        { status: 400 }
+      );
+    }
+
+    const data = bodyResult.data;
+    const quote = (await getQuotes([data.symbol])).get(data.symbol);
+    const entryPrice = data.entryPrice ?? quote?.price;
+
+    if (entryPrice === undefined) {
+      return NextResponse.json(
+        { error: `No price available for ${data.symbol}; enter an entry price` },
+        { status: 400 }
+      );
+    }
+
+    const levelsError = validateIdeaLevels({ ...data, entryPrice });
+    if (levelsError) {
+      return NextResponse.json({ error: levelsError }, { status: 400 });
+    }
+
+    const now = new Date();
+    const idea = await prisma.tradeIdea.create({
+      data: {
+        workspaceId,
+        authorId: userId,
+        symbol: data.symbol,
+        title: data.title,
+        thesis: data.thesis,
+        direction: data.direction,
+        entryPrice,
+        targetPrice: data.targetPrice,
+        stopPrice: data.stopPrice,
+        timeframe: data.timeframe,
+        tags: [...new Set(data.tags)],
+        expiresAt: getIdeaExpiry(data.timeframe, now),
+      },
+      include: tradeIdeaInclude(userId),
+    });
+
+    await generateActivityFromIdea({
+      userId,
+      workspaceId,
+      ideaId: idea.id,
+      symbol: idea.symbol,
+      direction: idea.direction,
+      price: idea.entryPrice,
+    });
+
+    const response: TradeIdeaResponse = {
+      idea: serializeTradeIdea(
+        idea,
+        redactIdentity({ userId, ...idea.author }, undefined, { workspaceId, viewerId: userId }),
+        { viewerId: userId, quote }
+      ),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error("Error creating trade idea:", error);
+    return NextResponse.json(
+      { error: "Failed to create trade idea" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import {
+  getPerformancePrivacyLevel,
+  isDisclosureDelayed,
+  redactIdentity,
+  resolveWorkspacePrivacy,
+} from "@/lib/privacy";
+import { loadStatsInputs } from "@/lib/portfolio-stats";
+import {
+  correlationMatrix,
+  getCrowdedSymbols,
+  jaccardMatrix,
+  weightOverlapMatrix,
+  type MemberHoldings,
+} from "@/lib/overlap";
+import { SquadOverlapQuerySchema, type SquadOverlapResponse } from "@/lib/validations/portfolio";
+
+/**
+ * GET /api/workspaces/[workspaceId]/overlap?period=3M
+ * Crowded symbols, holdings overlap between members and how their daily returns correlate
+ * tickers_only members count towards ticker overlap but not towards weights; hidden members
+ * and positions still inside a member's activity delay don't count. Correlations need the
+ * member's performance to be visible
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = SquadOverlapQuerySchema.safeParse({
+      period: searchParams.get("period") || undefined,
+    });
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters" },
+        { status: 400 }
+      );
+    }
+    const { period } = queryResult.data;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const now = new Date();
+
+    const [privacyByUser, members, positions] = await Promise.all([
+      resolveWorkspacePrivacy(workspaceId),
+      prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        orderBy: { joinedAt: "asc" },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              snaptrade: {
+                select: {
+                  brokerageConnections: {
+                    where: { status: "active" },
+                    select: {
+                      brokerageAccounts: {
+                        where: { status: "active" },
+                        select: { id: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }),
+      prisma.position.findMany({
+        where: {
+          quantity: { gt: 0 },
+          account: {
+            status: "active",
+            connection: {
+              status: "active",
+              snaptradeUser: {
+                user: { workspaces: { some: { workspaceId } } },
+              },
+            },
+          },
+        },
+        select: {
+          symbol: true,
+          marketValue: true,
+          createdAt: true,
+          account: {
+            select: { connection: { select: { snaptradeUser: { select: { userId: true } } } } },
+          },
+        },
+      }),
+    ]);
+
+    // Market value by symbol for each member, leaving out positions others can't see yet
+    const valuesByUser = new Map<string, Map<string, number>>();
+    for (const position of positions) {
+      const ownerId = position.account.connection.snaptradeUser.userId;
+      const privacy = privacyByUser.get(ownerId);
+      if (ownerId !== userId) {
+        if (!privacy || privacy.positions === "hidden") continue;
+        if (isDisclosureDelayed("POSITION_OPENED", position.createdAt, privacy, now)) continue;
+      }
+
+      const values = valuesByUser.get(ownerId) ?? new Map<string, number>();
+      const symbol = position.symbol.toUpperCase();
+      values.set(symbol, (values.get(symbol) ?? 0) + Math.max(0, position.marketValue));
+      valuesByUser.set(ownerId, values);
+    }
+
+    const membersData = await Promise.all(
+      members.map(async (member) => {
+        const privacy = privacyByUser.get(member.userId)!;
+        const isCurrentUser = member.userId === userId;
+        const values = valuesByUser.get(member.userId) ?? new Map<string, number>();
+
+        const identity = redactIdentity(
+          { userId: member.userId, name: member.user.name || member.user.email || "Unknown" },
+          privacy,
+          { workspaceId, viewerId: userId }
+        );
+
+        // Your own holdings and returns are always yours to compare
+        const positionsLevel = isCurrentUser ? "full" : privacy.positions;
+        const holdings: MemberHoldings = {
+          memberId: identity.userId,
+          symbols: positionsLevel === "hidden" ? new Set() : new Set(values.keys()),
+          values: positionsLevel === "full" ? values : null,
+          countsTowardsWeights: privacy.positions === "full",
+        };
+
+        const showsPerformance = isCurrentUser || getPerformancePrivacyLevel(privacy) !== "hidden";
+        const accountIds = (member.user.snaptrade?.brokerageConnections ?? []).flatMap((connection) =>
+          connection.brokerageAccounts.map((account) => account.id)
+        );
+        const returns = showsPerformance ? (await loadStatsInputs(accountIds, period, now)).returns : null;
+
+        return {
+          holdings,
+          returns,
+          // The squad's crowded list is the same for everyone, so it only uses shared tickers
+          sharesTickers: privacy.positions !== "hidden",
+          member: {
+            memberId: identity.userId,
+            memberName: identity.name ?? "Unknown",
+            isCurrentUser,
+            positions: positionsLevel,
+            holdings: positionsLevel === "hidden" ? null : holdings.symbols.size,
+          },
+        };
+      })
+    );
+
+    const allHoldings = membersData.map((m) => m.holdings);
+
+    const response: SquadOverlapResponse = {
+      members: membersData.map((m) => m.member),
+      crowded: getCrowdedSymbols(membersData.filter((m) => m.sharesTickers).map((m) => m.holdings)),
+      jaccard: jaccardMatrix(allHoldings),
+      weightOverlap: weightOverlapMatrix(allHoldings),
+      correlation: correlationMatrix(membersData.map((m) => m.returns)),
+      period,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching squad overlap:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch squad overlap" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,28 @@ import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { prisma } from "@/lib/prisma";
 import {
-  resolvePrivacySettings,
-  parsePrivacySettings,
-  parseWorkspacePrivacyPolicy,
+  resolveWorkspacePrivacy,
   getPerformancePrivacyLevel,
-} from "@/lib/privacy-utils";
-import { TimePeriodSchema } from "@/lib/validations/portfolio";
+  redactIdentity,
+  redactValue,
+} from "@/lib/privacy";
+import { SquadHistoryQuerySchema, type IntradayInterval } from "@/lib/validations/portfolio";
+import {
+  computeReturnSeries,
+  computeTwrSeries,
+  getCashFlowsByAccount,
+  type CashFlow,
+} from "@/lib/returns";
+import {
+  bucketIntradaySnapshots,
+  DEFAULT_INTRADAY_INTERVAL,
+  getChartSessions,
+  getIntradayQueryStart,
+  isIntradayPeriod,
+  type IntradayPoint,
+} from "@/lib/intraday-snapshots";
+import type { MarketSession } from "@/lib/market-hours";
+import { getBenchmarkSeries } from "@/lib/benchmarks";
 
 /**
  * GET /api/workspaces/[workspaceId]/portfolio/history
@@ -31,19 +47,21 @@ export async function GET(
     const userId = session.user.id;
     const { workspaceId } = await params;
 
-    // Get period from query params
+    // Get period and return mode from query params
     const { searchParams } = new URL(request.url);
-    const periodParam = searchParams.get("period") || "1M";
-    
-    // Validate period
-    const periodResult = TimePeriodSchema.safeParse(periodParam);
-    if (!periodResult.success) {
+    const queryResult = SquadHistoryQuerySchema.safeParse({
+      period: searchParams.get("period") || undefined,
+      returnMode: searchParams.get("returnMode") || undefined,
+      interval: searchParams.get("interval") || undefined,
+      benchmarks: searchParams.get("benchmarks") ?? undefined,
+    });
+    if (!queryResult.success) {
       return NextResponse.json(
-        { error: "Invalid period parameter" },
+        { error: "Invalid query parameters" },
         { status: 400 }
       );
     }
-    const period = periodResult.data;
+    const { period, returnMode, interval, benchmarks } = queryResult.data;
 
     // Verify user is a member of this workspace
     const workspaceMember = await prisma.workspaceMember.findUnique({
@@ -94,10 +112,8 @@ export async function GET(
       },
     });
 
-    // Parse workspace privacy policy
-    const workspacePolicy = parseWorkspacePrivacyPolicy(
-      workspaceMember.workspace.privacyPolicy
-    );
+    // Resolve every member's effective privacy settings in one query
+    const privacyByUser = await resolveWorkspacePrivacy(workspaceId);
 
     // Calculate date range based on period
     const now = new Date();
@@ -127,27 +143,52 @@ export async function GET(
         break;
     }
 
-    // Process each member's data
-    const membersData = allMembers.map((member) => {
-      // Resolve this member's effective privacy settings
-      const userDefaults = parsePrivacySettings(member.user.privacyDefaults);
-      const workspaceOverride = member.privacyOverride
-        ? parsePrivacySettings(member.privacyOverride)
-        : null;
-      const effectiveSettings = resolvePrivacySettings(
-        userDefaults,
-        workspacePolicy,
-        workspaceOverride
+    const accountIdsByUser = new Map(
+      allMembers.map((member) => [
+        member.userId,
+        (member.user.snaptrade?.brokerageConnections ?? []).flatMap((connection) =>
+          connection.brokerageAccounts.map((account) => account.id)
+        ),
+      ])
+    );
+
+    // 1D/1W: bucketed intraday snapshots, unless nobody has enough of them yet
+    // (then fall back to the daily snapshots like the other periods)
+    let intradayByUser: Map<string, IntradayPoint[]> | null = null;
+    let bucketInterval: IntradayInterval | undefined;
+    if (isIntradayPeriod(period)) {
+      bucketInterval = interval ?? DEFAULT_INTRADAY_INTERVAL[period];
+      intradayByUser = await loadIntradayPoints(
+        accountIdsByUser,
+        getChartSessions(period, now),
+        bucketInterval
       );
+      if (![...intradayByUser.values()].some((points) => points.length >= 2)) {
+        intradayByUser = null;
+        bucketInterval = undefined;
+      }
+    }
 
-      const privacyLevel = getPerformancePrivacyLevel(effectiveSettings);
+    // Load deposits/withdrawals for every member account so returns can be
+    // cash-flow adjusted (otherwise a big deposit looks like a big gain)
+    const cashFlowsByAccount =
+      returnMode === "value"
+        ? new Map<string, CashFlow[]>()
+        : await getCashFlowsByAccount([...accountIdsByUser.values()].flat(), startDate);
+
+    // Process each member's data
+    const membersData = allMembers.map((member) => {
+      const privacy = privacyByUser.get(member.userId)!;
+      const privacyLevel = getPerformancePrivacyLevel(privacy);
 
       // Get all portfolio snapshots for this member in the date range
       const snapshots: Array<{ date: Date; value: number }> = [];
+      const cashFlows: CashFlow[] = [];
       
       if (member.user.snaptrade) {
         member.user.snaptrade.brokerageConnections.forEach((connection) => {
           connection.brokerageAccounts.forEach((account) => {
+            cashFlows.push(...(cashFlowsByAccount.get(account.id) ?? []));
             account.portfolioSnapshots
               .filter((snap) => snap.snapshotDate >= startDate)
               .forEach((snap) => {
@@ -168,19 +209,45 @@ export async function GET(
         snapshotsByDate.set(dateKey, current + snap.value);
       });
 
-      // Convert to sorted array
-      const aggregatedSnapshots = Array.from(snapshotsByDate.entries())
-        .map(([date, value]) => ({
-          date: new Date(date),
-          value,
-        }))
-        .sort((a, b) => a.date.getTime() - b.date.getTime());
+      // Convert to sorted array (intraday points are already summed across accounts)
+      const aggregatedSnapshots = intradayByUser
+        ? (intradayByUser.get(member.userId) ?? []).map((point) => ({
+            date: new Date(point.date),
+            value: point.value,
+          }))
+        : Array.from(snapshotsByDate.entries())
+            .map(([date, value]) => ({
+              date: new Date(date),
+              value,
+            }))
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      // Cash-flow adjusted return series (null in "value" mode). XIRR isn't
+      // meaningful over a few sessions, so intraday charts always use TWR
+      const returnSeries = intradayByUser
+        ? returnMode === "value"
+          ? null
+          : computeTwrSeries(
+              aggregatedSnapshots.map((snap) => ({ date: snap.date.toISOString(), value: snap.value })),
+              cashFlows
+            )
+        : computeReturnSeries(
+            returnMode,
+            aggregatedSnapshots.map((snap) => ({
+              date: snap.date.toISOString().split("T")[0],
+              value: snap.value,
+            })),
+            cashFlows
+          );
 
       // Calculate percentage changes from baseline
       const history = aggregatedSnapshots.map((snap, i) => {
         const baseValue = aggregatedSnapshots[0]?.value || 0;
-        const percentChange =
-          baseValue > 0 ? ((snap.value - baseValue) / baseValue) * 100 : 0;
+        const percentChange = returnSeries
+          ? returnSeries[i].returnPercent
+          : baseValue > 0
+            ? ((snap.value - baseValue) / baseValue) * 100
+            : 0;
 
         return {
           date: snap.date.toISOString(),
@@ -189,9 +256,16 @@ export async function GET(
         };
       });
 
+      const identity = redactIdentity(
+        { userId: member.userId, name: member.user.name || member.user.email || "Unknown" },
+        privacy,
+        { workspaceId, viewerId: userId }
+      );
+
       return {
-        memberId: member.userId,
-        memberName: member.user.name || member.user.email || "Unknown",
+        memberId: identity.userId,
+        memberName: identity.name ?? "Unknown",
+        privacy,
         privacyLevel,
         history,
         isCurrentUser: member.userId === userId,
@@ -208,8 +282,25 @@ export async function GET(
     // Calculate squad average (percentage returns averaged across visible members)
     const squadAverage = calculateSquadAverage(visibleMembers);
 
-    // Calculate squad total (sum of all visible portfolio values)
-    const squadTotal = calculateSquadTotal(visibleMembers);
+    // Calculate squad total (sum of visible portfolio values; approximate members
+    // contribute the middle of their range, never their exact value)
+    const squadTotal = calculateSquadTotal(
+      visibleMembers.map((m) => ({
+        ...m,
+        history: m.history.map((h) => ({
+          ...h,
+          value: redactValue(h.value, m.privacy) ?? 0,
+        })),
+      }))
+    );
+
+    // Benchmarks share the squad chart's dates (the workspace default unless others were asked for)
+    const chartDates = (squadAverage.length > 0 ? squadAverage : yourHistory).map((point) => point.date);
+    const benchmarkSeries = await getBenchmarkSeries(
+      benchmarks ?? [workspaceMember.workspace.defaultBenchmark],
+      chartDates,
+      { intraday: !!intradayByUser }
+    );
 
     // Count privacy stats
     const metadata = {
@@ -234,11 +325,21 @@ export async function GET(
                 percentChange: h.percentChange,
               })),
       })),
+      benchmarks: benchmarkSeries.map((benchmark) => ({
+        symbol: benchmark.symbol,
+        name: benchmark.name,
+        history: benchmark.history.map((h) => ({
+          date: h.date,
+          percentChange: h.returnPercent,
+        })),
+      })),
       yourHistory: yourHistory.map((h) => ({
         date: h.date,
         value: h.value,
         percentChange: h.percentChange,
       })),
+      returnMode,
+      ...(bucketInterval ? { interval: bucketInterval } : {}),
       metadata,
     });
   } catch (error) {
@@ -255,6 +356,42 @@ export async function GET(
   }
 }
 
+/**
+ * Bucket every member's intraday snapshots for the chart sessions
+ * One query for all accounts; members without snapshots get an empty series
+ */
+async function loadIntradayPoints(
+  accountIdsByUser: Map<string, string[]>,
+  sessions: MarketSession[],
+  interval: IntradayInterval
+) {
+  const pointsByUser = new Map<string, IntradayPoint[]>();
+  const accountIds = [...accountIdsByUser.values()].flat();
+  if (sessions.length === 0 || accountIds.length === 0) return pointsByUser;
+
+  const snapshots = await prisma.intradaySnapshot.findMany({
+    where: {
+      accountId: { in: accountIds },
+      snapshotAt: { gte: getIntradayQueryStart(sessions) },
+    },
+    orderBy: { snapshotAt: "asc" },
+  });
+
+  for (const [memberId, memberAccountIds] of accountIdsByUser) {
+    const owned = new Set(memberAccountIds);
+    pointsByUser.set(
+      memberId,
+      bucketIntradaySnapshots(
+        snapshots.filter((snap) => owned.has(snap.accountId)),
+        sessions,
+        interval
+      )
+    );
+  }
+
+  return pointsByUser;
+}
+
 /**
  * Calculate squad average percentage returns
  * Averages the percentage change across all visible members at each date point
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import {
+  getPerformancePrivacyLevel,
+  isDisclosureDelayed,
+  redactIdentity,
+  resolveWorkspacePrivacy,
+} from "@/lib/privacy";
+import {
+  averageReturns,
+  computePortfolioStats,
+  getBenchmarkLevels,
+  loadStatsInputs,
+  redactPortfolioStats,
+} from "@/lib/portfolio-stats";
+import { SquadStatsQuerySchema, type SquadStatsResponse } from "@/lib/validations/portfolio";
+
+/**
+ * GET /api/workspaces/[workspaceId]/stats?period=1Y&benchmark=SPY
+ * Risk and performance statistics for each member and for the squad
+ * Members who hide performance get null stats and are left out of the squad's numbers;
+ * positions closed inside a member's activity delay don't count towards the win rate yet
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { workspaceId } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const queryResult = SquadStatsQuerySchema.safeParse({
+      period: searchParams.get("period") || undefined,
+      benchmark: searchParams.get("benchmark") || undefined,
+    });
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters" },
+        { status: 400 }
+      );
+    }
+    const { period } = queryResult.data;
+
+    // Verify user is a member of this workspace
+    const workspaceMember = await prisma.workspaceMember.findUnique({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId,
+        },
+      },
+      include: { workspace: true },
+    });
+
+    if (!workspaceMember) {
+      return NextResponse.json(
+        { error: "Not a member of this workspace" },
+        { status: 403 }
+      );
+    }
+
+    const benchmark = queryResult.data.benchmark ?? workspaceMember.workspace.defaultBenchmark;
+    const now = new Date();
+
+    const [privacyByUser, members] = await Promise.all([
+      resolveWorkspacePrivacy(workspaceId),
+      prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              snaptrade: {
+                select: {
+                  brokerageConnections: {
+                    where: { status: "active" },
+                    select: {
+                      brokerageAccounts: {
+                        where: { status: "active" },
+                        select: { id: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    const membersData = await Promise.all(
+      members.map(async (member) => {
+        const privacy = privacyByUser.get(member.userId)!;
+        const accountIds = (member.user.snaptrade?.brokerageConnections ?? []).flatMap((connection) =>
+          connection.brokerageAccounts.map((account) => account.id)
+        );
+        const isCurrentUser = member.userId === userId;
+
+        const inputs = await loadStatsInputs(accountIds, period, now);
+        if (!isCurrentUser) {
+          inputs.closedPositions = inputs.closedPositions.filter(
+            (position) => !isDisclosureDelayed("POSITION_CLOSED", position.closedAt, privacy, now)
+          );
+        }
+
+        const identity = redactIdentity(
+          { userId: member.userId, name: member.user.name || member.user.email || "Unknown" },
+          privacy,
+          { workspaceId, viewerId: userId }
+        );
+
+        return { privacy, identity, inputs, isCurrentUser };
+      })
+    );
+
+    // One benchmark lookup covering every member's trading days
+    const allSeries = membersData.map((m) => m.inputs.returns).filter((returns) => returns.length > 0);
+    const levels = allSeries.length > 0
+      ? await getBenchmarkLevels(benchmark, allSeries, now)
+      : new Map<string, number>();
+    const benchmarkLevels = { symbol: benchmark, levels };
+
+    // Squad numbers only use members whose performance shows on the squad chart
+    const visible = membersData.filter((m) => getPerformancePrivacyLevel(m.privacy) !== "hidden");
+
+    const response: SquadStatsResponse = {
+      squad:
+        visible.length > 0
+          ? computePortfolioStats(
+              {
+                returns: averageReturns(visible.map((m) => m.inputs.returns)),
+                closedPositions: visible.flatMap((m) => m.inputs.closedPositions),
+              },
+              benchmarkLevels
+            )
+          : null,
+      members: membersData.map((m) => ({
+        memberId: m.identity.userId,
+        memberName: m.identity.name ?? "Unknown",
+        isCurrentUser: m.isCurrentUser,
+        stats: redactPortfolioStats(computePortfolioStats(m.inputs, benchmarkLevels), m.privacy),
+      })),
+      period,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching squad stats:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch squad stats" },
+      { status: 500 }
+    );
+  }
+}
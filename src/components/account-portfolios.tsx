@@ -20,7 +20,8 @@ import {
 } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import type { TimePeriod } from "@/lib/workspace-context";
-import { usePortfolioAccounts, useSyncPortfolio } from "@/hooks/use-portfolio";
+import { usePortfolioAccounts, usePortfolioAllocation, useSyncPortfolio } from "@/hooks/use-portfolio";
+import { AllocationBreakdown } from "@/components/allocation-breakdown";
 
 interface AccountPortfoliosProps {
   selectedPeriod: TimePeriod;
@@ -76,6 +77,7 @@ export function AccountPortfolios({ selectedPeriod }: AccountPortfoliosProps) {
 
   // ✅ Fetch real data with TanStack Query
   const { data, isLoading, error, refetch } = usePortfolioAccounts();
+  const { data: allocationData } = usePortfolioAllocation();
   const syncMutation = useSyncPortfolio();
 
   const handleSync = async () => {
@@ -900,8 +902,17 @@ export function AccountPortfolios({ selectedPeriod }: AccountPortfoliosProps) {
             );
           })}
         </div>
+
+        {/* Allocation */}
+        <div className="pt-4 border-t border-slate-700/50 space-y-3">
+          <div className="flex items-center gap-2">
+            <Grid3x3 className="w-4 h-4 text-cyan-400" />
+            <h3 className="text-white">Allocation</h3>
+            <span className="text-xs text-slate-500">Across all accounts</span>
+          </div>
+          <AllocationBreakdown allocation={allocationData?.allocation} />
+        </div>
       </div>
     </Card>
   );
 }
-
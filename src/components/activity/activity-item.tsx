@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { MessageSquare, Send } from "lucide-react";
 import type { WorkspaceActivity } from "@/lib/validations/activity";
+import type { PrivacyLevel } from "@/lib/privacy";
 import {
   formatActivityMessage,
   getActivityIcon,
@@ -15,7 +16,6 @@ import {
   formatFullTimestamp,
   REACTION_EMOJIS,
 } from "@/lib/activity-utils";
-import { parsePrivacySettings } from "@/lib/privacy-utils";
 import { useReactToActivity, useCommentOnActivity } from "@/hooks/use-activity";
 
 interface ActivityItemProps {
@@ -38,14 +38,8 @@ export function ActivityItem({
   const reactMutation = useReactToActivity(workspaceId, activity.id);
   const commentMutation = useCommentOnActivity(workspaceId, activity.id);
 
-  // Parse privacy settings from metadata
-  const privacyLevel = (activity.metadata as any)?.privacyLevel || "full";
-  const privacySettings = parsePrivacySettings({
-    portfolioValue: privacyLevel === "full" ? "exact" : privacyLevel === "partial" ? "approximate" : "hidden",
-    performance: "visible",
-    positions: privacyLevel === "full" ? "full" : privacyLevel === "partial" ? "tickers_only" : "hidden",
-    activity: privacyLevel === "full" ? "full" : privacyLevel === "partial" ? "without_amounts" : "hidden",
-  });
+  // Privacy level set by the server when the activity was redacted
+  const privacyLevel: PrivacyLevel = (activity.metadata as any)?.privacyLevel || "full";
 
   const message = formatActivityMessage(
     activity.type,
@@ -54,7 +48,7 @@ export function ActivityItem({
     activity.price,
     activity.value,
     activity.metadata,
-    privacySettings,
+    privacyLevel,
     activity.userName || "Unknown"
   );
 
@@ -22,6 +22,7 @@ import {
   Lightbulb,
   Eye,
   Sparkles,
+  Clock,
   Activity as ActivityIcon,
 } from "lucide-react";
 import { ActivityItem } from "./activity-item";
@@ -215,6 +216,18 @@ export function SquadActivityFeed({
               <span className="text-slate-400">
                 {data?.total || 0} activities
               </span>
+              {!!data?.delayedCount && (
+                <>
+                  <span className="text-slate-600">•</span>
+                  <span
+                    className="flex items-center gap-1 text-slate-500"
+                    title="Some squadmates delay their trades; they appear here once the delay has passed"
+                  >
+                    <Clock className="w-3.5 h-3.5" />
+                    {data.delayedCount} delayed {data.delayedCount === 1 ? "trade" : "trades"}
+                  </span>
+                </>
+              )}
               {filterType !== "all" && (
                 <>
                   <span className="text-slate-600">•</span>
@@ -0,0 +1,294 @@
+"use client";
+
+/**
+ * Allocation Breakdown - Sector, asset class and geography split of a portfolio
+ * Donut or treemap; members sharing tickers only show percentages without dollar values
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PieChart, Pie, Cell, Treemap, Tooltip, ResponsiveContainer } from "recharts";
+import { PieChart as PieChartIcon, LayoutGrid, Layers, Lock, RefreshCw } from "lucide-react";
+import { useSquadAllocation } from "@/hooks/use-portfolio";
+import type { Allocation, AllocationDimension, AllocationSlice } from "@/lib/validations/portfolio";
+
+const DIMENSIONS: Array<{ value: AllocationDimension; label: string }> = [
+  { value: "sector", label: "Sector" },
+  { value: "assetClass", label: "Asset Class" },
+  { value: "country", label: "Geography" },
+];
+
+const SLICE_COLORS = ["#06b6d4", "#f59e0b", "#8b5cf6", "#10b981", "#f43f5e", "#3b82f6", "#ec4899", "#84cc16", "#f97316", "#64748b"];
+
+// Slices beyond this are folded into "Other" so the donut stays readable
+const MAX_SLICES = 8;
+
+type ChartType = "donut" | "treemap";
+
+interface AllocationBreakdownProps {
+  allocation: Allocation | null | undefined;
+  emptyMessage?: string;
+}
+
+export function AllocationBreakdown({ allocation, emptyMessage = "No holdings to break down yet" }: AllocationBreakdownProps) {
+  const [dimension, setDimension] = useState<AllocationDimension>("sector");
+  const [chartType, setChartType] = useState<ChartType>("donut");
+
+  const slices = allocation ? foldSmallSlices(allocation[dimension]) : [];
+  const colored = slices.map((slice, i) => ({ ...slice, color: SLICE_COLORS[i % SLICE_COLORS.length] }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1 border border-slate-700/50">
+          {DIMENSIONS.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant="ghost"
+              onClick={() => setDimension(option.value)}
+              className={`h-8 px-3 text-xs ${
+                dimension === option.value
+                  ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/40"
+                  : "text-slate-400 hover:text-white"
+              }`}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1 border border-slate-700/50">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setChartType("donut")}
+            className={`h-8 px-2 ${chartType === "donut" ? "bg-slate-700 text-white" : "text-slate-400 hover:text-white"}`}
+            title="Donut"
+          >
+            <PieChartIcon className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setChartType("treemap")}
+            className={`h-8 px-2 ${chartType === "treemap" ? "bg-slate-700 text-white" : "text-slate-400 hover:text-white"}`}
+            title="Treemap"
+          >
+            <LayoutGrid className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!allocation || colored.length === 0 ? (
+        <div className="flex items-center justify-center h-48 text-sm text-slate-500">{emptyMessage}</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              {chartType === "donut" ? (
+                <PieChart>
+                  <Pie
+                    data={colored}
+                    dataKey="weight"
+                    nameKey="label"
+                    innerRadius="60%"
+                    outerRadius="90%"
+                    paddingAngle={1}
+                    stroke="#0f172a"
+                    isAnimationActive={false}
+                  >
+                    {colored.map((slice) => (
+                      <Cell key={slice.label} fill={slice.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip content={<SliceTooltip />} />
+                </PieChart>
+              ) : (
+                <Treemap
+                  data={colored.map((slice) => ({
+                    ...slice,
+                    // Industries inside each sector, colored like their sector
+                    children: slice.children?.map((child) => ({ ...child, color: slice.color, parent: slice.label })),
+                  }))}
+                  dataKey="weight"
+                  nameKey="label"
+                  stroke="#0f172a"
+                  isAnimationActive={false}
+                  content={TreemapCell}
+                >
+                  <Tooltip content={<SliceTooltip />} />
+                </Treemap>
+              )}
+            </ResponsiveContainer>
+          </div>
+
+          <div className="space-y-2">
+            {colored.map((slice) => (
+              <div key={slice.label} className="flex items-center gap-3 text-sm">
+                <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: slice.color }} />
+                <span className="text-slate-300 flex-1 truncate">{slice.label}</span>
+                {slice.value !== null && (
+                  <span className="text-slate-500 font-mono text-xs">
+                    ${slice.value.toLocaleString("en-US", { maximumFractionDigits: 0 })}
+                  </span>
+                )}
+                <span className="text-white font-mono w-14 text-right">{slice.weight.toFixed(1)}%</span>
+              </div>
+            ))}
+            {allocation.totalValue === null && (
+              <div className="flex items-center gap-1.5 pt-2 text-xs text-slate-500">
+                <Lock className="w-3 h-3" />
+                Shared as percentages only
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SquadAllocationProps {
+  workspaceId: string | null;
+}
+
+export function SquadAllocation({ workspaceId }: SquadAllocationProps) {
+  const { data, isLoading, error } = useSquadAllocation(workspaceId);
+  const [selected, setSelected] = useState("squad");
+
+  const selectedMember = data?.members.find((member) => member.memberId === selected);
+  const allocation = selected === "squad" ? data?.squad : selectedMember?.allocation;
+
+  return (
+    <Card className="border-slate-700/50 bg-gradient-to-b from-slate-800/40 via-slate-900/40 to-slate-800/40 backdrop-blur-sm">
+      <div className="p-4 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <Layers className="w-5 h-5 text-cyan-400" />
+              <h2 className="text-white">Allocation</h2>
+              {data?.squad && (
+                <Badge className="bg-slate-700/50 text-slate-300 border-slate-600 text-xs">
+                  {data.squad.positions} positions
+                </Badge>
+              )}
+            </div>
+            <p className="text-slate-400 text-sm">
+              {selected === "squad" ? "Squad average, each member weighted equally" : "Member breakdown"}
+            </p>
+          </div>
+          {data && (
+            <Select value={selected} onValueChange={setSelected}>
+              <SelectTrigger className="w-44 bg-slate-800/50 border-slate-700 text-slate-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                <SelectItem value="squad">Squad</SelectItem>
+                {data.members.map((member) => (
+                  <SelectItem key={member.memberId} value={member.memberId}>
+                    {member.isCurrentUser ? "You" : member.memberName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <RefreshCw className="w-6 h-6 text-cyan-400 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center h-48 text-sm text-red-400">{error.message}</div>
+        ) : (
+          <AllocationBreakdown
+            allocation={allocation}
+            emptyMessage={
+              selectedMember && !selectedMember.allocation
+                ? `${selectedMember.memberName} keeps their positions private`
+                : "No holdings to break down yet"
+            }
+          />
+        )}
+      </div>
+    </Card>
+  );
+}
+
+// ===== INTERNALS =====
+
+function foldSmallSlices(slices: AllocationSlice[]): AllocationSlice[] {
+  if (slices.length <= MAX_SLICES) return slices;
+
+  const rest = slices.slice(MAX_SLICES - 1);
+  const other: AllocationSlice = {
+    label: "Other",
+    weight: rest.reduce((sum, slice) => sum + slice.weight, 0),
+    value: rest.every((slice) => slice.value !== null)
+      ? rest.reduce((sum, slice) => sum + (slice.value ?? 0), 0)
+      : null,
+    positions: rest.reduce((sum, slice) => sum + slice.positions, 0),
+  };
+  return [...slices.slice(0, MAX_SLICES - 1), other];
+}
+
+interface TreemapCellProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+  name: string;
+  color?: string;
+  children?: unknown;
+}
+
+function TreemapCell({ x, y, width, height, depth, name, color, children }: TreemapCellProps) {
+  // Sectors with industries are drawn by their industries
+  if (depth === 0 || (Array.isArray(children) && children.length > 0)) return <g />;
+
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={color} fillOpacity={0.8} stroke="#0f172a" strokeWidth={2} />
+      {width > 60 && height > 24 && (
+        <text x={x + 6} y={y + 16} fill="#fff" fontSize={11}>
+          {name.length > width / 7 ? `${name.slice(0, Math.floor(width / 7) - 1)}…` : name}
+        </text>
+      )}
+    </g>
+  );
+}
+
+interface SliceTooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: AllocationSlice & { parent?: string } }>;
+}
+
+function SliceTooltip({ active, payload }: SliceTooltipProps) {
+  if (!active || !payload?.length) return null;
+  const slice = payload[0].payload;
+
+  return (
+    <div className="bg-slate-900/95 border border-slate-700 rounded-lg px-3 py-2 shadow-xl text-xs space-y-1">
+      <div className="text-white font-medium">
+        {slice.parent ? `${slice.parent} · ${slice.label}` : slice.label}
+      </div>
+      <div className="text-slate-300 font-mono">
+        {slice.weight.toFixed(1)}%
+        {slice.value !== null && ` · $${slice.value.toLocaleString("en-US", { maximumFractionDigits: 0 })}`}
+      </div>
+      <div className="text-slate-500">
+        {slice.positions} {slice.positions === 1 ? "position" : "positions"}
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
 } from "lucide-react";
 import { OmegaLogo } from "@/components/illustrations/OmegaLogo";
 import { WorkspaceContextSwitcher } from "./workspace-context-switcher";
+import { NotificationBell } from "./notification-bell";
 import type { WorkspaceContext } from "@/lib/workspace-context";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -188,6 +189,13 @@ export function AppSidebar({
 
         {/* Secondary Navigation */}
         <div className="space-y-1">
+          <NotificationBell
+            currentContext={currentContext}
+            workspaces={workspaces}
+            onContextChange={onContextChange}
+            onPageChange={onPageChange}
+          />
+
           <button
             onClick={() => onPageChange("workspaces")}
             className={`
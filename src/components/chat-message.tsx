@@ -0,0 +1,149 @@
+"use client";
+
+/**
+ * Chat Message - One message in squad chat
+ * $TICKER mentions render as chips with the live price and daily move
+ */
+
+import { useState, type ReactNode } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { formatFullTimestamp, formatRelativeTime } from "@/lib/activity-utils";
+import type { ChatMessage, ChatQuote } from "@/lib/validations/chat";
+
+interface ChatMessageItemProps {
+  message: ChatMessage;
+  quotes: Map<string, ChatQuote>;
+  onEdit: (content: string) => void;
+  onDelete: () => void;
+}
+
+export function ChatMessageItem({ message, quotes, onEdit, onDelete }: ChatMessageItemProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const createdAt = new Date(message.createdAt);
+  const name = message.isAuthor ? "You" : message.authorName ?? "Unknown";
+
+  const saveEdit = () => {
+    const content = draft.trim();
+    if (content && content !== message.content) onEdit(content);
+    setEditing(false);
+  };
+
+  return (
+    <div className="group flex gap-3">
+      <Avatar className="w-10 h-10 rounded-lg flex-shrink-0">
+        {message.authorImage && <AvatarImage src={message.authorImage} alt={name} />}
+        <AvatarFallback className="rounded-lg bg-gradient-to-br from-cyan-500 to-purple-500 text-white text-sm font-mono">
+          {initials(message.authorName ?? "?")}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2 mb-1">
+          <span className="text-slate-100">{name}</span>
+          <span className="text-xs text-slate-500" title={formatFullTimestamp(createdAt)}>
+            {formatRelativeTime(createdAt)}
+          </span>
+          {message.editedAt && <span className="text-xs text-slate-600">(edited)</span>}
+          {message.isAuthor && !editing && (
+            <span className="ml-auto flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => {
+                  setDraft(message.content);
+                  setEditing(true);
+                }}
+                className="text-slate-500 hover:text-cyan-400"
+                title="Edit"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => confirm("Delete this message?") && onDelete()}
+                className="text-slate-500 hover:text-red-400"
+                title="Delete"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          )}
+        </div>
+        {editing ? (
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveEdit();
+              if (e.key === "Escape") setEditing(false);
+            }}
+            onBlur={saveEdit}
+            maxLength={4000}
+            className="w-full px-3 py-1.5 rounded-lg bg-slate-800 border border-cyan-500/50 text-slate-100 text-sm focus:outline-none"
+          />
+        ) : (
+          <p className="text-slate-300 whitespace-pre-wrap break-words">
+            <MessageContent content={message.content} tickers={message.tickers} quotes={quotes} />
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ===== INTERNALS =====
+
+function MessageContent({
+  content,
+  tickers,
+  quotes,
+}: {
+  content: string;
+  tickers: string[];
+  quotes: Map<string, ChatQuote>;
+}) {
+  if (tickers.length === 0) return <>{content}</>;
+
+  // Split on the mentions the server found, keeping them as their own parts
+  const pattern = new RegExp(`(\\$(?:${tickers.map(escapeRegExp).join("|")}))\\b`, "g");
+  const parts: ReactNode[] = content.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <TickerChip key={i} symbol={part.slice(1)} quote={quotes.get(part.slice(1))} /> : part
+  );
+
+  return <>{parts}</>;
+}
+
+function TickerChip({ symbol, quote }: { symbol: string; quote: ChatQuote | undefined }) {
+  const change = quote?.changePercent ?? null;
+  const color =
+    change === null ? "text-slate-300" : change >= 0 ? "text-emerald-400" : "text-red-400";
+
+  return (
+    <span className="inline-flex items-baseline gap-1 px-1.5 py-0.5 mx-0.5 rounded bg-cyan-500/10 border border-cyan-500/30 text-xs font-mono align-baseline">
+      <span className="text-cyan-400">${symbol}</span>
+      {quote && (
+        <>
+          <span className="text-slate-200">{quote.price.toFixed(2)}</span>
+          {change !== null && (
+            <span className={color}>
+              {change >= 0 ? "+" : ""}
+              {change.toFixed(2)}%
+            </span>
+          )}
+        </>
+      )}
+    </span>
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
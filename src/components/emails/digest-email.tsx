@@ -0,0 +1,245 @@
+/**
+ * Digest Email - Daily or weekly squad summary, rendered server-side with @react-email/render
+ * Plain table markup with inline styles, since email clients ignore stylesheets
+ */
+
+import type { CSSProperties } from "react";
+import type { Digest, DigestIdea, DigestWorkspace } from "@/lib/digest";
+
+const COLORS = {
+  background: "#0f172a",
+  card: "#1e293b",
+  border: "#334155",
+  text: "#e2e8f0",
+  muted: "#94a3b8",
+  accent: "#22d3ee",
+  up: "#4ade80",
+  down: "#f87171",
+};
+
+const FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+const IDEA_STATUS_LABELS: Record<string, string> = {
+  target_hit: "hit its target",
+  stopped_out: "was stopped out",
+  expired: "expired",
+};
+
+export function DigestEmail({ digest }: { digest: Digest }) {
+  const period = digest.frequency === "daily" ? "the last day" : "the last week";
+
+  return (
+    <html lang="en">
+      {/* A standalone email document, not a Next.js page */}
+      {/* eslint-disable-next-line @next/next/no-head-element */}
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{`Your ${digest.frequency} squad digest`}</title>
+      </head>
+      <body style={{ margin: 0, padding: "24px 12px", backgroundColor: COLORS.background, fontFamily: FONT }}>
+        <table role="presentation" width="100%" cellPadding={0} cellSpacing={0} style={{ maxWidth: 600, margin: "0 auto" }}>
+          <tbody>
+            <tr>
+              <td style={{ paddingBottom: 16 }}>
+                <h1 style={{ margin: 0, fontSize: 20, color: COLORS.text }}>
+                  {digest.recipientName ? `Hi ${digest.recipientName},` : "Hi,"}
+                </h1>
+                <p style={{ margin: "8px 0 0", fontSize: 14, color: COLORS.muted }}>
+                  Here&apos;s what happened in your squads over {period}.
+                </p>
+              </td>
+            </tr>
+
+            {digest.workspaces.length === 0 ? (
+              <tr>
+                <td style={cardStyle}>
+                  <p style={{ margin: 0, fontSize: 14, color: COLORS.muted }}>
+                    Nothing new this time. Digests with nothing to report aren&apos;t sent.
+                  </p>
+                </td>
+              </tr>
+            ) : (
+              digest.workspaces.map((workspace) => (
+                <tr key={workspace.workspaceId}>
+                  <td style={{ paddingBottom: 16 }}>
+                    <WorkspaceSection workspace={workspace} />
+                  </td>
+                </tr>
+              ))
+            )}
+
+            <tr>
+              <td style={{ padding: "8px 0 16px" }}>
+                <p style={{ margin: 0 }}>
+                  <a href={digest.appUrl} style={buttonStyle}>Open your squads</a>
+                </p>
+              </td>
+            </tr>
+
+            <tr>
+              <td>
+                <p style={{ margin: 0, fontSize: 12, color: COLORS.muted, lineHeight: "18px" }}>
+                  You get this email because you turned on the {digest.frequency} digest. Change what it
+                  covers in your notification settings, or{" "}
+                  <a href={digest.unsubscribeUrl} style={{ color: COLORS.muted }}>unsubscribe</a>.
+                </p>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </body>
+    </html>
+  );
+}
+
+// ===== SECTIONS =====
+
+function WorkspaceSection({ workspace }: { workspace: DigestWorkspace }) {
+  const { movers, leaderboard, newIdeas, closedIdeas, unread } = workspace;
+
+  return (
+    <table role="presentation" width="100%" cellPadding={0} cellSpacing={0} style={{ borderCollapse: "separate" }}>
+      <tbody>
+        <tr>
+          <td style={cardStyle}>
+            <h2 style={{ margin: "0 0 12px", fontSize: 16, color: COLORS.accent }}>{workspace.name}</h2>
+
+            {movers.length > 0 && (
+              <>
+                <h3 style={headingStyle}>Top movers</h3>
+                {movers.map((mover) => (
+                  <p key={mover.memberId} style={textStyle}>
+                    {mover.isYou ? "You" : mover.name}{" "}
+                    <span style={{ color: changeColor(mover.changePercent) }}>{formatPercent(mover.changePercent)}</span>
+                    {mover.changeAmount !== null && (
+                      <span style={{ color: COLORS.muted }}> ({formatCurrency(mover.changeAmount)})</span>
+                    )}
+                  </p>
+                ))}
+              </>
+            )}
+
+            {leaderboard && leaderboard.passedBy.length > 0 && (
+              <>
+                <h3 style={headingStyle}>Leaderboard</h3>
+                <p style={textStyle}>
+                  {formatNames(leaderboard.passedBy)} passed you
+                  {leaderboard.rank !== null && <> · you&apos;re now #{leaderboard.rank} today</>}
+                </p>
+              </>
+            )}
+
+            {newIdeas.length > 0 && (
+              <>
+                <h3 style={headingStyle}>New ideas</h3>
+                {newIdeas.map((idea) => (
+                  <p key={idea.id} style={textStyle}>
+                    <IdeaLabel idea={idea} /> · {idea.title}
+                    <span style={{ color: COLORS.muted }}> by {idea.authorName}</span>
+                  </p>
+                ))}
+              </>
+            )}
+
+            {closedIdeas.length > 0 && (
+              <>
+                <h3 style={headingStyle}>Idea outcomes</h3>
+                {closedIdeas.map((idea) => (
+                  <p key={idea.id} style={textStyle}>
+                    <IdeaLabel idea={idea} /> {IDEA_STATUS_LABELS[idea.status] ?? "closed"}
+                    {idea.returnPercent !== null && (
+                      <span style={{ color: changeColor(idea.returnPercent) }}> {formatPercent(idea.returnPercent)}</span>
+                    )}
+                    <span style={{ color: COLORS.muted }}> · {idea.authorName}</span>
+                  </p>
+                ))}
+              </>
+            )}
+
+            {unread.length > 0 && (
+              <>
+                <h3 style={headingStyle}>Unread</h3>
+                {unread.map((notification) => (
+                  <p key={notification.id} style={textStyle}>
+                    {notification.title}{" "}
+                    {notification.preview && (
+                      <span style={{ display: "block", color: COLORS.muted }}>“{notification.preview}”</span>
+                    )}
+                  </p>
+                ))}
+              </>
+            )}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+function IdeaLabel({ idea }: { idea: DigestIdea }) {
+  return (
+    <strong style={{ color: COLORS.text }}>
+      {idea.direction === "short" ? "Short" : "Long"} {idea.symbol}
+    </strong>
+  );
+}
+
+// ===== INTERNALS =====
+
+const cardStyle: CSSProperties = {
+  padding: 20,
+  backgroundColor: COLORS.card,
+  border: `1px solid ${COLORS.border}`,
+  borderRadius: 8,
+};
+
+const headingStyle: CSSProperties = {
+  margin: "16px 0 6px",
+  fontSize: 12,
+  fontWeight: 600,
+  textTransform: "uppercase",
+  letterSpacing: "0.05em",
+  color: COLORS.muted,
+};
+
+const textStyle: CSSProperties = {
+  margin: "0 0 6px",
+  fontSize: 14,
+  lineHeight: "20px",
+  color: COLORS.text,
+};
+
+const buttonStyle: CSSProperties = {
+  display: "inline-block",
+  padding: "10px 18px",
+  borderRadius: 6,
+  backgroundColor: COLORS.accent,
+  color: COLORS.background,
+  fontSize: 14,
+  fontWeight: 600,
+  textDecoration: "none",
+};
+
+function changeColor(value: number): string {
+  return value >= 0 ? COLORS.up : COLORS.down;
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function formatCurrency(value: number): string {
+  const formatted = Math.abs(value).toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  });
+  return `${value >= 0 ? "+" : "-"}${formatted}`;
+}
+
+function formatNames(names: string[]): string {
+  const unique = Array.from(new Set(names));
+  if (unique.length <= 2) return unique.join(" and ");
+  return `${unique.slice(0, 2).join(", ")} and ${unique.length - 2} more`;
+}
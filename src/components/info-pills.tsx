@@ -1,37 +1,60 @@
+"use client";
+
 import { TrendingUp, ArrowUpRight, ArrowDownRight } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { useSquadHoldings } from "@/hooks/use-portfolio";
+
+// Max tickers shown ahead of the news cards
+const MAX_TICKERS = 14;
 
-interface StockTicker {
-  symbol: string;
-  price: number;
-  changePercent: number;
-  isPositive: boolean;
+interface InfoPillsProps {
+  workspaceId?: string | null;
 }
 
-export function InfoPills() {
-  // Group's current holdings - sorted by highest movers (most volatile first)
-  // Max 14 stocks displayed
-  const stocks: StockTicker[] = [
-    { symbol: "LTBR", price: 124.87, changePercent: 8.45, isPositive: true },
-    { symbol: "NNE", price: 89.32, changePercent: 6.92, isPositive: true },
-    { symbol: "OKLO", price: 31.54, changePercent: 5.21, isPositive: true },
-    { symbol: "SMR", price: 45.18, changePercent: 4.67, isPositive: true },
-    { symbol: "BTC", price: 44250.00, changePercent: 3.84, isPositive: true },
-    { symbol: "TSLA", price: 462.50, changePercent: 3.21, isPositive: true },
-    { symbol: "NVDA", price: 440.25, changePercent: 2.09, isPositive: true },
-    { symbol: "UEC", price: 8.42, changePercent: 1.89, isPositive: true },
-    { symbol: "UUUU", price: 6.73, changePercent: 1.52, isPositive: true },
-    { symbol: "META", price: 488.00, changePercent: 1.24, isPositive: true },
-    { symbol: "ETH", price: 2600.00, changePercent: 0.95, isPositive: true },
-    { symbol: "AAPL", price: 180.00, changePercent: -0.84, isPositive: false },
-    { symbol: "GOOGL", price: 150.00, changePercent: -1.15, isPositive: false },
-    { symbol: "SPY", price: 565.80, changePercent: -1.39, isPositive: false },
-  ];
+export function InfoPills({ workspaceId }: InfoPillsProps) {
+  // Group's current holdings - the API sorts them by biggest daily move first
+  const { data: holdingsData } = useSquadHoldings(workspaceId);
+  const stocks = holdingsData?.holdings.slice(0, MAX_TICKERS) ?? [];
 
   return (
     <div className="bg-gradient-to-r from-slate-800/20 via-slate-700/20 to-slate-800/20 border-y border-slate-700/30 overflow-hidden">
       <div className="overflow-x-auto scrollbar-hide">
         <div className="flex gap-3 px-3 sm:px-4 py-2.5 sm:py-3 min-w-max">
+          {/* Squad Holdings Tickers */}
+          {stocks.map((stock) => {
+            const isPositive = (stock.changePercent ?? 0) >= 0;
+            return (
+              <div
+                key={stock.symbol}
+                title={stock.securityName ?? stock.symbol}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border ${
+                  isPositive
+                    ? "border-emerald-500/30 bg-emerald-500/10"
+                    : "border-red-500/30 bg-red-500/10"
+                }`}
+              >
+                <span className="text-white text-xs sm:text-sm font-medium">{stock.symbol}</span>
+                <span className="text-slate-400 text-xs tabular-nums">
+                  ${stock.price.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </span>
+                {stock.changePercent !== null && (
+                  <span
+                    className={`flex items-center text-xs tabular-nums ${
+                      isPositive ? "text-emerald-400" : "text-red-400"
+                    }`}
+                  >
+                    {isPositive ? (
+                      <ArrowUpRight className="w-3 h-3" />
+                    ) : (
+                      <ArrowDownRight className="w-3 h-3" />
+                    )}
+                    {Math.abs(stock.changePercent).toFixed(2)}%
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
           {/* News Preview Cards */}
           <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-cyan-500/30 bg-cyan-500/10 hover:bg-cyan-500/15 transition-all cursor-pointer group w-[calc(100vw-2rem)] sm:w-auto sm:min-w-[280px] md:min-w-[320px]">
             <div className="flex items-center gap-2 flex-1">
@@ -0,0 +1,152 @@
+"use client";
+
+/**
+ * Notification Bell - Sidebar dropdown with the latest notifications
+ * Opening one marks it read and jumps to its workspace and page
+ */
+
+import { useState } from "react";
+import { Bell, CheckCheck } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationsRead,
+  useNotifications,
+} from "@/hooks/use-notifications";
+import { formatRelativeTime } from "@/lib/activity-utils";
+import type { WorkspaceContext } from "@/lib/workspace-context";
+import type { Notification } from "@/lib/validations/notifications";
+import type { PageId } from "./app-sidebar";
+
+interface NotificationBellProps {
+  currentContext: WorkspaceContext;
+  workspaces: WorkspaceContext[];
+  onContextChange: (context: WorkspaceContext) => void;
+  onPageChange: (page: PageId) => void;
+}
+
+export function NotificationBell({
+  currentContext,
+  workspaces,
+  onContextChange,
+  onPageChange,
+}: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+  const { data, isLoading } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) markRead.mutate([notification.id]);
+
+    if (notification.workspaceId !== currentContext.id) {
+      const workspace = workspaces.find((w) => w.id === notification.workspaceId);
+      if (workspace) onContextChange(workspace);
+    }
+    onPageChange(targetPage(notification));
+    setOpen(false);
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`
+            w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-all
+            ${open
+              ? 'bg-cyan-500/20 border-l-2 border-cyan-400 text-cyan-400'
+              : 'text-slate-400 hover:bg-slate-800/50 hover:text-slate-300'
+            }
+          `}
+        >
+          <Bell className="w-5 h-5" />
+          <span className="text-sm flex-1 text-left">Notifications</span>
+          {unreadCount > 0 && (
+            <span className="px-2 py-0.5 rounded-full bg-red-500/20 text-red-400 text-xs font-mono">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent
+        side="right"
+        align="end"
+        className="w-96 bg-slate-900 border-slate-700 p-0"
+      >
+        <div className="flex items-center justify-between px-4 py-3">
+          <DropdownMenuLabel className="p-0 text-slate-100">Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markAllRead.mutate()}
+              disabled={markAllRead.isPending}
+              className="flex items-center gap-1 text-xs text-slate-400 hover:text-cyan-400 transition-colors disabled:opacity-50"
+            >
+              <CheckCheck className="w-3.5 h-3.5" />
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="m-0 bg-slate-700/50" />
+
+        <div className="max-h-[28rem] overflow-y-auto">
+          {isLoading ? (
+            <p className="px-4 py-6 text-center text-sm text-slate-500">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-slate-500">You&apos;re all caught up</p>
+          ) : (
+            notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={() => handleOpen(notification)}
+                className={`flex items-start gap-3 px-4 py-3 rounded-none cursor-pointer focus:bg-slate-800/70 ${
+                  notification.readAt ? "opacity-70" : "bg-cyan-500/5"
+                }`}
+              >
+                <Avatar className="w-8 h-8 rounded-lg flex-shrink-0">
+                  {notification.actorImage && (
+                    <AvatarImage src={notification.actorImage} alt={notification.actorName ?? ""} />
+                  )}
+                  <AvatarFallback className="rounded-lg bg-gradient-to-br from-cyan-500 to-purple-500 text-white text-xs font-mono">
+                    {(notification.actorName ?? "?").slice(0, 1).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-200">{notification.title}</p>
+                  {notification.preview && (
+                    <p className="text-xs text-slate-400 truncate mt-0.5">“{notification.preview}”</p>
+                  )}
+                  <p className="text-xs text-slate-500 mt-1">
+                    {notification.workspaceName} · {formatRelativeTime(new Date(notification.createdAt))}
+                  </p>
+                </div>
+                {!notification.readAt && (
+                  <div className="w-2 h-2 mt-1.5 rounded-full bg-cyan-400 flex-shrink-0" />
+                )}
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// ===== INTERNALS =====
+
+function targetPage(notification: Notification): PageId {
+  if (notification.ideaId) return "terminal";
+  if (notification.channelId) return "chat";
+  return "squad-dashboard";
+}
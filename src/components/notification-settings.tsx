@@ -0,0 +1,189 @@
+"use client";
+
+/**
+ * Notification Settings - Which events notify you, over which channels, in which workspaces
+ * Each toggle is saved straight away
+ */
+
+import { Bell, BellOff } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { useWorkspaceContext } from "@/lib/use-workspace-context";
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "@/hooks/use-notifications";
+import type {
+  DigestFrequency,
+  NotificationChannel,
+  NotificationType,
+} from "@/lib/validations/notifications";
+
+const EVENTS: Array<{ type: NotificationType; label: string; description: string }> = [
+  { type: "COMMENT", label: "Comments", description: "Someone comments on your activity or idea" },
+  { type: "REACTION", label: "Reactions", description: "Someone reacts to your activity" },
+  { type: "MENTION", label: "Mentions", description: "Someone @mentions you in chat or a comment" },
+  { type: "LEADERBOARD_PASSED", label: "Leaderboard", description: "Someone passes you on today's leaderboard" },
+  { type: "IDEA_POSTED", label: "Trade ideas", description: "A squad member posts a new idea" },
+];
+
+const CHANNELS: Array<{ channel: NotificationChannel; label: string }> = [
+  { channel: "in_app", label: "In-app" },
+  { channel: "email", label: "Email digest" },
+];
+
+const DIGEST_OPTIONS: Array<{ value: DigestFrequency; label: string }> = [
+  { value: "off", label: "Off" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+];
+
+export function NotificationSettings() {
+  const { workspaces } = useWorkspaceContext();
+  const { data, isLoading } = useNotificationPreferences();
+  const update = useUpdateNotificationPreferences();
+
+  if (isLoading || !data) {
+    return (
+      <Card className="border-slate-700 bg-slate-900/50 p-6">
+        <p className="text-slate-400">Loading notification settings...</p>
+      </Card>
+    );
+  }
+
+  const { preferences } = data;
+  const squads = workspaces.filter((workspace) => workspace.type !== "solo");
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel) => {
+    update.mutate(
+      { events: { [type]: { [channel]: !preferences.events[type][channel] } } },
+      { onError: (error) => alert(error.message) }
+    );
+  };
+
+  const toggleWorkspace = (workspaceId: string) => {
+    const muted = preferences.mutedWorkspaceIds.includes(workspaceId);
+    update.mutate(
+      {
+        mutedWorkspaceIds: muted
+          ? preferences.mutedWorkspaceIds.filter((id) => id !== workspaceId)
+          : [...preferences.mutedWorkspaceIds, workspaceId],
+      },
+      { onError: (error) => alert(error.message) }
+    );
+  };
+
+  return (
+    <Card className="border-slate-700 bg-slate-900/50 p-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h3 className="text-white text-lg mb-2 flex items-center gap-2">
+            <Bell className="w-5 h-5 text-cyan-400" />
+            Notifications
+          </h3>
+          <p className="text-slate-400 text-sm">
+            Choose what you hear about, and where
+          </p>
+        </div>
+
+        {/* Email digest */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-slate-300 text-sm">Email digest</p>
+            <p className="text-xs text-slate-500">
+              Top movers, leaderboard changes, ideas and unread comments from your squads
+            </p>
+          </div>
+          <div className="flex gap-1">
+            {DIGEST_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => update.mutate({ digest: value }, { onError: (error) => alert(error.message) })}
+                disabled={update.isPending}
+                className={`px-3 py-1 rounded-lg text-xs transition-colors disabled:opacity-50 ${
+                  preferences.digest === value
+                    ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/40"
+                    : "text-slate-500 border border-slate-700 hover:text-slate-300"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Events x channels */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-500 text-xs">
+                <th className="text-left font-normal pb-2">Event</th>
+                {CHANNELS.map(({ channel, label }) => (
+                  <th key={channel} className="font-normal pb-2 w-28">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {EVENTS.map(({ type, label, description }) => (
+                <tr key={type} className="border-t border-slate-800">
+                  <td className="py-3 pr-4">
+                    <p className="text-slate-200">{label}</p>
+                    <p className="text-xs text-slate-500">{description}</p>
+                  </td>
+                  {CHANNELS.map(({ channel, label: channelLabel }) => {
+                    const enabled = preferences.events[type][channel];
+                    return (
+                      <td key={channel} className="py-3 text-center">
+                        <button
+                          onClick={() => toggleChannel(type, channel)}
+                          disabled={update.isPending}
+                          aria-pressed={enabled}
+                          aria-label={`${label}: ${channelLabel}`}
+                          className={`px-3 py-1 rounded-lg text-xs transition-colors disabled:opacity-50 ${
+                            enabled
+                              ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/40"
+                              : "text-slate-500 border border-slate-700 hover:text-slate-300"
+                          }`}
+                        >
+                          {enabled ? "On" : "Off"}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Workspaces */}
+        <div className="space-y-2">
+          <p className="text-slate-300 text-sm">Workspaces</p>
+          {squads.length === 0 ? (
+            <p className="text-slate-500 text-sm">Join a workspace to get notifications from it.</p>
+          ) : (
+            squads.map((workspace) => {
+              const muted = preferences.mutedWorkspaceIds.includes(workspace.id);
+              return (
+                <div
+                  key={workspace.id}
+                  className="flex items-center justify-between px-3 py-2 rounded-lg bg-slate-800/40"
+                >
+                  <span className={muted ? "text-slate-500" : "text-slate-200"}>{workspace.name}</span>
+                  <button
+                    onClick={() => toggleWorkspace(workspace.id)}
+                    disabled={update.isPending}
+                    className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-cyan-400 transition-colors disabled:opacity-50"
+                  >
+                    {muted ? <BellOff className="w-3.5 h-3.5" /> : <Bell className="w-3.5 h-3.5" />}
+                    {muted ? "Muted" : "Notifying"}
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
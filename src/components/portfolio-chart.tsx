@@ -99,12 +99,14 @@ export function PortfolioChart({ selectedPeriod, onPeriodChange, mode }: Portfol
 
     const history = historyData.history;
     const baseValue = history[0]?.value || 0;
+    const benchmarkHistory = historyData.benchmarks?.[0]?.history ?? [];
     
     return history.map((point) => {
       // Calculate percent change from the first data point
       const percentChange = baseValue > 0 
         ? ((point.value - baseValue) / baseValue) * 100 
         : 0;
+      const benchmarkPoint = benchmarkHistory.find((b) => b.date === point.date);
       
       return {
         // Use pre-formatted label from API, or fall back to date
@@ -113,6 +115,10 @@ export function PortfolioChart({ selectedPeriod, onPeriodChange, mode }: Portfol
         combinedPercent: parseFloat(percentChange.toFixed(2)),
         rawDate: point.date,
         isInterpolated: point.isInterpolated || false,
+        isReconstructed: point.isReconstructed || false,
+        // Starting value grown at the benchmark's return
+        benchmark: benchmarkPoint?.value !== undefined ? Math.round(benchmarkPoint.value) : null,
+        benchmarkPercent: benchmarkPoint?.returnPercent ?? null,
       };
     });
   };
@@ -127,19 +133,10 @@ export function PortfolioChart({ selectedPeriod, onPeriodChange, mode }: Portfol
   // Calculate portfolio return for selected period from real data
   const portfolioReturn = data.length > 0 ? data[data.length - 1].combinedPercent : 0;
   
-  // S&P500 returns by period (mock data - would need external API for real data)
-  const sp500Returns: { [key in TimePeriod]: number } = {
-    "1D": 0.15,
-    "1W": 1.2,
-    "1M": 2.8,
-    "3M": 6.4,
-    "6M": 12.4,
-    "1Y": 18.9,
-    "YTD": 10.2,
-  };
-  
-  const sp500Return = sp500Returns[selectedPeriod];
-  const vsSP500 = portfolioReturn - sp500Return;
+  // Benchmark comparison over the same period (SPY by default)
+  const benchmarkSeries = historyData?.benchmarks?.[0];
+  const benchmarkReturn = benchmarkSeries?.history.at(-1)?.returnPercent;
+  const vsBenchmark = benchmarkReturn === undefined ? null : portfolioReturn - benchmarkReturn;
   const healthScore = 92; // TODO: Calculate from real risk metrics
   
   // Calculate today's change from summary data
@@ -180,15 +177,19 @@ export function PortfolioChart({ selectedPeriod, onPeriodChange, mode }: Portfol
       const value = payload[0].value;
       const percentChange = payload[0].payload.combinedPercent;
       const isInterpolated = payload[0].payload.isInterpolated;
+      const isReconstructed = payload[0].payload.isReconstructed;
       const rawDate = payload[0].payload.rawDate;
+      const benchmarkPercent = payload[0].payload.benchmarkPercent;
       
       return (
         <div className="bg-slate-900 border border-slate-700 rounded-lg p-3 shadow-xl">
           <div className="flex items-center justify-between gap-2 mb-2">
             <p className="text-slate-400 text-xs">{label}</p>
-            {isInterpolated && (
+            {isInterpolated ? (
               <span className="text-xs text-slate-500 italic">estimated</span>
-            )}
+            ) : isReconstructed ? (
+              <span className="text-xs text-slate-500 italic">reconstructed</span>
+            ) : null}
           </div>
           <div className="space-y-1">
             <div className="flex items-center justify-between gap-4">
@@ -203,6 +204,14 @@ export function PortfolioChart({ selectedPeriod, onPeriodChange, mode }: Portfol
                 {percentChange >= 0 ? '+' : ''}{percentChange.toFixed(2)}%
               </span>
             </div>
+            {benchmarkSeries && benchmarkPercent !== null && (
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-slate-300 text-sm">{benchmarkSeries.symbol}</span>
+                <span className="text-slate-400 font-medium tabular-nums text-sm">
+                  {benchmarkPercent >= 0 ? '+' : ''}{benchmarkPercent.toFixed(2)}%
+                </span>
+              </div>
+            )}
           </div>
         </div>
       );
@@ -313,16 +322,20 @@ export function PortfolioChart({ selectedPeriod, onPeriodChange, mode }: Portfol
                 
                 <span className="text-slate-600 hidden md:inline">•</span>
                 
-                {/* vs S&P500 */}
-                <div className={`hidden md:flex items-center gap-1.5 ${vsSP500 >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                  <BarChart3 className="w-3.5 h-3.5 flex-shrink-0" />
-                  <span className="text-slate-400">vs S&P:</span>
-                  <span className="tabular-nums">
-                    {vsSP500 >= 0 ? '+' : ''}{vsSP500.toFixed(1)}%
-                  </span>
-                </div>
-                
-                <span className="text-slate-600 hidden md:inline">•</span>
+                {/* vs benchmark */}
+                {benchmarkSeries && vsBenchmark !== null && (
+                  <>
+                    <div className={`hidden md:flex items-center gap-1.5 ${vsBenchmark >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      <BarChart3 className="w-3.5 h-3.5 flex-shrink-0" />
+                      <span className="text-slate-400">vs {benchmarkSeries.symbol}:</span>
+                      <span className="tabular-nums">
+                        {vsBenchmark >= 0 ? '+' : ''}{vsBenchmark.toFixed(1)}%
+                      </span>
+                    </div>
+                    
+                    <span className="text-slate-600 hidden md:inline">•</span>
+                  </>
+                )}
                 
                 {/* Status */}
                 <span className="hidden md:inline text-slate-400">
@@ -499,6 +512,20 @@ export function PortfolioChart({ selectedPeriod, onPeriodChange, mode }: Portfol
                   dot={false}
                   activeDot={{ r: 6, fill: "#06b6d4", stroke: "#0f172a", strokeWidth: 2 }}
                 />
+                {/* Benchmark overlay */}
+                {benchmarkSeries && (
+                  <Area
+                    type="monotone"
+                    dataKey="benchmark"
+                    name={benchmarkSeries.symbol}
+                    stroke="#94a3b8"
+                    strokeWidth={1.5}
+                    strokeDasharray="2 4"
+                    fill="none"
+                    dot={false}
+                    activeDot={false}
+                  />
+                )}
               </AreaChart>
             </ResponsiveContainer>
           </div>
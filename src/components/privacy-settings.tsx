@@ -4,13 +4,119 @@ import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Lock, Eye, EyeOff, Save, Info } from 'lucide-react';
-import type { PrivacySettings as PrivacySettingsType } from '@/lib/privacy-resolver';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Lock, Eye, EyeOff, Save, Info, Users, RotateCcw, VenetianMask } from 'lucide-react';
+import type { PrivacySettings as PrivacySettingsType } from '@/lib/privacy';
+import type { WorkspaceContext } from '@/lib/workspace-context';
+import type { ActivityType } from '@/lib/validations/activity';
+import type { WorkspacePrivacy } from '@/lib/validations/workspace';
+import { formatActivityMessage } from '@/lib/activity-utils';
+import { useWorkspaceContext } from '@/lib/use-workspace-context';
+import {
+  usePrivacyPreview,
+  useUpdateWorkspacePrivacy,
+  useWorkspacePrivacy,
+} from '@/hooks/use-privacy';
+
+// Options per field, least to most revealing (mirrors PRIVACY_LEVEL_ORDER in lib/privacy)
+const FIELD_OPTIONS: Array<{
+  field: keyof PrivacySettingsType;
+  label: string;
+  options: Array<{ value: string; label: string }>;
+}> = [
+  {
+    field: 'portfolioValue',
+    label: 'Portfolio Value',
+    options: [
+      { value: 'hidden', label: 'Hidden' },
+      { value: 'approximate', label: 'Approximate' },
+      { value: 'exact', label: 'Exact' },
+    ],
+  },
+  {
+    field: 'performance',
+    label: 'Performance',
+    options: [
+      { value: 'hidden', label: 'Hidden' },
+      { value: 'visible', label: 'Visible' },
+    ],
+  },
+  {
+    field: 'positions',
+    label: 'Positions',
+    options: [
+      { value: 'hidden', label: 'Hidden' },
+      { value: 'tickers_only', label: 'Tickers only' },
+      { value: 'full', label: 'Full' },
+    ],
+  },
+  {
+    field: 'activity',
+    label: 'Trading Activity',
+    options: [
+      { value: 'hidden', label: 'Hidden' },
+      { value: 'without_amounts', label: 'No amounts' },
+      { value: 'full', label: 'Full' },
+    ],
+  },
+  {
+    field: 'watchlist',
+    label: 'Watchlist',
+    options: [
+      { value: 'hidden', label: 'Hidden' },
+      { value: 'visible', label: 'Visible' },
+    ],
+  },
+  {
+    field: 'activityDelay',
+    label: 'Trade Disclosure Delay',
+    options: [
+      { value: '7d', label: '7 days' },
+      { value: '24h', label: '24 hours' },
+      { value: 'end_of_day', label: 'End of day' },
+      { value: '1h', label: '1 hour' },
+      { value: 'none', label: 'Real-time' },
+    ],
+  },
+];
+
+function optionLabel(options: Array<{ value: string; label: string }>, value: string | undefined) {
+  return options.find((option) => option.value === value)?.label ?? String(value ?? '');
+}
+
+const FIELD_SOURCE_LABELS: Record<string, string> = {
+  enforced: 'enforced by workspace',
+  workspace_override: 'your override',
+  user_default: 'your default',
+  workspace_minimum: 'workspace minimum',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  enforced: 'Full transparency enforced by this workspace',
+  workspace_override: 'Using your override for this workspace',
+  user_default: 'Using your default settings',
+  workspace_minimum: 'Raised to this workspace\'s minimum sharing',
+};
 
 export function PrivacySettings() {
   const [settings, setSettings] = useState<PrivacySettingsType | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const { currentContext, workspaces } = useWorkspaceContext();
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<string | null>(null);
+
+  // Workspace used by the per-workspace tab and the preview: current squad, else the first one
+  const workspaceId =
+    selectedWorkspaceId ??
+    (currentContext.type !== 'solo' ? currentContext.id : workspaces[0]?.id ?? null);
 
   useEffect(() => {
     fetchSettings();
@@ -54,284 +160,705 @@ export function PrivacySettings() {
   }
 
   return (
-    <Card className="border-slate-700 bg-slate-900/50 p-6">
-      <div className="space-y-6">
-        {/* Header */}
-        <div>
-          <h3 className="text-white text-lg mb-2 flex items-center gap-2">
-            <Lock className="w-5 h-5 text-cyan-400" />
-            Privacy Settings
-          </h3>
-          <p className="text-slate-400 text-sm">
-            Control what squad members can see about your portfolio
-          </p>
-        </div>
+    <div className="grid gap-6 lg:grid-cols-2 items-start">
+      <Card className="border-slate-700 bg-slate-900/50 p-6">
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h3 className="text-white text-lg mb-2 flex items-center gap-2">
+              <Lock className="w-5 h-5 text-cyan-400" />
+              Privacy Settings
+            </h3>
+            <p className="text-slate-400 text-sm">
+              Control what squad members can see about your portfolio
+            </p>
+          </div>
 
-        {/* Portfolio Value */}
-        <div>
-          <label className="text-slate-300 text-sm mb-3 block">
-            Portfolio Value
-          </label>
-          <div className="space-y-2">
-            <button
-              onClick={() => setSettings({ ...settings, portfolioValue: 'exact' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.portfolioValue === 'exact'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Show exact value</p>
-                  <p className="text-slate-400 text-xs">$99,269.87</p>
-                </div>
-                {settings.portfolioValue === 'exact' && (
-                  <Eye className="w-4 h-4 text-cyan-400" />
-                )}
-              </div>
-            </button>
+          <Tabs defaultValue="defaults" className="w-full">
+            <TabsList className="grid w-full grid-cols-2 bg-slate-800/50">
+              <TabsTrigger value="defaults">Defaults</TabsTrigger>
+              <TabsTrigger value="workspace" disabled={!workspaceId}>
+                Per Workspace
+              </TabsTrigger>
+            </TabsList>
 
-            <button
-              onClick={() => setSettings({ ...settings, portfolioValue: 'approximate' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.portfolioValue === 'approximate'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Show approximate</p>
-                  <p className="text-slate-400 text-xs">$90K-100K</p>
-                </div>
-                {settings.portfolioValue === 'approximate' && (
-                  <Eye className="w-4 h-4 text-cyan-400" />
-                )}
-              </div>
-            </button>
+            <TabsContent value="defaults" className="space-y-6 mt-6">
+              {/* Portfolio Value */}
+              <div>
+                <label className="text-slate-300 text-sm mb-3 block">
+                  Portfolio Value
+                </label>
+                <div className="space-y-2">
+                  <button
+                    onClick={() => setSettings({ ...settings, portfolioValue: 'exact' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.portfolioValue === 'exact'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Show exact value</p>
+                        <p className="text-slate-400 text-xs">$99,269.87</p>
+                      </div>
+                      {settings.portfolioValue === 'exact' && (
+                        <Eye className="w-4 h-4 text-cyan-400" />
+                      )}
+                    </div>
+                  </button>
 
-            <button
-              onClick={() => setSettings({ ...settings, portfolioValue: 'hidden' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.portfolioValue === 'hidden'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Hide completely</p>
-                  <p className="text-slate-400 text-xs">Not visible</p>
+                  <button
+                    onClick={() => setSettings({ ...settings, portfolioValue: 'approximate' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.portfolioValue === 'approximate'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Show approximate</p>
+                        <p className="text-slate-400 text-xs">$90K-100K</p>
+                      </div>
+                      {settings.portfolioValue === 'approximate' && (
+                        <Eye className="w-4 h-4 text-cyan-400" />
+                      )}
+                    </div>
+                  </button>
+
+                  <button
+                    onClick={() => setSettings({ ...settings, portfolioValue: 'hidden' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.portfolioValue === 'hidden'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Hide completely</p>
+                        <p className="text-slate-400 text-xs">Not visible</p>
+                      </div>
+                      {settings.portfolioValue === 'hidden' && (
+                        <EyeOff className="w-4 h-4 text-slate-400" />
+                      )}
+                    </div>
+                  </button>
                 </div>
-                {settings.portfolioValue === 'hidden' && (
-                  <EyeOff className="w-4 h-4 text-slate-400" />
-                )}
               </div>
-            </button>
-          </div>
-        </div>
 
-        {/* Performance */}
-        <div>
-          <label className="text-slate-300 text-sm mb-3 block">
-            Performance (% gains/losses)
-          </label>
-          <div className="space-y-2">
-            <button
-              onClick={() => setSettings({ ...settings, performance: 'visible' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.performance === 'visible'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Show performance</p>
-                  <p className="text-slate-400 text-xs">+2.58%</p>
+              {/* Performance */}
+              <div>
+                <label className="text-slate-300 text-sm mb-3 block">
+                  Performance (% gains/losses)
+                </label>
+                <div className="space-y-2">
+                  <button
+                    onClick={() => setSettings({ ...settings, performance: 'visible' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.performance === 'visible'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Show performance</p>
+                        <p className="text-slate-400 text-xs">+2.58%</p>
+                      </div>
+                      {settings.performance === 'visible' && (
+                        <Eye className="w-4 h-4 text-cyan-400" />
+                      )}
+                    </div>
+                  </button>
+
+                  <button
+                    onClick={() => setSettings({ ...settings, performance: 'hidden' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.performance === 'hidden'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Hide performance</p>
+                        <p className="text-slate-400 text-xs">Not visible</p>
+                      </div>
+                      {settings.performance === 'hidden' && (
+                        <EyeOff className="w-4 h-4 text-slate-400" />
+                      )}
+                    </div>
+                  </button>
                 </div>
-                {settings.performance === 'visible' && (
-                  <Eye className="w-4 h-4 text-cyan-400" />
-                )}
               </div>
-            </button>
 
-            <button
-              onClick={() => setSettings({ ...settings, performance: 'hidden' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.performance === 'hidden'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Hide performance</p>
-                  <p className="text-slate-400 text-xs">Not visible</p>
+              {/* Positions */}
+              <div>
+                <label className="text-slate-300 text-sm mb-3 block">
+                  Your Positions
+                </label>
+                <div className="space-y-2">
+                  <button
+                    onClick={() => setSettings({ ...settings, positions: 'full' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.positions === 'full'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Show all details</p>
+                        <p className="text-slate-400 text-xs">Ticker, quantity, value</p>
+                      </div>
+                      {settings.positions === 'full' && (
+                        <Eye className="w-4 h-4 text-cyan-400" />
+                      )}
+                    </div>
+                  </button>
+
+                  <button
+                    onClick={() => setSettings({ ...settings, positions: 'tickers_only' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.positions === 'tickers_only'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Tickers only</p>
+                        <p className="text-slate-400 text-xs">NVDA, AAPL (no amounts)</p>
+                      </div>
+                      {settings.positions === 'tickers_only' && (
+                        <Eye className="w-4 h-4 text-cyan-400" />
+                      )}
+                    </div>
+                  </button>
+
+                  <button
+                    onClick={() => setSettings({ ...settings, positions: 'hidden' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.positions === 'hidden'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Hide all positions</p>
+                        <p className="text-slate-400 text-xs">Not visible</p>
+                      </div>
+                      {settings.positions === 'hidden' && (
+                        <EyeOff className="w-4 h-4 text-slate-400" />
+                      )}
+                    </div>
+                  </button>
                 </div>
-                {settings.performance === 'hidden' && (
-                  <EyeOff className="w-4 h-4 text-slate-400" />
-                )}
               </div>
-            </button>
-          </div>
-        </div>
 
-        {/* Positions */}
-        <div>
-          <label className="text-slate-300 text-sm mb-3 block">
-            Your Positions
-          </label>
-          <div className="space-y-2">
-            <button
-              onClick={() => setSettings({ ...settings, positions: 'full' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.positions === 'full'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Show all details</p>
-                  <p className="text-slate-400 text-xs">Ticker, quantity, value</p>
+              {/* Activity */}
+              <div>
+                <label className="text-slate-300 text-sm mb-3 block">
+                  Trading Activity
+                </label>
+                <div className="space-y-2">
+                  <button
+                    onClick={() => setSettings({ ...settings, activity: 'full' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.activity === 'full'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Show all details</p>
+                        <p className="text-slate-400 text-xs">Bought 10 NVDA @ $495.30</p>
+                      </div>
+                      {settings.activity === 'full' && (
+                        <Eye className="w-4 h-4 text-cyan-400" />
+                      )}
+                    </div>
+                  </button>
+
+                  <button
+                    onClick={() => setSettings({ ...settings, activity: 'without_amounts' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.activity === 'without_amounts'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Without amounts</p>
+                        <p className="text-slate-400 text-xs">Bought NVDA (no quantity)</p>
+                      </div>
+                      {settings.activity === 'without_amounts' && (
+                        <Eye className="w-4 h-4 text-cyan-400" />
+                      )}
+                    </div>
+                  </button>
+
+                  <button
+                    onClick={() => setSettings({ ...settings, activity: 'hidden' })}
+                    className={`w-full p-3 rounded-lg border transition-all text-left ${
+                      settings.activity === 'hidden'
+                        ? 'border-cyan-500 bg-cyan-500/10'
+                        : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-white text-sm">Hide all activity</p>
+                        <p className="text-slate-400 text-xs">Not visible</p>
+                      </div>
+                      {settings.activity === 'hidden' && (
+                        <EyeOff className="w-4 h-4 text-slate-400" />
+                      )}
+                    </div>
+                  </button>
                 </div>
-                {settings.positions === 'full' && (
-                  <Eye className="w-4 h-4 text-cyan-400" />
-                )}
               </div>
-            </button>
 
-            <button
-              onClick={() => setSettings({ ...settings, positions: 'tickers_only' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.positions === 'tickers_only'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Tickers only</p>
-                  <p className="text-slate-400 text-xs">NVDA, AAPL (no amounts)</p>
+              {/* Trade Disclosure Delay */}
+              <div>
+                <label className="text-slate-300 text-sm mb-1 block">
+                  Trade Disclosure Delay
+                </label>
+                <p className="text-slate-500 text-xs mb-3">
+                  Trades and new positions are shown to squadmates after this delay. Everything else stays real-time.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {FIELD_OPTIONS.find((entry) => entry.field === 'activityDelay')!.options
+                    .slice()
+                    .reverse()
+                    .map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() =>
+                          setSettings({
+                            ...settings,
+                            activityDelay: option.value as PrivacySettingsType['activityDelay'],
+                          })
+                        }
+                        className={`px-3 py-1.5 rounded-lg border text-xs transition-all ${
+                          settings.activityDelay === option.value
+                            ? 'border-cyan-500 bg-cyan-500/10 text-white'
+                            : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-600'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
                 </div>
-                {settings.positions === 'tickers_only' && (
-                  <Eye className="w-4 h-4 text-cyan-400" />
-                )}
               </div>
-            </button>
 
-            <button
-              onClick={() => setSettings({ ...settings, positions: 'hidden' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.positions === 'hidden'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Hide all positions</p>
-                  <p className="text-slate-400 text-xs">Not visible</p>
+              {/* Info Note */}
+              <div className="p-4 rounded-lg bg-cyan-500/10 border border-cyan-500/30">
+                <div className="flex gap-3">
+                  <Info className="w-5 h-5 text-cyan-400 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="text-cyan-400 text-sm mb-1">Default Privacy Settings</p>
+                    <p className="text-slate-400 text-xs">
+                      These are your default settings for all workspaces. You can override these per-workspace 
+                      in the Per Workspace tab. Some workspaces may require minimum sharing levels.
+                    </p>
+                  </div>
                 </div>
-                {settings.positions === 'hidden' && (
-                  <EyeOff className="w-4 h-4 text-slate-400" />
-                )}
               </div>
-            </button>
+
+              {/* Save Button */}
+              <Button
+                onClick={saveSettings}
+                disabled={saving}
+                className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Privacy Settings'}
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="workspace" className="space-y-6 mt-6">
+              {workspaceId && (
+                <>
+                  <WorkspacePicker
+                    workspaces={workspaces}
+                    value={workspaceId}
+                    onChange={setSelectedWorkspaceId}
+                  />
+                  <WorkspacePrivacyOverrides key={workspaceId} workspaceId={workspaceId} />
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </Card>
+
+      {/* Live preview of what squadmates see */}
+      <PrivacyPreviewPanel
+        settings={settings}
+        workspaceId={workspaceId}
+        onWorkspaceChange={setSelectedWorkspaceId}
+      />
+    </div>
+  );
+}
+
+function PrivacyPreviewPanel({
+  settings,
+  workspaceId,
+  onWorkspaceChange,
+}: {
+  settings: PrivacySettingsType;
+  workspaceId: string | null;
+  onWorkspaceChange: (workspaceId: string) => void;
+}) {
+  const { workspaces } = useWorkspaceContext();
+  const { data: preview, isLoading, error } = usePrivacyPreview(workspaceId, settings);
+
+  return (
+    <Card className="border-slate-700 bg-slate-900/50 p-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-white text-lg mb-2 flex items-center gap-2">
+              <Users className="w-5 h-5 text-purple-400" />
+              What Your Squad Sees
+            </h3>
+            <p className="text-slate-400 text-sm">
+              Preview of your data as other members receive it
+            </p>
           </div>
+          {workspaceId && (
+            <WorkspacePicker
+              workspaces={workspaces}
+              value={workspaceId}
+              onChange={onWorkspaceChange}
+            />
+          )}
         </div>
 
-        {/* Activity */}
-        <div>
-          <label className="text-slate-300 text-sm mb-3 block">
-            Trading Activity
-          </label>
-          <div className="space-y-2">
-            <button
-              onClick={() => setSettings({ ...settings, activity: 'full' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.activity === 'full'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Show all details</p>
-                  <p className="text-slate-400 text-xs">Bought 10 NVDA @ $495.30</p>
-                </div>
-                {settings.activity === 'full' && (
-                  <Eye className="w-4 h-4 text-cyan-400" />
-                )}
+        {!workspaceId ? (
+          <p className="text-slate-400 text-sm">
+            Join a workspace to preview what its members can see.
+          </p>
+        ) : isLoading ? (
+          <p className="text-slate-400 text-sm">Loading preview...</p>
+        ) : error || !preview ? (
+          <p className="text-red-400 text-sm">
+            {error instanceof Error ? error.message : 'Failed to load preview'}
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Avatar className="w-6 h-6">
+                {preview.identity.image && <AvatarImage src={preview.identity.image} alt="" />}
+                <AvatarFallback className="bg-slate-700 text-white text-xs">
+                  {(preview.identity.name ?? '?')[0]}
+                </AvatarFallback>
+              </Avatar>
+              <span className="text-white text-sm">{preview.identity.name ?? 'Unnamed member'}</span>
+              {preview.identity.isAnonymous && (
+                <Badge variant="outline" className="text-xs text-slate-400 border-slate-600">
+                  Anonymous
+                </Badge>
+              )}
+              <Badge variant="outline" className="ml-auto text-xs text-purple-400 border-purple-500/30">
+                {SOURCE_LABELS[preview.privacy.source]}
+              </Badge>
+            </div>
+
+            {/* Leaderboard */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-3 rounded-lg border border-slate-700 bg-slate-800/50">
+                <p className="text-slate-400 text-xs mb-1">Portfolio Value</p>
+                <p className="text-white text-sm">{preview.leaderboard.portfolioValue.display}</p>
               </div>
-            </button>
+              <div className="p-3 rounded-lg border border-slate-700 bg-slate-800/50">
+                <p className="text-slate-400 text-xs mb-1">Today</p>
+                <p className="text-white text-sm">
+                  {preview.leaderboard.performance.changePercent === null
+                    ? 'Hidden'
+                    : !preview.leaderboard.performance.hasData
+                      ? 'No data yet'
+                      : `${preview.leaderboard.performance.changePercent >= 0 ? '+' : ''}${preview.leaderboard.performance.changePercent.toFixed(2)}%`}
+                </p>
+              </div>
+            </div>
 
-            <button
-              onClick={() => setSettings({ ...settings, activity: 'without_amounts' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.activity === 'without_amounts'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Without amounts</p>
-                  <p className="text-slate-400 text-xs">Bought NVDA (no quantity)</p>
+            {/* Positions */}
+            <div>
+              <p className="text-slate-300 text-sm mb-2">
+                Positions
+                <span className="text-slate-500 text-xs ml-2">
+                  {preview.leaderboard.positions.data.length} of {preview.leaderboard.positions.count} visible
+                </span>
+              </p>
+              {preview.leaderboard.positions.data.length === 0 ? (
+                <p className="text-slate-500 text-xs">Not visible</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {preview.leaderboard.positions.data.slice(0, 12).map((position, i) => (
+                    <Badge key={i} variant="outline" className="text-xs text-slate-300 border-slate-600">
+                      {String(position.symbol)}
+                      {typeof position.quantity === 'number' && ` · ${position.quantity} sh`}
+                    </Badge>
+                  ))}
                 </div>
-                {settings.activity === 'without_amounts' && (
-                  <Eye className="w-4 h-4 text-cyan-400" />
-                )}
+              )}
+            </div>
+
+            {/* Squad chart */}
+            <div>
+              <p className="text-slate-300 text-sm mb-1">Squad Chart</p>
+              <p className="text-slate-500 text-xs">
+                {preview.history.privacyLevel === 'hidden'
+                  ? 'Your line is hidden and you are excluded from squad totals'
+                  : preview.history.privacyLevel === 'partial'
+                    ? 'Your % line is shown; your value counts toward squad totals approximately'
+                    : 'Your % line and exact value are shown'}
+              </p>
+            </div>
+
+            {/* Activity */}
+            <div>
+              <p className="text-slate-300 text-sm mb-2">Recent Activity</p>
+              {preview.activity.items.length === 0 ? (
+                <p className="text-slate-500 text-xs">Nothing visible</p>
+              ) : (
+                <ul className="space-y-1">
+                  {preview.activity.items.map((item) => {
+                    const metadata = item.metadata as { privacyLevel?: 'full' | 'partial' | 'hidden' } | null;
+                    return (
+                      <li key={item.id} className="text-slate-400 text-xs">
+                        You{' '}
+                        {formatActivityMessage(
+                          item.type as ActivityType,
+                          item.symbol,
+                          item.quantity,
+                          item.price,
+                          item.value,
+                          item.metadata,
+                          metadata?.privacyLevel ?? 'full',
+                          'You'
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {preview.activity.hiddenCount > 0 && (
+                <p className="text-slate-500 text-xs mt-1">
+                  {preview.activity.hiddenCount} recent item{preview.activity.hiddenCount === 1 ? '' : 's'} hidden
+                </p>
+              )}
+              {preview.activity.delayedCount > 0 && (
+                <p className="text-slate-500 text-xs mt-1">
+                  {preview.activity.delayedCount} recent trade{preview.activity.delayedCount === 1 ? '' : 's'} waiting for your disclosure delay
+                </p>
+              )}
+            </div>
+
+            {/* Watchlist */}
+            <div>
+              <p className="text-slate-300 text-sm mb-1">Shared Watchlist</p>
+              <p className="text-slate-500 text-xs">
+                {preview.watchlist.attributed
+                  ? `Your name is shown on the ${preview.watchlist.itemsAdded} symbol${preview.watchlist.itemsAdded === 1 ? '' : 's'} you added`
+                  : 'Symbols you add are shown without your name'}
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+function WorkspacePicker({
+  workspaces,
+  value,
+  onChange,
+}: {
+  workspaces: WorkspaceContext[];
+  value: string;
+  onChange: (workspaceId: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-44 bg-slate-800 border-slate-700 text-white">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-900 border-slate-700">
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id} className="text-slate-300">
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function WorkspacePrivacyOverrides({ workspaceId }: { workspaceId: string }) {
+  const { data, isLoading, error } = useWorkspacePrivacy(workspaceId);
+
+  if (isLoading) {
+    return <p className="text-slate-400 text-sm">Loading workspace settings...</p>;
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-red-400 text-sm">
+        {error instanceof Error ? error.message : 'Failed to load workspace settings'}
+      </p>
+    );
+  }
+
+  return <WorkspaceOverrideEditor workspaceId={workspaceId} privacy={data} />;
+}
+
+function WorkspaceOverrideEditor({
+  workspaceId,
+  privacy,
+}: {
+  workspaceId: string;
+  privacy: WorkspacePrivacy;
+}) {
+  const [draft, setDraft] = useState<Partial<PrivacySettingsType>>(privacy.override ?? {});
+  const updateMutation = useUpdateWorkspacePrivacy(workspaceId);
+  const { policy, defaults, resolved, fieldSources } = privacy;
+
+  const isBelowMinimum = (field: keyof PrivacySettingsType, value: string) => {
+    const options = FIELD_OPTIONS.find((entry) => entry.field === field)!.options;
+    const minimum = policy.enforcedTransparency
+      ? options[options.length - 1].value
+      : policy.minimumSharing?.[field];
+    if (!minimum) return false;
+    const values = options.map((option) => option.value);
+    return values.indexOf(value) < values.indexOf(minimum);
+  };
+
+  const setField = (field: keyof PrivacySettingsType, value: string | null) => {
+    const next = { ...draft };
+    if (value === null) {
+      delete next[field];
+    } else {
+      (next as Record<string, string>)[field] = value;
+    }
+    setDraft(next);
+  };
+
+  return (
+    <div className="space-y-5">
+      {policy.enforcedTransparency && (
+        <p className="text-orange-400 text-xs">
+          This workspace enforces full transparency, so overrides have no effect.
+        </p>
+      )}
+
+      {(policy.allowAnonymousMode || privacy.anonymous) && (
+        <div className="p-3 rounded-lg border border-slate-700 bg-slate-800/50">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-start gap-3">
+              <VenetianMask className="w-5 h-5 text-purple-400 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-white text-sm">Anonymous mode</p>
+                <p className="text-slate-400 text-xs">
+                  {policy.allowAnonymousMode
+                    ? 'Other members see a pseudonym and generated avatar instead of your name and photo.'
+                    : 'This workspace no longer allows anonymous mode, so your name is shown.'}
+                </p>
               </div>
-            </button>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateMutation.mutate({ anonymous: !privacy.anonymous })}
+              disabled={updateMutation.isPending || (!privacy.anonymous && !policy.allowAnonymousMode)}
+              className={privacy.anonymous ? 'border-purple-500/50 text-purple-400' : 'border-slate-700 text-slate-300'}
+            >
+              {privacy.anonymous ? 'Turn Off' : 'Turn On'}
+            </Button>
+          </div>
+        </div>
+      )}
 
+      {FIELD_OPTIONS.map(({ field, label, options }) => (
+        <div key={field}>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-slate-300 text-sm">{label}</label>
+            <span className="text-slate-500 text-xs">
+              Shown as <span className="text-white">{optionLabel(options, resolved[field])}</span>
+              {' '}({FIELD_SOURCE_LABELS[fieldSources[field]]})
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-2">
             <button
-              onClick={() => setSettings({ ...settings, activity: 'hidden' })}
-              className={`w-full p-3 rounded-lg border transition-all text-left ${
-                settings.activity === 'hidden'
-                  ? 'border-cyan-500 bg-cyan-500/10'
-                  : 'border-slate-700 bg-slate-800/50 hover:border-slate-600'
+              onClick={() => setField(field, null)}
+              className={`px-3 py-1.5 rounded-lg border text-xs transition-all ${
+                draft[field] === undefined
+                  ? 'border-cyan-500 bg-cyan-500/10 text-white'
+                  : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-600'
               }`}
             >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-white text-sm">Hide all activity</p>
-                  <p className="text-slate-400 text-xs">Not visible</p>
-                </div>
-                {settings.activity === 'hidden' && (
-                  <EyeOff className="w-4 h-4 text-slate-400" />
-                )}
-              </div>
+              Default ({optionLabel(options, defaults[field])})
             </button>
+            {options.map((option) => {
+              const disabled = isBelowMinimum(field, option.value);
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => setField(field, option.value)}
+                  disabled={disabled}
+                  title={disabled ? 'Below this workspace\'s minimum sharing' : undefined}
+                  className={`px-3 py-1.5 rounded-lg border text-xs transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                    draft[field] === option.value
+                      ? 'border-cyan-500 bg-cyan-500/10 text-white'
+                      : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
           </div>
         </div>
+      ))}
 
-        {/* Info Note */}
-        <div className="p-4 rounded-lg bg-cyan-500/10 border border-cyan-500/30">
-          <div className="flex gap-3">
-            <Info className="w-5 h-5 text-cyan-400 flex-shrink-0 mt-0.5" />
-            <div>
-              <p className="text-cyan-400 text-sm mb-1">Default Privacy Settings</p>
-              <p className="text-slate-400 text-xs">
-                These are your default settings for all workspaces. You can override these per-workspace 
-                in workspace settings. Some workspaces may require minimum sharing levels.
-              </p>
-            </div>
-          </div>
-        </div>
+      {updateMutation.error && (
+        <p className="text-red-400 text-xs">{updateMutation.error.message}</p>
+      )}
 
-        {/* Save Button */}
+      <div className="flex gap-2">
         <Button
-          onClick={saveSettings}
-          disabled={saving}
-          className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+          variant="outline"
+          onClick={() => {
+            setDraft({});
+            updateMutation.mutate({ override: null });
+          }}
+          disabled={updateMutation.isPending || !privacy.override}
+          className="border-slate-700 text-slate-300"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Use Defaults
+        </Button>
+        <Button
+          onClick={() =>
+            updateMutation.mutate({ override: Object.keys(draft).length > 0 ? draft : null })
+          }
+          disabled={updateMutation.isPending}
+          className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
         >
           <Save className="w-4 h-4 mr-2" />
-          {saving ? 'Saving...' : 'Save Privacy Settings'}
+          {updateMutation.isPending ? 'Saving...' : 'Save for This Workspace'}
         </Button>
       </div>
-    </Card>
+    </div>
   );
 }
@@ -0,0 +1,234 @@
+"use client";
+
+/**
+ * Squad Overlap - Are we all just long the same thing?
+ * Crowded symbols and member-by-member overlap / return correlation heatmaps
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Users, Lock, RefreshCw } from "lucide-react";
+import { useSquadOverlap } from "@/hooks/use-portfolio";
+import type { SquadOverlapResponse } from "@/lib/validations/portfolio";
+
+type MatrixView = "jaccard" | "weightOverlap" | "correlation";
+
+const MATRIX_VIEWS: Array<{ value: MatrixView; label: string; description: string }> = [
+  { value: "jaccard", label: "Tickers", description: "Share of tickers held in common" },
+  { value: "weightOverlap", label: "Weights", description: "Portfolio weight held in common" },
+  { value: "correlation", label: "Returns", description: "Correlation of daily returns" },
+];
+
+const CORRELATION_PERIODS = ["1M", "3M", "6M", "1Y"];
+
+// Crowded symbols listed before "show all"
+const CROWDED_PREVIEW = 6;
+
+interface SquadOverlapProps {
+  workspaceId: string | null;
+}
+
+export function SquadOverlap({ workspaceId }: SquadOverlapProps) {
+  const [period, setPeriod] = useState("3M");
+  const [view, setView] = useState<MatrixView>("jaccard");
+  const [showAll, setShowAll] = useState(false);
+  const { data, isLoading, error } = useSquadOverlap(workspaceId, period);
+
+  const crowded = data ? (showAll ? data.crowded : data.crowded.slice(0, CROWDED_PREVIEW)) : [];
+  const sharingMembers = data?.members.filter((member) => member.positions !== "hidden").length ?? 0;
+  const activeView = MATRIX_VIEWS.find((option) => option.value === view)!;
+
+  return (
+    <Card className="border-slate-700/50 bg-gradient-to-b from-slate-800/40 via-slate-900/40 to-slate-800/40 backdrop-blur-sm">
+      <div className="p-4 sm:p-6 space-y-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Users className="w-5 h-5 text-amber-400" />
+            <h2 className="text-white">Crowding</h2>
+            {data && data.crowded.length > 0 && (
+              <Badge className="bg-amber-500/20 text-amber-400 border-amber-500/30 text-xs">
+                {data.crowded.length} shared {data.crowded.length === 1 ? "ticker" : "tickers"}
+              </Badge>
+            )}
+          </div>
+          <p className="text-slate-400 text-sm">What the squad holds in common</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <RefreshCw className="w-6 h-6 text-cyan-400 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center h-48 text-sm text-red-400">{error.message}</div>
+        ) : data ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Crowded Symbols */}
+            <div className="space-y-3">
+              <div className="text-xs text-slate-500 uppercase tracking-wide">Held by several members</div>
+              {crowded.length === 0 ? (
+                <div className="text-sm text-slate-500 py-6 text-center">No ticker is held by more than one member</div>
+              ) : (
+                crowded.map((symbol) => (
+                  <div key={symbol.symbol} className="space-y-1.5">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-white font-mono">{symbol.symbol}</span>
+                      <span className="text-slate-400 text-xs">
+                        {symbol.holders}/{sharingMembers} members
+                        {symbol.squadWeight !== null && (
+                          <span className="text-slate-300 font-mono ml-2">{symbol.squadWeight.toFixed(1)}%</span>
+                        )}
+                      </span>
+                    </div>
+                    <Progress
+                      value={symbol.squadWeight ?? (symbol.holders / Math.max(sharingMembers, 1)) * 100}
+                      className="h-1.5 bg-slate-700/50"
+                    />
+                  </div>
+                ))
+              )}
+              {data.crowded.length > CROWDED_PREVIEW && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowAll(!showAll)}
+                  className="text-slate-400 hover:text-white hover:bg-slate-700/50 text-xs"
+                >
+                  {showAll ? "Show Less" : `View All (${data.crowded.length})`}
+                </Button>
+              )}
+              <p className="text-xs text-slate-500">
+                % of squad capital, from members who share position sizes
+              </p>
+            </div>
+
+            {/* Overlap Matrix */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1 border border-slate-700/50">
+                  {MATRIX_VIEWS.map((option) => (
+                    <Button
+                      key={option.value}
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setView(option.value)}
+                      className={`h-8 px-3 text-xs ${
+                        view === option.value
+                          ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/40"
+                          : "text-slate-400 hover:text-white"
+                      }`}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+                {view === "correlation" && (
+                  <Select value={period} onValueChange={setPeriod}>
+                    <SelectTrigger className="w-20 h-8 bg-slate-800/50 border-slate-700 text-slate-200 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-900 border-slate-700">
+                      {CORRELATION_PERIODS.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <p className="text-xs text-slate-500">{activeView.description}</p>
+              <OverlapMatrix data={data} view={view} />
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </Card>
+  );
+}
+
+// ===== INTERNALS =====
+
+function OverlapMatrix({ data, view }: { data: SquadOverlapResponse; view: MatrixView }) {
+  const matrix = data[view];
+  const label = (member: SquadOverlapResponse["members"][number]) =>
+    member.isCurrentUser ? "You" : member.memberName;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th />
+            {data.members.map((member) => (
+              <th key={member.memberId} className="text-slate-400 font-normal px-1 max-w-16 truncate" title={label(member)}>
+                {initials(label(member))}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {data.members.map((member, i) => (
+            <tr key={member.memberId}>
+              <th className="text-left text-slate-300 font-normal pr-2 max-w-28 truncate">
+                <span className="flex items-center gap-1">
+                  {isWithheld(member, view) && <Lock className="w-3 h-3 text-slate-500 flex-shrink-0" />}
+                  {label(member)}
+                </span>
+              </th>
+              {matrix[i].map((value, j) => (
+                <td
+                  key={data.members[j].memberId}
+                  className="w-11 h-9 rounded text-center font-mono text-white"
+                  style={{ backgroundColor: cellColor(value, view) }}
+                  title={`${label(member)} / ${label(data.members[j])}`}
+                >
+                  {value === null ? (
+                    <span className="text-slate-600">–</span>
+                  ) : view === "correlation" ? (
+                    value.toFixed(2)
+                  ) : (
+                    `${Math.round(value)}%`
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Private positions leave a member's row blank (tickers_only members share no weights)
+function isWithheld(member: SquadOverlapResponse["members"][number], view: MatrixView): boolean {
+  if (view === "weightOverlap") return member.positions !== "full";
+  return view === "jaccard" && member.positions === "hidden";
+}
+
+function cellColor(value: number | null, view: MatrixView): string {
+  if (value === null) return "rgba(51, 65, 85, 0.2)";
+  if (view === "correlation") {
+    // Emerald for moving together, red for moving apart
+    return value >= 0 ? `rgba(16, 185, 129, ${0.1 + value * 0.6})` : `rgba(244, 63, 94, ${0.1 - value * 0.6})`;
+  }
+  return `rgba(6, 182, 212, ${0.1 + (value / 100) * 0.6})`;
+}
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
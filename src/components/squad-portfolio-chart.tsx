@@ -4,10 +4,12 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
@@ -45,6 +47,11 @@ import { useSquadHistory, useSyncPortfolio } from "@/hooks/use-portfolio";
 type TimePeriod = "1D" | "1W" | "1M" | "3M" | "6M" | "1Y" | "YTD";
 type ChartView = "you-vs-squad" | "all-members";
 
+const BENCHMARK_OPTIONS = [
+  { symbol: "SPY", name: "S&P 500" },
+  { symbol: "QQQ", name: "Nasdaq 100" },
+];
+
 interface SquadPortfolioChartProps {
   workspaceId: string | null | undefined;
   selectedPeriod: TimePeriod;
@@ -60,6 +67,8 @@ export function SquadPortfolioChart({
 }: SquadPortfolioChartProps) {
   const [chartView, setChartView] = useState<ChartView>("you-vs-squad");
   const [realTimeEnabled, setRealTimeEnabled] = useState<boolean>(false);
+  const [benchmark, setBenchmark] = useState<string | null>(null); // null = the workspace default
+  const [customBenchmark, setCustomBenchmark] = useState("");
   const periods: TimePeriod[] = ["1D", "1W", "1M", "3M", "6M", "1Y", "YTD"];
 
   const isRealTimeAvailable = selectedPeriod === "1D";
@@ -77,10 +86,14 @@ export function SquadPortfolioChart({
     }
   }, [selectedPeriod, realTimeEnabled]);
 
+  // Time-weighted returns so deposits/withdrawals don't skew member comparisons
   const { data, isLoading, error, isFetching } = useSquadHistory(
     workspaceId,
     selectedPeriod,
-    realTimeEnabled && isRealTimeAvailable
+    realTimeEnabled && isRealTimeAvailable,
+    "twr",
+    undefined,
+    benchmark ? [benchmark] : undefined
   );
   
   const syncMutation = useSyncPortfolio();
@@ -135,7 +148,10 @@ export function SquadPortfolioChart({
         case "1D":
           return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
         case "1W":
-          return date.toLocaleDateString("en-US", { weekday: "short" });
+          // Intraday buckets need the hour too, daily points just the weekday
+          return data.interval
+            ? date.toLocaleString("en-US", { weekday: "short", hour: "numeric" })
+            : date.toLocaleDateString("en-US", { weekday: "short" });
         case "1Y":
           return date.toLocaleDateString("en-US", { month: "short" });
         default:
@@ -143,35 +159,42 @@ export function SquadPortfolioChart({
       }
     };
 
+    // Members don't all have a point at every date, so match points by date rather than index
+    const percentAt = (history: Array<{ date: string; percentChange: number }>, date: string) =>
+      history.find((h) => h.date === date)?.percentChange;
+    const benchmarkHistory = data.benchmarks?.[0]?.history ?? [];
+
     switch (chartView) {
       case "you-vs-squad":
         // Merge your history with squad average
-        return data.squadAverage.map((point, i) => ({
+        return data.squadAverage.map((point) => ({
           date: formatDate(point.date),
-          you: data.yourHistory[i]?.percentChange ?? null,
+          you: percentAt(data.yourHistory, point.date) ?? null,
           squadAvg: point.percentChange,
+          benchmark: percentAt(benchmarkHistory, point.date) ?? null,
           rawDate: point.date,
         }));
 
       case "all-members":
         // Flatten all visible member histories
         const dates = data.squadAverage.map((p) => p.date);
-        return dates.map((date, i) => {
+        return dates.map((date) => {
           const point: Record<string, string | number | undefined> = { 
             date: formatDate(date),
             rawDate: date,
+            benchmark: percentAt(benchmarkHistory, date),
           };
           
           // Add visible members
           data.members
             .filter((m) => m.privacyLevel !== "hidden")
             .forEach((member) => {
-              point[member.memberName] = member.history[i]?.percentChange;
+              point[member.memberName] = percentAt(member.history, date);
             });
           
           // Always include "you" if visible
           if (userPrivacyLevel !== "hidden") {
-            point["You"] = data.yourHistory[i]?.percentChange;
+            point["You"] = percentAt(data.yourHistory, date);
           }
           
           return point;
@@ -196,18 +219,16 @@ export function SquadPortfolioChart({
   const nextMilestone = 500000;
   const toMilestone = Math.max(0, nextMilestone - squadTotalValue);
   
-  // S&P500 comparison (mock data - would need external API)
-  const sp500Returns: { [key in TimePeriod]: number } = {
-    "1D": 0.15,
-    "1W": 1.2,
-    "1M": 2.8,
-    "3M": 6.4,
-    "6M": 12.4,
-    "1Y": 18.9,
-    "YTD": 10.2,
+  // Benchmark comparison (the workspace default unless another was picked)
+  const benchmarkSeries = data?.benchmarks?.[0];
+  const benchmarkReturn = benchmarkSeries?.history.at(-1)?.percentChange;
+  const vsBenchmark = benchmarkReturn === undefined ? null : squadReturn - benchmarkReturn;
+
+  const applyCustomBenchmark = () => {
+    const symbol = customBenchmark.trim().toUpperCase();
+    if (symbol) setBenchmark(symbol);
+    setCustomBenchmark("");
   };
-  const sp500Return = sp500Returns[selectedPeriod];
-  const vsSP500 = squadReturn - sp500Return;
 
   // Determine if "All Members" view is available
   const canShowAllMembers =
@@ -352,16 +373,20 @@ export function SquadPortfolioChart({
                 
                 <span className="text-slate-600 hidden md:inline">•</span>
                 
-                {/* vs S&P500 */}
-                <div className={`hidden md:flex items-center gap-1.5 ${vsSP500 >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                  <BarChart3 className="w-3.5 h-3.5 flex-shrink-0" />
-                  <span className="text-slate-400">vs S&P:</span>
-                  <span className="tabular-nums">
-                    {vsSP500 >= 0 ? '+' : ''}{vsSP500.toFixed(1)}%
-                  </span>
-                </div>
-                
-                <span className="text-slate-600 hidden md:inline">•</span>
+                {/* vs benchmark */}
+                {benchmarkSeries && vsBenchmark !== null && (
+                  <>
+                    <div className={`hidden md:flex items-center gap-1.5 ${vsBenchmark >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      <BarChart3 className="w-3.5 h-3.5 flex-shrink-0" />
+                      <span className="text-slate-400">vs {benchmarkSeries.symbol}:</span>
+                      <span className="tabular-nums">
+                        {vsBenchmark >= 0 ? '+' : ''}{vsBenchmark.toFixed(1)}%
+                      </span>
+                    </div>
+                    
+                    <span className="text-slate-600 hidden md:inline">•</span>
+                  </>
+                )}
                 
                 {/* Member visibility status */}
                 <span className="hidden md:inline text-slate-400">
@@ -426,6 +451,56 @@ export function SquadPortfolioChart({
                 </Button>
               </div>
               
+              {/* Benchmark Picker */}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 px-2 sm:px-3 text-xs border-slate-600 text-slate-300 hover:text-white hover:bg-slate-700"
+                  >
+                    <BarChart3 className="w-3.5 h-3.5 sm:mr-1.5" />
+                    <span className="hidden sm:inline">{benchmarkSeries?.symbol ?? benchmark ?? "Benchmark"}</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56 bg-slate-900 border-slate-700">
+                  <DropdownMenuLabel className="text-xs text-slate-400">Compare against</DropdownMenuLabel>
+                  <DropdownMenuItem
+                    onClick={() => setBenchmark(null)}
+                    className="text-slate-300 hover:text-white hover:bg-slate-800 cursor-pointer"
+                  >
+                    Squad default
+                  </DropdownMenuItem>
+                  {BENCHMARK_OPTIONS.map((option) => (
+                    <DropdownMenuItem
+                      key={option.symbol}
+                      onClick={() => setBenchmark(option.symbol)}
+                      className="text-slate-300 hover:text-white hover:bg-slate-800 cursor-pointer"
+                    >
+                      <span className="w-12 font-medium">{option.symbol}</span>
+                      <span className="text-slate-500">{option.name}</span>
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator className="bg-slate-700" />
+                  <form
+                    className="p-1"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      applyCustomBenchmark();
+                    }}
+                  >
+                    <Input
+                      value={customBenchmark}
+                      onChange={(e) => setCustomBenchmark(e.target.value)}
+                      onKeyDown={(e) => e.stopPropagation()}
+                      placeholder="Other ticker, e.g. VTI"
+                      maxLength={10}
+                      className="h-8 text-xs bg-slate-800 border-slate-700 text-white"
+                    />
+                  </form>
+                </DropdownMenuContent>
+              </DropdownMenu>
+
               {/* Real-Time Toggle (only for 1D period) */}
               {isRealTimeAvailable && (
                 <Button
@@ -604,6 +679,19 @@ export function SquadPortfolioChart({
                       strokeWidth: 2,
                     }}
                   />
+                  {/* Benchmark Line */}
+                  {benchmarkSeries && (
+                    <Line
+                      type="monotone"
+                      dataKey="benchmark"
+                      name={benchmarkSeries.symbol}
+                      stroke="#94a3b8"
+                      strokeWidth={1.5}
+                      strokeDasharray="2 4"
+                      dot={false}
+                      activeDot={{ r: 4 }}
+                    />
+                  )}
                 </LineChart>
               ) : (
                 /* All Members View */
@@ -646,6 +734,18 @@ export function SquadPortfolioChart({
                         activeDot={{ r: 4 }}
                       />
                     ))}
+                  {benchmarkSeries && (
+                    <Line
+                      type="monotone"
+                      dataKey="benchmark"
+                      name={benchmarkSeries.symbol}
+                      stroke="#94a3b8"
+                      strokeWidth={1.5}
+                      strokeDasharray="2 4"
+                      dot={false}
+                      activeDot={{ r: 4 }}
+                    />
+                  )}
                   {/* Your line (always on top if visible) */}
                   {userPrivacyLevel !== "hidden" && (
                     <Line
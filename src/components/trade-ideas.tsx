@@ -0,0 +1,529 @@
+"use client";
+
+/**
+ * Trade Ideas - Squad trade ideas on the Terminal
+ * Idea cards with live status, the post idea dialog and the hit rate leaderboard
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Lightbulb,
+  MessageCircle,
+  ThumbsUp,
+  Eye,
+  Trash2,
+  Target,
+  RefreshCw,
+  Trophy,
+} from "lucide-react";
+import {
+  useCreateTradeIdea,
+  useDeleteTradeIdea,
+  useLikeTradeIdea,
+  useTradeIdea,
+  useCommentOnTradeIdea,
+  useIdeaHitRates,
+} from "@/hooks/use-trade-ideas";
+import type { IdeaDirection, IdeaStatus, IdeaTimeframe, TradeIdea } from "@/lib/validations/ideas";
+
+const TIMEFRAMES: Array<{ value: IdeaTimeframe; label: string }> = [
+  { value: "1D", label: "1 day" },
+  { value: "1W", label: "1 week" },
+  { value: "2W", label: "2 weeks" },
+  { value: "1M", label: "1 month" },
+  { value: "3M", label: "3 months" },
+  { value: "6M", label: "6 months" },
+];
+
+const STATUS_BADGES: Record<IdeaStatus, { label: string; className: string }> = {
+  open: { label: "Open", className: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30" },
+  target_hit: { label: "Target Hit", className: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30" },
+  stopped_out: { label: "Stopped Out", className: "bg-red-500/20 text-red-400 border-red-500/30" },
+  expired: { label: "Expired", className: "bg-slate-500/20 text-slate-400 border-slate-500/30" },
+};
+
+// ===== IDEA CARD =====
+
+interface TradeIdeaCardProps {
+  workspaceId: string;
+  idea: TradeIdea;
+}
+
+export function TradeIdeaCard({ workspaceId, idea }: TradeIdeaCardProps) {
+  const [showComments, setShowComments] = useState(false);
+  const likeIdea = useLikeTradeIdea(workspaceId);
+  const deleteIdea = useDeleteTradeIdea(workspaceId);
+  const status = STATUS_BADGES[idea.status];
+
+  const handleDelete = () => {
+    if (!confirm("Delete this idea?")) return;
+    deleteIdea.mutate(idea.id, {
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  return (
+    <Card className="border-slate-700 bg-slate-900/50 p-6 hover:border-cyan-500/50 transition-all">
+      {/* Header */}
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-2 flex-wrap">
+            <span className="font-mono text-cyan-400">${idea.symbol}</span>
+            <Badge variant={idea.direction === "long" ? "default" : "destructive"}>
+              {idea.direction === "long" ? "Long" : "Short"}
+            </Badge>
+            <Badge className={`${status.className} text-xs`}>{status.label}</Badge>
+            <span className="text-xs text-slate-500">
+              by {idea.isAuthor ? "you" : idea.authorName ?? "Unknown"} · {formatDate(idea.createdAt)}
+            </span>
+          </div>
+          <h3 className="text-slate-100 mb-2">{idea.title}</h3>
+        </div>
+        {idea.returnPercent !== null && (
+          <div className="text-right">
+            <p className={`font-mono ${idea.returnPercent >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+              {idea.returnPercent >= 0 ? "+" : ""}
+              {idea.returnPercent.toFixed(2)}%
+            </p>
+            <p className="text-xs text-slate-500">
+              {idea.status === "open" && idea.currentPrice !== null
+                ? `now $${idea.currentPrice.toFixed(2)}`
+                : idea.closePrice !== null
+                  ? `closed $${idea.closePrice.toFixed(2)}`
+                  : null}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Thesis */}
+      <p className="text-slate-300 text-sm mb-4 leading-relaxed whitespace-pre-line">{idea.thesis}</p>
+
+      {/* Trade Details */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        <div className="bg-slate-800/50 rounded-lg p-3">
+          <p className="text-xs text-slate-500 mb-1">Entry</p>
+          <p className="font-mono text-slate-100 text-sm">${idea.entryPrice.toFixed(2)}</p>
+        </div>
+        <div className="bg-slate-800/50 rounded-lg p-3">
+          <p className="text-xs text-slate-500 mb-1">Target</p>
+          <p className="font-mono text-emerald-400 text-sm">${idea.targetPrice.toFixed(2)}</p>
+        </div>
+        <div className="bg-slate-800/50 rounded-lg p-3">
+          <p className="text-xs text-slate-500 mb-1">Stop Loss</p>
+          <p className="font-mono text-red-400 text-sm">${idea.stopPrice.toFixed(2)}</p>
+        </div>
+        <div className="bg-slate-800/50 rounded-lg p-3">
+          <p className="text-xs text-slate-500 mb-1">{idea.status === "open" ? "Expires" : "Closed"}</p>
+          <p className="text-slate-100 text-sm">{formatDate(idea.closedAt ?? idea.expiresAt)}</p>
+        </div>
+      </div>
+
+      {/* Tags */}
+      {idea.tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {idea.tags.map((tag) => (
+            <span key={tag} className="px-2 py-1 rounded bg-purple-500/10 border border-purple-500/30 text-purple-400 text-xs">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Engagement */}
+      <div className="flex items-center gap-4 pt-4 border-t border-slate-700">
+        <button
+          onClick={() => likeIdea.mutate(idea.id)}
+          disabled={likeIdea.isPending}
+          className={`flex items-center gap-1 transition-colors ${
+            idea.likedByMe ? "text-emerald-400" : "text-slate-400 hover:text-emerald-400"
+          }`}
+        >
+          <ThumbsUp className="w-4 h-4" />
+          <span className="text-sm font-mono">{idea.likeCount}</span>
+        </button>
+        <button
+          onClick={() => setShowComments(!showComments)}
+          className={`flex items-center gap-1 transition-colors ${
+            showComments ? "text-cyan-400" : "text-slate-400 hover:text-cyan-400"
+          }`}
+        >
+          <MessageCircle className="w-4 h-4" />
+          <span className="text-sm font-mono">{idea.commentCount}</span>
+        </button>
+        <div className="flex items-center gap-1 text-slate-500">
+          <Eye className="w-4 h-4" />
+          <span className="text-sm font-mono">{idea.viewCount}</span>
+        </div>
+        {idea.isAuthor && (
+          <button
+            onClick={handleDelete}
+            disabled={deleteIdea.isPending}
+            className="ml-auto flex items-center gap-1 text-slate-500 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {showComments && <IdeaComments workspaceId={workspaceId} ideaId={idea.id} />}
+    </Card>
+  );
+}
+
+// ===== POST IDEA DIALOG =====
+
+export function PostIdeaDialog({ workspaceId }: { workspaceId: string | null }) {
+  const [open, setOpen] = useState(false);
+  const [symbol, setSymbol] = useState("");
+  const [title, setTitle] = useState("");
+  const [thesis, setThesis] = useState("");
+  const [direction, setDirection] = useState<IdeaDirection>("long");
+  const [entryPrice, setEntryPrice] = useState("");
+  const [targetPrice, setTargetPrice] = useState("");
+  const [stopPrice, setStopPrice] = useState("");
+  const [timeframe, setTimeframe] = useState<IdeaTimeframe>("2W");
+  const [tags, setTags] = useState("");
+  const createIdea = useCreateTradeIdea(workspaceId);
+
+  const canSubmit =
+    symbol.trim() && title.trim().length >= 3 && thesis.trim() && Number(targetPrice) > 0 && Number(stopPrice) > 0;
+
+  const reset = () => {
+    setSymbol("");
+    setTitle("");
+    setThesis("");
+    setDirection("long");
+    setEntryPrice("");
+    setTargetPrice("");
+    setStopPrice("");
+    setTimeframe("2W");
+    setTags("");
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    createIdea.mutate(
+      {
+        symbol: symbol.trim(),
+        title: title.trim(),
+        thesis: thesis.trim(),
+        direction,
+        // Blank entry uses the current quote
+        entryPrice: entryPrice ? Number(entryPrice) : undefined,
+        targetPrice: Number(targetPrice),
+        stopPrice: Number(stopPrice),
+        timeframe,
+        tags: tags
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+          .slice(0, 5),
+      },
+      {
+        onSuccess: () => {
+          setOpen(false);
+          reset();
+        },
+        onError: (error) => alert(error.message),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          disabled={!workspaceId}
+          className="px-4 py-2 rounded-lg bg-cyan-500/20 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/30 transition-colors disabled:opacity-50"
+        >
+          <Lightbulb className="w-5 h-5 inline mr-2" />
+          Post Idea
+        </button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Lightbulb className="w-5 h-5 text-amber-400" />
+            Post a Trade Idea
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Your squad will see it in the feed, and it closes itself when it hits the target or stop
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-slate-300 text-sm mb-2 block">
+                Symbol <span className="text-red-400">*</span>
+              </label>
+              <Input
+                placeholder="NVDA"
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                className="bg-slate-800 border-slate-700 text-white font-mono"
+                maxLength={10}
+              />
+            </div>
+            <div>
+              <label className="text-slate-300 text-sm mb-2 block">Direction</label>
+              <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1 border border-slate-700/50">
+                {(["long", "short"] as const).map((option) => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setDirection(option)}
+                    className={`flex-1 h-7 text-xs capitalize ${
+                      direction === option
+                        ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/40"
+                        : "text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    {option}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-slate-300 text-sm mb-2 block">
+              Title <span className="text-red-400">*</span>
+            </label>
+            <Input
+              placeholder="Breakout above the 3-month range"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="bg-slate-800 border-slate-700 text-white"
+              maxLength={120}
+            />
+          </div>
+
+          <div>
+            <label className="text-slate-300 text-sm mb-2 block">
+              Thesis <span className="text-red-400">*</span>
+            </label>
+            <textarea
+              placeholder="Why you like the trade"
+              value={thesis}
+              onChange={(e) => setThesis(e.target.value)}
+              rows={4}
+              maxLength={5000}
+              className="w-full rounded-md px-3 py-2 text-sm bg-slate-800 border border-slate-700 text-white placeholder:text-slate-500 focus:outline-none focus:border-cyan-500/50"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="text-slate-300 text-sm mb-2 block">Entry</label>
+              <Input
+                type="number"
+                placeholder="Market"
+                value={entryPrice}
+                onChange={(e) => setEntryPrice(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white font-mono"
+              />
+            </div>
+            <div>
+              <label className="text-slate-300 text-sm mb-2 block">
+                Target <span className="text-red-400">*</span>
+              </label>
+              <Input
+                type="number"
+                value={targetPrice}
+                onChange={(e) => setTargetPrice(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white font-mono"
+              />
+            </div>
+            <div>
+              <label className="text-slate-300 text-sm mb-2 block">
+                Stop <span className="text-red-400">*</span>
+              </label>
+              <Input
+                type="number"
+                value={stopPrice}
+                onChange={(e) => setStopPrice(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-slate-300 text-sm mb-2 block">Timeframe</label>
+              <Select value={timeframe} onValueChange={(value) => setTimeframe(value as IdeaTimeframe)}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 border-slate-700">
+                  {TIMEFRAMES.map((option) => (
+                    <SelectItem key={option.value} value={option.value} className="text-slate-300">
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-slate-300 text-sm mb-2 block">Tags (optional)</label>
+              <Input
+                placeholder="AI, Breakout"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={createIdea.isPending || !canSubmit}
+            className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+          >
+            {createIdea.isPending ? "Posting..." : "Post Idea"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ===== HIT RATES =====
+
+export function IdeaHitRates({ workspaceId }: { workspaceId: string | null }) {
+  const { data, isLoading } = useIdeaHitRates(workspaceId);
+
+  return (
+    <Card className="border-slate-700/50 bg-gradient-to-b from-slate-800/40 via-slate-900/40 to-slate-800/40 backdrop-blur-sm">
+      <div className="p-4 sm:p-6 space-y-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Trophy className="w-5 h-5 text-amber-400" />
+            <h2 className="text-white">Hit Rates</h2>
+          </div>
+          <p className="text-slate-400 text-sm">
+            Share of closed ideas that hit their target
+            {data && ` · ranked after ${data.minClosedIdeas} closed ideas`}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <RefreshCw className="w-5 h-5 text-cyan-400 animate-spin" />
+          </div>
+        ) : !data || data.members.length === 0 ? (
+          <div className="text-sm text-slate-500 py-6 text-center">No ideas posted yet</div>
+        ) : (
+          <div className="space-y-2">
+            {data.members.map((member, index) => (
+              <div
+                key={member.memberId}
+                className={`flex items-center gap-3 p-2 rounded-lg ${
+                  member.isCurrentUser ? "bg-cyan-500/10 border border-cyan-500/30" : "bg-slate-800/40"
+                }`}
+              >
+                <span className="w-5 text-xs text-slate-500 font-mono">{member.ranked ? index + 1 : "–"}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-200 truncate">{member.isCurrentUser ? "You" : member.memberName}</p>
+                  <p className="text-xs text-slate-500">
+                    {member.hits}/{member.closed} hit · {member.open} open
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-mono text-white flex items-center gap-1 justify-end">
+                    <Target className="w-3 h-3 text-emerald-400" />
+                    {member.hitRate !== null ? `${member.hitRate.toFixed(0)}%` : "–"}
+                  </p>
+                  {member.averageReturn !== null && (
+                    <p className={`text-xs font-mono ${member.averageReturn >= 0 ? "text-emerald-400" : "text-red-400"}`}>
+                      {member.averageReturn >= 0 ? "+" : ""}
+                      {member.averageReturn.toFixed(1)}% avg
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+// ===== INTERNALS =====
+
+function IdeaComments({ workspaceId, ideaId }: { workspaceId: string; ideaId: string }) {
+  const [content, setContent] = useState("");
+  // Opening the comments counts as a view
+  const { data, isLoading } = useTradeIdea(workspaceId, ideaId);
+  const comment = useCommentOnTradeIdea(workspaceId, ideaId);
+
+  const handleSubmit = () => {
+    if (!content.trim()) return;
+    comment.mutate(content.trim(), {
+      onSuccess: () => setContent(""),
+      onError: (error) => alert(error.message),
+    });
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      {isLoading ? (
+        <RefreshCw className="w-4 h-4 text-cyan-400 animate-spin" />
+      ) : (
+        data?.comments?.map((entry) => (
+          <div key={entry.id} className="bg-slate-800/40 rounded-lg p-3">
+            <p className="text-xs text-slate-500 mb-1">
+              {entry.userName ?? "Unknown"} · {formatDate(entry.createdAt)}
+            </p>
+            <p className="text-sm text-slate-300 whitespace-pre-line">{entry.content}</p>
+          </div>
+        ))
+      )}
+      <div className="flex gap-2">
+        <Input
+          placeholder="Add a comment"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+          className="bg-slate-800 border-slate-700 text-white text-sm"
+          maxLength={1000}
+        />
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={comment.isPending || !content.trim()}
+          className="bg-cyan-500/20 text-cyan-400 border border-cyan-500/40 hover:bg-cyan-500/30"
+        >
+          Post
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Dates arrive as ISO strings over JSON
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
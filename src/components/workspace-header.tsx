@@ -5,18 +5,32 @@
  * Displays notifications, settings, and profile dropdown
  */
 
-import { Settings, Bell, LogOut, User, CreditCard, Shield, HelpCircle, FileText } from "lucide-react";
+import { Settings, Bell, LogOut, User, CreditCard, Shield, HelpCircle, FileText, Users, Crown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { OmegaLogo } from "@/components/illustrations/OmegaLogo";
+import { useWorkspaceContext } from "@/lib/use-workspace-context";
+import { getDefaultSoloContext, isSoloMode } from "@/lib/workspace-context";
+import {
+  useWorkspaceMembers,
+  useUpdateMemberRole,
+  useRemoveMember,
+  useTransferOwnership,
+  useLeaveWorkspace,
+  useWorkspaceBans,
+  useUnbanUser,
+} from "@/hooks/use-workspace-members";
 // TODO: Avatar components need to be ported from v11.2
 // import { OmegaPilotAvatar } from "@/components/avatar/OmegaPilotAvatar";
 // import { AvatarCustomizer } from "@/components/avatar/AvatarCustomizer";
@@ -31,6 +45,7 @@ interface WorkspaceHeaderProps {
 export function WorkspaceHeader({}: WorkspaceHeaderProps) {
   // TODO: Re-enable when avatar components are ported
   // const avatarConfig = useAvatarConfig();
+  const { currentContext } = useWorkspaceContext();
 
   return (
     <div className="flex items-center justify-between px-4 sm:px-6 py-4 sm:py-5 border-b border-slate-700/50 bg-gradient-to-b from-slate-800/30 to-transparent sticky top-0 z-30 backdrop-blur-sm">
@@ -48,6 +63,11 @@ export function WorkspaceHeader({}: WorkspaceHeaderProps) {
 
       {/* Right: User Actions */}
       <div className="flex items-center gap-1.5 sm:gap-2 flex-shrink-0">
+        {/* Workspace Members */}
+        {!isSoloMode(currentContext) && (
+          <WorkspaceMembersMenu workspaceId={currentContext.id} />
+        )}
+
         {/* Notifications */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -223,3 +243,203 @@ export function WorkspaceHeader({}: WorkspaceHeaderProps) {
     </div>
   );
 }
+
+const ROLE_BADGE_STYLES = {
+  OWNER: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  ADMIN: "bg-cyan-500/20 text-cyan-400 border-cyan-500/30",
+  MEMBER: "bg-slate-700/50 text-slate-400 border-slate-600",
+} as const;
+
+/**
+ * Member list for the current workspace, with role/removal actions for owners and admins
+ */
+function WorkspaceMembersMenu({ workspaceId }: { workspaceId: string }) {
+  const { setCurrentContext, workspaces, setWorkspaces } = useWorkspaceContext();
+  const { data, isLoading } = useWorkspaceMembers(workspaceId);
+  const updateRole = useUpdateMemberRole(workspaceId);
+  const removeMember = useRemoveMember(workspaceId);
+  const transferOwnership = useTransferOwnership(workspaceId);
+  const leaveWorkspace = useLeaveWorkspace();
+  const unbanUser = useUnbanUser(workspaceId);
+
+  const members = data?.members ?? [];
+  const isOwner = data?.currentUserRole === "OWNER";
+  const canModerate = data?.currentUserRole === "OWNER" || data?.currentUserRole === "ADMIN";
+  const { data: bansData } = useWorkspaceBans(workspaceId, canModerate);
+  const bans = bansData?.bans ?? [];
+
+  const runAction = async (action: () => Promise<unknown>, confirmMessage?: string) => {
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+    try {
+      await action();
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : "Something went wrong");
+    }
+  };
+
+  const handleLeave = () =>
+    runAction(async () => {
+      await leaveWorkspace.mutateAsync(workspaceId);
+      setWorkspaces(workspaces.filter((w) => w.id !== workspaceId));
+      setCurrentContext(getDefaultSoloContext());
+    }, "Leave this workspace?");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-slate-400 hover:text-white hover:bg-slate-700/50"
+        >
+          <Users className="w-4 h-4" />
+          {members.length > 0 && (
+            <span className="ml-1 text-xs">{members.length}</span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72 bg-slate-900 border-slate-700">
+        <div className="p-3 border-b border-slate-700">
+          <h3 className="text-white">Members</h3>
+        </div>
+        <div className="max-h-96 overflow-y-auto py-1">
+          {isLoading && (
+            <div className="px-3 py-2 text-sm text-slate-500">Loading members...</div>
+          )}
+          {members.map((member) => {
+            const displayName = member.username || member.name || "Unknown";
+            const row = (
+              <div className="flex items-center gap-2 w-full">
+                <Avatar className="w-6 h-6">
+                  <AvatarFallback className="bg-slate-700 text-white text-[10px] font-mono">
+                    {displayName.slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm flex-1 truncate">
+                  {displayName}
+                  {member.isCurrentUser && <span className="text-slate-500"> (you)</span>}
+                </span>
+                <Badge variant="outline" className={`text-[10px] ${ROLE_BADGE_STYLES[member.role]}`}>
+                  {member.role === "OWNER" && <Crown className="w-3 h-3 mr-1" />}
+                  {member.role.toLowerCase()}
+                </Badge>
+              </div>
+            );
+
+            if (!member.canManage && !(isOwner && !member.isCurrentUser)) {
+              return (
+                <div key={member.userId} className="px-2 py-1.5 text-slate-300">
+                  {row}
+                </div>
+              );
+            }
+
+            return (
+              <DropdownMenuSub key={member.userId}>
+                <DropdownMenuSubTrigger className="text-slate-300 hover:text-white hover:bg-slate-800 cursor-pointer">
+                  {row}
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="bg-slate-900 border-slate-700">
+                  {member.canManage && member.role === "MEMBER" && (
+                    <DropdownMenuItem
+                      className="text-slate-300 hover:text-white hover:bg-slate-800 cursor-pointer"
+                      onClick={() => runAction(() => updateRole.mutateAsync({ userId: member.userId, role: "ADMIN" }))}
+                    >
+                      Make admin
+                    </DropdownMenuItem>
+                  )}
+                  {member.canManage && member.role === "ADMIN" && (
+                    <DropdownMenuItem
+                      className="text-slate-300 hover:text-white hover:bg-slate-800 cursor-pointer"
+                      onClick={() => runAction(() => updateRole.mutateAsync({ userId: member.userId, role: "MEMBER" }))}
+                    >
+                      Remove admin
+                    </DropdownMenuItem>
+                  )}
+                  {isOwner && (
+                    <DropdownMenuItem
+                      className="text-slate-300 hover:text-white hover:bg-slate-800 cursor-pointer"
+                      onClick={() =>
+                        runAction(
+                          () => transferOwnership.mutateAsync(member.userId),
+                          `Make ${displayName} the owner? You'll become an admin.`
+                        )
+                      }
+                    >
+                      Transfer ownership
+                    </DropdownMenuItem>
+                  )}
+                  {member.canManage && (
+                    <>
+                      <DropdownMenuSeparator className="bg-slate-700" />
+                      <DropdownMenuItem
+                        className="text-red-400 hover:text-red-300 hover:bg-slate-800 cursor-pointer"
+                        onClick={() =>
+                          runAction(
+                            () => removeMember.mutateAsync({ userId: member.userId }),
+                            `Remove ${displayName} from this workspace?`
+                          )
+                        }
+                      >
+                        Remove
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-red-400 hover:text-red-300 hover:bg-slate-800 cursor-pointer"
+                        onClick={() =>
+                          runAction(
+                            () => removeMember.mutateAsync({ userId: member.userId, ban: true }),
+                            `Ban ${displayName}? They won't be able to re-join.`
+                          )
+                        }
+                      >
+                        Ban
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            );
+          })}
+        </div>
+        {canModerate && bans.length > 0 && (
+          <>
+            <DropdownMenuSeparator className="bg-slate-700" />
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="text-slate-300 hover:text-white hover:bg-slate-800 cursor-pointer">
+                <Shield className="w-4 h-4 mr-2" />
+                Banned ({bans.length})
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-56 bg-slate-900 border-slate-700">
+                {bans.map((ban) => (
+                  <DropdownMenuItem
+                    key={ban.userId}
+                    className="text-slate-300 hover:text-white hover:bg-slate-800 cursor-pointer flex-col items-start"
+                    onClick={() =>
+                      runAction(
+                        () => unbanUser.mutateAsync(ban.userId),
+                        `Lift the ban on ${ban.username || ban.name || "this user"}?`
+                      )
+                    }
+                  >
+                    <span className="text-sm">{ban.username || ban.name || "Unknown"}</span>
+                    {ban.reason && <span className="text-xs text-slate-500">{ban.reason}</span>}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </>
+        )}
+        <DropdownMenuSeparator className="bg-slate-700" />
+        <div className="py-1">
+          <DropdownMenuItem
+            className="text-red-400 hover:text-red-300 hover:bg-slate-800 cursor-pointer"
+            onClick={handleLeave}
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Leave Workspace
+          </DropdownMenuItem>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
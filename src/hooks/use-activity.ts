@@ -1,22 +1,32 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
 import type {
   ActivityFeedResponse,
   ActivityQuery,
+  CommentAddedEvent,
   CreateActivityRequest,
   CreateActivityResponse,
   ReactToActivityRequest,
   ReactResponse,
   CommentOnActivityRequest,
   CommentResponse,
+  ReactionChangedEvent,
+  WorkspaceActivity,
 } from "@/lib/validations/activity";
 
 // ===== ACTIVITY FEED =====
 
+/**
+ * A page of the workspace activity feed
+ * With `realTime`, changes stream in through useActivityStream instead of being polled
+ */
 export function useActivityFeed(
   workspaceId: string | null | undefined,
   query: Partial<ActivityQuery> = {},
   realTime?: boolean
 ) {
+  useActivityStream(realTime ? workspaceId : null);
+
   return useQuery<ActivityFeedResponse>({
     queryKey: ["activity", workspaceId, query],
     queryFn: async () => {
@@ -44,11 +54,65 @@ export function useActivityFeed(
       return res.json();
     },
     enabled: !!workspaceId,
-    staleTime: realTime ? 0 : 30 * 1000, // No stale time for real-time
-    refetchInterval: realTime ? 30 * 1000 : false, // Poll every 30 seconds for real-time
+    // The stream keeps it current in real time
+    staleTime: realTime ? Infinity : 30 * 1000,
   });
 }
 
+// ===== LIVE STREAM =====
+
+/**
+ * Keep cached activity feeds live: new activities, reaction changes and comments arrive
+ * over Server-Sent Events, already redacted for this viewer, and are merged into every
+ * cached feed page of the workspace
+ * New activities are only added to first pages whose filters they match
+ */
+export function useActivityStream(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    // EventSource reconnects by itself, resuming from the last event id
+    const source = new EventSource(`/api/workspaces/${workspaceId}/activity/stream`);
+
+    source.addEventListener("activity-created", (event) => {
+      const activity: WorkspaceActivity = JSON.parse(event.data);
+      updateFeeds(queryClient, workspaceId, (data, query) => {
+        if (!matchesFirstPage(activity, query)) return data;
+        if (data.activities.some((existing) => existing.id === activity.id)) return data;
+        return { ...data, activities: [activity, ...data.activities], total: data.total + 1 };
+      });
+    });
+
+    source.addEventListener("reaction-changed", (event) => {
+      const change: ReactionChangedEvent = JSON.parse(event.data);
+      updateActivity(queryClient, workspaceId, change.activityId, (activity) => ({
+        ...activity,
+        reactions: change.reactions,
+        reactionCounts: change.reactionCounts,
+        hasUserReacted: change.hasUserReacted,
+      }));
+    });
+
+    source.addEventListener("comment-added", (event) => {
+      const { activityId, comment }: CommentAddedEvent = JSON.parse(event.data);
+      updateActivity(queryClient, workspaceId, activityId, (activity) =>
+        activity.comments.some((existing) => existing.id === comment.id)
+          ? activity
+          : { ...activity, comments: [...activity.comments, comment] }
+      );
+    });
+
+    // Events were missed while away; start over from the server's feed
+    source.addEventListener("reset", () => {
+      queryClient.invalidateQueries({ queryKey: ["activity", workspaceId] });
+    });
+
+    return () => source.close();
+  }, [workspaceId, queryClient]);
+}
+
 // ===== CREATE ACTIVITY =====
 
 export function useCreateActivity(workspaceId: string | null | undefined) {
@@ -153,3 +217,45 @@ export function useCommentOnActivity(
     },
   });
 }
+
+// ===== INTERNALS =====
+
+function updateFeeds(
+  queryClient: QueryClient,
+  workspaceId: string,
+  update: (data: ActivityFeedResponse, query: Partial<ActivityQuery>) => ActivityFeedResponse
+) {
+  const feeds = queryClient.getQueriesData<ActivityFeedResponse>({ queryKey: ["activity", workspaceId] });
+  for (const [queryKey, data] of feeds) {
+    if (!data) continue;
+    const query = (queryKey[2] ?? {}) as Partial<ActivityQuery>;
+    queryClient.setQueryData<ActivityFeedResponse>(queryKey, update(data, query));
+  }
+}
+
+function updateActivity(
+  queryClient: QueryClient,
+  workspaceId: string,
+  activityId: string,
+  update: (activity: WorkspaceActivity) => WorkspaceActivity
+) {
+  updateFeeds(queryClient, workspaceId, (data) =>
+    data.activities.some((activity) => activity.id === activityId)
+      ? {
+          ...data,
+          activities: data.activities.map((activity) =>
+            activity.id === activityId ? update(activity) : activity
+          ),
+        }
+      : data
+  );
+}
+
+function matchesFirstPage(activity: WorkspaceActivity, query: Partial<ActivityQuery>): boolean {
+  return (
+    !query.offset &&
+    (!query.type || query.type === activity.type) &&
+    (!query.symbol || query.symbol === activity.symbol) &&
+    (!query.userId || query.userId === activity.userId)
+  );
+}
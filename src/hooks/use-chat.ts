@@ -0,0 +1,347 @@
+import { useEffect, useRef } from "react";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import type {
+  ChannelResponse,
+  ChannelsResponse,
+  ChatMessage,
+  ChatQuotesResponse,
+  CreateChannelRequest,
+  MessageResponse,
+  MessagesResponse,
+  PresenceResponse,
+  PresenceStatus,
+} from "@/lib/validations/chat";
+
+type MessagePages = InfiniteData<MessagesResponse, string | undefined>;
+
+// ===== CHANNELS =====
+
+export function useChannels(workspaceId: string | null | undefined) {
+  return useQuery<ChannelsResponse>({
+    queryKey: ["chat", workspaceId, "channels"],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/channels`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch channels" }));
+        throw new Error(error.error || "Failed to fetch channels");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+  });
+}
+
+// ===== MESSAGES =====
+
+/**
+ * Messages in a channel, newest page first; fetchNextPage loads older messages
+ * Live changes from useChatStream are merged into the cached pages
+ */
+export function useMessages(workspaceId: string | null | undefined, channelId: string | null | undefined) {
+  return useInfiniteQuery<MessagesResponse, Error, MessagePages, unknown[], string | undefined>({
+    queryKey: ["chat", workspaceId, "messages", channelId],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (pageParam) params.append("before", pageParam);
+
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/channels/${channelId}/messages?${params}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch messages" }));
+        throw new Error(error.error || "Failed to fetch messages");
+      }
+      return res.json();
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextCursor : undefined),
+    enabled: !!workspaceId && !!channelId,
+    // The stream keeps it current
+    staleTime: Infinity,
+  });
+}
+
+// ===== PRESENCE =====
+
+export function usePresence(workspaceId: string | null | undefined) {
+  return useQuery<PresenceResponse>({
+    queryKey: ["chat", workspaceId, "presence"],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/presence`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch presence" }));
+        throw new Error(error.error || "Failed to fetch presence");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+  });
+}
+
+// ===== TICKER QUOTES =====
+
+/**
+ * Live prices for $TICKER chips (refreshed every minute)
+ */
+export function useChatQuotes(workspaceId: string | null | undefined, symbols: string[]) {
+  const key = [...new Set(symbols)].sort().join(",");
+
+  return useQuery<ChatQuotesResponse>({
+    queryKey: ["chat", workspaceId, "quotes", key],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/quotes?symbols=${encodeURIComponent(key)}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch quotes" }));
+        throw new Error(error.error || "Failed to fetch quotes");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId && key.length > 0,
+    staleTime: 60 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+// ===== LIVE STREAM =====
+
+/**
+ * Keep chat live: new, edited and deleted messages and presence changes arrive over
+ * Server-Sent Events and are merged into the query cache
+ * Messages in a channel other than `activeChannelId` count towards its unread badge
+ */
+export function useChatStream(
+  workspaceId: string | null | undefined,
+  activeChannelId: string | null | undefined,
+  onActiveChannelMessage?: (message: ChatMessage) => void
+) {
+  const queryClient = useQueryClient();
+  // Refs so switching channels doesn't reopen the stream
+  const activeChannelRef = useRef(activeChannelId);
+  const onMessageRef = useRef(onActiveChannelMessage);
+  activeChannelRef.current = activeChannelId;
+  onMessageRef.current = onActiveChannelMessage;
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    // EventSource reconnects by itself, resuming from the last message event id
+    const source = new EventSource(`/api/workspaces/${workspaceId}/chat/stream`);
+
+    source.addEventListener("message", (event) => {
+      const message: ChatMessage = JSON.parse(event.data);
+      const isNew = upsertMessage(queryClient, workspaceId, message);
+
+      if (message.channelId === activeChannelRef.current) {
+        onMessageRef.current?.(message);
+      } else if (isNew && !message.isAuthor && !message.editedAt && !message.deletedAt) {
+        queryClient.setQueryData<ChannelsResponse>(["chat", workspaceId, "channels"], (data) =>
+          data && {
+            channels: data.channels.map((channel) =>
+              channel.id === message.channelId ? { ...channel, unreadCount: channel.unreadCount + 1 } : channel
+            ),
+          }
+        );
+      }
+    });
+
+    source.addEventListener("presence", (event) => {
+      queryClient.setQueryData<PresenceResponse>(["chat", workspaceId, "presence"], JSON.parse(event.data));
+    });
+
+    return () => source.close();
+  }, [workspaceId, queryClient]);
+}
+
+// ===== MUTATIONS =====
+
+export function useCreateChannel(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<ChannelResponse, Error, CreateChannelRequest>({
+    mutationFn: async (data) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/channels`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to create channel" }));
+        throw new Error(error.error || "Failed to create channel");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat", workspaceId, "channels"] });
+    },
+  });
+}
+
+export function useSendMessage(workspaceId: string | null | undefined, channelId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<MessageResponse, Error, string>({
+    mutationFn: async (content) => {
+      if (!workspaceId || !channelId) {
+        throw new Error("No channel selected");
+      }
+
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/channels/${channelId}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to send message" }));
+        throw new Error(error.error || "Failed to send message");
+      }
+
+      return res.json();
+    },
+    onSuccess: ({ message }) => {
+      // Shown right away; the stream's copy of it is de-duplicated
+      if (workspaceId) upsertMessage(queryClient, workspaceId, message);
+    },
+  });
+}
+
+export function useEditMessage(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<MessageResponse, Error, { messageId: string; content: string }>({
+    mutationFn: async ({ messageId, content }) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/messages/${messageId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to edit message" }));
+        throw new Error(error.error || "Failed to edit message");
+      }
+
+      return res.json();
+    },
+    onSuccess: ({ message }) => {
+      if (workspaceId) upsertMessage(queryClient, workspaceId, message);
+    },
+  });
+}
+
+export function useDeleteMessage(workspaceId: string | null | undefined, channelId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean }, Error, string>({
+    mutationFn: async (messageId) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/messages/${messageId}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to delete message" }));
+        throw new Error(error.error || "Failed to delete message");
+      }
+
+      return res.json();
+    },
+    onSuccess: (_data, messageId) => {
+      queryClient.setQueryData<MessagePages>(["chat", workspaceId, "messages", channelId], (data) =>
+        data && {
+          ...data,
+          pages: data.pages.map((page) => ({
+            ...page,
+            messages: page.messages.filter((message) => message.id !== messageId),
+          })),
+        }
+      );
+    },
+  });
+}
+
+export function useMarkChannelRead(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean }, Error, string>({
+    mutationFn: async (channelId) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/channels/${channelId}/read`, {
+        method: "POST",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to mark channel as read" }));
+        throw new Error(error.error || "Failed to mark channel as read");
+      }
+
+      return res.json();
+    },
+    onMutate: (channelId) => {
+      queryClient.setQueryData<ChannelsResponse>(["chat", workspaceId, "channels"], (data) =>
+        data && {
+          channels: data.channels.map((channel) =>
+            channel.id === channelId ? { ...channel, unreadCount: 0 } : channel
+          ),
+        }
+      );
+    },
+  });
+}
+
+export function useUpdatePresence(workspaceId: string | null | undefined) {
+  return useMutation<{ success: boolean }, Error, PresenceStatus>({
+    mutationFn: async (status) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/chat/presence`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to update status" }));
+        throw new Error(error.error || "Failed to update status");
+      }
+
+      return res.json();
+    },
+  });
+}
+
+// ===== INTERNALS =====
+
+/**
+ * Merge a message into its channel's cached pages: replace it if it's there, drop it if
+ * it was deleted, append it to the newest page otherwise. Returns true for a message
+ * that wasn't cached yet
+ */
+function upsertMessage(queryClient: QueryClient, workspaceId: string, message: ChatMessage): boolean {
+  let isNew = true;
+
+  queryClient.setQueryData<MessagePages>(["chat", workspaceId, "messages", message.channelId], (data) => {
+    if (!data) return data;
+
+    const pages = data.pages.map((page) => {
+      if (!page.messages.some((existing) => existing.id === message.id)) return page;
+      isNew = false;
+      return {
+        ...page,
+        messages: message.deletedAt
+          ? page.messages.filter((existing) => existing.id !== message.id)
+          : page.messages.map((existing) => (existing.id === message.id ? message : existing)),
+      };
+    });
+
+    if (isNew && !message.deletedAt && pages.length > 0) {
+      pages[0] = { ...pages[0], messages: [...pages[0].messages, message] };
+    }
+    return { ...data, pages };
+  });
+
+  return isNew;
+}
@@ -0,0 +1,111 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  MarkNotificationsReadResponse,
+  NotificationPreferencesResponse,
+  NotificationsResponse,
+  UpdateNotificationPreferencesRequest,
+} from "@/lib/validations/notifications";
+
+// ===== NOTIFICATIONS =====
+
+/**
+ * The latest notifications and unread count for the bell (checked every minute)
+ */
+export function useNotifications(limit = 20) {
+  return useQuery<NotificationsResponse>({
+    queryKey: ["notifications", "list", limit],
+    queryFn: async () => {
+      const res = await fetch(`/api/notifications?limit=${limit}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch notifications" }));
+        throw new Error(error.error || "Failed to fetch notifications");
+      }
+      return res.json();
+    },
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation<MarkNotificationsReadResponse, Error, string[]>({
+    mutationFn: async (ids) => {
+      const res = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to mark notifications read" }));
+        throw new Error(error.error || "Failed to mark notifications read");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications", "list"] });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation<MarkNotificationsReadResponse, Error, void>({
+    mutationFn: async () => {
+      const res = await fetch("/api/notifications/read-all", { method: "POST" });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to mark notifications read" }));
+        throw new Error(error.error || "Failed to mark notifications read");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications", "list"] });
+    },
+  });
+}
+
+// ===== PREFERENCES =====
+
+export function useNotificationPreferences() {
+  return useQuery<NotificationPreferencesResponse>({
+    queryKey: ["notifications", "preferences"],
+    queryFn: async () => {
+      const res = await fetch("/api/notifications/preferences");
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch notification preferences" }));
+        throw new Error(error.error || "Failed to fetch notification preferences");
+      }
+      return res.json();
+    },
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation<NotificationPreferencesResponse, Error, UpdateNotificationPreferencesRequest>({
+    mutationFn: async (patch) => {
+      const res = await fetch("/api/notifications/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to save notification preferences" }));
+        throw new Error(error.error || "Failed to save notification preferences");
+      }
+
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["notifications", "preferences"], data);
+    },
+  });
+}
@@ -6,7 +6,16 @@ import type {
   AccountsResponse,
   SyncRequest,
   SyncResponse,
+  SyncJobsResponse,
   SquadHistoryResponse,
+  SquadHoldingsResponse,
+  PortfolioStatsResponse,
+  SquadStatsResponse,
+  PortfolioAllocationResponse,
+  SquadAllocationResponse,
+  SquadOverlapResponse,
+  ReturnMode,
+  IntradayInterval,
 } from "@/lib/validations/portfolio";
 
 // ===== PORTFOLIO SUMMARY =====
@@ -47,12 +56,21 @@ export function usePortfolioAccounts() {
 
 // ===== PORTFOLIO HISTORY =====
 
-export function usePortfolioHistory(period: string, accountId?: string, realTime?: boolean) {
+export function usePortfolioHistory(
+  period: string,
+  accountId?: string,
+  realTime?: boolean,
+  returnMode: ReturnMode = "value",
+  interval?: IntradayInterval,
+  benchmarks?: string[] // Defaults to SPY; [] for none
+) {
   return useQuery<PortfolioHistoryResponse>({
-    queryKey: ["portfolio", "history", period, accountId],
+    queryKey: ["portfolio", "history", period, accountId, returnMode, interval, benchmarks],
     queryFn: async () => {
-      const params = new URLSearchParams({ period });
+      const params = new URLSearchParams({ period, returnMode });
       if (accountId) params.append("accountId", accountId);
+      if (interval) params.append("interval", interval);
+      if (benchmarks) params.append("benchmarks", benchmarks.join(","));
       
       const res = await fetch(`/api/portfolio/history?${params}`);
       if (!res.ok) {
@@ -67,6 +85,50 @@ export function usePortfolioHistory(period: string, accountId?: string, realTime
   });
 }
 
+// ===== PORTFOLIO STATS =====
+
+/**
+ * Risk and performance stats for your portfolio (or one account)
+ */
+export function usePortfolioStats(period: string = "1Y", accountId?: string, benchmark?: string) {
+  return useQuery<PortfolioStatsResponse>({
+    queryKey: ["portfolio", "stats", period, accountId, benchmark],
+    queryFn: async () => {
+      const params = new URLSearchParams({ period });
+      if (accountId) params.append("accountId", accountId);
+      if (benchmark) params.append("benchmark", benchmark);
+
+      const res = await fetch(`/api/portfolio/stats?${params}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch stats" }));
+        throw new Error(error.error || "Failed to fetch stats");
+      }
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000, // Built from daily snapshots
+  });
+}
+
+// ===== PORTFOLIO ALLOCATION =====
+
+export function usePortfolioAllocation(accountId?: string) {
+  return useQuery<PortfolioAllocationResponse>({
+    queryKey: ["portfolio", "allocation", accountId],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (accountId) params.append("accountId", accountId);
+
+      const res = await fetch(`/api/portfolio/allocation?${params}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch allocation" }));
+        throw new Error(error.error || "Failed to fetch allocation");
+      }
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000, // Positions only change on sync
+  });
+}
+
 // ===== SYNC MUTATION =====
 
 export function useSyncPortfolio() {
@@ -90,25 +152,56 @@ export function useSyncPortfolio() {
     onSuccess: () => {
       // Invalidate all portfolio queries to refetch fresh data
       queryClient.invalidateQueries({ queryKey: ["portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ["sync", "jobs"] });
     },
   });
 }
 
+// ===== SYNC JOB PROGRESS =====
+
+export function useSyncJobs(jobId?: string) {
+  return useQuery<SyncJobsResponse>({
+    queryKey: ["sync", "jobs", jobId],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (jobId) params.append("jobId", jobId);
+
+      const res = await fetch(`/api/sync/jobs?${params}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch sync jobs" }));
+        throw new Error(error.error || "Failed to fetch sync jobs");
+      }
+      return res.json();
+    },
+    staleTime: 0,
+    // Poll every 2 seconds while any job is still queued or running
+    refetchInterval: (query) =>
+      query.state.data?.jobs.some((job) => job.status === "pending" || job.status === "running")
+        ? 2 * 1000
+        : false,
+  });
+}
+
 // ===== SQUAD PORTFOLIO HISTORY =====
 
 export function useSquadHistory(
   workspaceId: string | null | undefined,
   period: string,
-  realTime?: boolean
+  realTime?: boolean,
+  returnMode: ReturnMode = "value",
+  interval?: IntradayInterval,
+  benchmarks?: string[] // Defaults to the workspace's default benchmark; [] for none
 ) {
   return useQuery<SquadHistoryResponse>({
-    queryKey: ["squad", workspaceId, "history", period],
+    queryKey: ["squad", workspaceId, "history", period, returnMode, interval, benchmarks],
     queryFn: async () => {
       if (!workspaceId) {
         throw new Error("No workspace ID provided");
       }
       
-      const params = new URLSearchParams({ period });
+      const params = new URLSearchParams({ period, returnMode });
+      if (interval) params.append("interval", interval);
+      if (benchmarks) params.append("benchmarks", benchmarks.join(","));
       const res = await fetch(
         `/api/workspaces/${workspaceId}/portfolio/history?${params}`
       );
@@ -126,3 +219,83 @@ export function useSquadHistory(
   });
 }
 
+
+// ===== SQUAD HOLDINGS =====
+
+/**
+ * The squad's combined holdings with live quotes (refreshed every minute)
+ */
+export function useSquadHoldings(workspaceId: string | null | undefined) {
+  return useQuery<SquadHoldingsResponse>({
+    queryKey: ["squad", workspaceId, "holdings"],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/holdings`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch squad holdings" }));
+        throw new Error(error.error || "Failed to fetch squad holdings");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+    staleTime: 60 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+// ===== SQUAD STATS =====
+
+/**
+ * Risk and performance stats for each squad member and the squad as a whole
+ */
+export function useSquadStats(workspaceId: string | null | undefined, period: string = "1Y", benchmark?: string) {
+  return useQuery<SquadStatsResponse>({
+    queryKey: ["squad", workspaceId, "stats", period, benchmark],
+    queryFn: async () => {
+      const params = new URLSearchParams({ period });
+      if (benchmark) params.append("benchmark", benchmark);
+
+      const res = await fetch(`/api/workspaces/${workspaceId}/stats?${params}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch squad stats" }));
+        throw new Error(error.error || "Failed to fetch squad stats");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSquadAllocation(workspaceId: string | null | undefined) {
+  return useQuery<SquadAllocationResponse>({
+    queryKey: ["squad", workspaceId, "allocation"],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/allocation`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch squad allocation" }));
+        throw new Error(error.error || "Failed to fetch squad allocation");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSquadOverlap(workspaceId: string | null | undefined, period: string = "3M") {
+  return useQuery<SquadOverlapResponse>({
+    queryKey: ["squad", workspaceId, "overlap", period],
+    queryFn: async () => {
+      const params = new URLSearchParams({ period });
+
+      const res = await fetch(`/api/workspaces/${workspaceId}/overlap?${params}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch squad overlap" }));
+        throw new Error(error.error || "Failed to fetch squad overlap");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
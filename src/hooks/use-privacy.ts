@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import type { PrivacySettings } from "@/lib/privacy";
+import type {
+  PrivacyPreview,
+  UpdatePrivacyOverrideInput,
+  WorkspacePrivacy,
+} from "@/lib/validations/workspace";
+
+// ===== WORKSPACE OVERRIDES =====
+
+export function useWorkspacePrivacy(workspaceId: string | null | undefined) {
+  return useQuery<WorkspacePrivacy>({
+    queryKey: ["workspace", workspaceId, "privacy"],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspace/${workspaceId}/privacy`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch privacy settings" }));
+        throw new Error(error.error || "Failed to fetch privacy settings");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+  });
+}
+
+export function useUpdateWorkspacePrivacy(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<WorkspacePrivacy, Error, UpdatePrivacyOverrideInput>({
+    mutationFn: async (input) => {
+      const res = await fetch(`/api/workspace/${workspaceId}/privacy`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to save privacy settings" }));
+        throw new Error(error.error || "Failed to save privacy settings");
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["workspace", workspaceId, "privacy"], data);
+      queryClient.invalidateQueries({ queryKey: ["workspace", workspaceId, "privacy-preview"] });
+      queryClient.invalidateQueries({ queryKey: ["squad", workspaceId] });
+      queryClient.invalidateQueries({ queryKey: ["activity", workspaceId] });
+    },
+  });
+}
+
+// ===== PRIVACY PREVIEW =====
+
+/**
+ * What other members of a workspace see about the current user
+ * Pass draft settings to preview unsaved changes; the previous preview stays visible while refetching
+ */
+export function usePrivacyPreview(
+  workspaceId: string | null | undefined,
+  draft?: Partial<PrivacySettings> | null
+) {
+  return useQuery<PrivacyPreview>({
+    queryKey: ["workspace", workspaceId, "privacy-preview", draft ?? null],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      for (const [field, value] of Object.entries(draft ?? {})) {
+        if (value) params.set(field, value);
+      }
+
+      const res = await fetch(`/api/workspace/${workspaceId}/privacy-preview?${params}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to load preview" }));
+        throw new Error(error.error || "Failed to load preview");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+}
@@ -0,0 +1,191 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  CreateTradeIdeaRequest,
+  UpdateTradeIdeaRequest,
+  TradeIdeaQuery,
+  TradeIdeaResponse,
+  TradeIdeasResponse,
+  LikeIdeaResponse,
+  IdeaCommentResponse,
+  IdeaHitRatesResponse,
+} from "@/lib/validations/ideas";
+
+// ===== TRADE IDEAS =====
+
+export function useTradeIdeas(
+  workspaceId: string | null | undefined,
+  query: Partial<TradeIdeaQuery> = {}
+) {
+  return useQuery<TradeIdeasResponse>({
+    queryKey: ["ideas", workspaceId, query],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (query.status) params.append("status", query.status);
+      if (query.sort) params.append("sort", query.sort);
+      if (query.symbol) params.append("symbol", query.symbol);
+      if (query.authorId) params.append("authorId", query.authorId);
+      if (query.limit) params.append("limit", query.limit.toString());
+      if (query.offset) params.append("offset", query.offset.toString());
+
+      const res = await fetch(`/api/workspaces/${workspaceId}/ideas?${params}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch trade ideas" }));
+        throw new Error(error.error || "Failed to fetch trade ideas");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useTradeIdea(workspaceId: string | null | undefined, ideaId: string | null | undefined) {
+  return useQuery<TradeIdeaResponse>({
+    queryKey: ["ideas", workspaceId, "detail", ideaId],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/ideas/${ideaId}`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch trade idea" }));
+        throw new Error(error.error || "Failed to fetch trade idea");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId && !!ideaId,
+  });
+}
+
+export function useIdeaHitRates(workspaceId: string | null | undefined) {
+  return useQuery<IdeaHitRatesResponse>({
+    queryKey: ["ideas", workspaceId, "hit-rates"],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/ideas/hit-rates`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch hit rates" }));
+        throw new Error(error.error || "Failed to fetch hit rates");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+    staleTime: 5 * 60 * 1000, // Changes when the evaluator closes ideas
+  });
+}
+
+// ===== MUTATIONS =====
+
+export function useCreateTradeIdea(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<TradeIdeaResponse, Error, CreateTradeIdeaRequest>({
+    mutationFn: async (data) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/ideas`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to post idea" }));
+        throw new Error(error.error || "Failed to post idea");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ideas", workspaceId] });
+      // Sharing an idea posts to the activity feed
+      queryClient.invalidateQueries({ queryKey: ["activity", workspaceId] });
+    },
+  });
+}
+
+export function useUpdateTradeIdea(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<TradeIdeaResponse, Error, { ideaId: string } & UpdateTradeIdeaRequest>({
+    mutationFn: async ({ ideaId, ...data }) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/ideas/${ideaId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to update idea" }));
+        throw new Error(error.error || "Failed to update idea");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ideas", workspaceId] });
+    },
+  });
+}
+
+export function useDeleteTradeIdea(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean }, Error, string>({
+    mutationFn: async (ideaId) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/ideas/${ideaId}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to delete idea" }));
+        throw new Error(error.error || "Failed to delete idea");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ideas", workspaceId] });
+    },
+  });
+}
+
+export function useLikeTradeIdea(workspaceId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LikeIdeaResponse, Error, string>({
+    mutationFn: async (ideaId) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/ideas/${ideaId}/like`, {
+        method: "POST",
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to like idea" }));
+        throw new Error(error.error || "Failed to like idea");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ideas", workspaceId] });
+    },
+  });
+}
+
+export function useCommentOnTradeIdea(workspaceId: string | null | undefined, ideaId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation<IdeaCommentResponse, Error, string>({
+    mutationFn: async (content) => {
+      const res = await fetch(`/api/workspaces/${workspaceId}/ideas/${ideaId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to post comment" }));
+        throw new Error(error.error || "Failed to post comment");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ideas", workspaceId] });
+    },
+  });
+}
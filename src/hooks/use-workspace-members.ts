@@ -0,0 +1,136 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  WorkspaceMembersResponse,
+  WorkspaceBan,
+} from "@/lib/validations/workspace";
+
+// ===== MEMBERS LIST =====
+
+export function useWorkspaceMembers(workspaceId: string | null | undefined) {
+  return useQuery<WorkspaceMembersResponse>({
+    queryKey: ["workspace", workspaceId, "members"],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspace/${workspaceId}/members`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch members" }));
+        throw new Error(error.error || "Failed to fetch members");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useWorkspaceBans(workspaceId: string | null | undefined, enabled = true) {
+  return useQuery<{ bans: WorkspaceBan[] }>({
+    queryKey: ["workspace", workspaceId, "bans"],
+    queryFn: async () => {
+      const res = await fetch(`/api/workspace/${workspaceId}/members/bans`);
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ error: "Failed to fetch bans" }));
+        throw new Error(error.error || "Failed to fetch bans");
+      }
+      return res.json();
+    },
+    enabled: !!workspaceId && enabled,
+  });
+}
+
+// ===== MEMBER MUTATIONS =====
+
+async function memberRequest(url: string, init: RequestInit, fallbackError: string) {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({ error: fallbackError }));
+    throw new Error(error.error || fallbackError);
+  }
+
+  return res.json();
+}
+
+export function useUpdateMemberRole(workspaceId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: "ADMIN" | "MEMBER" }) =>
+      memberRequest(
+        `/api/workspace/${workspaceId}/members/${userId}`,
+        { method: "PATCH", body: JSON.stringify({ role }) },
+        "Failed to update role"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["workspace", workspaceId, "members"] });
+    },
+  });
+}
+
+export function useRemoveMember(workspaceId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, ban }: { userId: string; ban?: boolean }) =>
+      memberRequest(
+        `/api/workspace/${workspaceId}/members/${userId}${ban ? "?ban=true" : ""}`,
+        { method: "DELETE" },
+        "Failed to remove member"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["workspace", workspaceId] });
+      queryClient.invalidateQueries({ queryKey: ["squad", workspaceId] });
+    },
+  });
+}
+
+export function useUnbanUser(workspaceId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) =>
+      memberRequest(
+        `/api/workspace/${workspaceId}/members/bans/${userId}`,
+        { method: "DELETE" },
+        "Failed to lift ban"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["workspace", workspaceId, "bans"] });
+    },
+  });
+}
+
+export function useTransferOwnership(workspaceId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) =>
+      memberRequest(
+        `/api/workspace/${workspaceId}/members/transfer`,
+        { method: "POST", body: JSON.stringify({ userId }) },
+        "Failed to transfer ownership"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["workspace", workspaceId, "members"] });
+    },
+  });
+}
+
+export function useLeaveWorkspace() {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ success: boolean; workspaceDeleted: boolean }, Error, string>({
+    mutationFn: (workspaceId: string) =>
+      memberRequest(
+        `/api/workspace/${workspaceId}/members/leave`,
+        { method: "POST" },
+        "Failed to leave workspace"
+      ),
+    onSuccess: (_data, workspaceId) => {
+      queryClient.removeQueries({ queryKey: ["workspace", workspaceId] });
+      queryClient.removeQueries({ queryKey: ["squad", workspaceId] });
+    },
+  });
+}
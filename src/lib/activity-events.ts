@@ -0,0 +1,109 @@
+/**
+ * Activity Events
+ * Ordered log of changes to workspace activity feeds, read by the live activity stream
+ *
+ * - Whatever changes a feed records an event: an activity was created, an activity's
+ *   reactions changed (added or removed), or a comment was added
+ * - Events carry ids only; the stream loads the current state and redacts it for each
+ *   viewer, so privacy is applied exactly as in the feed itself
+ * - Event ids only increase, so a reconnecting client resumes after the last id it saw.
+ *   Recent events are re-read on every poll, since ids are assigned before commit and a
+ *   lower id can become visible after a higher one
+ * - Events older than EVENT_RETENTION_DAYS are pruned by a daily cron; a client that was
+ *   away longer is told to refetch its feed
+ */
+
+import { prisma } from "./prisma";
+
+export const ACTIVITY_EVENT_TYPES = ["activity-created", "reaction-changed", "comment-added"] as const;
+
+export type ActivityEventType = (typeof ACTIVITY_EVENT_TYPES)[number];
+
+export const EVENT_RETENTION_DAYS = 7;
+
+// How far back each poll re-reads for events that committed late
+export const EVENT_LOOKBACK_MS = 5 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ActivityEventInput {
+  workspaceId: string;
+  activityId: string;
+  type: ActivityEventType;
+  commentId?: string;
+}
+
+/**
+ * Log a feed change for live clients
+ * A failure is logged rather than thrown: the change itself has already been saved
+ */
+export async function recordActivityEvent(event: ActivityEventInput): Promise<void> {
+  try {
+    await prisma.activityEvent.create({ data: event });
+  } catch (error) {
+    console.error(`[ActivityEvents] Failed to record ${event.type} for ${event.activityId}:`, error);
+  }
+}
+
+/**
+ * The newest event id, where a fresh stream starts
+ */
+export async function getLatestEventId(): Promise<number> {
+  const latest = await prisma.activityEvent.findFirst({
+    orderBy: { id: "desc" },
+    select: { id: true },
+  });
+  return latest?.id ?? 0;
+}
+
+/**
+ * Whether events after `afterId` may have been pruned, so resuming from it would miss some
+ */
+export async function isEventCursorExpired(afterId: number): Promise<boolean> {
+  const oldest = await prisma.activityEvent.findFirst({
+    orderBy: { id: "asc" },
+    select: { id: true },
+  });
+  return oldest !== null && oldest.id > afterId + 1;
+}
+
+/**
+ * A workspace's events after `afterId`, plus recent ones not yet in `sent`, oldest first
+ * Delivered ids are added to `sent`; ids older than the lookback are pruned from it
+ */
+export async function getActivityEventsSince(
+  workspaceId: string,
+  afterId: number,
+  sent: Map<number, number>,
+  now: Date = new Date()
+) {
+  const lookbackStart = now.getTime() - EVENT_LOOKBACK_MS;
+  const events = await prisma.activityEvent.findMany({
+    where: {
+      workspaceId,
+      OR: [{ id: { gt: afterId } }, { createdAt: { gte: new Date(lookbackStart) } }],
+    },
+    orderBy: { id: "asc" },
+    take: 200,
+  });
+
+  for (const [id, sentAt] of sent) {
+    if (sentAt < lookbackStart) sent.delete(id);
+  }
+
+  return events.filter((event) => {
+    if (sent.has(event.id)) return false;
+    sent.set(event.id, now.getTime());
+    return true;
+  });
+}
+
+/**
+ * Delete events past the retention window
+ */
+export async function pruneActivityEvents(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.activityEvent.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - EVENT_RETENTION_DAYS * DAY_MS) } },
+  });
+  return count;
+}
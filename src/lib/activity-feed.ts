@@ -0,0 +1,109 @@
+/**
+ * Activity Feed
+ * Shapes workspace activities for one viewer, shared by the feed route and the live stream
+ *
+ * - Activities are redacted with their author's current privacy settings (former members
+ *   fall back to the defaults); a viewer's own activity is never redacted for them
+ * - Activities hidden by privacy, still inside the author's activity delay, or not
+ *   workspace-visible come back as null
+ * - Authors, reactors and commenters in anonymous mode are shown by their pseudonym
+ */
+
+import type { Prisma } from "@prisma/client";
+import { aggregateReactionCounts, getUserReactions } from "./activity-utils";
+import { DEFAULT_PRIVACY, redactActivity, redactIdentity, type ResolvedPrivacy } from "./privacy";
+import type { ActivityComment, ActivityReaction, WorkspaceActivity } from "./validations/activity";
+
+export const activityFeedInclude = {
+  user: { select: { id: true, name: true, image: true } },
+  reactions: {
+    include: { user: { select: { id: true, name: true } } },
+  },
+  comments: {
+    include: { user: { select: { id: true, name: true, image: true } } },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.WorkspaceActivityInclude;
+
+export type FeedActivityRecord = Prisma.WorkspaceActivityGetPayload<{ include: typeof activityFeedInclude }>;
+
+type ReactionRecord = FeedActivityRecord["reactions"][number];
+type CommentRecord = FeedActivityRecord["comments"][number];
+
+export interface FeedContext {
+  workspaceId: string;
+  viewerId: string;
+  privacyByUser: Map<string, ResolvedPrivacy>;
+  now: Date;
+}
+
+/**
+ * An activity as the viewer sees it, or null if they can't see it (yet)
+ */
+export function formatFeedActivity(activity: FeedActivityRecord, context: FeedContext): WorkspaceActivity | null {
+  if (activity.visibility !== "workspace") return null;
+
+  const visible =
+    activity.userId === context.viewerId
+      ? activity
+      : redactActivity(activity, context.privacyByUser.get(activity.userId) ?? DEFAULT_PRIVACY, context.now);
+  if (!visible) return null;
+
+  const author = identityOf(visible.user, context);
+
+  return {
+    id: visible.id,
+    workspaceId: visible.workspaceId,
+    userId: author.userId,
+    userName: author.name,
+    userImage: author.image,
+    type: visible.type,
+    symbol: visible.symbol,
+    quantity: visible.quantity,
+    price: visible.price,
+    value: visible.value,
+    message: visible.message,
+    metadata: visible.metadata as WorkspaceActivity["metadata"],
+    visibility: visible.visibility,
+    reactions: formatReactions(visible.reactions, context),
+    comments: visible.comments.map((comment) => formatComment(comment, context)),
+    reactionCounts: aggregateReactionCounts(visible.reactions),
+    hasUserReacted: getUserReactions(visible.reactions, context.viewerId),
+    createdAt: visible.createdAt,
+    updatedAt: visible.updatedAt,
+  };
+}
+
+export function formatReactions(reactions: ReactionRecord[], context: FeedContext): ActivityReaction[] {
+  return reactions.map((reaction) => {
+    const reactor = identityOf(reaction.user, context);
+    return {
+      id: reaction.id,
+      activityId: reaction.activityId,
+      userId: reactor.userId,
+      userName: reactor.name,
+      emoji: reaction.emoji,
+      createdAt: reaction.createdAt,
+    };
+  });
+}
+
+export function formatComment(comment: CommentRecord, context: FeedContext): ActivityComment {
+  const commenter = identityOf(comment.user, context);
+  return {
+    id: comment.id,
+    activityId: comment.activityId,
+    userId: commenter.userId,
+    userName: commenter.name,
+    userImage: commenter.image,
+    content: comment.content,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt,
+  };
+}
+
+// ===== INTERNALS =====
+
+function identityOf(user: { id: string; name: string | null; image?: string | null }, context: FeedContext) {
+  return redactIdentity({ userId: user.id, ...user }, context.privacyByUser.get(user.id), context);
+}
@@ -3,7 +3,11 @@
  * Auto-generates workspace activities from transactions and portfolio changes
  */
 
+import type { Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
+import { recordActivityEvent } from "./activity-events";
+import { notifyIdeaPosted } from "./notifications";
+import { getActivityPrivacyLevel, resolvePrivacy } from "./privacy";
 import type { ActivityType } from "./validations/activity";
 
 interface TransactionData {
@@ -14,11 +18,13 @@ interface TransactionData {
   price?: number;
   amount: number;
   transactionDate: Date;
+  dedupeKey?: string; // Stable key so re-running a sync never duplicates the activity
 }
 
 interface PositionChange {
   userId: string;
   symbol: string;
+  dedupeKey?: string; // Stable key so re-running a sync never duplicates the activity
   previousQuantity: number | null;
   newQuantity: number;
   averageCost: number;
@@ -32,6 +38,7 @@ interface PositionChange {
 interface MilestoneData {
   userId: string;
   type: "ATH" | "VALUE" | "RETURN";
+  dedupeKey?: string;
   previousValue?: number;
   newValue: number;
   gain?: number;
@@ -67,27 +74,22 @@ export async function generateActivityFromTransaction(
 
   if (!activityType) return;
 
-  // Get user's privacy settings
-  const user = await prisma.user.findUnique({
-    where: { id: transaction.userId },
-    select: { privacyDefaults: true },
-  });
+  // Create activity in each workspace, respecting the user's privacy there
+  for (const workspaceId of workspaceIds) {
+    try {
+      const privacyLevel = getActivityPrivacyLevel(
+        activityType,
+        await resolvePrivacy(transaction.userId, workspaceId)
+      );
 
-  const privacySettings = user?.privacyDefaults as any || {};
-  const privacyLevel =
-    privacySettings.activity === "full"
-      ? "full"
-      : privacySettings.activity === "without_amounts"
-      ? "partial"
-      : "hidden";
+      // Don't create activity if user has hidden activity
+      if (privacyLevel === "hidden") continue;
 
-  // Don't create activity if user has hidden activity
-  if (privacyLevel === "hidden") return;
+      if (transaction.dedupeKey && (await activityExists(workspaceId, transaction.userId, transaction.dedupeKey))) {
+        continue;
+      }
 
-  // Create activity in each workspace
-  for (const workspaceId of workspaceIds) {
-    try {
-      await prisma.workspaceActivity.create({
+      await createActivity({
         data: {
           workspaceId,
           userId: transaction.userId,
@@ -99,6 +101,7 @@ export async function generateActivityFromTransaction(
           metadata: {
             privacyLevel,
             transactionDate: transaction.transactionDate.toISOString(),
+            dedupeKey: transaction.dedupeKey,
           },
           visibility: "workspace",
         },
@@ -141,44 +144,40 @@ export async function generateActivityFromPositionChange(
 
   if (!activityType) return;
 
-  // Get user's privacy settings
-  const user = await prisma.user.findUnique({
-    where: { id: change.userId },
-    select: { privacyDefaults: true },
-  });
+  // Create activity in each workspace, respecting the user's privacy there
+  for (const workspaceId of workspaceIds) {
+    try {
+      const privacyLevel = getActivityPrivacyLevel(
+        activityType,
+        await resolvePrivacy(change.userId, workspaceId)
+      );
 
-  const privacySettings = user?.privacyDefaults as any || {};
-  const privacyLevel =
-    privacySettings.positions === "full"
-      ? "full"
-      : privacySettings.positions === "tickers_only"
-      ? "partial"
-      : "hidden";
+      if (privacyLevel === "hidden") continue;
 
-  if (privacyLevel === "hidden") return;
+      if (change.dedupeKey && (await activityExists(workspaceId, change.userId, change.dedupeKey))) {
+        continue;
+      }
 
-  // Calculate metadata
-  const metadata: any = {
-    privacyLevel,
-    isFirstTime: isNewPosition,
-  };
+      // Calculate metadata
+      const metadata: any = {
+        privacyLevel,
+        isFirstTime: isNewPosition,
+        dedupeKey: change.dedupeKey,
+      };
 
-  if (privacyLevel === "full") {
-    metadata.previousQuantity = change.previousQuantity;
-    metadata.newQuantity = change.newQuantity;
-    metadata.averageCost = change.averageCost;
-    metadata.portfolioPercentage = change.portfolioPercentage;
+      if (privacyLevel === "full") {
+        metadata.previousQuantity = change.previousQuantity;
+        metadata.newQuantity = change.newQuantity;
+        metadata.averageCost = change.averageCost;
+        metadata.portfolioPercentage = change.portfolioPercentage;
 
-    if (isClosed && change.unrealizedPL !== undefined) {
-      metadata.gainLoss = change.unrealizedPL;
-      metadata.gainLossPercent = change.unrealizedPLPercent;
-    }
-  }
+        if (isClosed && change.unrealizedPL !== undefined) {
+          metadata.gainLoss = change.unrealizedPL;
+          metadata.gainLossPercent = change.unrealizedPLPercent;
+        }
+      }
 
-  // Create activity in each workspace
-  for (const workspaceId of workspaceIds) {
-    try {
-      await prisma.workspaceActivity.create({
+      await createActivity({
         data: {
           workspaceId,
           userId: change.userId,
@@ -219,21 +218,9 @@ export async function generateActivityFromMilestone(
     activityType = "MILESTONE_RETURN";
   }
 
-  // Get user's privacy settings
-  const user = await prisma.user.findUnique({
-    where: { id: milestone.userId },
-    select: { privacyDefaults: true },
-  });
-
-  const privacySettings = user?.privacyDefaults as any || {};
-  const privacyLevel =
-    privacySettings.performance === "visible" ? "full" : "hidden";
-
-  // Milestones are generally public, but respect performance privacy
-  if (privacyLevel === "hidden" && milestone.type !== "ATH") return;
-
   const metadata: any = {
     milestoneType: milestone.type,
+    dedupeKey: milestone.dedupeKey,
   };
 
   if (milestone.previousValue !== undefined) {
@@ -248,16 +235,29 @@ export async function generateActivityFromMilestone(
     metadata.gainPercent = milestone.gainPercent;
   }
 
-  // Create activity in each workspace
+  // Create activity in each workspace, respecting the user's privacy there
   for (const workspaceId of workspaceIds) {
     try {
-      await prisma.workspaceActivity.create({
+      // Milestones are generally public, but respect performance privacy (new ATHs are
+      // still announced, without the amount)
+      const privacyLevel = getActivityPrivacyLevel(
+        activityType,
+        await resolvePrivacy(milestone.userId, workspaceId)
+      );
+
+      if (privacyLevel === "hidden") continue;
+
+      if (milestone.dedupeKey && (await activityExists(workspaceId, milestone.userId, milestone.dedupeKey))) {
+        continue;
+      }
+
+      await createActivity({
         data: {
           workspaceId,
           userId: milestone.userId,
           type: activityType,
           value: milestone.newValue,
-          metadata,
+          metadata: { ...metadata, privacyLevel },
           visibility: "workspace",
         },
       });
@@ -270,6 +270,75 @@ export async function generateActivityFromMilestone(
   }
 }
 
+interface IdeaEvent {
+  userId: string;
+  workspaceId: string;
+  ideaId: string;
+  symbol: string;
+  direction: string;
+  price: number | null; // Entry when shared, close when it played out
+  outcome?: "target_hit" | "stopped_out" | "expired";
+  returnPercent?: number | null;
+}
+
+const IDEA_OUTCOME_LABELS = {
+  target_hit: "hit its target",
+  stopped_out: "was stopped out",
+  expired: "expired",
+} as const;
+
+/**
+ * Generate activity when a trade idea is shared or plays out
+ * Ideas are posted to the squad on purpose, so they aren't subject to activity privacy.
+ * Members are also notified of newly shared ideas.
+ */
+export async function generateActivityFromIdea(event: IdeaEvent): Promise<void> {
+  const activityType: ActivityType = event.outcome ? "IDEA_OUTCOME" : "IDEA_SHARED";
+  const dedupeKey = `idea:${event.ideaId}:${event.outcome ?? "shared"}`;
+
+  try {
+    if (await activityExists(event.workspaceId, event.userId, dedupeKey)) return;
+
+    await createActivity({
+      data: {
+        workspaceId: event.workspaceId,
+        userId: event.userId,
+        type: activityType,
+        symbol: event.symbol,
+        price: event.price,
+        metadata: {
+          dedupeKey,
+          ideaId: event.ideaId,
+          direction: event.direction,
+          ...(event.outcome
+            ? {
+                outcome: IDEA_OUTCOME_LABELS[event.outcome],
+                status: event.outcome,
+                returnPercent: event.returnPercent ?? null,
+              }
+            : {}),
+        },
+        visibility: "workspace",
+      },
+    });
+
+    if (!event.outcome) {
+      await notifyIdeaPosted({
+        workspaceId: event.workspaceId,
+        actorId: event.userId,
+        ideaId: event.ideaId,
+        symbol: event.symbol,
+        direction: event.direction,
+      });
+    }
+  } catch (error) {
+    console.error(
+      `Failed to create idea activity for workspace ${event.workspaceId}:`,
+      error
+    );
+  }
+}
+
 /**
  * Get all workspaces a user is a member of
  */
@@ -282,6 +351,114 @@ export async function getUserWorkspaces(userId: string): Promise<string[]> {
   return memberships.map((m) => m.workspaceId);
 }
 
+/**
+ * Create an activity and tell live feeds about it
+ */
+async function createActivity(args: Prisma.WorkspaceActivityCreateArgs): Promise<void> {
+  const activity = await prisma.workspaceActivity.create(args);
+  await recordActivityEvent({
+    workspaceId: activity.workspaceId,
+    activityId: activity.id,
+    type: "activity-created",
+  });
+}
+
+/**
+ * Check whether an activity with this dedupe key was already generated
+ */
+async function activityExists(
+  workspaceId: string,
+  userId: string,
+  dedupeKey: string
+): Promise<boolean> {
+  const existing = await prisma.workspaceActivity.findFirst({
+    where: {
+      workspaceId,
+      userId,
+      metadata: { path: ["dedupeKey"], equals: dedupeKey },
+    },
+    select: { id: true },
+  });
+
+  return !!existing;
+}
+
+/**
+ * Diff an account's positions before and after a sync into position changes
+ * Symbols missing from `current` are treated as closed
+ */
+export function diffPositions(
+  userId: string,
+  accountId: string,
+  previous: Array<{
+    symbol: string;
+    quantity: number;
+    averageCost: number;
+    currentPrice: number;
+    unrealizedPL: number | null;
+    unrealizedPLPercent: number | null;
+    lastSyncedAt: Date;
+  }>,
+  current: Array<{
+    symbol: string;
+    quantity: number;
+    averageCost: number;
+    currentPrice: number;
+    marketValue: number;
+    unrealizedPL: number;
+    unrealizedPLPercent: number;
+  }>,
+  accountValue: number
+): PositionChange[] {
+  const changes: PositionChange[] = [];
+  const previousBySymbol = new Map(previous.map((p) => [p.symbol, p]));
+  const currentSymbols = new Set(current.map((p) => p.symbol));
+  const today = new Date().toISOString().split("T")[0];
+
+  for (const pos of current) {
+    const prev = previousBySymbol.get(pos.symbol);
+    if (prev && prev.quantity === pos.quantity) continue;
+
+    changes.push({
+      userId,
+      symbol: pos.symbol,
+      // Keyed on the previous state, so concurrent syncs diffing the same
+      // snapshot produce the same key
+      dedupeKey: `position:${accountId}:${pos.symbol}:${
+        prev ? prev.lastSyncedAt.toISOString() : today
+      }:${pos.quantity}`,
+      previousQuantity: prev?.quantity ?? null,
+      newQuantity: pos.quantity,
+      averageCost: pos.averageCost,
+      currentPrice: pos.currentPrice,
+      marketValue: pos.marketValue,
+      unrealizedPL: pos.unrealizedPL,
+      unrealizedPLPercent: pos.unrealizedPLPercent,
+      portfolioPercentage: accountValue > 0 ? (pos.marketValue / accountValue) * 100 : undefined,
+    });
+  }
+
+  for (const prev of previous) {
+    if (currentSymbols.has(prev.symbol)) continue;
+
+    changes.push({
+      userId,
+      symbol: prev.symbol,
+      dedupeKey: `position:${accountId}:${prev.symbol}:${prev.lastSyncedAt.toISOString()}:0`,
+      previousQuantity: prev.quantity,
+      newQuantity: 0,
+      averageCost: prev.averageCost,
+      currentPrice: prev.currentPrice,
+      marketValue: 0,
+      // Last known open P&L is the best estimate of the realized gain
+      unrealizedPL: prev.unrealizedPL ?? undefined,
+      unrealizedPLPercent: prev.unrealizedPLPercent ?? undefined,
+    });
+  }
+
+  return changes;
+}
+
 /**
  * Check for portfolio milestones
  */
@@ -291,13 +468,15 @@ export async function checkForMilestones(
   previousValue: number
 ): Promise<MilestoneData[]> {
   const milestones: MilestoneData[] = [];
+  const today = new Date().toISOString().split("T")[0];
 
-  // Check for ATH
+  // Check for ATH (skip when there is no history to beat yet)
   const previousHigh = await getPreviousPortfolioHigh(userId);
-  if (currentValue > previousHigh) {
+  if (previousHigh > 0 && currentValue > previousHigh) {
     milestones.push({
       userId,
       type: "ATH",
+      dedupeKey: `milestone:ATH:${today}`,
       previousValue: previousHigh,
       newValue: currentValue,
       gain: currentValue - previousHigh,
@@ -312,6 +491,7 @@ export async function checkForMilestones(
       milestones.push({
         userId,
         type: "VALUE",
+        dedupeKey: `milestone:VALUE:${milestone}`,
         newValue: currentValue,
       });
     }
@@ -321,12 +501,16 @@ export async function checkForMilestones(
 }
 
 /**
- * Get previous portfolio high
+ * Get previous portfolio high (excluding today's snapshots)
+ * Snapshots are per account, so each day's are summed to compare with the total portfolio value
  */
 async function getPreviousPortfolioHigh(userId: string): Promise<number> {
-  // Get the highest portfolio value from snapshots
-  const highestSnapshot = await prisma.portfolioSnapshot.findFirst({
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const snapshots = await prisma.portfolioSnapshot.findMany({
     where: {
+      snapshotDate: { lt: startOfToday },
       account: {
         connection: {
           snaptradeUser: {
@@ -335,10 +519,15 @@ async function getPreviousPortfolioHigh(userId: string): Promise<number> {
         },
       },
     },
-    orderBy: {
-      totalValue: "desc",
-    },
+    select: { snapshotDate: true, totalValue: true },
   });
 
-  return highestSnapshot?.totalValue || 0;
+  // One snapshot per account per day, taken at different times
+  const totalsByDate = new Map<string, number>();
+  for (const snap of snapshots) {
+    const dateKey = snap.snapshotDate.toISOString().split("T")[0];
+    totalsByDate.set(dateKey, (totalsByDate.get(dateKey) || 0) + snap.totalValue);
+  }
+
+  return Math.max(0, ...totalsByDate.values());
 }
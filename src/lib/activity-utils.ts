@@ -1,9 +1,9 @@
 import type { ActivityType, TradeMetadata, MilestoneMetadata, PositionMetadata } from "./validations/activity";
-import type { PrivacySettings } from "./privacy-utils";
-import { canShowActivity, canShowActivityAmounts } from "./privacy-utils";
+import type { PrivacyLevel } from "./privacy";
 
 /**
- * Format activity message based on type and privacy settings
+ * Format activity message based on type and the activity's privacy level
+ * (activities are redacted server-side; "partial" means amounts were removed)
  */
 export function formatActivityMessage(
   type: ActivityType,
@@ -12,10 +12,10 @@ export function formatActivityMessage(
   price: number | null,
   value: number | null,
   metadata: any,
-  privacySettings: PrivacySettings,
+  privacyLevel: PrivacyLevel,
   userName: string
 ): string {
-  const showAmounts = canShowActivityAmounts(privacySettings);
+  const showAmounts = privacyLevel === "full";
   const qty = quantity ? Math.abs(quantity) : 0;
   const sym = symbol || "unknown";
 
@@ -78,6 +78,9 @@ export function formatActivityMessage(
       const achievementName = metadata?.achievement || "an achievement";
       return `unlocked ${achievementName}!`;
 
+    case "POLICY_UPDATED":
+      return `updated the workspace privacy policy`;
+
     default:
       return "updated their portfolio";
   }
@@ -132,6 +135,9 @@ export function getActivityIcon(type: ActivityType): string {
     case "ACHIEVEMENT":
       return "🎉";
     
+    case "POLICY_UPDATED":
+      return "🔒";
+    
     default:
       return "📈";
   }
@@ -167,6 +173,9 @@ export function getActivityColor(type: ActivityType): string {
     case "WATCHLIST_ADD":
       return "text-blue-400 bg-blue-500/10 border-blue-500/30";
     
+    case "POLICY_UPDATED":
+      return "text-orange-400 bg-orange-500/10 border-orange-500/30";
+    
     default:
       return "text-slate-400 bg-slate-500/10 border-slate-500/30";
   }
@@ -207,24 +216,25 @@ export function formatFullTimestamp(date: Date): string {
 }
 
 /**
- * Check if activity should be shown based on privacy settings
+ * Check if activity should be shown based on its privacy level
  */
 export function shouldShowActivity(
   activityType: ActivityType,
-  privacySettings: PrivacySettings
+  privacyLevel: PrivacyLevel
 ): boolean {
-  // Always show milestones and achievements
+  // Always show milestones, achievements and workspace announcements
   if (
     activityType === "MILESTONE_ATH" ||
     activityType === "MILESTONE_VALUE" ||
     activityType === "MILESTONE_RETURN" ||
-    activityType === "ACHIEVEMENT"
+    activityType === "ACHIEVEMENT" ||
+    activityType === "POLICY_UPDATED"
   ) {
     return true;
   }
 
   // Check if user allows activity visibility
-  return canShowActivity(privacySettings);
+  return privacyLevel !== "hidden";
 }
 
 /**
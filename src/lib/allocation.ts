@@ -0,0 +1,173 @@
+/**
+ * Allocation
+ * Sector, asset class and geography breakdowns of a portfolio's holdings
+ *
+ * - Holdings are weighted by market value; short or worthless positions are left out
+ * - Classifications come from security-classification.ts; sectors carry their industries
+ *   so the treemap can drill one level down
+ * - Members sharing tickers_only get percentages without dollar values
+ * - The squad breakdown is equal-weighted across members, from percentages only, so a
+ *   large portfolio doesn't drown out everyone else and no member's values are needed
+ */
+
+import { UNCLASSIFIED, type SecurityClassification } from "./security-classification";
+import type { PrivacySettings } from "./privacy";
+import type { Allocation, AllocationDimension, AllocationSlice } from "./validations/portfolio";
+
+export const ALLOCATION_DIMENSIONS: AllocationDimension[] = ["sector", "assetClass", "country"];
+
+const UNKNOWN_COUNTRY = "Unknown";
+const OTHER_INDUSTRY = "Other";
+
+export interface AllocationHolding {
+  symbol: string;
+  securityType?: string | null;
+  marketValue: number;
+}
+
+/**
+ * Break holdings down by sector (with industries), asset class and country
+ */
+export function buildAllocation(
+  holdings: AllocationHolding[],
+  classifications: Map<string, SecurityClassification>
+): Allocation {
+  // One entry per symbol, so the same stock held in two accounts counts as one position
+  const valueBySymbol = new Map<string, number>();
+  for (const holding of holdings) {
+    if (!isFinite(holding.marketValue) || holding.marketValue <= 0) continue;
+    const symbol = holding.symbol.toUpperCase();
+    valueBySymbol.set(symbol, (valueBySymbol.get(symbol) ?? 0) + holding.marketValue);
+  }
+
+  const totalValue = [...valueBySymbol.values()].reduce((sum, value) => sum + value, 0);
+  const entries = [...valueBySymbol.entries()].map(([symbol, value]) => {
+    const classification = classifications.get(symbol);
+    return {
+      value,
+      sector: classification?.sector ?? UNCLASSIFIED,
+      industry: classification?.industry ?? OTHER_INDUSTRY,
+      assetClass: classification?.assetClass ?? "Other",
+      country: classification?.country ?? UNKNOWN_COUNTRY,
+    };
+  });
+
+  const sector = groupBy(entries, (entry) => entry.sector, totalValue).map((slice) => ({
+    ...slice,
+    children: groupBy(
+      entries.filter((entry) => entry.sector === slice.label),
+      (entry) => entry.industry,
+      totalValue
+    ),
+  }));
+
+  return {
+    totalValue,
+    positions: valueBySymbol.size,
+    sector,
+    assetClass: groupBy(entries, (entry) => entry.assetClass, totalValue),
+    country: groupBy(entries, (entry) => entry.country, totalValue),
+  };
+}
+
+/**
+ * Apply a member's positions privacy: full shows everything, tickers_only keeps the
+ * percentages but drops dollar values, hidden shows nothing
+ */
+export function redactAllocation(allocation: Allocation, privacy: PrivacySettings): Allocation | null {
+  switch (privacy.positions) {
+    case "full":
+      return allocation;
+
+    case "tickers_only":
+      return {
+        ...allocation,
+        totalValue: null,
+        sector: allocation.sector.map((slice) => ({
+          ...withoutValue(slice),
+          children: slice.children?.map(withoutValue),
+        })),
+        assetClass: allocation.assetClass.map(withoutValue),
+        country: allocation.country.map(withoutValue),
+      };
+
+    case "hidden":
+      return null;
+  }
+}
+
+/**
+ * Equal-weighted average of several allocations, from percentages only
+ * Empty portfolios are skipped; returns null if none hold anything
+ */
+export function averageAllocations(allocations: Allocation[]): Allocation | null {
+  const holding = allocations.filter((allocation) => allocation.positions > 0);
+  if (holding.length === 0) return null;
+
+  const average = (dimension: AllocationDimension) =>
+    averageSlices(holding.map((allocation) => allocation[dimension]), holding.length);
+
+  return {
+    totalValue: null,
+    positions: holding.reduce((sum, allocation) => sum + allocation.positions, 0),
+    sector: average("sector"),
+    assetClass: average("assetClass"),
+    country: average("country"),
+  };
+}
+
+// ===== INTERNALS =====
+
+function groupBy<T extends { value: number }>(
+  entries: T[],
+  key: (entry: T) => string,
+  totalValue: number
+): AllocationSlice[] {
+  const groups = new Map<string, { value: number; positions: number }>();
+  for (const entry of entries) {
+    const group = groups.get(key(entry)) ?? { value: 0, positions: 0 };
+    group.value += entry.value;
+    group.positions += 1;
+    groups.set(key(entry), group);
+  }
+
+  return sortSlices(
+    [...groups.entries()].map(([label, group]) => ({
+      label,
+      weight: totalValue > 0 ? (group.value / totalValue) * 100 : 0,
+      value: group.value,
+      positions: group.positions,
+    }))
+  );
+}
+
+function averageSlices(lists: AllocationSlice[][], count: number): AllocationSlice[] {
+  const byLabel = new Map<string, { weight: number; positions: number; children: AllocationSlice[][] }>();
+  for (const slices of lists) {
+    for (const slice of slices) {
+      const entry = byLabel.get(slice.label) ?? { weight: 0, positions: 0, children: [] };
+      entry.weight += slice.weight;
+      entry.positions += slice.positions;
+      if (slice.children) entry.children.push(slice.children);
+      byLabel.set(slice.label, entry);
+    }
+  }
+
+  return sortSlices(
+    [...byLabel.entries()].map(([label, entry]) => ({
+      label,
+      weight: entry.weight / count,
+      value: null,
+      positions: entry.positions,
+      ...(entry.children.length > 0 ? { children: averageSlices(entry.children, count) } : {}),
+    }))
+  );
+}
+
+function sortSlices<T extends AllocationSlice>(slices: T[]): T[] {
+  return slices.sort((a, b) => b.weight - a.weight || a.label.localeCompare(b.label));
+}
+
+function withoutValue<T extends { value: number | null }>(slice: T): T {
+  return { ...slice, value: null };
+}
@@ -2,6 +2,7 @@ import { betterAuth } from "better-auth";
 import { prismaAdapter } from "better-auth/adapters/prisma";
 import { prisma } from "./prisma";
 import { sendEmail } from "./email";
+import { handleOwnerAccountDeletion } from "./workspace-members";
 
 export const auth = betterAuth({
   secret: process.env.BETTER_AUTH_SECRET!,
@@ -24,6 +25,15 @@ export const auth = betterAuth({
       });
     },
   },
+  user: {
+    deleteUser: {
+      enabled: true,
+      // Hand off (or delete) workspaces where this user is the last OWNER
+      async beforeDelete(user) {
+        await handleOwnerAccountDeletion(user.id);
+      },
+    },
+  },
   socialProviders: {
     github: {
       clientId: process.env.GITHUB_CLIENT_ID as string,
@@ -0,0 +1,159 @@
+/**
+ * Benchmarks
+ * Index and ETF series (SPY, QQQ or any ticker) charted next to a portfolio
+ *
+ * - Daily closes come from the market data provider and are kept in the price store
+ *   (price-history.ts), so each day is fetched once; the current day uses the live quote
+ * - A series is normalised to the chart it sits on: 0% on the chart's first date and, for
+ *   value charts, the portfolio's starting value
+ * - A benchmark has no cash flows, so its price return is its TWR and its MWR alike
+ * - Closes are daily, so on 1D/1W charts the line only moves from one session to the next
+ *   (and with the live quote during the current one)
+ */
+
+import { getMarketDataProvider, getQuotes, type MarketDataProvider } from "./market-data";
+import {
+  findPriceOnDay,
+  getPriceHistory,
+  recordPrices,
+  toDateKey,
+  type DailyPrice,
+} from "./price-history";
+import { prisma } from "./prisma";
+
+export const DEFAULT_BENCHMARK = "SPY";
+
+export const BENCHMARK_PRESETS: Array<{ symbol: string; name: string }> = [
+  { symbol: "SPY", name: "S&P 500" },
+  { symbol: "QQQ", name: "Nasdaq 100" },
+];
+
+// Stored closes are re-checked against the provider at most this often per symbol
+const SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+// Closes fetched before a chart's first day, so it has a close to start from after a long weekend
+const LOOKBACK_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BenchmarkPoint {
+  date: string;
+  returnPercent: number; // Price return since the chart's first date
+  value?: number; // The portfolio's starting value grown at the benchmark's return (value charts)
+}
+
+export interface BenchmarkSeries {
+  symbol: string;
+  name: string | null; // Display name for presets
+  history: BenchmarkPoint[];
+}
+
+/**
+ * Benchmark series lined up with a chart's dates (YYYY-MM-DD or ISO timestamps, oldest first)
+ * Pass `baseValue` to also get values for a value chart, and `intraday` when the first date
+ * is a session open charting the previous close. Symbols without any price are left out.
+ */
+export async function getBenchmarkSeries(
+  symbols: string[],
+  dates: string[],
+  options: { baseValue?: number; intraday?: boolean; now?: Date; provider?: MarketDataProvider } = {}
+): Promise<BenchmarkSeries[]> {
+  const now = options.now ?? new Date();
+  const wanted = [...new Set(symbols.map((symbol) => symbol.trim().toUpperCase()).filter(Boolean))];
+  if (wanted.length === 0 || dates.length === 0) return [];
+
+  const dayKeys = dates.map((date) => date.split("T")[0]);
+  const from = new Date(Date.parse(dayKeys[0]) - LOOKBACK_DAYS * DAY_MS);
+
+  for (const symbol of wanted) {
+    await syncCloses(symbol, from, now, options.provider);
+  }
+
+  const [priceHistory, quotes] = await Promise.all([
+    getPriceHistory(wanted, from, now),
+    getQuotes(wanted, { provider: options.provider, now }),
+  ]);
+  const todayKey = toDateKey(now);
+
+  return wanted.flatMap((symbol) => {
+    const closes = priceHistory.get(symbol) ?? [];
+    const quote = quotes.get(symbol);
+    const prices: DailyPrice[] = quote
+      ? [...closes.filter((price) => price.date < todayKey), { date: todayKey, close: quote.price }]
+      : closes;
+
+    const base = findPriceOnDay(prices, options.intraday ? shiftDay(dayKeys[0], -1) : dayKeys[0]);
+    if (!base) return [];
+
+    const history = dates.map((date, i) => {
+      // The intraday baseline point is the previous close, like the portfolio's
+      const ratio = i === 0 ? 1 : (findPriceOnDay(prices, dayKeys[i]) ?? base) / base;
+      return {
+        date,
+        returnPercent: (ratio - 1) * 100,
+        ...(options.baseValue !== undefined ? { value: options.baseValue * ratio } : {}),
+      };
+    });
+
+    const preset = BENCHMARK_PRESETS.find((entry) => entry.symbol === symbol);
+    return [{ symbol, name: preset?.name ?? null, history }];
+  });
+}
+
+// ===== INTERNALS =====
+
+// Symbol -> earliest day synced and when, so charts don't ask the provider on every request
+const lastSync = new Map<string, { from: string; at: number }>();
+
+/**
+ * Fetch the closes missing from the price store between `from` and yesterday
+ * Only the ranges before the first and after the last stored provider close are requested.
+ * Failures are logged and the chart makes do with what's stored.
+ */
+async function syncCloses(symbol: string, from: Date, now: Date, provider?: MarketDataProvider) {
+  const fromKey = toDateKey(from);
+  const previous = lastSync.get(symbol);
+  if (previous && previous.from <= fromKey && now.getTime() - previous.at < SYNC_INTERVAL_MS) return;
+
+  // Today's close isn't final until tomorrow; the live quote covers it meanwhile
+  const endKey = shiftDay(toDateKey(now), -1);
+
+  const stored = await prisma.historicalPrice.aggregate({
+    where: { symbol, source: "provider" },
+    _min: { date: true },
+    _max: { date: true },
+  });
+  const firstKey = stored._min.date ? toDateKey(stored._min.date) : null;
+  const lastKey = stored._max.date ? toDateKey(stored._max.date) : null;
+
+  const ranges: Array<[string, string]> = [];
+  if (!firstKey || !lastKey) {
+    ranges.push([fromKey, endKey]);
+  } else {
+    if (fromKey < firstKey) ranges.push([fromKey, shiftDay(firstKey, -1)]);
+    if (lastKey < endKey) ranges.push([shiftDay(lastKey, 1), endKey]);
+  }
+
+  try {
+    const source = provider ?? getMarketDataProvider();
+    for (const [start, end] of ranges) {
+      if (start > end) continue;
+      const closes = await source.getDailyCloses(symbol, start, end);
+      await recordPrices(
+        closes.map((price) => ({ symbol, date: new Date(`${price.date}T00:00:00.000Z`), close: price.close })),
+        "provider"
+      );
+    }
+
+    lastSync.set(symbol, {
+      from: previous && previous.from < fromKey ? previous.from : fromKey,
+      at: now.getTime(),
+    });
+  } catch (error) {
+    console.error(`[Benchmarks] Failed to sync closes for ${symbol}:`, error);
+  }
+}
+
+function shiftDay(dateKey: string, days: number): string {
+  return new Date(Date.parse(dateKey) + days * DAY_MS).toISOString().split("T")[0];
+}
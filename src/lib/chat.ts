@@ -0,0 +1,245 @@
+/**
+ * Squad Chat
+ * Channels, messages, unread counts and presence for the Chat page
+ *
+ * - Every workspace has a #general channel, created the first time a member opens chat
+ * - A channel's unread count is the messages other members posted after the member last
+ *   read it (ChannelRead); sending a message marks the channel read
+ * - Messages are soft-deleted so live clients and unread counts see the deletion
+ * - The chat event stream polls for messages changed since its cursor (getMessageChanges);
+ *   recent changes are re-read so a write that commits late isn't skipped
+ * - Presence is a heartbeat: a member is online, away or trading while their client checks
+ *   in (an open event stream counts), and offline once PRESENCE_TIMEOUT_MS passes without one
+ * - $TICKER mentions are extracted here so clients can show live-price chips
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { redactIdentity, type MemberIdentity, type ResolvedPrivacy } from "./privacy";
+import type {
+  ChatMessage,
+  MemberPresence,
+  MemberPresenceStatus,
+  PresenceStatus,
+} from "./validations/chat";
+
+export const DEFAULT_CHANNEL_NAME = "general";
+
+// Without a heartbeat for this long, a member shows as offline
+export const PRESENCE_TIMEOUT_MS = 90 * 1000;
+
+// How far back each stream poll re-reads, for writes that committed after a later one
+export const STREAM_LOOKBACK_MS = 5 * 1000;
+
+// Chips shown per message
+export const MAX_MESSAGE_TICKERS = 10;
+
+// "$NVDA", "$BRK.B"; not "$5" or "US$EUR"
+const TICKER_PATTERN = /(?<![\w$])\$([A-Z]{1,5}(?:\.[A-Z]{1,2})?)\b/g;
+
+/**
+ * Include for message queries: the author's identity
+ */
+export const messageInclude = {
+  author: { select: { id: true, name: true, image: true, username: true } },
+} satisfies Prisma.MessageInclude;
+
+export type MessageWithAuthor = Prisma.MessageGetPayload<{ include: typeof messageInclude }>;
+
+/**
+ * $TICKER mentions in a message, upper-case and de-duplicated in order of appearance
+ */
+export function extractTickers(content: string): string[] {
+  const tickers = new Set<string>();
+  for (const match of content.matchAll(TICKER_PATTERN)) {
+    tickers.add(match[1]);
+    if (tickers.size >= MAX_MESSAGE_TICKERS) break;
+  }
+  return [...tickers];
+}
+
+/**
+ * The workspace's #general channel, created if it doesn't exist yet
+ */
+export async function ensureDefaultChannel(workspaceId: string) {
+  return prisma.channel.upsert({
+    where: { workspaceId_name: { workspaceId, name: DEFAULT_CHANNEL_NAME } },
+    create: {
+      workspaceId,
+      name: DEFAULT_CHANNEL_NAME,
+      description: "Squad-wide chat",
+      isDefault: true,
+    },
+    update: {},
+  });
+}
+
+/**
+ * Unread messages for a member in each channel (channels with none are left out)
+ */
+export async function getUnreadCounts(userId: string, channelIds: string[]): Promise<Map<string, number>> {
+  if (channelIds.length === 0) return new Map();
+
+  const reads = await prisma.channelRead.findMany({
+    where: { userId, channelId: { in: channelIds } },
+  });
+  const lastReadAt = new Map(reads.map((read) => [read.channelId, read.lastReadAt]));
+
+  const groups = await prisma.message.groupBy({
+    by: ["channelId"],
+    where: {
+      authorId: { not: userId },
+      deletedAt: null,
+      // A channel the member has never read is unread from the start
+      OR: channelIds.map((channelId) => ({
+        channelId,
+        ...(lastReadAt.has(channelId) ? { createdAt: { gt: lastReadAt.get(channelId) } } : {}),
+      })),
+    },
+    _count: { _all: true },
+  });
+
+  return new Map(groups.map((group) => [group.channelId, group._count._all]));
+}
+
+export async function markChannelRead(channelId: string, userId: string, at: Date = new Date()): Promise<void> {
+  await prisma.channelRead.upsert({
+    where: { channelId_userId: { channelId, userId } },
+    create: { channelId, userId, lastReadAt: at },
+    update: { lastReadAt: at },
+  });
+}
+
+/**
+ * Messages in a workspace created, edited or deleted after `since`, oldest change first
+ * `sent` maps message ids already delivered to the updatedAt they were delivered at; those
+ * are skipped, and entries older than the lookback are pruned
+ */
+export async function getMessageChanges(
+  workspaceId: string,
+  since: Date,
+  sent: Map<string, number>
+): Promise<MessageWithAuthor[]> {
+  const from = new Date(since.getTime() - STREAM_LOOKBACK_MS);
+  const changes = await prisma.message.findMany({
+    where: { workspaceId, updatedAt: { gt: from } },
+    include: messageInclude,
+    orderBy: { updatedAt: "asc" },
+    take: 200,
+  });
+
+  for (const [id, updatedAt] of sent) {
+    if (updatedAt <= from.getTime()) sent.delete(id);
+  }
+
+  return changes.filter((message) => {
+    const updatedAt = message.updatedAt.getTime();
+    if (sent.get(message.id) === updatedAt) return false;
+    sent.set(message.id, updatedAt);
+    return true;
+  });
+}
+
+/**
+ * Shape a message for the API, with its author as the viewer sees them
+ */
+export function serializeMessage(
+  message: MessageWithAuthor,
+  author: MemberIdentity,
+  viewerId: string
+): ChatMessage {
+  const isDeleted = message.deletedAt !== null;
+
+  return {
+    id: message.id,
+    channelId: message.channelId,
+    authorId: author.userId,
+    authorName: author.name ?? author.username,
+    authorImage: author.image,
+    isAuthor: message.authorId === viewerId,
+    content: isDeleted ? "" : message.content,
+    tickers: isDeleted ? [] : extractTickers(message.content),
+    editedAt: message.editedAt,
+    deletedAt: message.deletedAt,
+    createdAt: message.createdAt,
+  };
+}
+
+/**
+ * Serialize messages for a viewer, redacting authors in anonymous mode
+ */
+export function serializeMessages(
+  messages: MessageWithAuthor[],
+  privacyByUser: Map<string, ResolvedPrivacy>,
+  context: { workspaceId: string; viewerId: string }
+): ChatMessage[] {
+  return messages.map((message) =>
+    serializeMessage(
+      message,
+      redactIdentity({ userId: message.authorId, ...message.author }, privacyByUser.get(message.authorId), context),
+      context.viewerId
+    )
+  );
+}
+
+/**
+ * Record a heartbeat; with a status, also change how the member shows
+ */
+export async function touchPresence(workspaceId: string, userId: string, status?: PresenceStatus): Promise<void> {
+  const now = new Date();
+  await prisma.chatPresence.upsert({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    create: { workspaceId, userId, status: status ?? "online", lastSeenAt: now },
+    update: { lastSeenAt: now, ...(status ? { status } : {}) },
+  });
+}
+
+export function getPresenceStatus(
+  presence: { status: string; lastSeenAt: Date } | undefined,
+  now: Date
+): MemberPresenceStatus {
+  if (!presence || now.getTime() - presence.lastSeenAt.getTime() > PRESENCE_TIMEOUT_MS) return "offline";
+  return presence.status as PresenceStatus;
+}
+
+/**
+ * Every member of a workspace with their presence, online members first
+ */
+export async function getWorkspacePresence(
+  workspaceId: string,
+  viewerId: string,
+  privacyByUser: Map<string, ResolvedPrivacy>
+): Promise<MemberPresence[]> {
+  const now = new Date();
+  const [members, presence] = await Promise.all([
+    prisma.workspaceMember.findMany({
+      where: { workspaceId },
+      select: { user: { select: { id: true, name: true, image: true, username: true } } },
+    }),
+    prisma.chatPresence.findMany({ where: { workspaceId } }),
+  ]);
+  const presenceByUser = new Map(presence.map((entry) => [entry.userId, entry]));
+
+  return members
+    .map(({ user }) => {
+      const identity = redactIdentity({ userId: user.id, ...user }, privacyByUser.get(user.id), {
+        workspaceId,
+        viewerId,
+      });
+      const entry = presenceByUser.get(user.id);
+      return {
+        memberId: identity.userId,
+        memberName: identity.name ?? identity.username ?? "Unknown",
+        memberImage: identity.image,
+        isCurrentUser: user.id === viewerId,
+        status: getPresenceStatus(entry, now),
+        // A pseudonym's last-seen time would help unmask it
+        lastSeenAt: identity.isAnonymous ? null : entry?.lastSeenAt ?? null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(a.status === "offline") - Number(b.status === "offline") ||
+        a.memberName.localeCompare(b.memberName)
+    );
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+
+/**
+ * Verify the request is from Vercel Cron
+ */
+export function verifyCronAuth(req: NextRequest): boolean {
+  const authHeader = req.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In development, allow requests without auth
+  if (process.env.NODE_ENV === "development") {
+    return true;
+  }
+
+  // Vercel Cron sends the secret in the Authorization header
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,401 @@
+/**
+ * Email Digest
+ * Daily or weekly email summing up a member's squads, for members who opted in
+ *
+ * - Per workspace: top movers over the period, the member's leaderboard rank and who
+ *   passed them, new ideas and ideas that played out, and unread comments and mentions
+ * - Built for the recipient: other members' figures and identities are redacted with
+ *   their privacy settings exactly as in the app, and anonymous members keep their pseudonym
+ * - Sections follow the recipient's email channel per event; muted workspaces are left out
+ * - Daily digests go out every day, weekly ones on Mondays (UTC). Digests with nothing to
+ *   report aren't sent, and the send time is kept in User.digestSentAt so reruns don't repeat them
+ * - Unsubscribe links carry a signed token, so they work without signing in
+ */
+
+import { createElement } from "react";
+import { createHmac, timingSafeEqual } from "crypto";
+import { render } from "@react-email/render";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { sendEmail } from "./email";
+import {
+  getMemberPortfolioSummary,
+  redactMemberPortfolio,
+  type MemberPortfolioSummary,
+} from "./leaderboard";
+import { getNotifications, parseNotificationPreferences, updateNotificationPreferences } from "./notifications";
+import { redactIdentity, resolveWorkspacePrivacy } from "./privacy";
+import { getServerSecret } from "./server-secret";
+import { DigestEmail } from "@/components/emails/digest-email";
+import type { DigestFrequency, Notification, NotificationType } from "./validations/notifications";
+import type { LeaderboardPeriod } from "./validations/portfolio";
+
+export type ScheduledDigestFrequency = Exclude<DigestFrequency, "off">;
+
+// Weekly digests go out on Mondays (UTC)
+export const WEEKLY_DIGEST_DAY = 1;
+
+const PERIODS: Record<ScheduledDigestFrequency, { days: number; leaderboard: LeaderboardPeriod }> = {
+  daily: { days: 1, leaderboard: "1D" },
+  weekly: { days: 7, leaderboard: "1W" },
+};
+
+// A digest sent within this long counts as this period's (cron runs drift a little)
+const RESEND_GUARD_HOURS: Record<ScheduledDigestFrequency, number> = {
+  daily: 20,
+  weekly: 6 * 24,
+};
+
+const MAX_MOVERS = 3;
+const MAX_IDEAS = 5;
+const MAX_UNREAD = 10;
+
+// Notifications listed under "unread" (only types with the email channel on are loaded)
+const UNREAD_TYPES: NotificationType[] = ["COMMENT", "MENTION", "REACTION"];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface DigestMover {
+  memberId: string; // Real user id, or pseudonym id
+  name: string;
+  isYou: boolean;
+  changePercent: number;
+  changeAmount: number | null; // Null when the member hides amounts
+}
+
+export interface DigestIdea {
+  id: string;
+  authorName: string;
+  symbol: string;
+  direction: string;
+  title: string;
+  status: string;
+  returnPercent: number | null;
+}
+
+export interface DigestWorkspace {
+  workspaceId: string;
+  name: string;
+  movers: DigestMover[];
+  leaderboard: { rank: number | null; passedBy: string[] } | null;
+  newIdeas: DigestIdea[];
+  closedIdeas: DigestIdea[];
+  unread: Array<Pick<Notification, "id" | "title" | "preview" | "createdAt">>;
+}
+
+export interface Digest {
+  userId: string;
+  recipientName: string | null;
+  frequency: ScheduledDigestFrequency;
+  periodStart: Date;
+  periodEnd: Date;
+  workspaces: DigestWorkspace[];
+  appUrl: string;
+  unsubscribeUrl: string;
+}
+
+export interface DigestRunSummary {
+  considered: number;
+  sent: number;
+  empty: number;
+  skipped: number;
+  failed: number;
+}
+
+// Portfolio summaries are shared by every recipient in one run
+type SummaryCache = Map<string, Promise<MemberPortfolioSummary>>;
+
+// ===== BUILDING =====
+
+/**
+ * Everything in one member's digest, as they're allowed to see it
+ * Workspaces with nothing to report are left out
+ */
+export async function buildDigest(
+  user: { id: string; name: string | null; settings: Prisma.JsonValue | null },
+  frequency: ScheduledDigestFrequency,
+  now: Date = new Date(),
+  summaries: SummaryCache = new Map()
+): Promise<Digest> {
+  const preferences = parseNotificationPreferences(user.settings);
+  const periodStart = new Date(now.getTime() - PERIODS[frequency].days * DAY_MS);
+
+  const [memberships, { notifications }] = await Promise.all([
+    prisma.workspaceMember.findMany({
+      where: { userId: user.id, workspaceId: { notIn: preferences.mutedWorkspaceIds } },
+      select: { workspaceId: true, leaderboardRank: true, workspace: { select: { name: true } } },
+      orderBy: { joinedAt: "asc" },
+    }),
+    getNotifications(user.id, { unreadOnly: false, limit: 50 }, "email"),
+  ]);
+  const recent = notifications.filter((notification) => notification.createdAt >= periodStart);
+
+  const workspaces: DigestWorkspace[] = [];
+  for (const membership of memberships) {
+    const { workspaceId } = membership;
+    const privacyByUser = await resolveWorkspacePrivacy(workspaceId);
+    const context = { workspaceId, viewerId: user.id };
+    const nameOf = (member: { id: string; name: string | null }) =>
+      redactIdentity({ userId: member.id, ...member }, privacyByUser.get(member.id), context).name ?? "A member";
+
+    const movers = await getTopMovers(
+      workspaceId,
+      user.id,
+      PERIODS[frequency].leaderboard,
+      privacyByUser,
+      now,
+      summaries
+    );
+
+    const leaderboard = preferences.events.LEADERBOARD_PASSED.email
+      ? {
+          rank: membership.leaderboardRank,
+          passedBy: recent
+            .filter((n) => n.workspaceId === workspaceId && n.type === "LEADERBOARD_PASSED")
+            .map((n) => n.actorName ?? "A member"),
+        }
+      : null;
+
+    let newIdeas: DigestIdea[] = [];
+    let closedIdeas: DigestIdea[] = [];
+    if (preferences.events.IDEA_POSTED.email) {
+      const ideas = await prisma.tradeIdea.findMany({
+        where: {
+          workspaceId,
+          OR: [
+            { createdAt: { gte: periodStart }, authorId: { not: user.id } },
+            { closedAt: { gte: periodStart } },
+          ],
+        },
+        include: { author: { select: { id: true, name: true } } },
+        orderBy: { createdAt: "desc" },
+      });
+      const toDigestIdea = (idea: (typeof ideas)[number]): DigestIdea => ({
+        id: idea.id,
+        authorName: idea.authorId === user.id ? "You" : nameOf(idea.author),
+        symbol: idea.symbol,
+        direction: idea.direction,
+        title: idea.title,
+        status: idea.status,
+        returnPercent: idea.returnPercent,
+      });
+      newIdeas = ideas
+        .filter((idea) => idea.createdAt >= periodStart && idea.authorId !== user.id)
+        .slice(0, MAX_IDEAS)
+        .map(toDigestIdea);
+      closedIdeas = ideas
+        .filter((idea) => idea.closedAt && idea.closedAt >= periodStart)
+        .slice(0, MAX_IDEAS)
+        .map(toDigestIdea);
+    }
+
+    const unread = recent
+      .filter(
+        (n) =>
+          n.workspaceId === workspaceId &&
+          !n.readAt &&
+          UNREAD_TYPES.includes(n.type)
+      )
+      .slice(0, MAX_UNREAD)
+      .map(({ id, title, preview, createdAt }) => ({ id, title, preview, createdAt }));
+
+    const hasNews =
+      movers.length > 0 ||
+      (leaderboard?.passedBy.length ?? 0) > 0 ||
+      newIdeas.length > 0 ||
+      closedIdeas.length > 0 ||
+      unread.length > 0;
+    if (!hasNews) continue;
+
+    workspaces.push({
+      workspaceId,
+      name: membership.workspace.name,
+      movers,
+      leaderboard,
+      newIdeas,
+      closedIdeas,
+      unread,
+    });
+  }
+
+  return {
+    userId: user.id,
+    recipientName: user.name,
+    frequency,
+    periodStart,
+    periodEnd: now,
+    workspaces,
+    appUrl: process.env.APP_URL ?? "",
+    unsubscribeUrl: getUnsubscribeUrl(user.id),
+  };
+}
+
+/**
+ * The digest email's subject, HTML and plain-text bodies
+ */
+export async function renderDigest(digest: Digest): Promise<{ subject: string; html: string; text: string }> {
+  const element = createElement(DigestEmail, { digest });
+  const [html, text] = await Promise.all([render(element), render(element, { plainText: true })]);
+
+  const unreadCount = digest.workspaces.reduce((sum, workspace) => sum + workspace.unread.length, 0);
+  const subject =
+    `Your ${digest.frequency} squad digest` +
+    (unreadCount > 0 ? ` · ${unreadCount} unread comment${unreadCount === 1 ? "" : "s"}` : "");
+
+  return { subject, html, text };
+}
+
+// ===== SENDING =====
+
+/**
+ * Send every digest due now: daily ones, plus weekly ones on WEEKLY_DIGEST_DAY
+ * One member's failure is counted and logged, and doesn't stop the others
+ */
+export async function sendDigests(now: Date = new Date()): Promise<DigestRunSummary> {
+  const due: ScheduledDigestFrequency[] = now.getUTCDay() === WEEKLY_DIGEST_DAY ? ["daily", "weekly"] : ["daily"];
+  const users = await prisma.user.findMany({
+    where: {
+      OR: due.map((frequency) => ({ settings: { path: ["notifications", "digest"], equals: frequency } })),
+    },
+    select: { id: true, email: true, name: true, settings: true, digestSentAt: true },
+  });
+
+  const summary: DigestRunSummary = { considered: users.length, sent: 0, empty: 0, skipped: 0, failed: 0 };
+  const summaries: SummaryCache = new Map();
+
+  for (const user of users) {
+    const frequency = parseNotificationPreferences(user.settings).digest;
+    if (frequency === "off") continue;
+
+    if (wasDigestSentRecently(user.digestSentAt, frequency, now)) {
+      summary.skipped++;
+      continue;
+    }
+
+    try {
+      const digest = await buildDigest(user, frequency, now, summaries);
+      if (digest.workspaces.length === 0) {
+        summary.empty++;
+        continue;
+      }
+
+      const email = await renderDigest(digest);
+      await sendEmail({
+        to: user.email,
+        ...email,
+        headers: {
+          "List-Unsubscribe": `<${digest.unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+      });
+      await prisma.user.update({ where: { id: user.id }, data: { digestSentAt: now } });
+      summary.sent++;
+    } catch (error) {
+      summary.failed++;
+      console.error(`[Digest] Failed to send ${frequency} digest to ${user.id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+// ===== UNSUBSCRIBE =====
+
+export function createUnsubscribeToken(userId: string): string {
+  return `${userId}.${signUnsubscribe(userId)}`;
+}
+
+/**
+ * The user an unsubscribe token was issued to, or null if it's malformed or forged
+ */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [userId, signature, ...rest] = token.split(".");
+  if (!userId || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(signUnsubscribe(userId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? userId : null;
+}
+
+export function getUnsubscribeUrl(userId: string): string {
+  return `${process.env.APP_URL}/api/notifications/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(userId))}`;
+}
+
+/**
+ * Turn the digest off; returns false if the user no longer exists
+ */
+export async function unsubscribeFromDigest(userId: string): Promise<boolean> {
+  const exists = await prisma.user.count({ where: { id: userId } });
+  if (!exists) return false;
+
+  await updateNotificationPreferences(userId, { digest: "off" });
+  return true;
+}
+
+// ===== INTERNALS =====
+
+/**
+ * The biggest moves in either direction among members whose performance the viewer can see
+ */
+async function getTopMovers(
+  workspaceId: string,
+  viewerId: string,
+  period: LeaderboardPeriod,
+  privacyByUser: Awaited<ReturnType<typeof resolveWorkspacePrivacy>>,
+  now: Date,
+  summaries: SummaryCache
+): Promise<DigestMover[]> {
+  const members = await prisma.workspaceMember.findMany({
+    where: { workspaceId },
+    select: { user: { select: { id: true, name: true, image: true } } },
+  });
+
+  const movers = await Promise.all(
+    members.map(async ({ user }): Promise<DigestMover | null> => {
+      const key = `${user.id}:${period}`;
+      if (!summaries.has(key)) summaries.set(key, getMemberPortfolioSummary(user.id, period, now));
+      const summary = await summaries.get(key)!;
+
+      const privacy = privacyByUser.get(user.id);
+      if (!privacy) return null;
+
+      // You always see your own figures
+      const performance =
+        user.id === viewerId
+          ? { changePercent: summary.change?.changePercent ?? null, changeAmount: summary.change?.changeAmount ?? null }
+          : redactMemberPortfolio(summary, privacy, now).performance;
+      if (!summary.change || performance.changePercent === null) return null;
+
+      const identity = redactIdentity({ userId: user.id, ...user }, privacy, { workspaceId, viewerId });
+      return {
+        memberId: identity.userId,
+        name: identity.name ?? "A member",
+        isYou: user.id === viewerId,
+        changePercent: performance.changePercent,
+        changeAmount: performance.changeAmount,
+      };
+    })
+  );
+
+  return movers
+    .filter((mover): mover is DigestMover => mover !== null)
+    .sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent))
+    .slice(0, MAX_MOVERS);
+}
+
+function wasDigestSentRecently(
+  sentAt: Date | null,
+  frequency: ScheduledDigestFrequency,
+  now: Date
+): boolean {
+  if (!sentAt) return false;
+  const elapsed = now.getTime() - sentAt.getTime();
+  return elapsed >= 0 && elapsed < RESEND_GUARD_HOURS[frequency] * HOUR_MS;
+}
+
+function signUnsubscribe(userId: string): string {
+  return createHmac("sha256", getServerSecret())
+    .update(`digest-unsubscribe:${userId}`)
+    .digest("base64url");
+}
@@ -8,16 +8,33 @@ export async function sendEmail(opts: {
   text?: string;
   html?: string;
   from?: string;
+  headers?: Record<string, string>;
 }) {
-  await resend.emails.send({
+  // Resend returns delivery failures instead of throwing them
+  const { error } = await resend.emails.send({
     from: opts.from ?? (process.env.EMAIL_FROM as string),
     to: opts.to,
     subject: opts.subject,
     text: opts.text ?? "",
     html: opts.html,
+    headers: opts.headers,
   });
+
+  if (error) {
+    throw new Error(`Failed to send email: ${error.message}`);
+  }
 }
 
+/**
+ * Escape text for interpolation into an email's HTML body
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
 
 // resend.emails.send({
 //     from: 'onboarding@resend.dev',
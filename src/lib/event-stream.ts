@@ -0,0 +1,102 @@
+/**
+ * Event Stream
+ * Server-Sent Events responses for live squad feeds
+ *
+ * - Streams poll: `poll` runs every `intervalMs` and whatever events it returns are sent
+ * - A stream runs for at most STREAM_DURATION_MS, inside the serverless function timeout,
+ *   then ends. EventSource reconnects by itself and sends the id of the last event it saw
+ *   as Last-Event-ID, so the next stream carries on from there (getLastEventId)
+ * - Quiet polls send a comment line so proxies don't close an idle connection
+ * - The stream stops as soon as the client disconnects
+ */
+
+export const STREAM_DURATION_MS = 55 * 1000;
+
+// How soon EventSource reconnects after a stream ends
+export const STREAM_RETRY_MS = 1000;
+
+export interface StreamEvent {
+  event: string;
+  id?: string; // Sent back as Last-Event-ID on reconnect
+  data: unknown;
+}
+
+/**
+ * The id of the last event the client saw: the Last-Event-ID header on a reconnect, or a
+ * `lastEventId` query parameter for a client resuming with a fresh EventSource
+ */
+export function getLastEventId(request: Request): string | null {
+  return request.headers.get("last-event-id") || new URL(request.url).searchParams.get("lastEventId") || null;
+}
+
+export function createPollingStream(
+  request: Request,
+  options: {
+    intervalMs: number;
+    poll: () => Promise<StreamEvent[]>;
+  }
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+      request.signal.addEventListener("abort", close);
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      write(`retry: ${STREAM_RETRY_MS}\n\n`);
+      const deadline = Date.now() + STREAM_DURATION_MS;
+
+      try {
+        while (!closed && Date.now() < deadline) {
+          const events = await options.poll();
+          if (events.length === 0) {
+            write(": keep-alive\n\n");
+          }
+          for (const event of events) {
+            write(formatEvent(event));
+          }
+          await new Promise((resolve) => setTimeout(resolve, options.intervalMs));
+        }
+      } catch (error) {
+        // The client reconnects and resumes from its last event
+        console.error("[EventStream] Poll failed:", error);
+      }
+
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Disable proxy buffering (nginx)
+    },
+  });
+}
+
+// ===== INTERNALS =====
+
+function formatEvent(event: StreamEvent): string {
+  const lines = [`event: ${event.event}`];
+  if (event.id !== undefined) lines.push(`id: ${event.id}`);
+  // One data line per line of JSON (JSON.stringify has none, but be safe)
+  for (const line of JSON.stringify(event.data).split("\n")) {
+    lines.push(`data: ${line}`);
+  }
+  return `${lines.join("\n")}\n\n`;
+}
@@ -0,0 +1,249 @@
+/**
+ * Intraday Snapshots
+ * A finer snapshot tier behind the 1D and 1W charts
+ *
+ * - While the market is open, the snapshots sync stage records one IntradaySnapshot per
+ *   account per INTRADAY_INTERVAL_MINUTES (the intraday cron keeps syncs running that often)
+ * - Rows older than INTRADAY_RETENTION_DAYS collapse into the daily PortfolioSnapshot for
+ *   their day: the last intraday value (the close) becomes the day's value
+ * - History routes bucket intraday rows into 5m/15m/1h points inside market sessions, so
+ *   nights, weekends and holidays don't show up as flat stretches
+ */
+
+import type { IntradaySnapshot } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getMarketSession, getRecentSessions, MARKET_TIME_ZONE, type MarketSession } from "./market-hours";
+import type { IntradayInterval, TimePeriod } from "./validations/portfolio";
+
+export const INTRADAY_INTERVAL_MINUTES = 15;
+
+// Long enough to cover the five sessions of a 1W chart across a holiday weekend
+export const INTRADAY_RETENTION_DAYS = 10;
+
+export type IntradayPeriod = Extract<TimePeriod, "1D" | "1W">;
+
+export const DEFAULT_INTRADAY_INTERVAL: Record<IntradayPeriod, IntradayInterval> = {
+  "1D": "15m",
+  "1W": "1h",
+};
+
+export interface IntradayPoint {
+  date: string; // ISO timestamp of the bucket start
+  value: number;
+  pl: number;
+}
+
+const SESSIONS_PER_PERIOD: Record<IntradayPeriod, number> = {
+  "1D": 1,
+  "1W": 5,
+};
+
+const BUCKET_MINUTES: Record<IntradayInterval, number> = {
+  "5m": 5,
+  "15m": 15,
+  "1h": 60,
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Whether a chart period is served from intraday snapshots
+ */
+export function isIntradayPeriod(period: TimePeriod): period is IntradayPeriod {
+  return period in SESSIONS_PER_PERIOD;
+}
+
+/**
+ * Market sessions covered by a 1D (latest session) or 1W (last five sessions) chart
+ */
+export function getChartSessions(period: IntradayPeriod, now: Date): MarketSession[] {
+  return getRecentSessions(SESSIONS_PER_PERIOD[period], now);
+}
+
+/**
+ * Earliest snapshot time needed to chart `sessions`, including the previous close as a baseline
+ */
+export function getIntradayQueryStart(sessions: MarketSession[]): Date {
+  return new Date(sessions[0].open.getTime() - INTRADAY_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Whether intraday snapshots are recorded at `now`: during a session, plus one interval
+ * after the close so the closing value is captured
+ */
+export function isIntradayWindow(now: Date): boolean {
+  const session = getMarketSession(now);
+  return (
+    !!session &&
+    now >= session.open &&
+    now.getTime() <= session.close.getTime() + INTRADAY_INTERVAL_MINUTES * MINUTE_MS
+  );
+}
+
+/**
+ * Record an intraday snapshot for each account, at most one per interval
+ * Does nothing outside the intraday window; returns the number of snapshots written
+ */
+export async function recordIntradaySnapshots(
+  accounts: Array<{ id: string; totalValue: number; totalCash: number; totalInvestments: number }>,
+  now: Date = new Date()
+): Promise<number> {
+  if (!isIntradayWindow(now)) return 0;
+
+  const intervalMs = INTRADAY_INTERVAL_MINUTES * MINUTE_MS;
+  const intervalStart = new Date(Math.floor(now.getTime() / intervalMs) * intervalMs);
+  let written = 0;
+
+  for (const account of accounts) {
+    const existing = await prisma.intradaySnapshot.findFirst({
+      where: { accountId: account.id, snapshotAt: { gte: intervalStart } },
+      select: { id: true },
+    });
+    if (existing) continue;
+
+    await prisma.intradaySnapshot.create({
+      data: {
+        accountId: account.id,
+        totalValue: account.totalValue,
+        totalCash: account.totalCash,
+        totalInvestments: account.totalInvestments,
+        totalPL: account.totalValue - account.totalInvestments,
+        snapshotAt: now,
+      },
+    });
+    written++;
+  }
+
+  return written;
+}
+
+/**
+ * Collapse intraday snapshots older than the retention window into daily snapshots
+ * The day's last intraday value replaces (or creates) that day's PortfolioSnapshot
+ * Returns the number of daily snapshots written
+ */
+export async function compactIntradaySnapshots(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - INTRADAY_RETENTION_DAYS * DAY_MS);
+
+  const expired = await prisma.intradaySnapshot.findMany({
+    where: { snapshotAt: { lt: cutoff } },
+    orderBy: { snapshotAt: "asc" },
+  });
+  if (expired.length === 0) return 0;
+
+  // Last snapshot per account per day (daily rows are keyed by UTC date elsewhere)
+  const closing = new Map<string, IntradaySnapshot>();
+  for (const snap of expired) {
+    closing.set(`${snap.accountId}:${snap.snapshotAt.toISOString().split("T")[0]}`, snap);
+  }
+
+  for (const snap of closing.values()) {
+    const dayStart = new Date(`${snap.snapshotAt.toISOString().split("T")[0]}T00:00:00.000Z`);
+    const data = {
+      totalValue: snap.totalValue,
+      totalCash: snap.totalCash,
+      totalInvestments: snap.totalInvestments,
+      totalPL: snap.totalPL,
+      totalPLPercent: snap.totalInvestments > 0 ? (snap.totalPL / snap.totalInvestments) * 100 : 0,
+    };
+
+    const daily = await prisma.portfolioSnapshot.findFirst({
+      where: {
+        accountId: snap.accountId,
+        snapshotDate: { gte: dayStart, lt: new Date(dayStart.getTime() + DAY_MS) },
+      },
+      orderBy: { snapshotDate: "desc" },
+      select: { id: true },
+    });
+
+    if (daily) {
+      await prisma.portfolioSnapshot.update({ where: { id: daily.id }, data });
+    } else {
+      await prisma.portfolioSnapshot.create({
+        data: { accountId: snap.accountId, snapshotDate: snap.snapshotAt, ...data },
+      });
+    }
+  }
+
+  await prisma.intradaySnapshot.deleteMany({
+    where: { id: { in: expired.map((snap) => snap.id) } },
+  });
+
+  return closing.size;
+}
+
+/**
+ * Bucket intraday snapshots (one or more accounts) into chart points within market sessions
+ *
+ * Each point is the sum of every account's latest value as of the end of its bucket, so an
+ * account that missed a bucket carries its last value instead of dropping out of the total.
+ * Snapshots before the first session seed the previous close, charted at the session open.
+ * Buckets without any new snapshot are skipped.
+ */
+export function bucketIntradaySnapshots(
+  snapshots: Array<Pick<IntradaySnapshot, "accountId" | "snapshotAt" | "totalValue" | "totalPL">>,
+  sessions: MarketSession[],
+  interval: IntradayInterval
+): IntradayPoint[] {
+  if (sessions.length === 0) return [];
+
+  const sorted = [...snapshots].sort((a, b) => a.snapshotAt.getTime() - b.snapshotAt.getTime());
+  const bucketMs = BUCKET_MINUTES[interval] * MINUTE_MS;
+  const graceMs = INTRADAY_INTERVAL_MINUTES * MINUTE_MS;
+  const latest = new Map<string, { value: number; pl: number }>();
+  const points: IntradayPoint[] = [];
+
+  const pushPoint = (date: Date) => {
+    let value = 0;
+    let pl = 0;
+    for (const entry of latest.values()) {
+      value += entry.value;
+      pl += entry.pl;
+    }
+    points.push({ date: date.toISOString(), value, pl });
+  };
+
+  let index = 0;
+  sessions.forEach((session, sessionIndex) => {
+    // Anything before the open only carries values forward (the first session charts it as the baseline)
+    while (index < sorted.length && sorted[index].snapshotAt < session.open) {
+      const snap = sorted[index++];
+      latest.set(snap.accountId, { value: snap.totalValue, pl: snap.totalPL });
+    }
+    if (sessionIndex === 0 && latest.size > 0) {
+      pushPoint(session.open);
+    }
+
+    // Snapshots just after the close belong to the last bucket of the session
+    const sessionEnd = session.close.getTime() + graceMs;
+    let currentBucket: number | null = null;
+
+    while (index < sorted.length && sorted[index].snapshotAt.getTime() <= sessionEnd) {
+      const snap = sorted[index++];
+      const offset = Math.min(snap.snapshotAt.getTime(), session.close.getTime() - 1) - session.open.getTime();
+      const bucket = Math.floor(offset / bucketMs);
+
+      if (currentBucket !== null && bucket !== currentBucket) {
+        pushPoint(new Date(session.open.getTime() + currentBucket * bucketMs));
+      }
+      currentBucket = bucket;
+      latest.set(snap.accountId, { value: snap.totalValue, pl: snap.totalPL });
+    }
+
+    if (currentBucket !== null) {
+      pushPoint(new Date(session.open.getTime() + currentBucket * bucketMs));
+    }
+  });
+
+  return points;
+}
+
+/**
+ * Chart label for an intraday point, in market time ("10:15 AM", or "Mon 10 AM" for 1W)
+ */
+export function formatIntradayLabel(date: Date, period: IntradayPeriod): string {
+  return period === "1D"
+    ? date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone: MARKET_TIME_ZONE })
+    : date.toLocaleString("en-US", { weekday: "short", hour: "numeric", timeZone: MARKET_TIME_ZONE });
+}
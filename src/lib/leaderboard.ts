@@ -0,0 +1,190 @@
+/**
+ * Leaderboard
+ * Per-member portfolio summaries and the privacy-redacted view other members get of them
+ *
+ * Used by the leaderboard route and the privacy preview so both return the same payload.
+ */
+
+import type { Position } from "@prisma/client";
+import { prisma } from "./prisma";
+import { computePeriodChange, getCashFlowsByAccount, type PeriodChange } from "./returns";
+import {
+  DEFAULT_PRIVACY,
+  isDisclosureDelayed,
+  redactPerformance,
+  redactPortfolioValue,
+  redactPositions,
+  type PrivacySettings,
+} from "./privacy";
+import type { LeaderboardPeriod, TimePeriod } from "./validations/portfolio";
+
+// Extra days to look back so a baseline snapshot exists across weekends/holidays
+const BASELINE_LOOKBACK_DAYS = 7;
+
+export interface MemberPortfolioSummary {
+  totalValue: number;
+  change: PeriodChange | null;
+  positions: Position[];
+}
+
+export interface RankableMember {
+  userId: string;
+  joinedAt: Date;
+  metricValue: number | null;
+}
+
+/**
+ * Start of a leaderboard (or stats) period (the baseline is the last snapshot on or before it)
+ */
+export function getPeriodStart(period: TimePeriod, now: Date): Date {
+  const start = new Date(now);
+  switch (period) {
+    case "1D": start.setDate(now.getDate() - 1); break;
+    case "1W": start.setDate(now.getDate() - 7); break;
+    case "1M": start.setMonth(now.getMonth() - 1); break;
+    case "3M": start.setMonth(now.getMonth() - 3); break;
+    case "6M": start.setMonth(now.getMonth() - 6); break;
+    case "1Y": start.setFullYear(now.getFullYear() - 1); break;
+    case "YTD": return new Date(now.getFullYear(), 0, 1);
+  }
+  return start;
+}
+
+/**
+ * Load a member's current value, positions and period change
+ * Performance is computed from PortfolioSnapshot rows, net of deposits/withdrawals
+ */
+export async function getMemberPortfolioSummary(
+  userId: string,
+  period: LeaderboardPeriod,
+  now: Date = new Date()
+): Promise<MemberPortfolioSummary> {
+  const periodStart = getPeriodStart(period, now);
+  const periodStartKey = periodStart.toISOString().split("T")[0];
+  const lookbackStart = new Date(periodStart);
+  lookbackStart.setDate(lookbackStart.getDate() - BASELINE_LOOKBACK_DAYS);
+
+  const accounts = await prisma.brokerageAccount.findMany({
+    where: {
+      connection: {
+        snaptradeUser: { userId },
+      },
+    },
+    include: { positions: true },
+  });
+
+  const totalValue = accounts.reduce((sum, account) => sum + account.totalValue, 0);
+
+  const accountIds = accounts.map((account) => account.id);
+  const snapshots = await prisma.portfolioSnapshot.findMany({
+    where: {
+      accountId: { in: accountIds },
+      snapshotDate: { gte: lookbackStart },
+    },
+    orderBy: { snapshotDate: "asc" },
+  });
+
+  const valuesByDate = new Map<string, number>();
+  for (const snap of snapshots) {
+    const dateKey = snap.snapshotDate.toISOString().split("T")[0];
+    valuesByDate.set(dateKey, (valuesByDate.get(dateKey) || 0) + snap.totalValue);
+  }
+
+  // Baseline is the last snapshot on or before the period start (or the first one after)
+  const dates = Array.from(valuesByDate.keys()).sort();
+  const baselineIndex = Math.max(
+    0,
+    dates.findLastIndex((date) => date <= periodStartKey)
+  );
+  const valueSeries = dates
+    .slice(baselineIndex)
+    .map((date) => ({ date, value: valuesByDate.get(date)! }));
+
+  const cashFlows = valueSeries.length > 0
+    ? [...(await getCashFlowsByAccount(accountIds, new Date(valueSeries[0].date))).values()].flat()
+    : [];
+
+  return {
+    totalValue,
+    change: computePeriodChange(valueSeries, cashFlows),
+    positions: accounts.flatMap((account) => account.positions),
+  };
+}
+
+/**
+ * What other members see of a portfolio summary
+ * Positions opened within the member's activity delay are left out until it passes
+ */
+export function redactMemberPortfolio(
+  summary: MemberPortfolioSummary,
+  privacy: PrivacySettings,
+  now: Date = new Date()
+) {
+  const { totalValue, change } = summary;
+  const positions = summary.positions.filter(
+    (position) => !isDisclosureDelayed("POSITION_OPENED", position.createdAt, privacy, now)
+  );
+
+  return {
+    portfolioValue: redactPortfolioValue(totalValue, privacy),
+    performance: {
+      ...redactPerformance(change?.changeAmount ?? 0, change?.changePercent ?? 0, privacy),
+      twr: privacy.performance === "visible" ? change?.twr ?? null : null,
+      hasData: change !== null,
+    },
+    positions: {
+      count: positions.length,
+      data: redactPositions(positions, privacy),
+      privacyLevel: privacy.positions,
+    },
+    privacySettings: {
+      portfolioValue: privacy.portfolioValue,
+      performance: privacy.performance,
+      positions: privacy.positions,
+    },
+  };
+}
+
+/**
+ * Leaderboard order: best metric first, then members who hide performance (or have no
+ * snapshot history yet). Ties break on join date then user id so ranks don't shuffle
+ * between requests.
+ */
+export function compareLeaderboardMembers(a: RankableMember, b: RankableMember): number {
+  if (a.metricValue === null || b.metricValue === null) {
+    if (a.metricValue !== b.metricValue) return a.metricValue === null ? 1 : -1;
+  } else if (a.metricValue !== b.metricValue) {
+    return b.metricValue - a.metricValue;
+  }
+  const joinedDiff = a.joinedAt.getTime() - b.joinedAt.getTime();
+  return joinedDiff !== 0 ? joinedDiff : a.userId.localeCompare(b.userId);
+}
+
+/**
+ * Ranks on the default leaderboard (1D, percent) as other members see it, by user id
+ * Members who aren't ranked there are left out
+ */
+export async function getDailyLeaderboardRanks(
+  members: Array<{ userId: string; joinedAt: Date }>,
+  privacyByUser: Map<string, PrivacySettings>,
+  now: Date = new Date()
+): Promise<Map<string, number>> {
+  const entries = await Promise.all(
+    members.map(async (member): Promise<RankableMember> => {
+      const summary = await getMemberPortfolioSummary(member.userId, "1D", now);
+      const { performance } = redactMemberPortfolio(
+        summary,
+        privacyByUser.get(member.userId) ?? DEFAULT_PRIVACY,
+        now
+      );
+      return { ...member, metricValue: performance.hasData ? performance.changePercent : null };
+    })
+  );
+
+  const ranks = new Map<string, number>();
+  entries
+    .filter((entry) => entry.metricValue !== null)
+    .sort(compareLeaderboardMembers)
+    .forEach((entry, i) => ranks.set(entry.userId, i + 1));
+  return ranks;
+}
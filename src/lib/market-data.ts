@@ -0,0 +1,296 @@
+/**
+ * Market Data
+ * Quotes and daily closes from a pluggable provider, quotes cached in MarketDataCache
+ *
+ * - MarketDataProvider is the only thing that talks to a data vendor. The fixture provider
+ *   serves quotes from a JSON file (local development and tests); the HTTP provider calls a
+ *   Financial Modeling Prep compatible API
+ * - Daily closes aren't cached here; callers keep them in the price store (see benchmarks.ts)
+ * - getQuotes() answers from the cache and fetches only missing or stale symbols, in one
+ *   batch. Quotes go stale after a minute while the market is open and after 15 minutes
+ *   otherwise, since prices barely move outside the session
+ * - If the provider fails, stale cached quotes are served rather than nothing
+ *
+ * Provider selection (env):
+ *   MARKET_DATA_PROVIDER  "http" or "fixture" (defaults to "http" when an API key is set)
+ *   MARKET_DATA_API_KEY   API key for the HTTP provider
+ *   MARKET_DATA_API_URL   Base URL (defaults to https://financialmodelingprep.com/api/v3)
+ *   MARKET_DATA_FIXTURE   Path to a fixture file (defaults to the bundled lib/fixtures/quotes.json)
+ */
+
+import { readFile } from "fs/promises";
+import type { MarketDataCache } from "@prisma/client";
+import { prisma } from "./prisma";
+import { isMarketOpen } from "./market-hours";
+import type { DailyPrice } from "./price-history";
+import defaultFixture from "./fixtures/quotes.json";
+
+export const QUOTE_TTL_OPEN_MS = 60 * 1000;
+export const QUOTE_TTL_CLOSED_MS = 15 * 60 * 1000;
+
+const DEFAULT_API_URL = "https://financialmodelingprep.com/api/v3";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Symbols per HTTP request (keeps URLs well under length limits)
+const HTTP_BATCH_SIZE = 50;
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  change: number | null;
+  changePercent: number | null;
+  dayHigh: number | null;
+  dayLow: number | null;
+  volume: number | null;
+  asOf: Date; // When the quote was fetched from the provider
+}
+
+export type FixtureQuote = Omit<Quote, "asOf">;
+
+export interface MarketDataProvider {
+  name: string;
+  /**
+   * Quotes for a batch of symbols; symbols the provider doesn't know are left out
+   */
+  getQuotes(symbols: string[]): Promise<Quote[]>;
+  /**
+   * Daily closes for one symbol between two days (YYYY-MM-DD, inclusive), oldest first
+   */
+  getDailyCloses(symbol: string, from: string, to: string): Promise<DailyPrice[]>;
+}
+
+// ===== PROVIDERS =====
+
+/**
+ * Provider backed by fixture quotes: an array, or the path of a JSON file holding one
+ * Quotes are stamped with the current time so they never look stale. Daily closes are a
+ * smooth made-up series around the fixture price (weekdays only), the same on every call
+ */
+export function createFixtureProvider(source: FixtureQuote[] | string = defaultFixture): MarketDataProvider {
+  let fixtures: Promise<Map<string, FixtureQuote>> | null = null;
+
+  const load = async () => {
+    const quotes: FixtureQuote[] =
+      typeof source === "string" ? JSON.parse(await readFile(source, "utf8")) : source;
+    return new Map(quotes.map((quote) => [quote.symbol.toUpperCase(), quote]));
+  };
+
+  return {
+    name: "fixture",
+    async getQuotes(symbols) {
+      fixtures ??= load();
+      const bySymbol = await fixtures;
+      const asOf = new Date();
+
+      return symbols.flatMap((symbol) => {
+        const quote = bySymbol.get(symbol);
+        return quote ? [{ ...quote, symbol, asOf }] : [];
+      });
+    },
+    async getDailyCloses(symbol, from, to) {
+      fixtures ??= load();
+      const quote = (await fixtures).get(symbol);
+      if (!quote) return [];
+
+      const seed = [...symbol].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+      const closes: DailyPrice[] = [];
+
+      for (let day = Date.parse(from); day <= Date.parse(to); day += DAY_MS) {
+        const weekday = new Date(day).getUTCDay();
+        if (weekday === 0 || weekday === 6) continue;
+
+        const n = day / DAY_MS;
+        const swing = 0.06 * Math.sin(n / 29 + seed) + 0.02 * Math.sin(n / 7 + seed * 2);
+        closes.push({
+          date: new Date(day).toISOString().split("T")[0],
+          close: Math.round(quote.price * (1 + swing) * 100) / 100,
+        });
+      }
+
+      return closes;
+    },
+  };
+}
+
+/**
+ * Provider for Financial Modeling Prep compatible endpoints
+ * GET {baseUrl}/quote/{SYM1,SYM2,...}?apikey={apiKey}
+ * GET {baseUrl}/historical-price-full/{SYM}?from={YYYY-MM-DD}&to={YYYY-MM-DD}&apikey={apiKey}
+ */
+export function createHttpProvider(options: { apiKey: string; baseUrl?: string }): MarketDataProvider {
+  const baseUrl = (options.baseUrl ?? DEFAULT_API_URL).replace(/\/$/, "");
+
+  return {
+    name: "http",
+    async getQuotes(symbols) {
+      const quotes: Quote[] = [];
+      const asOf = new Date();
+
+      for (let i = 0; i < symbols.length; i += HTTP_BATCH_SIZE) {
+        const batch = symbols.slice(i, i + HTTP_BATCH_SIZE);
+        const url = `${baseUrl}/quote/${batch.map(encodeURIComponent).join(",")}?apikey=${encodeURIComponent(options.apiKey)}`;
+
+        const res = await fetch(url, { cache: "no-store" });
+        if (!res.ok) {
+          throw new Error(`Market data request failed with status ${res.status}`);
+        }
+
+        const rows: HttpQuoteRow[] = await res.json();
+        for (const row of Array.isArray(rows) ? rows : []) {
+          if (!row.symbol || typeof row.price !== "number") continue;
+          quotes.push({
+            symbol: row.symbol.toUpperCase(),
+            price: row.price,
+            change: row.change ?? null,
+            changePercent: row.changesPercentage ?? null,
+            dayHigh: row.dayHigh ?? null,
+            dayLow: row.dayLow ?? null,
+            volume: row.volume ?? null,
+            asOf,
+          });
+        }
+      }
+
+      return quotes;
+    },
+    async getDailyCloses(symbol, from, to) {
+      const url = `${baseUrl}/historical-price-full/${encodeURIComponent(symbol)}?from=${from}&to=${to}&apikey=${encodeURIComponent(options.apiKey)}`;
+
+      const res = await fetch(url, { cache: "no-store" });
+      if (!res.ok) {
+        throw new Error(`Market data request failed with status ${res.status}`);
+      }
+
+      const body: { historical?: HttpHistoricalRow[] } = await res.json();
+      return (Array.isArray(body?.historical) ? body.historical : [])
+        .filter((row): row is Required<HttpHistoricalRow> =>
+          typeof row.date === "string" && typeof row.close === "number"
+        )
+        .map((row) => ({ date: row.date, close: row.close }))
+        .sort((a, b) => a.date.localeCompare(b.date)); // Served newest first
+    },
+  };
+}
+
+/**
+ * The provider configured through the environment (created once per process)
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!defaultProvider) {
+    const apiKey = process.env.MARKET_DATA_API_KEY;
+    const useHttp = (process.env.MARKET_DATA_PROVIDER ?? (apiKey ? "http" : "fixture")) === "http";
+
+    if (useHttp && !apiKey) {
+      throw new Error("MARKET_DATA_API_KEY is required for the http market data provider");
+    }
+
+    defaultProvider = useHttp
+      ? createHttpProvider({ apiKey: apiKey!, baseUrl: process.env.MARKET_DATA_API_URL })
+      : createFixtureProvider(process.env.MARKET_DATA_FIXTURE || undefined);
+  }
+  return defaultProvider;
+}
+
+// ===== CACHE =====
+
+/**
+ * How long a cached quote stays fresh at `now`
+ */
+export function getQuoteTtl(now: Date = new Date()): number {
+  return isMarketOpen(now) ? QUOTE_TTL_OPEN_MS : QUOTE_TTL_CLOSED_MS;
+}
+
+/**
+ * Quotes for a batch of symbols, keyed by upper-case symbol
+ * Fresh cached quotes are reused; the rest are fetched from the provider in one call.
+ * Symbols with no quote anywhere are missing from the result.
+ */
+export async function getQuotes(
+  symbols: string[],
+  options: { provider?: MarketDataProvider; maxAgeMs?: number; now?: Date } = {}
+): Promise<Map<string, Quote>> {
+  const now = options.now ?? new Date();
+  const maxAgeMs = options.maxAgeMs ?? getQuoteTtl(now);
+  const wanted = [...new Set(symbols.map((symbol) => symbol.trim().toUpperCase()).filter(Boolean))];
+  const quotes = new Map<string, Quote>();
+  if (wanted.length === 0) return quotes;
+
+  const cached = await prisma.marketDataCache.findMany({
+    where: { symbol: { in: wanted } },
+  });
+  for (const row of cached) {
+    quotes.set(row.symbol, fromCacheRow(row));
+  }
+
+  const stale = wanted.filter((symbol) => {
+    const quote = quotes.get(symbol);
+    return !quote || now.getTime() - quote.asOf.getTime() > maxAgeMs;
+  });
+  if (stale.length === 0) return quotes;
+
+  try {
+    const provider = options.provider ?? getMarketDataProvider();
+    const fetched = await provider.getQuotes(stale);
+
+    await prisma.$transaction(
+      fetched.map((quote) => {
+        const data = {
+          currentPrice: quote.price,
+          change: quote.change,
+          changePercent: quote.changePercent,
+          dayHigh: quote.dayHigh,
+          dayLow: quote.dayLow,
+          volume: quote.volume === null ? null : BigInt(Math.round(quote.volume)),
+          lastUpdated: quote.asOf,
+        };
+        return prisma.marketDataCache.upsert({
+          where: { symbol: quote.symbol },
+          create: { symbol: quote.symbol, ...data },
+          update: data,
+        });
+      })
+    );
+
+    for (const quote of fetched) {
+      quotes.set(quote.symbol, quote);
+    }
+  } catch (error) {
+    // Stale prices beat an empty ticker; the next request will try again
+    console.error(`[MarketData] Failed to refresh ${stale.length} quote(s):`, error);
+  }
+
+  return quotes;
+}
+
+// ===== INTERNALS =====
+
+let defaultProvider: MarketDataProvider | null = null;
+
+interface HttpQuoteRow {
+  symbol?: string;
+  price?: number;
+  change?: number | null;
+  changesPercentage?: number | null;
+  dayHigh?: number | null;
+  dayLow?: number | null;
+  volume?: number | null;
+}
+
+interface HttpHistoricalRow {
+  date?: string;
+  close?: number;
+}
+
+function fromCacheRow(row: MarketDataCache): Quote {
+  return {
+    symbol: row.symbol,
+    price: row.currentPrice,
+    change: row.change,
+    changePercent: row.changePercent,
+    dayHigh: row.dayHigh,
+    dayLow: row.dayLow,
+    volume: row.volume === null ? null : Number(row.volume),
+    asOf: row.lastUpdated,
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Market Hours
+ * US equity market (NYSE) session boundaries in New York time
+ *
+ * - Regular session is 9:30-16:00 ET on weekdays
+ * - Full-day holidays follow the NYSE rules (Saturday holidays move to Friday, Sunday
+ *   holidays to Monday, except New Year's Day on a Saturday which isn't observed)
+ * - Early closes at 13:00 ET on July 3rd, the day after Thanksgiving and Christmas Eve
+ */
+
+export const MARKET_TIME_ZONE = "America/New_York";
+
+// Minutes after midnight New York time
+const MARKET_OPEN_MINUTES = 9 * 60 + 30;
+const MARKET_CLOSE_MINUTES = 16 * 60;
+const EARLY_CLOSE_MINUTES = 13 * 60;
+
+// Upper bound on consecutive days without a session (long weekend + holiday)
+const MAX_CLOSED_DAYS = 5;
+
+export interface MarketSession {
+  open: Date;
+  close: Date;
+}
+
+/**
+ * The regular session on the New York calendar day of `date` (null on weekends and holidays)
+ */
+export function getMarketSession(date: Date): MarketSession | null {
+  return getSessionForDay(getNewYorkDay(date));
+}
+
+/**
+ * Whether the regular session is in progress at `date`
+ */
+export function isMarketOpen(date: Date): boolean {
+  const session = getMarketSession(date);
+  return !!session && date >= session.open && date < session.close;
+}
+
+/**
+ * The last `count` sessions that have opened by `now` (including one in progress), oldest first
+ */
+export function getRecentSessions(count: number, now: Date): MarketSession[] {
+  const sessions: MarketSession[] = [];
+  let day = getNewYorkDay(now);
+
+  for (let i = 0; sessions.length < count && i < count * MAX_CLOSED_DAYS; i++) {
+    const session = getSessionForDay(day);
+    if (session && session.open.getTime() <= now.getTime()) {
+      sessions.unshift(session);
+    }
+    day = addDays(day, -1);
+  }
+
+  return sessions;
+}
+
+/**
+ * The first session close at or after `date` (weekends and holidays roll forward)
+ */
+export function getNextMarketClose(date: Date): Date {
+  let day = getNewYorkDay(date);
+
+  for (let i = 0; i <= MAX_CLOSED_DAYS; i++) {
+    const session = getSessionForDay(day);
+    if (session && session.close.getTime() >= date.getTime()) {
+      return session.close;
+    }
+    day = addDays(day, 1);
+  }
+
+  // Unreachable with the current calendar; fall back to a day later
+  return new Date(date.getTime() + 24 * 60 * 60 * 1000);
+}
+
+// ===== INTERNALS =====
+
+interface CalendarDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const holidayCache = new Map<number, { holidays: Set<string>; earlyCloses: Set<string> }>();
+
+function getSessionForDay(day: CalendarDay): MarketSession | null {
+  const weekday = getWeekday(day);
+  if (weekday === 0 || weekday === 6) return null;
+
+  const { holidays, earlyCloses } = getMarketCalendar(day.year);
+  const key = toKey(day);
+  if (holidays.has(key)) return null;
+
+  return {
+    open: atNewYorkTime(day, MARKET_OPEN_MINUTES),
+    close: atNewYorkTime(day, earlyCloses.has(key) ? EARLY_CLOSE_MINUTES : MARKET_CLOSE_MINUTES),
+  };
+}
+
+/**
+ * NYSE holidays and early closes for a year, as YYYY-MM-DD keys
+ */
+function getMarketCalendar(year: number) {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const observed = (day: CalendarDay) => {
+    const weekday = getWeekday(day);
+    return weekday === 6 ? addDays(day, -1) : weekday === 0 ? addDays(day, 1) : day;
+  };
+
+  const newYear = { year, month: 1, day: 1 };
+  const thanksgiving = getNthWeekday(year, 11, 4, 4);
+
+  const holidays = [
+    ...(getWeekday(newYear) === 6 ? [] : [observed(newYear)]),
+    getNthWeekday(year, 1, 1, 3), // Martin Luther King Jr. Day
+    getNthWeekday(year, 2, 1, 3), // Presidents' Day
+    addDays(getEasterSunday(year), -2), // Good Friday
+    getLastWeekday(year, 5, 1), // Memorial Day
+    ...(year >= 2022 ? [observed({ year, month: 6, day: 19 })] : []), // Juneteenth
+    observed({ year, month: 7, day: 4 }),
+    getNthWeekday(year, 9, 1, 1), // Labor Day
+    thanksgiving,
+    observed({ year, month: 12, day: 25 }),
+  ].map(toKey);
+
+  const holidaySet = new Set(holidays);
+  const earlyCloses = [
+    { year, month: 7, day: 3 },
+    addDays(thanksgiving, 1),
+    { year, month: 12, day: 24 },
+  ].filter((day) => {
+    const weekday = getWeekday(day);
+    return weekday !== 0 && weekday !== 6 && !holidaySet.has(toKey(day));
+  });
+
+  const calendar = { holidays: holidaySet, earlyCloses: new Set(earlyCloses.map(toKey)) };
+  holidayCache.set(year, calendar);
+  return calendar;
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): CalendarDay {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { year, month, day };
+}
+
+// nth (1-based) occurrence of a weekday (0 = Sunday) in a month
+function getNthWeekday(year: number, month: number, weekday: number, n: number): CalendarDay {
+  const first = getWeekday({ year, month, day: 1 });
+  return { year, month, day: 1 + ((weekday - first + 7) % 7) + (n - 1) * 7 };
+}
+
+function getLastWeekday(year: number, month: number, weekday: number): CalendarDay {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const last = getWeekday({ year, month, day: lastDay });
+  return { year, month, day: lastDay - ((last - weekday + 7) % 7) };
+}
+
+function getWeekday(day: CalendarDay): number {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+}
+
+function addDays(day: CalendarDay, days: number): CalendarDay {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function toKey(day: CalendarDay): string {
+  return `${day.year}-${String(day.month).padStart(2, "0")}-${String(day.day).padStart(2, "0")}`;
+}
+
+/**
+ * The instant at `minutes` past midnight New York time on a New York calendar day
+ */
+function atNewYorkTime(day: CalendarDay, minutes: number): Date {
+  const wallClock = Date.UTC(day.year, day.month - 1, day.day, 0, minutes);
+
+  // Offset at the target wall-clock time (handles DST changes)
+  const guess = new Date(wallClock - getNewYorkOffset(new Date(wallClock)));
+  return new Date(wallClock - getNewYorkOffset(guess));
+}
+
+/**
+ * New York's UTC offset in milliseconds at an instant (negative, e.g. -4h during EDT)
+ */
+function getNewYorkOffset(date: Date): number {
+  const { year, month, day, hour, minute } = getNewYorkParts(date);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  return wallClock - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+function getNewYorkDay(date: Date): CalendarDay {
+  const { year, month, day } = getNewYorkParts(date);
+  return { year, month, day };
+}
+
+function getNewYorkParts(date: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: MARKET_TIME_ZONE,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hour: value("hour"),
+    minute: value("minute"),
+  };
+}
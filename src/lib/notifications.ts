@@ -0,0 +1,548 @@
+/**
+ * Notifications
+ * Fans workspace events out to the members they concern, and shapes them for the bell
+ *
+ * - The actor is never notified, nor members who muted the workspace or turned off both
+ *   the event's channels (preferences live under `notifications` in User.settings)
+ * - One row serves both channels: the bell only lists types with in-app on, and the
+ *   email digest only types with email on
+ * - Actors are stored by id and redacted for the recipient when read, so anonymous
+ *   members show up under their pseudonym
+ * - A repeat of an unread notification (e.g. toggling the same reaction) isn't sent again,
+ *   and a member passing you is only announced once a day
+ * - Leaderboard passes compare the daily leaderboard with the ranks stored on the last
+ *   check, which runs after each portfolio sync except the intraday ones
+ * - Fan-out failures are logged rather than thrown: the change itself has already been saved
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getDailyLeaderboardRanks } from "./leaderboard";
+import { redactIdentity, resolveWorkspacePrivacy, type ResolvedPrivacy } from "./privacy";
+import {
+  DigestFrequencySchema,
+  NotificationPreferencesSchema,
+  NotificationTypeSchema,
+  type Notification,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationsQuery,
+  type NotificationType,
+  type UpdateNotificationPreferencesRequest,
+} from "./validations/notifications";
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  events: {
+    COMMENT: { in_app: true, email: true },
+    REACTION: { in_app: true, email: false },
+    MENTION: { in_app: true, email: true },
+    LEADERBOARD_PASSED: { in_app: true, email: true },
+    IDEA_POSTED: { in_app: true, email: true },
+  },
+  mutedWorkspaceIds: [],
+  digest: "off",
+};
+
+const PREVIEW_LENGTH = 140;
+const MAX_MENTIONS = 10;
+
+// @username, not inside an email address
+const MENTION_PATTERN = /(?<![\w@.])@([A-Za-z0-9_][A-Za-z0-9_.-]{0,31})/g;
+
+// Type-specific details stored in Notification.data
+export interface NotificationData {
+  activityId?: string;
+  ideaId?: string;
+  channelId?: string;
+  channelName?: string;
+  symbol?: string | null;
+  direction?: string;
+  emoji?: string;
+  excerpt?: string;
+  rank?: number;
+  dedupeKey?: string;
+}
+
+interface NotifyInput {
+  type: NotificationType;
+  workspaceId: string;
+  actorId: string;
+  recipientIds: string[];
+  data: NotificationData;
+  dedupeRead?: boolean; // Also skip repeats of a dedupeKey the recipient has already read
+}
+
+// ===== PREFERENCES =====
+
+/**
+ * A user's preferences from User.settings, filling gaps with the defaults
+ */
+export function parseNotificationPreferences(settings: unknown): NotificationPreferences {
+  const stored = (settings as { notifications?: Partial<NotificationPreferences> } | null)?.notifications;
+  if (!stored || typeof stored !== "object") return DEFAULT_NOTIFICATION_PREFERENCES;
+
+  const merged = mergeNotificationPreferences(DEFAULT_NOTIFICATION_PREFERENCES, {
+    events: stored.events,
+    mutedWorkspaceIds: Array.isArray(stored.mutedWorkspaceIds) ? stored.mutedWorkspaceIds : undefined,
+    digest: DigestFrequencySchema.safeParse(stored.digest).data,
+  });
+  const result = NotificationPreferencesSchema.safeParse(merged);
+  return result.success ? result.data : DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+export function mergeNotificationPreferences(
+  current: NotificationPreferences,
+  patch: UpdateNotificationPreferencesRequest
+): NotificationPreferences {
+  const events = { ...current.events };
+  for (const type of NotificationTypeSchema.options) {
+    const channels = patch.events?.[type];
+    if (channels) events[type] = { ...events[type], ...channels };
+  }
+
+  return {
+    events,
+    mutedWorkspaceIds: patch.mutedWorkspaceIds ?? current.mutedWorkspaceIds,
+    digest: patch.digest ?? current.digest,
+  };
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { settings: true },
+  });
+  return parseNotificationPreferences(user?.settings);
+}
+
+/**
+ * Apply a partial update, keeping other User.settings keys as they are
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  patch: UpdateNotificationPreferencesRequest
+): Promise<NotificationPreferences> {
+  return prisma.$transaction(async (tx) => {
+    // Lock the row so concurrent saves don't overwrite each other's changes to User.settings
+    await tx.$queryRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { settings: true },
+    });
+
+    const preferences = mergeNotificationPreferences(parseNotificationPreferences(user.settings), patch);
+    const settings = isJsonObject(user.settings) ? user.settings : {};
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        settings: { ...settings, notifications: preferences as unknown as Prisma.InputJsonValue },
+      },
+    });
+
+    return preferences;
+  });
+}
+
+// ===== FAN-OUT =====
+
+/**
+ * Someone commented on an activity or trade idea: tell its author, and anyone mentioned
+ */
+export async function notifyComment(input: {
+  workspaceId: string;
+  actorId: string;
+  authorId: string;
+  content: string;
+  activityId?: string;
+  ideaId?: string;
+  symbol?: string | null;
+}): Promise<void> {
+  const data: NotificationData = {
+    activityId: input.activityId,
+    ideaId: input.ideaId,
+    symbol: input.symbol,
+    excerpt: excerpt(input.content),
+  };
+
+  await notify({
+    type: "COMMENT",
+    workspaceId: input.workspaceId,
+    actorId: input.actorId,
+    recipientIds: [input.authorId],
+    data,
+  });
+  await notifyMentions({
+    workspaceId: input.workspaceId,
+    actorId: input.actorId,
+    content: input.content,
+    data,
+    excludeIds: [input.authorId],
+  });
+}
+
+/**
+ * Someone reacted to an activity: tell its author
+ */
+export async function notifyReaction(input: {
+  workspaceId: string;
+  actorId: string;
+  authorId: string;
+  activityId: string;
+  symbol: string | null;
+  emoji: string;
+}): Promise<void> {
+  await notify({
+    type: "REACTION",
+    workspaceId: input.workspaceId,
+    actorId: input.actorId,
+    recipientIds: [input.authorId],
+    data: {
+      activityId: input.activityId,
+      symbol: input.symbol,
+      emoji: input.emoji,
+      dedupeKey: `reaction:${input.activityId}:${input.actorId}:${input.emoji}`,
+    },
+  });
+}
+
+/**
+ * Tell members @mentioned by username in `content`
+ * Members in anonymous mode aren't known by their username, so they can't be mentioned
+ */
+export async function notifyMentions(input: {
+  workspaceId: string;
+  actorId: string;
+  content: string;
+  data: NotificationData;
+  excludeIds?: string[];
+}): Promise<void> {
+  const usernames = extractMentions(input.content);
+  if (usernames.length === 0) return;
+
+  try {
+    const [members, privacyByUser] = await Promise.all([
+      prisma.workspaceMember.findMany({
+        where: {
+          workspaceId: input.workspaceId,
+          user: {
+            OR: usernames.map((username) => ({ username: { equals: username, mode: "insensitive" as const } })),
+          },
+        },
+        select: { userId: true },
+      }),
+      resolveWorkspacePrivacy(input.workspaceId),
+    ]);
+
+    await notify({
+      type: "MENTION",
+      workspaceId: input.workspaceId,
+      actorId: input.actorId,
+      recipientIds: members
+        .map((member) => member.userId)
+        .filter((userId) => !privacyByUser.get(userId)?.anonymous && !input.excludeIds?.includes(userId)),
+      data: { ...input.data, excerpt: excerpt(input.content) },
+    });
+  } catch (error) {
+    console.error(`[Notifications] Failed to resolve mentions in ${input.workspaceId}:`, error);
+  }
+}
+
+/**
+ * A member posted a trade idea: tell the rest of the squad
+ */
+export async function notifyIdeaPosted(input: {
+  workspaceId: string;
+  actorId: string;
+  ideaId: string;
+  symbol: string;
+  direction: string;
+}): Promise<void> {
+  try {
+    const members = await prisma.workspaceMember.findMany({
+      where: { workspaceId: input.workspaceId },
+      select: { userId: true },
+    });
+
+    await notify({
+      type: "IDEA_POSTED",
+      workspaceId: input.workspaceId,
+      actorId: input.actorId,
+      recipientIds: members.map((member) => member.userId),
+      data: {
+        ideaId: input.ideaId,
+        symbol: input.symbol,
+        direction: input.direction,
+        dedupeKey: `idea:${input.ideaId}`,
+      },
+    });
+  } catch (error) {
+    console.error(`[Notifications] Failed to announce idea ${input.ideaId}:`, error);
+  }
+}
+
+/**
+ * Re-rank the daily leaderboard after `moverId`'s portfolio changed, and tell members
+ * they moved ahead of. Everyone's stored rank is updated for the next check.
+ */
+export async function notifyLeaderboardPasses(
+  workspaceId: string,
+  moverId: string,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const [members, privacyByUser] = await Promise.all([
+      prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        select: { userId: true, joinedAt: true, leaderboardRank: true },
+      }),
+      resolveWorkspacePrivacy(workspaceId),
+    ]);
+
+    const ranks = await getDailyLeaderboardRanks(members, privacyByUser, now);
+    const mover = members.find((member) => member.userId === moverId);
+    const moverBefore = mover?.leaderboardRank ?? null;
+    const moverNow = ranks.get(moverId) ?? null;
+
+    // Members who were ahead of the mover last time and are now behind
+    if (moverBefore !== null && moverNow !== null && moverNow < moverBefore) {
+      const passed = members.filter((member) => {
+        if (member.userId === moverId || member.leaderboardRank === null) return false;
+        const rank = ranks.get(member.userId);
+        return member.leaderboardRank < moverBefore && rank !== undefined && rank > moverNow;
+      });
+
+      // Ranks can swap back and forth during the day; each pass is only announced once
+      const day = now.toISOString().split("T")[0];
+      for (const member of passed) {
+        await notify({
+          type: "LEADERBOARD_PASSED",
+          workspaceId,
+          actorId: moverId,
+          recipientIds: [member.userId],
+          data: {
+            rank: ranks.get(member.userId),
+            dedupeKey: `leaderboard:${moverId}:${member.userId}:${day}`,
+          },
+          dedupeRead: true,
+        });
+      }
+    }
+
+    const changed = members.filter((member) => (ranks.get(member.userId) ?? null) !== member.leaderboardRank);
+    if (changed.length > 0) {
+      await prisma.$transaction(
+        changed.map((member) =>
+          prisma.workspaceMember.update({
+            where: { workspaceId_userId: { workspaceId, userId: member.userId } },
+            data: { leaderboardRank: ranks.get(member.userId) ?? null },
+          })
+        )
+      );
+    }
+  } catch (error) {
+    console.error(`[Notifications] Failed to check leaderboard passes in ${workspaceId}:`, error);
+  }
+}
+
+// ===== READING =====
+
+/**
+ * A page of the user's notifications for a channel, newest first, with actors redacted per workspace
+ */
+export async function getNotifications(
+  userId: string,
+  query: NotificationsQuery,
+  channel: NotificationChannel = "in_app"
+): Promise<{ notifications: Notification[]; hasMore: boolean; nextCursor?: string }> {
+  const rows = await prisma.notification.findMany({
+    where: {
+      userId,
+      type: { in: await getEnabledTypes(userId, channel) },
+      ...(query.unreadOnly && { readAt: null }),
+    },
+    include: {
+      workspace: { select: { name: true } },
+      actor: { select: { id: true, name: true, image: true } },
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    ...(query.before && { cursor: { id: query.before }, skip: 1 }),
+    take: query.limit + 1,
+  });
+
+  const hasMore = rows.length > query.limit;
+  const page = rows.slice(0, query.limit);
+
+  const workspaceIds = Array.from(new Set(page.map((row) => row.workspaceId)));
+  const privacyByWorkspace = new Map(
+    await Promise.all(
+      workspaceIds.map(async (workspaceId) => [workspaceId, await resolveWorkspacePrivacy(workspaceId)] as const)
+    )
+  );
+
+  const notifications = page.map((row) => {
+    const data = (row.data ?? {}) as NotificationData;
+    const privacyByUser = privacyByWorkspace.get(row.workspaceId) ?? new Map<string, ResolvedPrivacy>();
+    const actor = row.actor
+      ? redactIdentity({ userId: row.actor.id, ...row.actor }, privacyByUser.get(row.actor.id), {
+          workspaceId: row.workspaceId,
+          viewerId: userId,
+        })
+      : null;
+    const type = row.type as NotificationType;
+
+    return {
+      id: row.id,
+      type,
+      workspaceId: row.workspaceId,
+      workspaceName: row.workspace.name,
+      actorId: actor?.userId ?? null,
+      actorName: actor?.name ?? null,
+      actorImage: actor?.image ?? null,
+      title: describeNotification(type, actor?.name ?? "Someone", data),
+      preview: data.excerpt ?? null,
+      activityId: data.activityId ?? null,
+      ideaId: data.ideaId ?? null,
+      channelId: data.channelId ?? null,
+      readAt: row.readAt,
+      createdAt: row.createdAt,
+    };
+  });
+
+  return {
+    notifications,
+    hasMore,
+    nextCursor: hasMore ? page[page.length - 1].id : undefined,
+  };
+}
+
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  return prisma.notification.count({
+    where: { userId, type: { in: await getEnabledTypes(userId, "in_app") }, readAt: null },
+  });
+}
+
+/**
+ * Mark some of the user's notifications read (ids belonging to others are ignored)
+ */
+export async function markNotificationsRead(userId: string, ids: string[], now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { id: { in: ids }, userId, readAt: null },
+    data: { readAt: now },
+  });
+  return count;
+}
+
+export async function markAllNotificationsRead(userId: string, now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, readAt: null },
+    data: { readAt: now },
+  });
+  return count;
+}
+
+/**
+ * Usernames @mentioned in a message or comment, lowercased and de-duplicated
+ */
+export function extractMentions(content: string): string[] {
+  const usernames = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    // Trailing dots are sentence punctuation, not part of the name
+    usernames.add(match[1].replace(/\.+$/, "").toLowerCase());
+    if (usernames.size >= MAX_MENTIONS) break;
+  }
+  return Array.from(usernames);
+}
+
+// ===== INTERNALS =====
+
+async function notify(input: NotifyInput): Promise<void> {
+  const candidateIds = Array.from(new Set(input.recipientIds)).filter((id) => id !== input.actorId);
+  if (candidateIds.length === 0) return;
+
+  try {
+    const users = await prisma.user.findMany({
+      where: { id: { in: candidateIds } },
+      select: { id: true, settings: true },
+    });
+
+    let recipientIds = users
+      .filter((user) => {
+        const preferences = parseNotificationPreferences(user.settings);
+        const { in_app, email } = preferences.events[input.type];
+        return (
+          (in_app || (email && preferences.digest !== "off")) &&
+          !preferences.mutedWorkspaceIds.includes(input.workspaceId)
+        );
+      })
+      .map((user) => user.id);
+
+    if (input.data.dedupeKey && recipientIds.length > 0) {
+      const existing = await prisma.notification.findMany({
+        where: {
+          userId: { in: recipientIds },
+          type: input.type,
+          ...(!input.dedupeRead && { readAt: null }),
+          data: { path: ["dedupeKey"], equals: input.data.dedupeKey },
+        },
+        select: { userId: true },
+      });
+      const alreadyNotified = new Set(existing.map((notification) => notification.userId));
+      recipientIds = recipientIds.filter((id) => !alreadyNotified.has(id));
+    }
+
+    if (recipientIds.length === 0) return;
+
+    await prisma.notification.createMany({
+      data: recipientIds.map((userId) => ({
+        userId,
+        workspaceId: input.workspaceId,
+        actorId: input.actorId,
+        type: input.type,
+        data: input.data as Prisma.InputJsonValue,
+      })),
+    });
+  } catch (error) {
+    console.error(`[Notifications] Failed to send ${input.type} in ${input.workspaceId}:`, error);
+  }
+}
+
+function describeNotification(type: NotificationType, actorName: string, data: NotificationData): string {
+  const subject = data.ideaId
+    ? `${data.symbol ?? "trade"} idea`
+    : data.symbol
+    ? `${data.symbol} activity`
+    : "activity";
+
+  switch (type) {
+    case "COMMENT":
+      return `${actorName} commented on your ${subject}`;
+    case "REACTION":
+      return `${actorName} reacted${data.emoji ? ` ${data.emoji}` : ""} to your ${subject}`;
+    case "MENTION":
+      return data.channelName
+        ? `${actorName} mentioned you in #${data.channelName}`
+        : `${actorName} mentioned you in a comment`;
+    case "LEADERBOARD_PASSED":
+      return data.rank
+        ? `${actorName} passed you on today's leaderboard (you're now #${data.rank})`
+        : `${actorName} passed you on today's leaderboard`;
+    case "IDEA_POSTED":
+      return `${actorName} posted a ${data.direction ?? "new"} idea on ${data.symbol ?? "a stock"}`;
+  }
+}
+
+function excerpt(content: string): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+}
+
+function isJsonObject(value: Prisma.JsonValue | null): value is Prisma.JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function getEnabledTypes(userId: string, channel: NotificationChannel): Promise<NotificationType[]> {
+  const preferences = await getNotificationPreferences(userId);
+  return NotificationTypeSchema.options.filter((type) => preferences.events[type][channel]);
+}
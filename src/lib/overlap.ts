@@ -0,0 +1,142 @@
+/**
+ * Overlap
+ * How much squad members hold the same things, and how alike their returns move
+ *
+ * - Jaccard overlap compares the sets of tickers two members hold (shared / combined)
+ * - Weight overlap sums, ticker by ticker, the smaller of the two portfolio weights, so
+ *   100% means identical portfolios and 0% nothing in common
+ * - Crowded symbols are tickers held by more than one member, with their share of the
+ *   capital of members who share weights
+ * - Correlation is Pearson's r between two members' daily returns (portfolio-stats.ts),
+ *   over the days both have a return for
+ * - Members sharing tickers_only count towards ticker overlap but never towards weights
+ */
+
+import type { PeriodReturn } from "./portfolio-stats";
+import type { CrowdedSymbol } from "./validations/portfolio";
+
+// Fewer shared days than this gives a correlation too noisy to show
+export const MIN_CORRELATION_DAYS = 10;
+
+export interface MemberHoldings {
+  memberId: string;
+  symbols: Set<string>;
+  // Market value by symbol; null when the member doesn't share weights
+  values: Map<string, number> | null;
+  // Whether the member's values count towards the squad's capital
+  countsTowardsWeights: boolean;
+}
+
+/**
+ * Tickers held by more than one member, most holders first, then by share of squad capital
+ */
+export function getCrowdedSymbols(members: MemberHoldings[]): CrowdedSymbol[] {
+  const holders = new Map<string, string[]>();
+  for (const member of members) {
+    for (const symbol of member.symbols) {
+      holders.set(symbol, [...(holders.get(symbol) ?? []), member.memberId]);
+    }
+  }
+
+  const weighted = members.filter((member) => member.countsTowardsWeights && member.values);
+  const squadCapital = weighted.reduce((sum, member) => sum + totalValue(member.values!), 0);
+
+  return [...holders.entries()]
+    .filter(([, memberIds]) => memberIds.length > 1)
+    .map(([symbol, memberIds]) => ({
+      symbol,
+      holders: memberIds.length,
+      holderIds: memberIds,
+      squadWeight:
+        squadCapital > 0
+          ? (weighted.reduce((sum, member) => sum + (member.values!.get(symbol) ?? 0), 0) / squadCapital) * 100
+          : null,
+    }))
+    .sort(
+      (a, b) =>
+        b.holders - a.holders ||
+        (b.squadWeight ?? 0) - (a.squadWeight ?? 0) ||
+        a.symbol.localeCompare(b.symbol)
+    );
+}
+
+/**
+ * Jaccard overlap (%) of every pair of members' tickers; null if either holds nothing
+ */
+export function jaccardMatrix(members: MemberHoldings[]): Array<Array<number | null>> {
+  return pairwise(members, (a, b) => {
+    if (a.symbols.size === 0 || b.symbols.size === 0) return null;
+    const shared = [...a.symbols].filter((symbol) => b.symbols.has(symbol)).length;
+    return (shared / (a.symbols.size + b.symbols.size - shared)) * 100;
+  });
+}
+
+/**
+ * Weight overlap (%) of every pair of members; null unless both share weights
+ */
+export function weightOverlapMatrix(members: MemberHoldings[]): Array<Array<number | null>> {
+  return pairwise(members, (a, b) => {
+    if (!a.values || !b.values) return null;
+    const totalA = totalValue(a.values);
+    const totalB = totalValue(b.values);
+    if (totalA <= 0 || totalB <= 0) return null;
+
+    let overlap = 0;
+    for (const [symbol, value] of a.values) {
+      overlap += Math.min(value / totalA, (b.values.get(symbol) ?? 0) / totalB);
+    }
+    return overlap * 100;
+  });
+}
+
+/**
+ * Correlation of every pair of return series (null entries are members whose performance is hidden)
+ * Returns are matched on the same trading days; too few shared days gives null
+ */
+export function correlationMatrix(series: Array<PeriodReturn[] | null>): Array<Array<number | null>> {
+  const keyed = series.map((returns) =>
+    returns ? new Map(returns.map((point) => [`${point.since}|${point.date}`, point.returnPercent])) : null
+  );
+
+  return pairwise(keyed, (a, b) => {
+    if (!a || !b) return null;
+    const pairs = [...a.entries()].flatMap(([key, x]) => (b.has(key) ? [[x, b.get(key)!]] : []));
+    return pairs.length >= MIN_CORRELATION_DAYS ? pearson(pairs) : null;
+  });
+}
+
+// ===== INTERNALS =====
+
+function pairwise<T>(items: T[], compare: (a: T, b: T) => number | null): Array<Array<number | null>> {
+  // Symmetric, so each pair is computed once
+  const matrix = items.map(() => items.map((): number | null => null));
+  items.forEach((a, i) => {
+    for (let j = i; j < items.length; j++) {
+      matrix[i][j] = matrix[j][i] = compare(a, items[j]);
+    }
+  });
+  return matrix;
+}
+
+function totalValue(values: Map<string, number>): number {
+  return [...values.values()].reduce((sum, value) => sum + value, 0);
+}
+
+function pearson(pairs: number[][]): number | null {
+  const n = pairs.length;
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+
+  // A flat series (e.g. all cash) has no defined correlation
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
@@ -0,0 +1,326 @@
+/**
+ * Portfolio Stats
+ * Risk and performance statistics from the daily snapshot series
+ *
+ * - Daily returns come from the time-weighted return series (returns.ts), so deposits and
+ *   withdrawals never count as gains or losses
+ * - Only trading days are charted; a snapshot from a weekend or holiday rolls into the next
+ *   session's return
+ * - Volatility, Sharpe and Sortino are annualized over 252 trading days, against a flat
+ *   ANNUAL_RISK_FREE_RATE
+ * - Beta compares each return with the benchmark's return over the same days (benchmarks.ts)
+ * - Win rate counts positions closed in the period, i.e. bought and then fully sold within
+ *   the synced transaction history, with P/L at average cost
+ */
+
+import { prisma } from "./prisma";
+import { getBenchmarkSeries } from "./benchmarks";
+import { getPeriodStart } from "./leaderboard";
+import { getMarketSession } from "./market-hours";
+import { computeTwrSeries, getCashFlowsByAccount, type CashFlow } from "./returns";
+import type { PrivacySettings } from "./privacy";
+import type { DailyReturn, PortfolioStats, TimePeriod } from "./validations/portfolio";
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+// Roughly the 3-month T-bill yield; only shifts Sharpe and Sortino
+export const ANNUAL_RISK_FREE_RATE = 0.04;
+
+// Extra days to look back so a baseline snapshot exists across weekends/holidays
+const BASELINE_LOOKBACK_DAYS = 7;
+
+const QUANTITY_EPSILON = 1e-9;
+
+export interface PeriodReturn extends DailyReturn {
+  since: string; // The trading day the return is measured from
+}
+
+export interface ClosedPosition {
+  accountId: string;
+  symbol: string;
+  closedAt: Date;
+  realizedPL: number;
+}
+
+export interface StatsInputs {
+  returns: PeriodReturn[];
+  closedPositions: ClosedPosition[];
+}
+
+/**
+ * Daily returns and positions closed in the period for a set of accounts
+ */
+export async function loadStatsInputs(
+  accountIds: string[],
+  period: TimePeriod,
+  now: Date = new Date()
+): Promise<StatsInputs> {
+  if (accountIds.length === 0) return { returns: [], closedPositions: [] };
+
+  const periodStart = getPeriodStart(period, now);
+  const periodStartKey = periodStart.toISOString().split("T")[0];
+  const lookbackStart = new Date(periodStart);
+  lookbackStart.setDate(lookbackStart.getDate() - BASELINE_LOOKBACK_DAYS);
+
+  const snapshots = await prisma.portfolioSnapshot.findMany({
+    where: {
+      accountId: { in: accountIds },
+      snapshotDate: { gte: lookbackStart },
+    },
+    orderBy: { snapshotDate: "asc" },
+    select: { snapshotDate: true, totalValue: true },
+  });
+
+  const valuesByDate = new Map<string, number>();
+  for (const snap of snapshots) {
+    const dateKey = snap.snapshotDate.toISOString().split("T")[0];
+    valuesByDate.set(dateKey, (valuesByDate.get(dateKey) || 0) + snap.totalValue);
+  }
+
+  // Baseline is the last trading day on or before the period start (or the first one after)
+  const dates = Array.from(valuesByDate.keys()).filter(isTradingDay).sort();
+  const baselineIndex = Math.max(0, dates.findLastIndex((date) => date <= periodStartKey));
+  const valueSeries = dates
+    .slice(baselineIndex)
+    .map((date) => ({ date, value: valuesByDate.get(date)! }));
+
+  const [cashFlowsByAccount, closedPositions] = await Promise.all([
+    valueSeries.length > 0
+      ? getCashFlowsByAccount(accountIds, new Date(valueSeries[0].date))
+      : Promise.resolve(new Map<string, CashFlow[]>()),
+    getClosedPositions(accountIds, periodStart),
+  ]);
+
+  return {
+    returns: toPeriodReturns(computeTwrSeries(valueSeries, [...cashFlowsByAccount.values()].flat())),
+    closedPositions,
+  };
+}
+
+/**
+ * Equal-weighted average of several return series, day by day
+ * A day's average covers whoever has a return for it, like the squad chart's average
+ */
+export function averageReturns(series: PeriodReturn[][]): PeriodReturn[] {
+  const byDate = new Map<string, { since: string; sum: number; count: number }>();
+  for (const returns of series) {
+    for (const point of returns) {
+      const entry = byDate.get(point.date) || { since: point.since, sum: 0, count: 0 };
+      entry.since = point.since < entry.since ? point.since : entry.since;
+      entry.sum += point.returnPercent;
+      entry.count++;
+      byDate.set(point.date, entry);
+    }
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, entry]) => ({ date, since: entry.since, returnPercent: entry.sum / entry.count }));
+}
+
+/**
+ * Benchmark level (1 = the first date) on every day the return series touch
+ * Empty when the benchmark has no prices
+ */
+export async function getBenchmarkLevels(
+  symbol: string,
+  series: PeriodReturn[][],
+  now: Date = new Date()
+): Promise<Map<string, number>> {
+  const dates = [...new Set(series.flat().flatMap((point) => [point.since, point.date]))].sort();
+  const [benchmark] = await getBenchmarkSeries([symbol], dates, { now });
+
+  return new Map(
+    (benchmark?.history ?? []).map((point) => [point.date, 1 + point.returnPercent / 100])
+  );
+}
+
+/**
+ * Stats for one return series (and the positions closed alongside it)
+ */
+export function computePortfolioStats(
+  inputs: StatsInputs,
+  benchmark: { symbol: string; levels: Map<string, number> } | null
+): PortfolioStats {
+  const { returns } = inputs;
+  const daily = returns.map((point) => point.returnPercent / 100);
+  const riskFreeDaily = Math.pow(1 + ANNUAL_RISK_FREE_RATE, 1 / TRADING_DAYS_PER_YEAR) - 1;
+
+  // Growth of 1 through the period, for the total return and drawdowns
+  let growth = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  for (const r of daily) {
+    growth *= 1 + r;
+    peak = Math.max(peak, growth);
+    maxDrawdown = Math.min(maxDrawdown, growth / peak - 1);
+  }
+
+  const hasVariance = daily.length >= 2;
+  const mean = average(daily);
+  const deviation = hasVariance ? standardDeviation(daily) : 0;
+  const downsideDeviation = Math.sqrt(average(daily.map((r) => Math.min(0, r - riskFreeDaily) ** 2)));
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const sortedByReturn = [...returns].sort((a, b) => a.returnPercent - b.returnPercent);
+  const { current: greenStreak, longest: longestGreenStreak } = countGreenStreaks(daily);
+  const closed = summarizeClosedPositions(inputs.closedPositions);
+
+  return {
+    from: returns[0]?.since ?? null,
+    to: returns.at(-1)?.date ?? null,
+    tradingDays: returns.length,
+    totalReturn: returns.length > 0 ? (growth - 1) * 100 : null,
+    volatility: hasVariance ? deviation * annualize * 100 : null,
+    maxDrawdown: returns.length > 0 ? maxDrawdown * 100 : null,
+    currentDrawdown: returns.length > 0 ? (growth / peak - 1) * 100 : null,
+    sharpe: hasVariance && deviation > 0 ? ((mean - riskFreeDaily) / deviation) * annualize : null,
+    sortino: hasVariance && downsideDeviation > 0 ? ((mean - riskFreeDaily) / downsideDeviation) * annualize : null,
+    beta: benchmark ? computeBeta(returns, benchmark.levels) : null,
+    benchmark: benchmark?.symbol ?? null,
+    bestDay: toDailyReturn(sortedByReturn.at(-1)),
+    worstDay: toDailyReturn(sortedByReturn[0]),
+    greenStreak,
+    longestGreenStreak,
+    ...closed,
+  };
+}
+
+/**
+ * What other members see of a member's stats: everything or nothing, like `performance`
+ */
+export function redactPortfolioStats(stats: PortfolioStats, privacy: PrivacySettings): PortfolioStats | null {
+  return privacy.performance === "visible" ? stats : null;
+}
+
+// ===== INTERNALS =====
+
+function isTradingDay(dateKey: string): boolean {
+  // Midday UTC is the same calendar day in New York
+  return getMarketSession(new Date(`${dateKey}T17:00:00.000Z`)) !== null;
+}
+
+function toPeriodReturns(series: Array<{ date: string; returnPercent: number }>): PeriodReturn[] {
+  return series.slice(1).map((point, i) => ({
+    date: point.date,
+    since: series[i].date,
+    returnPercent: ((1 + point.returnPercent / 100) / (1 + series[i].returnPercent / 100) - 1) * 100,
+  }));
+}
+
+function toDailyReturn(point: PeriodReturn | undefined): DailyReturn | null {
+  return point ? { date: point.date, returnPercent: point.returnPercent } : null;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Sample standard deviation
+function standardDeviation(values: number[]): number {
+  const mean = average(values);
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function countGreenStreaks(daily: number[]): { current: number; longest: number } {
+  let current = 0;
+  let longest = 0;
+  for (const r of daily) {
+    current = r > 0 ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest };
+}
+
+/**
+ * Covariance of portfolio and benchmark returns over the same days, over the benchmark's variance
+ */
+function computeBeta(returns: PeriodReturn[], levels: Map<string, number>): number | null {
+  const pairs = returns.flatMap((point) => {
+    const start = levels.get(point.since);
+    const end = levels.get(point.date);
+    return start && end ? [{ portfolio: point.returnPercent / 100, benchmark: end / start - 1 }] : [];
+  });
+  if (pairs.length < 2) return null;
+
+  const portfolioMean = average(pairs.map((pair) => pair.portfolio));
+  const benchmarkMean = average(pairs.map((pair) => pair.benchmark));
+  let covariance = 0;
+  let variance = 0;
+  for (const pair of pairs) {
+    covariance += (pair.portfolio - portfolioMean) * (pair.benchmark - benchmarkMean);
+    variance += (pair.benchmark - benchmarkMean) ** 2;
+  }
+
+  return variance > 0 ? covariance / variance : null;
+}
+
+function summarizeClosedPositions(closed: ClosedPosition[]) {
+  const winningPositions = closed.filter((position) => position.realizedPL > 0).length;
+  return {
+    winRate: closed.length > 0 ? (winningPositions / closed.length) * 100 : null,
+    closedPositions: closed.length,
+    winningPositions,
+  };
+}
+
+/**
+ * Replay buys and sells per account and symbol at average cost; a position closes when a
+ * sell takes its quantity back to zero. Sells of shares bought before the synced history
+ * starts can't be costed and are skipped.
+ */
+async function getClosedPositions(accountIds: string[], since: Date): Promise<ClosedPosition[]> {
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      accountId: { in: accountIds },
+      type: { in: ["buy", "sell"] },
+      symbol: { not: null },
+    },
+    orderBy: { transactionDate: "asc" },
+    select: { accountId: true, type: true, symbol: true, quantity: true, price: true, amount: true, transactionDate: true },
+  });
+
+  const lots = new Map<string, { quantity: number; cost: number; realizedPL: number }>();
+  const closed: ClosedPosition[] = [];
+
+  for (const tx of transactions) {
+    const quantity = Math.abs(tx.quantity ?? 0);
+    if (!tx.symbol || quantity <= QUANTITY_EPSILON) continue;
+
+    const key = `${tx.accountId}:${tx.symbol}`;
+    const price = tx.price ?? Math.abs(tx.amount) / quantity;
+    const lot = lots.get(key) || { quantity: 0, cost: 0, realizedPL: 0 };
+
+    if (tx.type === "buy") {
+      lot.quantity += quantity;
+      lot.cost += quantity * price;
+      lots.set(key, lot);
+      continue;
+    }
+
+    if (lot.quantity <= QUANTITY_EPSILON) continue;
+
+    const sold = Math.min(quantity, lot.quantity);
+    const averageCost = lot.cost / lot.quantity;
+    lot.realizedPL += sold * (price - averageCost);
+    lot.cost -= sold * averageCost;
+    lot.quantity -= sold;
+
+    if (lot.quantity <= QUANTITY_EPSILON) {
+      if (tx.transactionDate >= since) {
+        closed.push({
+          accountId: tx.accountId,
+          symbol: tx.symbol,
+          closedAt: tx.transactionDate,
+          realizedPL: lot.realizedPL,
+        });
+      }
+      lots.delete(key);
+    } else {
+      lots.set(key, lot);
+    }
+  }
+
+  return closed;
+}
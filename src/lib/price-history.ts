@@ -0,0 +1,137 @@
+/**
+ * Price History
+ * Local store of daily closing prices, used to value holdings on past days
+ *
+ * - The snapshots sync stage records each position's current price for the day
+ *   (re-synced through the day, so the last sync of the day leaves the close)
+ * - Trade prices from synced transactions seed days we never observed, without
+ *   overwriting a price recorded from positions
+ * - Official closes from the market data provider (benchmarks) replace anything stored
+ * - Lookups carry the last known price forward over weekends, holidays and gaps
+ */
+
+import { prisma } from "./prisma";
+
+export type PriceSource = "position" | "transaction" | "provider";
+
+export interface PriceObservation {
+  symbol: string;
+  date: Date;
+  close: number;
+}
+
+export interface DailyPrice {
+  date: string; // YYYY-MM-DD
+  close: number;
+}
+
+/**
+ * Record closing prices, one per symbol per UTC day
+ * Position and provider prices replace whatever is stored for the day; transaction prices only fill gaps
+ */
+export async function recordPrices(
+  observations: PriceObservation[],
+  source: PriceSource
+): Promise<void> {
+  const valid = observations.filter((obs) => obs.symbol && isFinite(obs.close) && obs.close > 0);
+  if (valid.length === 0) return;
+
+  if (source === "transaction") {
+    await prisma.historicalPrice.createMany({
+      data: dedupeByDay(valid).map((obs) => ({ ...obs, source })),
+      skipDuplicates: true,
+    });
+    return;
+  }
+
+  if (source === "provider") {
+    // Closes arrive a year at a time, so replace in bulk rather than upserting each day
+    const rows = dedupeByDay(valid);
+    await prisma.$transaction([
+      prisma.historicalPrice.deleteMany({
+        where: { OR: rows.map((obs) => ({ symbol: obs.symbol, date: obs.date })) },
+      }),
+      prisma.historicalPrice.createMany({
+        data: rows.map((obs) => ({ ...obs, source })),
+      }),
+    ]);
+    return;
+  }
+
+  for (const obs of dedupeByDay(valid)) {
+    await prisma.historicalPrice.upsert({
+      where: { symbol_date: { symbol: obs.symbol, date: obs.date } },
+      create: { ...obs, source },
+      update: { close: obs.close, source },
+    });
+  }
+}
+
+/**
+ * Stored daily prices for a set of symbols between two days (inclusive), oldest first
+ */
+export async function getPriceHistory(
+  symbols: string[],
+  from: Date,
+  to: Date
+): Promise<Map<string, DailyPrice[]>> {
+  const bySymbol = new Map<string, DailyPrice[]>();
+  if (symbols.length === 0) return bySymbol;
+
+  const rows = await prisma.historicalPrice.findMany({
+    where: {
+      symbol: { in: symbols },
+      date: { gte: toDay(from), lte: toDay(to) },
+    },
+    orderBy: { date: "asc" },
+    select: { symbol: true, date: true, close: true },
+  });
+
+  for (const row of rows) {
+    const prices = bySymbol.get(row.symbol) || [];
+    prices.push({ date: toDateKey(row.date), close: row.close });
+    bySymbol.set(row.symbol, prices);
+  }
+
+  return bySymbol;
+}
+
+/**
+ * Price on a day from a sorted price series: the last close on or before the day,
+ * or the first one after it for days before the series starts (null if empty)
+ */
+export function findPriceOnDay(prices: DailyPrice[], dateKey: string): number | null {
+  if (prices.length === 0) return null;
+
+  let price = prices[0].close;
+  for (const point of prices) {
+    if (point.date > dateKey) break;
+    price = point.close;
+  }
+  return price;
+}
+
+/**
+ * UTC midnight of a date's UTC day
+ */
+export function toDay(date: Date): Date {
+  return new Date(`${toDateKey(date)}T00:00:00.000Z`);
+}
+
+/**
+ * A date's UTC day as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// ===== INTERNALS =====
+
+// Keep the last observation per symbol per day, keyed to the day's UTC midnight
+function dedupeByDay(observations: PriceObservation[]): PriceObservation[] {
+  const byKey = new Map<string, PriceObservation>();
+  for (const obs of observations) {
+    byKey.set(`${obs.symbol}:${toDateKey(obs.date)}`, { ...obs, date: toDay(obs.date) });
+  }
+  return [...byKey.values()];
+}
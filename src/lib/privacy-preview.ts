@@ -0,0 +1,109 @@
+/**
+ * Privacy Preview
+ * "View as member": runs a user's own data through the same redaction other members get
+ *
+ * Draft settings (unsaved toggles) replace the saved defaults, then go through the normal
+ * resolution (workspace override, minimums, enforced transparency) so the preview matches
+ * what would actually be shown after saving.
+ */
+
+import { prisma } from "./prisma";
+import { getMemberPortfolioSummary, redactMemberPortfolio } from "./leaderboard";
+import { getPseudonym } from "./pseudonyms";
+import {
+  getPerformancePrivacyLevel,
+  isDisclosureDelayed,
+  parsePrivacySettings,
+  parseWorkspacePrivacyPolicy,
+  redactActivity,
+  resolvePrivacySettings,
+  type PrivacySettings,
+} from "./privacy";
+import type { PrivacyPreview } from "./validations/workspace";
+
+const PREVIEW_ACTIVITY_LIMIT = 5;
+
+/**
+ * Build the payload other members of a workspace would receive about a user
+ * Returns null if the user isn't a member
+ */
+export async function buildPrivacyPreview(
+  userId: string,
+  workspaceId: string,
+  draft: Partial<PrivacySettings> = {}
+): Promise<PrivacyPreview | null> {
+  const member = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    include: {
+      workspace: { select: { privacyPolicy: true } },
+      user: { select: { privacyDefaults: true, name: true, image: true } },
+    },
+  });
+
+  if (!member) return null;
+
+  const privacy = resolvePrivacySettings(
+    { ...parsePrivacySettings(member.user.privacyDefaults), ...draft },
+    member.privacyOverride,
+    parseWorkspacePrivacyPolicy(member.workspace.privacyPolicy),
+    member.anonymous
+  );
+  const pseudonym = privacy.anonymous ? getPseudonym(workspaceId, userId) : null;
+
+  const [summary, activities, watchlistCount] = await Promise.all([
+    getMemberPortfolioSummary(userId, "1D"),
+    prisma.workspaceActivity.findMany({
+      where: { workspaceId, userId, visibility: "workspace" },
+      orderBy: { createdAt: "desc" },
+      take: PREVIEW_ACTIVITY_LIMIT,
+    }),
+    prisma.workspaceWatchlist.count({ where: { workspaceId, addedBy: userId } }),
+  ]);
+
+  const now = new Date();
+  const { portfolioValue, performance, positions } = redactMemberPortfolio(summary, privacy, now);
+  const visibleActivities = activities
+    .map((activity) => redactActivity(activity, privacy, now))
+    .filter((activity) => activity !== null);
+  const delayedCount = activities.filter((activity) =>
+    isDisclosureDelayed(activity.type, activity.createdAt, privacy, now)
+  ).length;
+
+  return {
+    privacy,
+    identity: {
+      name: pseudonym?.name ?? member.user.name,
+      image: pseudonym?.image ?? member.user.image,
+      isAnonymous: privacy.anonymous,
+    },
+    leaderboard: {
+      portfolioValue,
+      performance,
+      positions: {
+        ...positions,
+        data: positions.data as Array<Record<string, unknown>>,
+      },
+    },
+    history: {
+      privacyLevel: getPerformancePrivacyLevel(privacy),
+    },
+    activity: {
+      items: visibleActivities.map((activity) => ({
+        id: activity.id,
+        type: activity.type,
+        symbol: activity.symbol,
+        quantity: activity.quantity,
+        price: activity.price,
+        value: activity.value,
+        metadata: activity.metadata,
+        createdAt: activity.createdAt,
+      })),
+      hiddenCount: activities.length - visibleActivities.length - delayedCount,
+      delayedCount,
+    },
+    watchlist: {
+      itemsAdded: watchlistCount,
+      attributed: privacy.watchlist === "visible",
+    },
+  };
+}
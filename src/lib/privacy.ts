@@ -0,0 +1,606 @@
+/**
+ * Privacy Engine
+ * Decides what workspace members can see of each other
+ *
+ * Resolution order (per field):
+ * 1. Workspace enforced transparency (overrides everything)
+ * 2. Member workspace override (can share MORE than user default)
+ * 3. User default privacy settings
+ * 4. Workspace minimum requirements (users can't share LESS than this)
+ *
+ * Routes resolve settings for a whole workspace with resolveWorkspacePrivacy and
+ * shape their responses with the redact* helpers, so every surface (leaderboard,
+ * history, activity, watchlist) gives the same answer for the same member.
+ * Names and avatars go through redactIdentity for members in anonymous mode.
+ * Trades and newly opened positions are held back until the member's activityDelay has passed.
+ */
+
+import { prisma } from "./prisma";
+import { getPseudonym, isPseudonymId } from "./pseudonyms";
+import { getNextMarketClose } from "./market-hours";
+
+// Privacy level types
+export type PortfolioValuePrivacy = "exact" | "approximate" | "hidden";
+export type PerformancePrivacy = "visible" | "hidden";
+export type PositionsPrivacy = "full" | "tickers_only" | "hidden";
+export type ActivityPrivacy = "full" | "without_amounts" | "hidden";
+export type WatchlistPrivacy = "visible" | "hidden";
+// How long trades and newly opened positions are held back from other members
+export type ActivityDelay = "none" | "1h" | "end_of_day" | "24h" | "7d";
+
+export interface PrivacySettings {
+  portfolioValue: PortfolioValuePrivacy;
+  performance: PerformancePrivacy;
+  positions: PositionsPrivacy;
+  activity: ActivityPrivacy;
+  watchlist: WatchlistPrivacy;
+  activityDelay: ActivityDelay;
+}
+
+export type PrivacySource = "enforced" | "workspace_override" | "user_default" | "workspace_minimum";
+
+export interface ResolvedPrivacy extends PrivacySettings {
+  source: PrivacySource;
+  // Shown under a per-workspace pseudonym (opted in and allowed by the workspace)
+  anonymous: boolean;
+}
+
+export interface WorkspacePrivacyPolicy {
+  minimumSharing?: Partial<PrivacySettings>;
+  enforcedTransparency: boolean;
+  allowAnonymousMode: boolean;
+}
+
+// Coarse level for a single piece of data (e.g. a chart line or an activity item)
+export type PrivacyLevel = "full" | "partial" | "hidden";
+
+// Default privacy settings (safe defaults)
+export const DEFAULT_PRIVACY: PrivacySettings = {
+  portfolioValue: "approximate",
+  performance: "visible",
+  positions: "tickers_only",
+  activity: "without_amounts",
+  watchlist: "visible",
+  activityDelay: "none",
+};
+
+export const FULL_TRANSPARENCY: PrivacySettings = {
+  portfolioValue: "exact",
+  performance: "visible",
+  positions: "full",
+  activity: "full",
+  watchlist: "visible",
+  activityDelay: "none",
+};
+
+// Levels for each setting, least to most revealing
+export const PRIVACY_LEVEL_ORDER: Record<keyof PrivacySettings, readonly string[]> = {
+  portfolioValue: ["hidden", "approximate", "exact"],
+  performance: ["hidden", "visible"],
+  positions: ["hidden", "tickers_only", "full"],
+  activity: ["hidden", "without_amounts", "full"],
+  watchlist: ["hidden", "visible"],
+  activityDelay: ["7d", "24h", "end_of_day", "1h", "none"],
+};
+
+const PRIVACY_FIELDS = Object.keys(PRIVACY_LEVEL_ORDER) as Array<keyof PrivacySettings>;
+
+// ===== PARSING =====
+
+/**
+ * Parse a partial settings object from JSON, dropping unknown fields and values
+ */
+export function parsePartialPrivacySettings(json: unknown): Partial<PrivacySettings> {
+  if (!json || typeof json !== "object") return {};
+
+  const source = json as Record<string, unknown>;
+  const settings: Partial<Record<keyof PrivacySettings, string>> = {};
+  for (const field of PRIVACY_FIELDS) {
+    const value = source[field];
+    if (typeof value === "string" && PRIVACY_LEVEL_ORDER[field].includes(value)) {
+      settings[field] = value;
+    }
+  }
+  return settings as Partial<PrivacySettings>;
+}
+
+/**
+ * Parse privacy settings from JSON, filling gaps with DEFAULT_PRIVACY
+ */
+export function parsePrivacySettings(json: unknown): PrivacySettings {
+  return { ...DEFAULT_PRIVACY, ...parsePartialPrivacySettings(json) };
+}
+
+/**
+ * Parse a workspace privacy policy from JSON (safe parsing with defaults)
+ */
+export function parseWorkspacePrivacyPolicy(json: unknown): WorkspacePrivacyPolicy {
+  if (!json || typeof json !== "object") {
+    return { enforcedTransparency: false, allowAnonymousMode: false };
+  }
+
+  const policy = json as Record<string, unknown>;
+  const minimumSharing = parsePartialPrivacySettings(policy.minimumSharing);
+
+  return {
+    minimumSharing: Object.keys(minimumSharing).length > 0 ? minimumSharing : undefined,
+    enforcedTransparency: policy.enforcedTransparency === true,
+    allowAnonymousMode: policy.allowAnonymousMode === true,
+  };
+}
+
+// ===== RESOLUTION =====
+
+/**
+ * Resolve a member's effective settings from already-loaded JSON
+ * Anonymous mode only applies if the workspace allows it
+ */
+export function resolvePrivacySettings(
+  userDefaults: unknown,
+  workspaceOverride: unknown,
+  policy: WorkspacePrivacyPolicy,
+  optedIntoAnonymous: boolean = false
+): ResolvedPrivacy {
+  const anonymous = policy.allowAnonymousMode && optedIntoAnonymous;
+
+  if (policy.enforcedTransparency) {
+    return { ...FULL_TRANSPARENCY, source: "enforced", anonymous };
+  }
+
+  const override = parsePartialPrivacySettings(workspaceOverride);
+  const chosen: PrivacySettings = { ...parsePrivacySettings(userDefaults), ...override };
+  const resolved = { ...chosen };
+
+  for (const field of PRIVACY_FIELDS) {
+    const minimum = policy.minimumSharing?.[field];
+    if (minimum) {
+      (resolved as Record<string, string>)[field] = maxPrivacy(field, chosen[field], minimum);
+    }
+  }
+
+  const raisedByMinimum = getMoreRevealingFields(chosen, resolved).length > 0;
+
+  return {
+    ...resolved,
+    source: raisedByMinimum
+      ? "workspace_minimum"
+      : Object.keys(override).length > 0
+        ? "workspace_override"
+        : "user_default",
+    anonymous,
+  };
+}
+
+/**
+ * Explain which step of the resolution order decided each field
+ */
+export function getPrivacyFieldSources(
+  userDefaults: unknown,
+  workspaceOverride: unknown,
+  policy: WorkspacePrivacyPolicy
+): Record<keyof PrivacySettings, PrivacySource> {
+  const override = parsePartialPrivacySettings(workspaceOverride);
+  const chosen: PrivacySettings = { ...parsePrivacySettings(userDefaults), ...override };
+
+  return Object.fromEntries(
+    PRIVACY_FIELDS.map((field) => {
+      const minimum = policy.minimumSharing?.[field];
+      const source: PrivacySource = policy.enforcedTransparency
+        ? "enforced"
+        : minimum && maxPrivacy(field, chosen[field], minimum) !== chosen[field]
+          ? "workspace_minimum"
+          : override[field]
+            ? "workspace_override"
+            : "user_default";
+      return [field, source];
+    })
+  ) as Record<keyof PrivacySettings, PrivacySource>;
+}
+
+/**
+ * Fields in `settings` that share less than the workspace allows
+ * Under enforced transparency anything short of full transparency is below the minimum
+ */
+export function getFieldsBelowMinimum(
+  settings: Partial<PrivacySettings>,
+  policy: WorkspacePrivacyPolicy
+): Array<keyof PrivacySettings> {
+  const minimum = policy.enforcedTransparency ? FULL_TRANSPARENCY : policy.minimumSharing ?? {};
+
+  return PRIVACY_FIELDS.filter((field) => {
+    const value = settings[field];
+    const required = minimum[field];
+    return !!value && !!required && maxPrivacy(field, value, required) !== value;
+  });
+}
+
+/**
+ * Resolve privacy settings for a single member of a workspace
+ */
+export async function resolvePrivacy(userId: string, workspaceId: string): Promise<ResolvedPrivacy> {
+  const member = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    include: {
+      workspace: { select: { privacyPolicy: true } },
+      user: { select: { privacyDefaults: true } },
+    },
+  });
+
+  if (!member) {
+    throw new Error("User is not a member of this workspace");
+  }
+
+  return resolvePrivacySettings(
+    member.user.privacyDefaults,
+    member.privacyOverride,
+    parseWorkspacePrivacyPolicy(member.workspace.privacyPolicy),
+    member.anonymous
+  );
+}
+
+/**
+ * Resolve privacy settings for every member of a workspace in one query
+ * Returns an empty map if the workspace doesn't exist
+ */
+export async function resolveWorkspacePrivacy(
+  workspaceId: string
+): Promise<Map<string, ResolvedPrivacy>> {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: {
+      privacyPolicy: true,
+      members: {
+        select: {
+          userId: true,
+          privacyOverride: true,
+          anonymous: true,
+          user: { select: { privacyDefaults: true } },
+        },
+      },
+    },
+  });
+
+  const resolved = new Map<string, ResolvedPrivacy>();
+  if (!workspace) return resolved;
+
+  const policy = parseWorkspacePrivacyPolicy(workspace.privacyPolicy);
+  for (const member of workspace.members) {
+    resolved.set(
+      member.userId,
+      resolvePrivacySettings(
+        member.user.privacyDefaults,
+        member.privacyOverride,
+        policy,
+        member.anonymous
+      )
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Fields where `after` reveals more than `before`
+ */
+export function getMoreRevealingFields(
+  before: PrivacySettings,
+  after: PrivacySettings
+): Array<keyof PrivacySettings> {
+  return PRIVACY_FIELDS.filter((field) => {
+    const order = PRIVACY_LEVEL_ORDER[field];
+    return order.indexOf(after[field]) > order.indexOf(before[field]);
+  });
+}
+
+// ===== REDACTION =====
+
+/**
+ * Format portfolio value based on privacy setting
+ */
+export function redactPortfolioValue(
+  value: number,
+  settings: PrivacySettings
+): {
+  display: string;
+  exact: number | null;
+  range: [number, number] | null;
+} {
+  switch (settings.portfolioValue) {
+    case "exact":
+      return {
+        display: `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        exact: value,
+        range: null,
+      };
+
+    case "approximate": {
+      // Round to nearest 10K range
+      const lower = Math.floor(value / 10000) * 10000;
+      const upper = lower + 10000;
+      const lowerDisplay = lower >= 1000 ? `$${(lower / 1000).toFixed(0)}K` : `$${lower.toLocaleString()}`;
+      const upperDisplay = upper >= 1000 ? `$${(upper / 1000).toFixed(0)}K` : `$${upper.toLocaleString()}`;
+
+      return {
+        display: `${lowerDisplay}-${upperDisplay}`,
+        exact: null,
+        range: [lower, upper],
+      };
+    }
+
+    case "hidden":
+      return {
+        display: "Hidden",
+        exact: null,
+        range: null,
+      };
+  }
+}
+
+/**
+ * The value a viewer may use in aggregates: exact, the middle of the approximate range, or null
+ */
+export function redactValue(value: number, settings: PrivacySettings): number | null {
+  const redacted = redactPortfolioValue(value, settings);
+  if (redacted.exact !== null) return redacted.exact;
+  if (redacted.range) return (redacted.range[0] + redacted.range[1]) / 2;
+  return null;
+}
+
+/**
+ * Format performance based on privacy setting
+ */
+export function redactPerformance(
+  changeAmount: number,
+  changePercent: number,
+  settings: PrivacySettings
+): {
+  changePercent: number | null;
+  changeAmount: number | null;
+} {
+  if (settings.performance === "visible") {
+    return { changePercent, changeAmount };
+  }
+  return { changePercent: null, changeAmount: null };
+}
+
+/**
+ * Filter positions based on privacy setting
+ */
+export function redactPositions<
+  T extends { symbol: string; securityName?: string | null; securityType?: string | null },
+>(positions: T[], settings: PrivacySettings) {
+  switch (settings.positions) {
+    case "full":
+      return positions;
+
+    case "tickers_only":
+      // Return only symbol, hide quantities and values
+      return positions.map((p) => ({
+        symbol: p.symbol,
+        securityName: p.securityName,
+        securityType: p.securityType,
+      }));
+
+    case "hidden":
+      return [];
+  }
+}
+
+/**
+ * Determine the overall privacy level for performance data
+ * Used to decide what to show in charts
+ */
+export function getPerformancePrivacyLevel(settings: PrivacySettings): PrivacyLevel {
+  if (settings.performance === "hidden" || settings.portfolioValue === "hidden") {
+    return "hidden";
+  }
+  return settings.portfolioValue === "exact" ? "full" : "partial";
+}
+
+/**
+ * Privacy level of an activity item, based on the setting that governs its type
+ * Trades follow `activity`, position changes follow `positions`, milestones follow `performance`
+ */
+export function getActivityPrivacyLevel(type: string, settings: PrivacySettings): PrivacyLevel {
+  if (type === "TRADE_BUY" || type === "TRADE_SELL") {
+    return settings.activity === "full" ? "full" : settings.activity === "without_amounts" ? "partial" : "hidden";
+  }
+
+  if (type.startsWith("POSITION_")) {
+    return settings.positions === "full" ? "full" : settings.positions === "tickers_only" ? "partial" : "hidden";
+  }
+
+  if (type === "MILESTONE_RETURN") {
+    return settings.performance === "visible" ? "full" : "hidden";
+  }
+
+  if (type.startsWith("MILESTONE_")) {
+    if (settings.performance === "visible") {
+      return settings.portfolioValue === "exact" ? "full" : "partial";
+    }
+    // New all-time highs are still announced, just without the amount
+    return type === "MILESTONE_ATH" ? "partial" : "hidden";
+  }
+
+  return "full";
+}
+
+/**
+ * When something that happened at `occurredAt` may be shown under the member's activity delay
+ */
+export function getDisclosureTime(occurredAt: Date, settings: PrivacySettings): Date {
+  switch (settings.activityDelay) {
+    case "none": return occurredAt;
+    case "1h": return new Date(occurredAt.getTime() + HOUR_MS);
+    case "end_of_day": return getNextMarketClose(occurredAt);
+    case "24h": return new Date(occurredAt.getTime() + 24 * HOUR_MS);
+    case "7d": return new Date(occurredAt.getTime() + 7 * 24 * HOUR_MS);
+  }
+}
+
+/**
+ * Whether an activity (or a position opened at `occurredAt`) is still held back by the delay
+ * Only trades and position changes are delayed; everything else is shown in real time
+ */
+export function isDisclosureDelayed(
+  type: string,
+  occurredAt: Date,
+  settings: PrivacySettings,
+  now: Date = new Date()
+): boolean {
+  if (!type.startsWith("TRADE_") && !type.startsWith("POSITION_")) return false;
+  return getDisclosureTime(occurredAt, settings).getTime() > now.getTime();
+}
+
+/**
+ * Redact an activity item for viewers
+ * Returns null when the item shouldn't be shown at all (including trades still inside the
+ * member's activity delay). The stored privacy level (from when the activity was generated)
+ * is respected if it's stricter than the current one.
+ */
+export function redactActivity<
+  T extends {
+    type: string;
+    quantity: number | null;
+    price: number | null;
+    value: number | null;
+    metadata: unknown;
+    createdAt: Date;
+  },
+>(activity: T, settings: PrivacySettings, now: Date = new Date()): T | null {
+  if (isDisclosureDelayed(activity.type, activity.createdAt, settings, now)) return null;
+
+  const metadata =
+    activity.metadata && typeof activity.metadata === "object"
+      ? (activity.metadata as Record<string, unknown>)
+      : {};
+  const level = minPrivacyLevel(
+    getActivityPrivacyLevel(activity.type, settings),
+    (metadata.privacyLevel as PrivacyLevel | undefined) ?? "full"
+  );
+
+  if (level === "hidden") return null;
+  if (level === "full") return activity;
+
+  const redactedMetadata = Object.fromEntries(
+    Object.entries(metadata).filter(([key]) => !AMOUNT_METADATA_KEYS.has(key))
+  );
+
+  return {
+    ...activity,
+    quantity: null,
+    price: null,
+    value: null,
+    metadata: { ...redactedMetadata, privacyLevel: level },
+  };
+}
+
+/**
+ * Hide who added a shared watchlist item when they keep their watchlist private
+ */
+export function redactWatchlistItem<T extends { addedBy: string; addedByUser: unknown }>(
+  item: T,
+  settings: PrivacySettings
+): Omit<T, "addedBy" | "addedByUser"> & {
+  addedBy: string | null;
+  addedByUser: T["addedByUser"] | null;
+} {
+  if (settings.watchlist === "visible") return item;
+  return { ...item, addedBy: null, addedByUser: null };
+}
+
+// ===== IDENTITY =====
+
+export interface MemberIdentity {
+  userId: string;
+  username: string | null;
+  name: string | null;
+  image: string | null;
+  isAnonymous: boolean;
+}
+
+/**
+ * How a member appears to a viewer: their real identity, or their workspace pseudonym
+ * if they're in anonymous mode (members always see themselves)
+ */
+export function redactIdentity(
+  member: { userId: string; username?: string | null; name?: string | null; image?: string | null },
+  privacy: Pick<ResolvedPrivacy, "anonymous"> | undefined,
+  context: { workspaceId: string; viewerId: string }
+): MemberIdentity {
+  if (!privacy?.anonymous || member.userId === context.viewerId) {
+    return {
+      userId: member.userId,
+      username: member.username ?? null,
+      name: member.name ?? null,
+      image: member.image ?? null,
+      isAnonymous: false,
+    };
+  }
+
+  const pseudonym = getPseudonym(context.workspaceId, member.userId);
+  return {
+    userId: pseudonym.id,
+    username: null,
+    name: pseudonym.name,
+    image: pseudonym.image,
+    isAnonymous: true,
+  };
+}
+
+/**
+ * Map a user id sent by a client back to a real user id
+ * Anonymous members can only be looked up by their pseudonym id (except by themselves),
+ * so a known real id can't be used to find out someone's pseudonym. Returns null for no match.
+ */
+export function resolveMemberId(
+  id: string,
+  privacyByUser: Map<string, ResolvedPrivacy>,
+  context: { workspaceId: string; viewerId: string }
+): string | null {
+  if (!isPseudonymId(id)) {
+    return privacyByUser.get(id)?.anonymous && id !== context.viewerId ? null : id;
+  }
+
+  for (const [userId, privacy] of privacyByUser) {
+    if (privacy.anonymous && getPseudonym(context.workspaceId, userId).id === id) {
+      return userId;
+    }
+  }
+  return null;
+}
+
+// ===== INTERNALS =====
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Metadata fields that reveal amounts and are removed from partially visible activities
+const AMOUNT_METADATA_KEYS = new Set([
+  "previousQuantity",
+  "newQuantity",
+  "averageCost",
+  "portfolioPercentage",
+  "gainLoss",
+  "gainLossPercent",
+  "previousValue",
+  "newValue",
+  "gain",
+  "gainPercent",
+]);
+
+const PRIVACY_LEVEL_RANK: Record<PrivacyLevel, number> = {
+  hidden: 0,
+  partial: 1,
+  full: 2,
+};
+
+/**
+ * Get the more permissive privacy setting between two options
+ */
+function maxPrivacy(field: keyof PrivacySettings, a: string, b: string): string {
+  const hierarchy = PRIVACY_LEVEL_ORDER[field];
+  return hierarchy.indexOf(a) > hierarchy.indexOf(b) ? a : b;
+}
+
+function minPrivacyLevel(a: PrivacyLevel, b: PrivacyLevel): PrivacyLevel {
+  return PRIVACY_LEVEL_RANK[a] <= PRIVACY_LEVEL_RANK[b] ? a : b;
+}
@@ -0,0 +1,96 @@
+/**
+ * Pseudonyms
+ * Stable aliases and generated avatars for members in anonymous mode
+ *
+ * Derived from an HMAC of the workspace and user ids, so a member keeps the same alias
+ * everywhere in one workspace but gets an unrelated one in every other workspace, and
+ * the alias can't be reversed without the server secret.
+ */
+
+import { createHmac } from "crypto";
+import { getServerSecret } from "./server-secret";
+
+const PSEUDONYM_ID_PREFIX = "anon_";
+
+const ADJECTIVES = [
+  "Amber", "Bold", "Brisk", "Calm", "Clever", "Cosmic", "Crimson", "Daring",
+  "Eager", "Fearless", "Gentle", "Golden", "Hidden", "Jolly", "Keen", "Lucky",
+  "Mellow", "Misty", "Nimble", "Patient", "Quiet", "Rapid", "Silent", "Silver",
+  "Steady", "Swift", "Tidal", "Velvet", "Vivid", "Wandering", "Wild", "Witty",
+];
+
+const ANIMALS = [
+  "Badger", "Bison", "Condor", "Coyote", "Falcon", "Ferret", "Fox", "Gecko",
+  "Heron", "Ibis", "Jackal", "Kestrel", "Koala", "Lynx", "Marten", "Moose",
+  "Narwhal", "Ocelot", "Osprey", "Otter", "Owl", "Panda", "Puffin", "Raven",
+  "Seal", "Stoat", "Tapir", "Tiger", "Walrus", "Weasel", "Wolf", "Yak",
+];
+
+// Identicon grid (columns are mirrored, so only the left half + middle are random)
+const AVATAR_GRID = 5;
+const AVATAR_CELL = 10;
+
+export interface Pseudonym {
+  id: string;
+  name: string;
+  image: string;
+}
+
+/**
+ * Alias, opaque id and avatar for a member of a workspace
+ */
+export function getPseudonym(workspaceId: string, userId: string): Pseudonym {
+  const digest = createHmac("sha256", getServerSecret())
+    .update(`${workspaceId}:${userId}`)
+    .digest();
+
+  const adjective = ADJECTIVES[digest[0] % ADJECTIVES.length];
+  const animal = ANIMALS[digest[1] % ANIMALS.length];
+  const number = 10 + (digest.readUInt16BE(2) % 90);
+
+  return {
+    id: `${PSEUDONYM_ID_PREFIX}${digest.subarray(4, 16).toString("hex")}`,
+    name: `${adjective} ${animal} ${number}`,
+    image: buildAvatar(digest),
+  };
+}
+
+/**
+ * Whether an id was produced by getPseudonym
+ */
+export function isPseudonymId(id: string): boolean {
+  return id.startsWith(PSEUDONYM_ID_PREFIX);
+}
+
+// ===== INTERNALS =====
+
+/**
+ * Symmetric identicon as an SVG data URI
+ */
+function buildAvatar(digest: Buffer): string {
+  const hue = digest.readUInt16BE(16) % 360;
+  const size = AVATAR_GRID * AVATAR_CELL;
+  const half = Math.ceil(AVATAR_GRID / 2);
+
+  const cells: string[] = [];
+  for (let row = 0; row < AVATAR_GRID; row++) {
+    for (let col = 0; col < half; col++) {
+      const bit = row * half + col;
+      if (((digest[18 + (bit >> 3)] >> (bit & 7)) & 1) === 0) continue;
+
+      for (const x of new Set([col, AVATAR_GRID - 1 - col])) {
+        cells.push(
+          `<rect x="${x * AVATAR_CELL}" y="${row * AVATAR_CELL}" width="${AVATAR_CELL}" height="${AVATAR_CELL}"/>`
+        );
+      }
+    }
+  }
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}">` +
+    `<rect width="${size}" height="${size}" fill="hsl(${hue},45%,92%)"/>` +
+    `<g fill="hsl(${hue},55%,45%)">${cells.join("")}</g>` +
+    `</svg>`;
+
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
@@ -0,0 +1,272 @@
+/**
+ * Returns Engine
+ * Cash-flow aware performance so deposits and withdrawals don't show up as gains
+ *
+ * - TWR: daily-linked time-weighted return (Modified Dietz per day, geometrically linked).
+ *   Measures the manager's skill independent of when money was added. Used for squad comparisons.
+ * - MWR: money-weighted return (XIRR). Measures what the investor actually earned on
+ *   the money they put in, so timing of deposits matters.
+ */
+
+import { prisma } from "./prisma";
+import type { ReturnMode, ReturnSummary } from "./validations/portfolio";
+
+// Transaction types that move money in or out of an account (not investment performance)
+export const CASH_FLOW_TYPES = ["deposit", "withdrawal"];
+
+export interface ValuePoint {
+  date: string; // YYYY-MM-DD (ISO timestamps for intraday series; flows then land on the day's first point)
+  value: number;
+}
+
+export interface CashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number; // Positive = money into the account, negative = money out
+}
+
+export interface ReturnPoint {
+  date: string;
+  returnPercent: number;
+}
+
+export interface PeriodChange {
+  changeAmount: number; // Value change minus net deposits
+  changePercent: number; // changeAmount over average capital (Modified Dietz)
+  twr: number; // Daily-linked time-weighted return (%)
+  netCashFlow: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Load deposits/withdrawals for a set of accounts, grouped by account
+ */
+export async function getCashFlowsByAccount(
+  accountIds: string[],
+  since: Date
+): Promise<Map<string, CashFlow[]>> {
+  const byAccount = new Map<string, CashFlow[]>();
+  if (accountIds.length === 0) return byAccount;
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      accountId: { in: accountIds },
+      type: { in: CASH_FLOW_TYPES },
+      transactionDate: { gte: since },
+    },
+    orderBy: { transactionDate: "asc" },
+    select: { accountId: true, type: true, amount: true, transactionDate: true },
+  });
+
+  for (const tx of transactions) {
+    const flows = byAccount.get(tx.accountId) || [];
+    flows.push(toCashFlow(tx));
+    byAccount.set(tx.accountId, flows);
+  }
+
+  return byAccount;
+}
+
+/**
+ * Normalize a deposit/withdrawal transaction into a signed cash flow
+ * Brokerages aren't consistent about signs, so the type decides the direction
+ */
+export function toCashFlow(tx: { type: string; amount: number; transactionDate: Date }): CashFlow {
+  const amount = Math.abs(tx.amount);
+  return {
+    date: tx.transactionDate.toISOString().split("T")[0],
+    amount: tx.type === "withdrawal" ? -amount : amount,
+  };
+}
+
+/**
+ * Daily-linked time-weighted return series
+ * Each sub-period return uses Modified Dietz (flows assumed mid-day):
+ *   r = (V_end - V_start - F) / (V_start + F / 2)
+ * and sub-period returns are chained: TWR = Π(1 + r) - 1
+ */
+export function computeTwrSeries(values: ValuePoint[], flows: CashFlow[]): ReturnPoint[] {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) return [];
+
+  const series: ReturnPoint[] = [{ date: sorted[0].date, returnPercent: 0 }];
+  let growth = 1;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const start = sorted[i - 1];
+    const end = sorted[i];
+    const flow = sumFlowsBetween(flows, start.date, end.date);
+
+    const denominator = start.value + flow / 2;
+    const periodReturn = denominator > 0 ? (end.value - start.value - flow) / denominator : 0;
+
+    // Guard against broken snapshots (e.g. a $0 balance from a failed sync)
+    if (isFinite(periodReturn) && periodReturn > -1) {
+      growth *= 1 + periodReturn;
+    }
+
+    series.push({ date: end.date, returnPercent: (growth - 1) * 100 });
+  }
+
+  return series;
+}
+
+/**
+ * Money-weighted return series
+ * For each point, solves XIRR from the first point to that point and
+ * de-annualizes it to a return over the elapsed window
+ */
+export function computeMwrSeries(values: ValuePoint[], flows: CashFlow[]): ReturnPoint[] {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) return [];
+
+  const startDate = sorted[0].date;
+
+  return sorted.map((point) => {
+    const days = daysBetween(startDate, point.date);
+    if (days === 0) return { date: point.date, returnPercent: 0 };
+
+    const annualized = computeXirr(buildInvestorFlows(sorted[0], point, flows));
+    const periodReturn = annualized === null ? 0 : Math.pow(1 + annualized, days / 365) - 1;
+
+    return { date: point.date, returnPercent: periodReturn * 100 };
+  });
+}
+
+/**
+ * Return series for the requested mode (null for "value", which charts raw values)
+ */
+export function computeReturnSeries(
+  mode: ReturnMode,
+  values: ValuePoint[],
+  flows: CashFlow[]
+): ReturnPoint[] | null {
+  if (mode === "twr") return computeTwrSeries(values, flows);
+  if (mode === "mwr") return computeMwrSeries(values, flows);
+  return null;
+}
+
+/**
+ * Headline TWR / MWR numbers for a value series
+ */
+export function computeReturnSummary(values: ValuePoint[], flows: CashFlow[]): ReturnSummary {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) {
+    return { twr: null, mwr: null, netCashFlow: 0 };
+  }
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const twr = computeTwrSeries(sorted, flows).at(-1)?.returnPercent ?? null;
+  const mwr = computeXirr(buildInvestorFlows(first, last, flows));
+
+  return {
+    twr,
+    mwr: mwr === null ? null : mwr * 100,
+    netCashFlow: sumFlowsBetween(flows, first.date, last.date),
+  };
+}
+
+/**
+ * Cash-flow adjusted change between the first and last point of a value series
+ * Returns null when there aren't two points to compare
+ */
+export function computePeriodChange(values: ValuePoint[], flows: CashFlow[]): PeriodChange | null {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < 2) return null;
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const netCashFlow = sumFlowsBetween(flows, first.date, last.date);
+  const changeAmount = last.value - first.value - netCashFlow;
+  const averageCapital = first.value + netCashFlow / 2;
+
+  return {
+    changeAmount,
+    changePercent: averageCapital > 0 ? (changeAmount / averageCapital) * 100 : 0,
+    twr: computeTwrSeries(sorted, flows).at(-1)?.returnPercent ?? 0,
+    netCashFlow,
+  };
+}
+
+/**
+ * Annualized internal rate of return for irregularly spaced cash flows
+ * Newton-Raphson with a bisection fallback. Returns null when there is no solution
+ * (e.g. all flows have the same sign).
+ */
+export function computeXirr(flows: Array<{ date: string; amount: number }>): number | null {
+  if (flows.length < 2) return null;
+  if (!flows.some((f) => f.amount > 0) || !flows.some((f) => f.amount < 0)) return null;
+
+  const t0 = flows[0].date;
+  const terms = flows.map((f) => ({ years: daysBetween(t0, f.date) / 365, amount: f.amount }));
+
+  const npv = (rate: number) =>
+    terms.reduce((sum, t) => sum + t.amount / Math.pow(1 + rate, t.years), 0);
+  const dNpv = (rate: number) =>
+    terms.reduce((sum, t) => sum - (t.years * t.amount) / Math.pow(1 + rate, t.years + 1), 0);
+
+  // Newton-Raphson
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const derivative = dNpv(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    if (derivative === 0 || !isFinite(derivative)) break;
+
+    const next = rate - value / derivative;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bisection fallback
+  let low = -0.9999;
+  let high = 10;
+  let npvLow = npv(low);
+  if (npvLow * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 1e-7) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+// ===== HELPERS =====
+
+/**
+ * Cash flows from the investor's point of view: starting balance and deposits are
+ * money paid in (negative), withdrawals and the ending balance are money received
+ */
+function buildInvestorFlows(start: ValuePoint, end: ValuePoint, flows: CashFlow[]) {
+  const investorFlows = [{ date: start.date, amount: -start.value }];
+
+  for (const flow of flows) {
+    if (flow.date > start.date && flow.date <= end.date) {
+      investorFlows.push({ date: flow.date, amount: -flow.amount });
+    }
+  }
+
+  investorFlows.push({ date: end.date, amount: end.value });
+  return investorFlows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Net flows in (startDate, endDate]
+function sumFlowsBetween(flows: CashFlow[], startDate: string, endDate: string): number {
+  return flows
+    .filter((f) => f.date > startDate && f.date <= endDate)
+    .reduce((sum, f) => sum + f.amount, 0);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY);
+}
@@ -0,0 +1,115 @@
+/**
+ * Security Classification
+ * Sector, industry, asset class and country for each symbol, used by allocation breakdowns
+ *
+ * - A seed table of common stocks, ETFs and crypto ships in lib/fixtures/securities.json
+ * - SecurityClassification rows add symbols the seed doesn't know and override the ones it does;
+ *   saveSecurityClassifications() is the way to extend the table
+ * - Unknown symbols fall back to "Unclassified", with the asset class guessed from the
+ *   position's security type (as synced from the brokerage)
+ */
+
+import { prisma } from "./prisma";
+import seedTable from "./fixtures/securities.json";
+
+export const UNCLASSIFIED = "Unclassified";
+
+export type AssetClass = "Equity" | "ETF" | "Mutual Fund" | "Bond" | "Crypto" | "Option" | "Cash" | "Other";
+
+export interface SecurityClassification {
+  symbol: string;
+  sector: string;
+  industry: string | null;
+  assetClass: string;
+  country: string | null;
+}
+
+// Seed entries by symbol
+const SEED = new Map<string, SecurityClassification>(
+  (seedTable as Array<Omit<SecurityClassification, "industry" | "country"> & { industry?: string; country?: string }>)
+    .map((entry) => [
+      entry.symbol.toUpperCase(),
+      { ...entry, symbol: entry.symbol.toUpperCase(), industry: entry.industry ?? null, country: entry.country ?? null },
+    ])
+);
+
+/**
+ * Classify securities by symbol: stored classifications first, then the seed, then a fallback
+ * from the security type
+ */
+export async function classifySecurities(
+  securities: Array<{ symbol: string; securityType?: string | null }>
+): Promise<Map<string, SecurityClassification>> {
+  const symbols = [...new Set(securities.map((security) => security.symbol.toUpperCase()))];
+  if (symbols.length === 0) return new Map();
+
+  const stored = await prisma.securityClassification.findMany({
+    where: { symbol: { in: symbols } },
+  });
+  const storedBySymbol = new Map(stored.map((row) => [row.symbol, row]));
+
+  const result = new Map<string, SecurityClassification>();
+  for (const security of securities) {
+    const symbol = security.symbol.toUpperCase();
+    if (result.has(symbol)) continue;
+
+    const row = storedBySymbol.get(symbol);
+    result.set(
+      symbol,
+      row
+        ? { symbol, sector: row.sector, industry: row.industry, assetClass: row.assetClass, country: row.country }
+        : SEED.get(symbol) ?? {
+            symbol,
+            sector: UNCLASSIFIED,
+            industry: null,
+            assetClass: assetClassFromSecurityType(security.securityType),
+            country: null,
+          }
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Add or replace classifications (e.g. from a reference data provider or an admin import)
+ */
+export async function saveSecurityClassifications(
+  entries: SecurityClassification[],
+  source: "manual" | "provider" = "manual"
+): Promise<void> {
+  await prisma.$transaction(
+    entries.map((entry) => {
+      const data = {
+        sector: entry.sector,
+        industry: entry.industry,
+        assetClass: entry.assetClass,
+        country: entry.country,
+        source,
+      };
+      return prisma.securityClassification.upsert({
+        where: { symbol: entry.symbol.toUpperCase() },
+        create: { symbol: entry.symbol.toUpperCase(), ...data },
+        update: data,
+      });
+    })
+  );
+}
+
+// ===== INTERNALS =====
+
+/**
+ * Map a brokerage security type description ("Common Stock", "ETF", "Cryptocurrency", ...) to an asset class
+ */
+function assetClassFromSecurityType(securityType: string | null | undefined): AssetClass {
+  const type = (securityType ?? "").toLowerCase();
+  if (!type) return "Equity";
+  if (type.includes("option")) return "Option";
+  if (type.includes("crypto")) return "Crypto";
+  if (type.includes("etf") || type.includes("exchange traded")) return "ETF";
+  if (type.includes("mutual") || type.includes("fund")) return "Mutual Fund";
+  if (type.includes("bond") || type.includes("fixed income")) return "Bond";
+  if (type.includes("cash") || type.includes("money market")) return "Cash";
+  if (type.includes("stock") || type.includes("equity") || type.includes("adr") || type === "cs") return "Equity";
+  return "Other";
+}
@@ -0,0 +1,11 @@
+/**
+ * The server secret that keys HMACs (pseudonyms, signed links)
+ * Throws instead of signing with an empty key, which would make signatures forgeable
+ */
+export function getServerSecret(): string {
+  const secret = process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error("BETTER_AUTH_SECRET is not set");
+  }
+  return secret;
+}
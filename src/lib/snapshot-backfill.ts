@@ -0,0 +1,265 @@
+/**
+ * Snapshot Backfill
+ * Reconstructs daily PortfolioSnapshots for the days before an account was connected
+ *
+ * - Starts from the account's current positions and cash, then undoes synced transactions
+ *   one day at a time going backward (a buy removes the shares and returns the cash, a
+ *   deposit removes the cash, ...)
+ * - Each day's holdings are valued from the local price store (price-history.ts)
+ * - Reconstructed rows carry `metadata.reconstructed` and are rewritten whenever older
+ *   transactions arrive; real snapshots are never touched
+ *
+ * Splits, transfers and option events aren't synced as transactions, so quantities from
+ * before one of them can be off. Holdings older than the oldest synced transaction are
+ * valued at the oldest price we know.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { findPriceOnDay, getPriceHistory, recordPrices, toDay } from "./price-history";
+
+// Never reconstruct further back than this before the first real snapshot
+export const BACKFILL_MAX_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUANTITY_EPSILON = 1e-9;
+
+// Direction of each transaction type's effect when it happens (undoing reverses it).
+// Amounts and quantities are taken as absolute values since brokerages disagree on signs.
+const QUANTITY_DIRECTION: Record<string, number> = {
+  buy: 1,
+  sell: -1,
+};
+
+const CASH_DIRECTION: Record<string, number> = {
+  buy: -1,
+  sell: 1,
+  dividend: 1,
+  deposit: 1,
+  withdrawal: -1,
+  fee: -1,
+};
+
+export interface ReconstructedSnapshotMetadata {
+  reconstructed: true;
+  source: "transactions";
+  reconstructedAt: string;
+  unpricedSymbols?: string[]; // Valued at cost because the price store has nothing for them
+}
+
+export interface BackfillResult {
+  accountId: string;
+  skipped: boolean; // No transactions older than the first real snapshot since the last run
+  written: number;
+  from: string | null; // First reconstructed day (YYYY-MM-DD)
+  to: string | null; // Last reconstructed day
+}
+
+/**
+ * Whether a snapshot was reconstructed by the backfill rather than recorded by a sync
+ */
+export function isReconstructedSnapshot(metadata: Prisma.JsonValue | null): boolean {
+  return (
+    !!metadata &&
+    typeof metadata === "object" &&
+    !Array.isArray(metadata) &&
+    metadata.reconstructed === true
+  );
+}
+
+/**
+ * Rebuild the reconstructed snapshots of one account
+ * Skipped unless transactions dated before the first real snapshot were imported since
+ * the last run (or it never ran)
+ */
+export async function backfillAccountSnapshots(
+  accountId: string,
+  now: Date = new Date()
+): Promise<BackfillResult> {
+  const result: BackfillResult = { accountId, skipped: true, written: 0, from: null, to: null };
+
+  const account = await prisma.brokerageAccount.findUnique({
+    where: { id: accountId },
+    include: { positions: true },
+  });
+  if (!account) return result;
+
+  const existing = await prisma.portfolioSnapshot.findMany({
+    where: { accountId },
+    orderBy: { snapshotDate: "asc" },
+    select: { id: true, snapshotDate: true, metadata: true },
+  });
+  const firstReal = existing.find((snap) => !isReconstructedSnapshot(snap.metadata));
+  const endDay = toDay(firstReal?.snapshotDate ?? now); // Exclusive
+
+  if (account.snapshotsBackfilledAt) {
+    const newTransactions = await prisma.transaction.count({
+      where: {
+        accountId,
+        createdAt: { gt: account.snapshotsBackfilledAt },
+        transactionDate: { lt: endDay },
+      },
+    });
+    if (newTransactions === 0) return result;
+  }
+  result.skipped = false;
+
+  const transactions = await prisma.transaction.findMany({
+    where: { accountId },
+    orderBy: { transactionDate: "desc" },
+    select: { type: true, symbol: true, quantity: true, price: true, amount: true, transactionDate: true },
+  });
+
+  // Seed the price store with trade prices before reading it back
+  await recordPrices(
+    transactions.flatMap((tx) =>
+      tx.symbol && tx.price ? [{ symbol: tx.symbol, date: tx.transactionDate, close: tx.price }] : []
+    ),
+    "transaction"
+  );
+
+  const oldestTransaction = transactions.at(-1);
+  const earliestDay = new Date(
+    Math.max(
+      toDay(oldestTransaction?.transactionDate ?? endDay).getTime(),
+      endDay.getTime() - BACKFILL_MAX_DAYS * DAY_MS
+    )
+  );
+
+  const symbols = [
+    ...new Set([
+      ...account.positions.map((pos) => pos.symbol),
+      ...transactions.flatMap((tx) => (tx.symbol ? [tx.symbol] : [])),
+    ]),
+  ];
+  const priceHistory = await getPriceHistory(symbols, earliestDay, now);
+  const currentPrices = new Map(account.positions.map((pos) => [pos.symbol, pos.currentPrice]));
+  const costPerShare = getCostPerShare(account.positions, transactions);
+
+  // Holdings at the end of `day`, walked backward from today
+  const holdings: Holdings = {
+    quantities: new Map(account.positions.map((pos) => [pos.symbol, pos.quantity])),
+    cash: account.totalCash,
+  };
+  const reconstructedAt = now.toISOString();
+  const rows: Prisma.PortfolioSnapshotCreateManyInput[] = [];
+  let txIndex = 0;
+
+  for (let day = toDay(now); day >= earliestDay; day = new Date(day.getTime() - DAY_MS)) {
+    const dayEnd = day.getTime() + DAY_MS;
+    while (txIndex < transactions.length && transactions[txIndex].transactionDate.getTime() >= dayEnd) {
+      undoTransaction(holdings, transactions[txIndex++]);
+    }
+    if (day >= endDay) continue;
+
+    const dateKey = day.toISOString().split("T")[0];
+    const unpriced: string[] = [];
+    let holdingsValue = 0;
+    let totalInvestments = 0;
+
+    for (const [symbol, quantity] of holdings.quantities) {
+      // Incomplete history (e.g. an untracked split) can leave a negative lot; ignore it
+      if (quantity <= QUANTITY_EPSILON) continue;
+
+      const cost = costPerShare.get(symbol) ?? 0;
+      const price = findPriceOnDay(priceHistory.get(symbol) ?? [], dateKey) ?? currentPrices.get(symbol);
+      if (price === undefined) unpriced.push(symbol);
+
+      holdingsValue += quantity * (price ?? cost);
+      totalInvestments += quantity * cost;
+    }
+
+    // Before the account was funded there's nothing left to chart
+    if (holdingsValue <= 0 && holdings.cash <= 0.01) break;
+
+    const totalValue = holdingsValue + holdings.cash;
+    const totalPL = totalValue - totalInvestments;
+    const metadata: ReconstructedSnapshotMetadata = {
+      reconstructed: true,
+      source: "transactions",
+      reconstructedAt,
+      ...(unpriced.length > 0 ? { unpricedSymbols: unpriced } : {}),
+    };
+
+    result.to ??= dateKey;
+    result.from = dateKey;
+    rows.push({
+      accountId,
+      totalValue,
+      totalCash: holdings.cash,
+      totalInvestments,
+      totalPL,
+      totalPLPercent: totalInvestments > 0 ? (totalPL / totalInvestments) * 100 : 0,
+      // Midday keeps the row on its UTC day, which is how snapshots are grouped
+      snapshotDate: new Date(day.getTime() + DAY_MS / 2),
+      metadata: metadata as unknown as Prisma.InputJsonValue,
+    });
+  }
+
+  const staleIds = existing
+    .filter((snap) => isReconstructedSnapshot(snap.metadata))
+    .map((snap) => snap.id);
+
+  await prisma.$transaction([
+    prisma.portfolioSnapshot.deleteMany({ where: { id: { in: staleIds } } }),
+    prisma.portfolioSnapshot.createMany({ data: rows }),
+    prisma.brokerageAccount.update({
+      where: { id: accountId },
+      data: { snapshotsBackfilledAt: now },
+    }),
+  ]);
+
+  result.written = rows.length;
+  return result;
+}
+
+// ===== INTERNALS =====
+
+interface Holdings {
+  quantities: Map<string, number>;
+  cash: number;
+}
+
+function undoTransaction(
+  holdings: Holdings,
+  tx: { type: string; symbol: string | null; quantity: number | null; amount: number }
+) {
+  const quantityDirection = QUANTITY_DIRECTION[tx.type];
+  if (quantityDirection && tx.symbol && tx.quantity) {
+    const current = holdings.quantities.get(tx.symbol) ?? 0;
+    holdings.quantities.set(tx.symbol, current - quantityDirection * Math.abs(tx.quantity));
+  }
+
+  const cashDirection = CASH_DIRECTION[tx.type];
+  if (cashDirection) {
+    holdings.cash -= cashDirection * Math.abs(tx.amount);
+  }
+}
+
+/**
+ * Cost per share used for reconstructed cost basis: the position's average cost while
+ * it's still held, otherwise the average buy price from transactions
+ */
+function getCostPerShare(
+  positions: Array<{ symbol: string; averageCost: number }>,
+  transactions: Array<{ type: string; symbol: string | null; quantity: number | null; price: number | null }>
+): Map<string, number> {
+  const bought = new Map<string, { quantity: number; cost: number }>();
+  for (const tx of transactions) {
+    if (tx.type !== "buy" || !tx.symbol || !tx.quantity || !tx.price) continue;
+    const totals = bought.get(tx.symbol) || { quantity: 0, cost: 0 };
+    totals.quantity += Math.abs(tx.quantity);
+    totals.cost += Math.abs(tx.quantity) * tx.price;
+    bought.set(tx.symbol, totals);
+  }
+
+  const costPerShare = new Map<string, number>();
+  for (const [symbol, totals] of bought) {
+    costPerShare.set(symbol, totals.cost / totals.quantity);
+  }
+  for (const pos of positions) {
+    if (pos.averageCost) costPerShare.set(pos.symbol, pos.averageCost);
+  }
+
+  return costPerShare;
+}
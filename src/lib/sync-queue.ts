@@ -0,0 +1,414 @@
+/**
+ * Sync Job Queue
+ * Durable job runner built on the SyncJob table
+ *
+ * - Jobs are claimed with a lease; a job whose worker died is reclaimed once the lease expires
+ * - A per-user lock (SyncLock) guarantees only one sync runs for a user at a time
+ * - Retryable SnapTrade errors (429, 5xx, network) are retried with exponential backoff
+ * - Jobs that exhaust maxAttempts end up in the "dead" state
+ */
+
+import { randomUUID } from "crypto";
+import { Prisma, type SyncJob } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  createSyncService,
+  isRetryableSyncError,
+  SYNC_JOB_STAGES,
+  type SyncJobType,
+  type SyncStage,
+} from "./sync-service";
+
+export type SyncJobStatus = "pending" | "running" | "completed" | "failed" | "dead";
+export type SyncStageStatus = "pending" | "running" | "completed" | "failed";
+
+export interface SyncStageProgress {
+  status: SyncStageStatus;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+interface SyncJobMetadata {
+  stages: Partial<Record<SyncStage, SyncStageProgress>>;
+}
+
+export interface SyncQueueSummary {
+  processed: number;
+  completed: number;
+  retried: number;
+  failed: number;
+  durationMs: number;
+}
+
+const LEASE_MS = 5 * 60 * 1000;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Statuses that still hold a slot in the queue
+const ACTIVE_STATUSES: SyncJobStatus[] = ["pending", "running"];
+
+/**
+ * Unique id for this worker process, recorded as SyncJob.lockedBy
+ */
+export function createWorkerId(): string {
+  return `${process.env.VERCEL_REGION ?? "local"}-${randomUUID()}`;
+}
+
+/**
+ * Enqueue a sync job for a user
+ * Returns the existing job instead if one of the same type is already queued or running
+ */
+export async function enqueueSyncJob(
+  userId: string,
+  type: SyncJobType,
+  options: { maxAttempts?: number } = {}
+): Promise<SyncJob> {
+  const existing = await prisma.syncJob.findFirst({
+    where: {
+      userId,
+      type,
+      status: { in: ACTIVE_STATUSES },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const metadata: SyncJobMetadata = {
+    stages: Object.fromEntries(
+      SYNC_JOB_STAGES[type].map((stage) => [stage, { status: "pending" }])
+    ),
+  };
+
+  return prisma.syncJob.create({
+    data: {
+      userId,
+      type,
+      status: "pending",
+      startedAt: null,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      metadata: metadata as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Try to claim a specific job for this worker
+ * Returns null if the job is not due, already leased, or the user is locked by another job
+ */
+export async function claimSyncJob(jobId: string, workerId: string): Promise<SyncJob | null> {
+  const now = new Date();
+  const job = await prisma.syncJob.findUnique({ where: { id: jobId } });
+
+  if (!job) return null;
+
+  const isDue = job.status === "pending" && job.runAfter <= now;
+  const isAbandoned =
+    job.status === "running" && job.lockedUntil !== null && job.lockedUntil < now;
+
+  if (!isDue && !isAbandoned) return null;
+
+  // Compare-and-set on status + attempts so two workers can't both claim the job.
+  // The user lock is only taken by the winner, so a losing worker never touches it
+  const lockedUntil = new Date(now.getTime() + LEASE_MS);
+  const claimed = await prisma.syncJob.updateMany({
+    where: {
+      id: job.id,
+      status: job.status,
+      attempts: job.attempts,
+    },
+    data: {
+      status: "running",
+      attempts: { increment: 1 },
+      lockedBy: workerId,
+      lockedUntil,
+      startedAt: now,
+      completedAt: null,
+    },
+  });
+
+  if (claimed.count === 0) return null;
+
+  if (!(await acquireUserLock(job.userId, job.id))) {
+    // Another job is syncing this user: hand the job back as it was
+    await prisma.syncJob.updateMany({
+      where: { id: job.id, lockedBy: workerId, attempts: job.attempts + 1 },
+      data: {
+        status: job.status,
+        attempts: job.attempts,
+        lockedBy: job.lockedBy,
+        lockedUntil: job.lockedUntil,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+      },
+    });
+    return null;
+  }
+
+  return prisma.syncJob.findUnique({ where: { id: job.id } });
+}
+
+/**
+ * Claim the next due job (oldest runAfter first), skipping users that are already syncing
+ */
+export async function claimNextSyncJob(workerId: string): Promise<SyncJob | null> {
+  const now = new Date();
+  const candidates = await prisma.syncJob.findMany({
+    where: {
+      OR: [
+        { status: "pending", runAfter: { lte: now } },
+        { status: "running", lockedUntil: { lt: now } },
+      ],
+    },
+    orderBy: { runAfter: "asc" },
+    take: 10,
+    select: { id: true },
+  });
+
+  for (const candidate of candidates) {
+    const job = await claimSyncJob(candidate.id, workerId);
+    if (job) return job;
+  }
+
+  return null;
+}
+
+/**
+ * Run a claimed job stage by stage, recording progress in metadata
+ * Stages completed by an earlier attempt are skipped, so retries resume where they failed
+ */
+export async function runSyncJob(job: SyncJob): Promise<SyncJob> {
+  const type = (job.type in SYNC_JOB_STAGES ? job.type : "full") as SyncJobType;
+  const metadata = parseJobMetadata(job.metadata, type);
+  let currentStage: SyncStage | null = null;
+
+  try {
+    const syncService = await createSyncService(job.userId);
+
+    for (const stage of SYNC_JOB_STAGES[type]) {
+      if (metadata.stages[stage]?.status === "completed") continue;
+
+      currentStage = stage;
+      metadata.stages[stage] = { status: "running", startedAt: new Date().toISOString() };
+      await heartbeat(job, metadata);
+
+      await syncService.runStage(stage, type);
+
+      metadata.stages[stage] = {
+        ...metadata.stages[stage],
+        status: "completed",
+        completedAt: new Date().toISOString(),
+      };
+    }
+
+    return await prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        error: null,
+        lockedBy: null,
+        lockedUntil: null,
+        metadata: metadata as unknown as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[SyncQueue] Job ${job.id} failed at stage ${currentStage ?? "setup"}:`, errorMessage);
+
+    if (currentStage) {
+      metadata.stages[currentStage] = {
+        ...metadata.stages[currentStage],
+        status: "failed",
+        error: errorMessage,
+      };
+    }
+
+    return await scheduleRetryOrFail(job, metadata, error, errorMessage);
+  } finally {
+    await releaseUserLock(job.userId, job.id);
+  }
+}
+
+/**
+ * Drain due jobs until the queue is empty, maxJobs is reached, or the time budget runs out
+ */
+export async function processSyncQueue(
+  options: { workerId?: string; maxJobs?: number; timeBudgetMs?: number } = {}
+): Promise<SyncQueueSummary> {
+  const startTime = Date.now();
+  const workerId = options.workerId ?? createWorkerId();
+  const maxJobs = options.maxJobs ?? 50;
+  const timeBudgetMs = options.timeBudgetMs ?? 50 * 1000;
+
+  const summary: SyncQueueSummary = {
+    processed: 0,
+    completed: 0,
+    retried: 0,
+    failed: 0,
+    durationMs: 0,
+  };
+
+  while (summary.processed < maxJobs && Date.now() - startTime < timeBudgetMs) {
+    const job = await claimNextSyncJob(workerId);
+    if (!job) break;
+
+    const result = await runSyncJob(job);
+    summary.processed++;
+
+    if (result.status === "completed") summary.completed++;
+    else if (result.status === "pending") summary.retried++;
+    else summary.failed++;
+  }
+
+  summary.durationMs = Date.now() - startTime;
+  return summary;
+}
+
+/**
+ * Shape a SyncJob row for API responses
+ */
+export function serializeSyncJob(job: SyncJob) {
+  const type = (job.type in SYNC_JOB_STAGES ? job.type : "full") as SyncJobType;
+  const metadata = parseJobMetadata(job.metadata, type);
+
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status as SyncJobStatus,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAfter: job.runAfter,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    error: job.error,
+    stages: SYNC_JOB_STAGES[type].map((stage) => ({
+      stage,
+      ...(metadata.stages[stage] ?? { status: "pending" as const }),
+    })),
+  };
+}
+
+// ===== INTERNALS =====
+
+/**
+ * Exponential backoff with up to 20% jitter
+ */
+function getBackoffMs(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+async function scheduleRetryOrFail(
+  job: SyncJob,
+  metadata: SyncJobMetadata,
+  error: unknown,
+  errorMessage: string
+): Promise<SyncJob> {
+  // job.attempts already includes the current attempt (incremented on claim)
+  const retryable = isRetryableSyncError(error);
+  const exhausted = job.attempts >= job.maxAttempts;
+
+  let status: SyncJobStatus;
+  let runAfter = job.runAfter;
+
+  if (!retryable) {
+    status = "failed";
+  } else if (exhausted) {
+    status = "dead";
+  } else {
+    status = "pending";
+    runAfter = new Date(Date.now() + getBackoffMs(job.attempts));
+  }
+
+  return prisma.syncJob.update({
+    where: { id: job.id },
+    data: {
+      status,
+      runAfter,
+      error: errorMessage,
+      completedAt: status === "pending" ? null : new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+      metadata: metadata as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Extend the job's lease and the user lock, and persist stage progress
+ */
+async function heartbeat(job: SyncJob, metadata: SyncJobMetadata) {
+  const lockedUntil = new Date(Date.now() + LEASE_MS);
+
+  await prisma.$transaction([
+    prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        lockedUntil,
+        metadata: metadata as unknown as Prisma.InputJsonValue,
+      },
+    }),
+    prisma.syncLock.updateMany({
+      where: { userId: job.userId, jobId: job.id },
+      data: { lockedUntil },
+    }),
+  ]);
+}
+
+/**
+ * Acquire the per-user lock for a job
+ * Takes over the lock if its lease has expired or it already belongs to this job
+ */
+async function acquireUserLock(userId: string, jobId: string): Promise<boolean> {
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + LEASE_MS);
+
+  try {
+    await prisma.syncLock.create({
+      data: { userId, jobId, lockedUntil },
+    });
+    return true;
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  const takeover = await prisma.syncLock.updateMany({
+    where: {
+      userId,
+      OR: [{ lockedUntil: { lt: now } }, { jobId }],
+    },
+    data: { jobId, lockedUntil },
+  });
+
+  return takeover.count === 1;
+}
+
+async function releaseUserLock(userId: string, jobId: string) {
+  await prisma.syncLock.deleteMany({
+    where: { userId, jobId },
+  });
+}
+
+function parseJobMetadata(json: Prisma.JsonValue, type: SyncJobType): SyncJobMetadata {
+  const stages: SyncJobMetadata["stages"] = {};
+  const raw =
+    json && typeof json === "object" && !Array.isArray(json)
+      ? (json as { stages?: Record<string, SyncStageProgress> }).stages
+      : undefined;
+
+  for (const stage of SYNC_JOB_STAGES[type]) {
+    stages[stage] = raw?.[stage] ?? { status: "pending" };
+  }
+
+  return { stages };
+}
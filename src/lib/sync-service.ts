@@ -1,5 +1,52 @@
+import type { Prisma } from "@prisma/client";
+import { SnaptradeError, type AccountUniversalActivity } from "snaptrade-typescript-sdk";
 import { prisma } from "./prisma";
 import { snaptrade } from "./snaptrade";
+import {
+  checkForMilestones,
+  diffPositions,
+  generateActivityFromMilestone,
+  generateActivityFromPositionChange,
+  generateActivityFromTransaction,
+  getUserWorkspaces,
+} from "./activity-generator";
+import { recordIntradaySnapshots } from "./intraday-snapshots";
+import { notifyLeaderboardPasses } from "./notifications";
+import { recordPrices } from "./price-history";
+import { backfillAccountSnapshots } from "./snapshot-backfill";
+
+// SnapTrade caps activity pages at 1000 rows
+const ACTIVITIES_PAGE_SIZE = 1000;
+
+// Re-fetch this many days before the cursor on incremental syncs, since
+// brokerages sometimes post activities a few days after the trade date
+const TRANSACTION_LOOKBACK_DAYS = 5;
+
+// Map SnapTrade activity types to the Transaction.type values we store.
+// Anything not listed here (splits, transfers, option events, ...) is skipped.
+const TRANSACTION_TYPE_MAP: Record<string, string> = {
+  BUY: "buy",
+  SELL: "sell",
+  DIVIDEND: "dividend",
+  STOCK_DIVIDEND: "dividend",
+  CONTRIBUTION: "deposit",
+  DEPOSIT: "deposit",
+  WITHDRAWAL: "withdrawal",
+  FEE: "fee",
+};
+
+export type SyncStage = "connections" | "accounts" | "positions" | "transactions" | "snapshots" | "backfill";
+export type SyncJobType = "full" | "quick" | "incremental" | "positions" | "transactions" | "backfill";
+
+// Stages each job type runs, in order
+export const SYNC_JOB_STAGES: Record<SyncJobType, SyncStage[]> = {
+  full: ["connections", "accounts", "positions", "transactions", "snapshots", "backfill"],
+  quick: ["accounts", "positions", "transactions", "snapshots", "backfill"],
+  incremental: ["accounts", "positions", "transactions", "snapshots", "backfill"],
+  positions: ["accounts", "positions", "snapshots"],
+  transactions: ["transactions"],
+  backfill: ["backfill"],
+};
 
 export class SnapTradeSyncService {
   constructor(
@@ -10,40 +57,35 @@ export class SnapTradeSyncService {
   ) {}
 
   /**
-   * Full sync: connections -> accounts -> positions -> snapshots
+   * Full sync: connections -> accounts -> positions -> transactions -> snapshots -> backfill
+   * Job bookkeeping (SyncJob rows, retries, locking) lives in sync-queue.ts
    */
   async fullSync() {
-    const job = await prisma.syncJob.create({
-      data: {
-        userId: this.userId,
-        type: "full",
-        status: "running",
-      },
-    });
-
-    try {
-      await this.syncConnections();
-      await this.syncAccounts();
-      await this.syncPositions();
-      await this.createSnapshots();
+    for (const stage of SYNC_JOB_STAGES.full) {
+      await this.runStage(stage, "full");
+    }
+  }
 
-      await prisma.syncJob.update({
-        where: { id: job.id },
-        data: {
-          status: "completed",
-          completedAt: new Date(),
-        },
-      });
-    } catch (error: any) {
-      await prisma.syncJob.update({
-        where: { id: job.id },
-        data: {
-          status: "failed",
-          error: error.message,
-          completedAt: new Date(),
-        },
-      });
-      throw error;
+  /**
+   * Run a single sync stage of a job of the given type
+   */
+  async runStage(stage: SyncStage, type: SyncJobType = "full") {
+    switch (stage) {
+      case "connections":
+        return this.syncConnections();
+      case "accounts":
+        return this.syncAccounts();
+      case "positions":
+        return this.syncPositions();
+      case "transactions":
+        return this.syncTransactions();
+      case "snapshots":
+        await this.createSnapshots();
+        // Intraday "positions" jobs run every 15 minutes; leaderboards are checked on the others
+        await this.generateMilestoneActivities({ checkLeaderboards: type !== "positions" });
+        return;
+      case "backfill":
+        return this.backfillSnapshots();
     }
   }
 
@@ -195,6 +237,12 @@ export class SnapTradeSyncService {
 
     console.log(`[Sync] Syncing positions for ${accounts.length} account(s)`);
 
+    // Position changes are announced in every workspace the user belongs to
+    const workspaceIds = await getUserWorkspaces(this.userId);
+    // Per-account errors are stored on the account; the first retryable one is rethrown
+    // after the loop so the sync queue can back off and retry
+    let retryableError: unknown = null;
+
     for (const account of accounts) {
       try {
         console.log(`[Sync] Fetching positions for account ${account.snaptradeAccountId} (${account.accountName || account.accountNumber})`);
@@ -292,9 +340,21 @@ export class SnapTradeSyncService {
 
         console.log(`[Sync] Valid positions: ${validPositions.length}, Invalid: ${invalidPositions.length}`);
 
-        // Delete old positions not in the new list (only if we have valid positions)
-        if (validPositions.length > 0) {
+        // Capture positions before we touch them so we can diff afterwards
+        const previousPositions = await prisma.position.findMany({
+          where: { accountId: account.id },
+        });
+        const closedSymbols = new Set<string>();
+
+        // Delete old positions not in the new list. An empty list means everything was sold;
+        // skip only if the response wasn't a list or none of its positions could be read
+        const isValidResponse =
+          Array.isArray(positionsRes.data) && (validPositions.length > 0 || invalidPositions.length === 0);
+        if (isValidResponse) {
           const currentSymbols = validPositions.map(p => p.symbol);
+          previousPositions
+            .filter((p) => !currentSymbols.includes(p.symbol))
+            .forEach((p) => closedSymbols.add(p.symbol));
           await prisma.position.deleteMany({
             where: {
               accountId: account.id,
@@ -305,6 +365,15 @@ export class SnapTradeSyncService {
 
         // Upsert current positions
         let syncedCount = 0;
+        const syncedPositions: Array<{
+          symbol: string;
+          quantity: number;
+          averageCost: number;
+          currentPrice: number;
+          marketValue: number;
+          unrealizedPL: number;
+          unrealizedPLPercent: number;
+        }> = [];
         for (const { symbol, position: pos } of validPositions) {
           try {
             const quantity = pos.units || pos.quantity || 0;
@@ -373,12 +442,32 @@ export class SnapTradeSyncService {
               },
             });
             syncedCount++;
+            syncedPositions.push({
+              symbol,
+              quantity,
+              averageCost: avgCost,
+              currentPrice,
+              marketValue,
+              unrealizedPL,
+              unrealizedPLPercent,
+            });
           } catch (posError) {
             console.error(`[Sync] Error upserting position ${symbol} for account ${account.id}:`, posError);
           }
         }
 
         console.log(`[Sync] Successfully synced ${syncedCount} position(s) for account ${account.id}`);
+
+        await this.generatePositionActivities(
+          account.id,
+          account.totalValue,
+          // Positions that failed to upsert or were kept around are not diffed
+          previousPositions.filter(
+            (p) => closedSymbols.has(p.symbol) || syncedPositions.some((s) => s.symbol === p.symbol)
+          ),
+          syncedPositions,
+          workspaceIds
+        );
         
         // Update account sync timestamp
         await prisma.brokerageAccount.update({
@@ -398,13 +487,221 @@ export class SnapTradeSyncService {
             lastSyncedAt: new Date(), // Still update timestamp to show we tried
           },
         });
+        if (!retryableError && isRetryableSyncError(error)) retryableError = error;
+      }
+    }
+
+    if (retryableError) throw retryableError;
+  }
+
+  /**
+   * Diff an account's positions and post POSITION_* activities to the user's workspaces
+   * The very first sync of an account only establishes a baseline
+   */
+  private async generatePositionActivities(
+    accountId: string,
+    accountValue: number,
+    previousPositions: Parameters<typeof diffPositions>[2],
+    currentPositions: Parameters<typeof diffPositions>[3],
+    workspaceIds: string[]
+  ) {
+    if (workspaceIds.length === 0) return;
+
+    try {
+      if (previousPositions.length === 0) {
+        const snapshotCount = await prisma.portfolioSnapshot.count({
+          where: { accountId },
+        });
+        if (snapshotCount === 0) return;
+      }
+
+      const changes = diffPositions(
+        this.userId,
+        accountId,
+        previousPositions,
+        currentPositions,
+        accountValue
+      );
+
+      for (const change of changes) {
+        await generateActivityFromPositionChange(change, workspaceIds);
       }
+
+      if (changes.length > 0) {
+        console.log(`[Sync] Generated ${changes.length} position activit(ies) for account ${accountId}`);
+      }
+    } catch (error) {
+      // Feed generation must never fail the sync itself
+      console.error(`[Sync] Error generating position activities for account ${accountId}:`, error);
     }
   }
 
+  /**
+   * Sync transactions (account activities) for all accounts
+   * Pages through SnapTrade activities since each account's cursor and upserts
+   * them by snaptradeTransactionId, so re-running a sync never duplicates rows
+   */
+  async syncTransactions() {
+    const accounts = await prisma.brokerageAccount.findMany({
+      where: {
+        connection: {
+          snaptradeUserId: this.snaptradeUserDbId,
+        },
+      },
+    });
+
+    console.log(`[Sync] Syncing transactions for ${accounts.length} account(s)`);
+
+    // Trades are announced in every workspace the user belongs to
+    const workspaceIds = await getUserWorkspaces(this.userId);
+
+    // Rethrown after the loop, like in syncPositions
+    let retryableError: unknown = null;
+
+    for (const account of accounts) {
+      const syncStartedAt = new Date();
+
+      try {
+        // First sync pulls the full history; later syncs only fetch new rows
+        let startDate: string | undefined;
+        if (account.transactionsSyncedAt) {
+          const from = new Date(account.transactionsSyncedAt);
+          from.setDate(from.getDate() - TRANSACTION_LOOKBACK_DAYS);
+          startDate = from.toISOString().split("T")[0];
+        }
+        const endDate = syncStartedAt.toISOString().split("T")[0];
+
+        let offset = 0;
+        let importedCount = 0;
+
+        // The first import is the account's whole history, which isn't news to the squad
+        const announceTo = account.transactionsSyncedAt ? workspaceIds : [];
+
+        while (true) {
+          const res = await snaptrade.accountInformation.getAccountActivities({
+            userId: this.snaptradeUserId,
+            userSecret: this.userSecret,
+            accountId: account.snaptradeAccountId,
+            startDate,
+            endDate,
+            offset,
+            limit: ACTIVITIES_PAGE_SIZE,
+          });
+
+          const activities = res.data.data || [];
+
+          for (const activity of activities) {
+            if (await this.upsertTransaction(account.id, activity, announceTo)) {
+              importedCount++;
+            }
+          }
+
+          offset += activities.length;
+          const total = res.data.pagination?.total ?? offset;
+          if (activities.length === 0 || offset >= total) break;
+        }
+
+        console.log(`[Sync] Imported ${importedCount} transaction(s) for account ${account.id}`);
+
+        // Advance the cursor only after every page was stored
+        await prisma.brokerageAccount.update({
+          where: { id: account.id },
+          data: { transactionsSyncedAt: syncStartedAt },
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[Sync] Error syncing transactions for account ${account.id} (${account.snaptradeAccountId}):`, errorMessage);
+
+        await prisma.brokerageAccount.update({
+          where: { id: account.id },
+          data: { syncError: errorMessage },
+        });
+        if (!retryableError && isRetryableSyncError(error)) retryableError = error;
+      }
+    }
+
+    if (retryableError) throw retryableError;
+  }
+
+  /**
+   * Upsert a single SnapTrade activity into the Transaction table
+   * Newly imported buys and sells are posted to `workspaceIds` as TRADE_* activities
+   * Returns false if the activity type is not one we track
+   */
+  private async upsertTransaction(
+    accountId: string,
+    activity: AccountUniversalActivity,
+    workspaceIds: string[]
+  ): Promise<boolean> {
+    const type = TRANSACTION_TYPE_MAP[(activity.type || "").toUpperCase()];
+    const tradeDate = activity.trade_date || activity.settlement_date;
+
+    if (!type || !activity.id || !tradeDate) {
+      return false;
+    }
+
+    const symbol = activity.symbol?.symbol || activity.symbol?.raw_symbol || null;
+    const quantity = activity.units ?? null;
+    const price = activity.price ?? null;
+
+    // SnapTrade reports amount as the signed cash impact (negative for buys).
+    // Fall back to price * units when the brokerage leaves it empty.
+    const amount =
+      activity.amount ?? (price !== null && quantity !== null ? -price * quantity : 0);
+
+    const data = {
+      type,
+      symbol,
+      quantity,
+      price,
+      amount,
+      currency: activity.currency?.code || "USD",
+      fee: activity.fee ?? null,
+      transactionDate: new Date(tradeDate),
+      description: activity.description || null,
+      metadata: activity as Prisma.InputJsonValue,
+    };
+
+    const existing = await prisma.transaction.findUnique({
+      where: { snaptradeTransactionId: activity.id },
+      select: { id: true },
+    });
+
+    await prisma.transaction.upsert({
+      where: { snaptradeTransactionId: activity.id },
+      create: {
+        accountId,
+        snaptradeTransactionId: activity.id,
+        ...data,
+      },
+      update: data,
+    });
+
+    // Only new rows: re-reads from the lookback window update rows that were already announced
+    if (!existing && (type === "buy" || type === "sell") && symbol) {
+      await generateActivityFromTransaction(
+        {
+          userId: this.userId,
+          symbol,
+          type,
+          quantity: quantity ?? undefined,
+          price: price ?? undefined,
+          amount: Math.abs(amount),
+          transactionDate: data.transactionDate,
+          dedupeKey: `transaction:${activity.id}`,
+        },
+        workspaceIds
+      );
+    }
+
+    return true;
+  }
+
   /**
    * Create portfolio snapshots for historical tracking
-   * Only creates one snapshot per account per day to avoid duplicates
+   * Only creates one daily snapshot per account per day to avoid duplicates;
+   * during market hours an intraday snapshot is recorded as well. Position prices
+   * go into the price store so later backfills can value past holdings.
    */
   async createSnapshots() {
     const accounts = await prisma.brokerageAccount.findMany({
@@ -423,7 +720,20 @@ export class SnapTradeSyncService {
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
+    const intradayAccounts: Parameters<typeof recordIntradaySnapshots>[0] = [];
+
     for (const account of accounts) {
+      const totalInvestments = account.positions.reduce(
+        (sum, pos) => sum + (pos.averageCost || 0) * pos.quantity,
+        0
+      );
+      intradayAccounts.push({
+        id: account.id,
+        totalValue: account.totalValue,
+        totalCash: account.totalCash,
+        totalInvestments,
+      });
+
       // Check if snapshot already exists for today
       const existingSnapshot = await prisma.portfolioSnapshot.findFirst({
         where: {
@@ -441,10 +751,6 @@ export class SnapTradeSyncService {
         continue;
       }
 
-      const totalInvestments = account.positions.reduce(
-        (sum, pos) => sum + (pos.averageCost || 0) * pos.quantity,
-        0
-      );
       const totalValue = account.totalValue;
       const totalCash = account.totalCash;
       const totalPL = totalValue - totalInvestments;
@@ -462,15 +768,109 @@ export class SnapTradeSyncService {
         },
       });
     }
+
+    await recordIntradaySnapshots(intradayAccounts);
+    await recordPrices(
+      accounts.flatMap((account) =>
+        account.positions.map((pos) => ({
+          symbol: pos.symbol,
+          date: pos.lastSyncedAt,
+          close: pos.currentPrice,
+        }))
+      ),
+      "position"
+    );
   }
 
   /**
-   * Quick sync - update positions, balances, and create snapshots
+   * Reconstruct daily snapshots from before each account was connected
+   * Runs after transactions and today's snapshot, so the replay starts from current
+   * holdings; accounts without new older transactions are skipped
+   */
+  async backfillSnapshots() {
+    const accounts = await prisma.brokerageAccount.findMany({
+      where: {
+        connection: {
+          snaptradeUserId: this.snaptradeUserDbId,
+        },
+      },
+      select: { id: true },
+    });
+
+    for (const account of accounts) {
+      try {
+        const result = await backfillAccountSnapshots(account.id);
+        if (result.written > 0) {
+          console.log(`[Sync] Reconstructed ${result.written} snapshot(s) for account ${account.id} (${result.from} to ${result.to})`);
+        }
+      } catch (error) {
+        // Reconstructed history is best-effort and must never fail the sync itself
+        console.error(`[Sync] Error backfilling snapshots for account ${account.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Check the user's combined portfolio for milestones after snapshots are written
+   * Compares the current total against the latest snapshots from before today, then
+   * (if checkLeaderboards) checks whether the new values passed anyone on a squad leaderboard
+   */
+  async generateMilestoneActivities({ checkLeaderboards = true }: { checkLeaderboards?: boolean } = {}) {
+    try {
+      const workspaceIds = await getUserWorkspaces(this.userId);
+      if (workspaceIds.length === 0) return;
+
+      const accounts = await prisma.brokerageAccount.findMany({
+        where: {
+          connection: {
+            snaptradeUserId: this.snaptradeUserDbId,
+          },
+        },
+        select: { id: true, totalValue: true },
+      });
+
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+
+      let currentValue = 0;
+      let previousValue = 0;
+
+      for (const account of accounts) {
+        currentValue += account.totalValue;
+
+        const previousSnapshot = await prisma.portfolioSnapshot.findFirst({
+          where: {
+            accountId: account.id,
+            snapshotDate: { lt: startOfToday },
+          },
+          orderBy: { snapshotDate: "desc" },
+        });
+        previousValue += previousSnapshot?.totalValue ?? account.totalValue;
+      }
+
+      const milestones = await checkForMilestones(this.userId, currentValue, previousValue);
+
+      for (const milestone of milestones) {
+        await generateActivityFromMilestone(milestone, workspaceIds);
+      }
+
+      // New values may have moved the user up their squads' leaderboards
+      if (!checkLeaderboards) return;
+      for (const workspaceId of workspaceIds) {
+        await notifyLeaderboardPasses(workspaceId, this.userId);
+      }
+    } catch (error) {
+      console.error(`[Sync] Error checking milestones for user ${this.userId}:`, error);
+    }
+  }
+
+  /**
+   * Quick sync - update positions, balances, new transactions, and create snapshots
    */
   async quickSync() {
-    await this.syncAccounts();
-    await this.syncPositions();
-    await this.createSnapshots();
+    for (const stage of SYNC_JOB_STAGES.quick) {
+      await this.runStage(stage, "quick");
+    }
   }
 }
 
@@ -494,6 +894,16 @@ export async function createSyncService(userId: string) {
   );
 }
 
+/**
+ * Whether an error is worth retrying (rate limits, SnapTrade outages, network failures)
+ */
+export function isRetryableSyncError(error: unknown): boolean {
+  if (error instanceof SnaptradeError) {
+    return error.status === undefined || error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
 // ===== BATCH SYNC UTILITIES =====
 
 export interface BatchSyncResult {
@@ -0,0 +1,268 @@
+/**
+ * Trade Ideas
+ * Ideas members post on the Terminal, and how they played out
+ *
+ * - An idea is long or short from an entry price, with a target, a stop and a timeframe
+ *   after which it expires
+ * - evaluateTradeIdeas() (the idea evaluator cron) checks open ideas against cached quotes
+ *   (market-data.ts), closes them as target_hit, stopped_out or expired and posts an
+ *   IDEA_OUTCOME activity to the squad
+ * - Returns are in the idea's direction, so a short that falls is a gain
+ * - A member's hit rate is the share of their closed ideas that hit the target; expired ideas
+ *   count as misses. Members are ranked once they have MIN_RANKED_IDEAS closed ideas
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getQuotes, type MarketDataProvider, type Quote } from "./market-data";
+import { generateActivityFromIdea } from "./activity-generator";
+import type { MemberIdentity } from "./privacy";
+import type {
+  IdeaDirection,
+  IdeaStatus,
+  IdeaTimeframe,
+  TradeIdea,
+} from "./validations/ideas";
+
+export const IDEA_TIMEFRAME_DAYS: Record<IdeaTimeframe, number> = {
+  "1D": 1,
+  "1W": 7,
+  "2W": 14,
+  "1M": 30,
+  "3M": 91,
+  "6M": 182,
+};
+
+// Closed ideas a member needs before they're ranked by hit rate
+export const MIN_RANKED_IDEAS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type IdeaOutcome = Exclude<IdeaStatus, "open">;
+
+export interface IdeaLevels {
+  direction: string;
+  entryPrice: number;
+  targetPrice: number;
+  stopPrice: number;
+}
+
+export interface IdeaHitRateCounts {
+  ideas: number;
+  open: number;
+  closed: number;
+  hits: number;
+  stops: number;
+  expired: number;
+  hitRate: number | null;
+  averageReturn: number | null;
+  ranked: boolean;
+}
+
+/**
+ * Include for idea queries: author, like and comment counts, and whether the viewer liked it
+ */
+export function tradeIdeaInclude(viewerId: string) {
+  return {
+    author: { select: { id: true, name: true, image: true } },
+    likes: { where: { userId: viewerId }, select: { id: true } },
+    _count: { select: { likes: true, comments: true } },
+  } satisfies Prisma.TradeIdeaInclude;
+}
+
+export type TradeIdeaWithCounts = Prisma.TradeIdeaGetPayload<{ include: ReturnType<typeof tradeIdeaInclude> }>;
+
+export function getIdeaExpiry(timeframe: IdeaTimeframe, from: Date): Date {
+  return new Date(from.getTime() + IDEA_TIMEFRAME_DAYS[timeframe] * DAY_MS);
+}
+
+/**
+ * Check that the target and stop are on the right sides of the entry
+ * Returns an error message, or null when the levels make sense
+ */
+export function validateIdeaLevels(levels: IdeaLevels): string | null {
+  const { direction, entryPrice, targetPrice, stopPrice } = levels;
+  if (direction === "long") {
+    if (targetPrice <= entryPrice) return "A long idea's target must be above its entry";
+    if (stopPrice >= entryPrice) return "A long idea's stop must be below its entry";
+  } else {
+    if (targetPrice >= entryPrice) return "A short idea's target must be below its entry";
+    if (stopPrice <= entryPrice) return "A short idea's stop must be above its entry";
+  }
+  return null;
+}
+
+/**
+ * Return (%) from the entry to `price`, in the idea's direction
+ */
+export function getIdeaReturn(direction: string, entryPrice: number, price: number): number {
+  const change = ((price - entryPrice) / entryPrice) * 100;
+  return direction === "short" ? -change : change;
+}
+
+/**
+ * How an open idea stands at `price`: target hit, stopped out, expired, or still open (null)
+ */
+export function getIdeaOutcome(
+  idea: IdeaLevels & { expiresAt: Date },
+  price: number | null,
+  now: Date
+): IdeaOutcome | null {
+  if (price !== null) {
+    const isLong = idea.direction === "long";
+    if (isLong ? price >= idea.targetPrice : price <= idea.targetPrice) return "target_hit";
+    if (isLong ? price <= idea.stopPrice : price >= idea.stopPrice) return "stopped_out";
+  }
+  return idea.expiresAt.getTime() <= now.getTime() ? "expired" : null;
+}
+
+/**
+ * Close every open idea that reached its target or stop, or ran out of time
+ * An idea closed by a concurrent run isn't closed (or announced) twice
+ */
+export async function evaluateTradeIdeas(
+  options: { now?: Date; provider?: MarketDataProvider } = {}
+): Promise<{ evaluated: number; closed: Record<IdeaOutcome, number> }> {
+  const now = options.now ?? new Date();
+  const closed: Record<IdeaOutcome, number> = { target_hit: 0, stopped_out: 0, expired: 0 };
+
+  const ideas = await prisma.tradeIdea.findMany({
+    where: { status: "open" },
+    select: {
+      id: true,
+      workspaceId: true,
+      authorId: true,
+      symbol: true,
+      direction: true,
+      entryPrice: true,
+      targetPrice: true,
+      stopPrice: true,
+      expiresAt: true,
+    },
+  });
+  if (ideas.length === 0) return { evaluated: 0, closed };
+
+  const quotes = await getQuotes(
+    ideas.map((idea) => idea.symbol),
+    { provider: options.provider, now }
+  );
+
+  for (const idea of ideas) {
+    const price = quotes.get(idea.symbol)?.price ?? null;
+    const outcome = getIdeaOutcome(idea, price, now);
+    if (!outcome) continue;
+
+    const returnPercent = price !== null ? getIdeaReturn(idea.direction, idea.entryPrice, price) : null;
+    const { count } = await prisma.tradeIdea.updateMany({
+      where: { id: idea.id, status: "open" },
+      data: { status: outcome, closedAt: now, closePrice: price, returnPercent },
+    });
+    if (count === 0) continue;
+
+    closed[outcome]++;
+    await generateActivityFromIdea({
+      userId: idea.authorId,
+      workspaceId: idea.workspaceId,
+      ideaId: idea.id,
+      symbol: idea.symbol,
+      direction: idea.direction,
+      price,
+      outcome,
+      returnPercent,
+    });
+  }
+
+  return { evaluated: ideas.length, closed };
+}
+
+/**
+ * Idea counts, hit rate and average return for each author in a workspace
+ */
+export async function getIdeaHitRates(workspaceId: string): Promise<Map<string, IdeaHitRateCounts>> {
+  const groups = await prisma.tradeIdea.groupBy({
+    by: ["authorId", "status"],
+    where: { workspaceId },
+    // Counting returnPercent counts the ideas that had a price to close at
+    _count: { _all: true, returnPercent: true },
+    _sum: { returnPercent: true },
+  });
+
+  const byAuthor = new Map<string, { counts: Record<IdeaStatus, number>; returnSum: number; returnCount: number }>();
+  for (const group of groups) {
+    const entry = byAuthor.get(group.authorId) ?? {
+      counts: { open: 0, target_hit: 0, stopped_out: 0, expired: 0 },
+      returnSum: 0,
+      returnCount: 0,
+    };
+    entry.counts[group.status as IdeaStatus] = group._count._all;
+    if (group.status !== "open") {
+      entry.returnSum += group._sum.returnPercent ?? 0;
+      entry.returnCount += group._count.returnPercent;
+    }
+    byAuthor.set(group.authorId, entry);
+  }
+
+  const result = new Map<string, IdeaHitRateCounts>();
+  for (const [authorId, { counts, returnSum, returnCount }] of byAuthor) {
+    const closedIdeas = counts.target_hit + counts.stopped_out + counts.expired;
+    result.set(authorId, {
+      ideas: closedIdeas + counts.open,
+      open: counts.open,
+      closed: closedIdeas,
+      hits: counts.target_hit,
+      stops: counts.stopped_out,
+      expired: counts.expired,
+      hitRate: closedIdeas > 0 ? (counts.target_hit / closedIdeas) * 100 : null,
+      averageReturn: returnCount > 0 ? returnSum / returnCount : null,
+      ranked: closedIdeas >= MIN_RANKED_IDEAS,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Shape an idea for the API, with its author as the viewer sees them
+ * Open ideas get the live price and the return so far when a quote is available
+ */
+export function serializeTradeIdea(
+  idea: TradeIdeaWithCounts,
+  author: MemberIdentity,
+  context: { viewerId: string; quote?: Quote }
+): TradeIdea {
+  const isOpen = idea.status === "open";
+  const currentPrice = isOpen ? context.quote?.price ?? null : null;
+
+  return {
+    id: idea.id,
+    workspaceId: idea.workspaceId,
+    authorId: author.userId,
+    authorName: author.name,
+    authorImage: author.image,
+    isAuthor: idea.authorId === context.viewerId,
+    symbol: idea.symbol,
+    title: idea.title,
+    thesis: idea.thesis,
+    direction: idea.direction as IdeaDirection,
+    entryPrice: idea.entryPrice,
+    targetPrice: idea.targetPrice,
+    stopPrice: idea.stopPrice,
+    timeframe: idea.timeframe as IdeaTimeframe,
+    tags: idea.tags,
+    status: idea.status as IdeaStatus,
+    expiresAt: idea.expiresAt,
+    closedAt: idea.closedAt,
+    closePrice: idea.closePrice,
+    returnPercent:
+      isOpen && currentPrice !== null
+        ? getIdeaReturn(idea.direction, idea.entryPrice, currentPrice)
+        : idea.returnPercent,
+    currentPrice,
+    likeCount: idea._count.likes,
+    commentCount: idea._count.comments,
+    viewCount: idea.viewCount,
+    likedByMe: idea.likes.length > 0,
+    createdAt: idea.createdAt,
+    updatedAt: idea.updatedAt,
+  };
+}
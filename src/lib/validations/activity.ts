@@ -16,6 +16,7 @@ export const ActivityTypeSchema = z.enum([
   "IDEA_OUTCOME",
   "WATCHLIST_ADD",
   "ACHIEVEMENT",
+  "POLICY_UPDATED",
 ]);
 
 // ===== ACTIVITY METADATA SCHEMAS =====
@@ -69,7 +70,8 @@ export const ActivityQuerySchema = z.object({
     .transform((val) => (val ? parseInt(val, 10) : 0))
     .pipe(z.number().min(0)),
   type: z.union([ActivityTypeSchema, z.null()]).optional(),
-  userId: z.union([z.string().cuid(), z.null()]).optional(),
+  // Real user id, or the pseudonym id of a member in anonymous mode
+  userId: z.union([z.string().cuid(), z.string().regex(/^anon_[0-9a-f]+$/), z.null()]).optional(),
   symbol: z.union([z.string(), z.null()]).optional(),
   since: z.union([z.string().datetime(), z.null()]).optional(),
 });
@@ -131,6 +133,7 @@ export const ActivityFeedResponseSchema = z.object({
   total: z.number(),
   hasMore: z.boolean(),
   nextOffset: z.number().optional(),
+  delayedCount: z.number().optional(), // Trades on this page held back by their author's activity delay
 });
 
 export const CreateActivityResponseSchema = z.object({
@@ -146,6 +149,22 @@ export const CommentResponseSchema = z.object({
   comment: ActivityCommentSchema,
 });
 
+// ===== STREAM EVENTS =====
+
+// "activity-created" events carry a WorkspaceActivity
+export const ReactionChangedEventSchema = WorkspaceActivitySchema.pick({
+  reactions: true,
+  reactionCounts: true,
+  hasUserReacted: true,
+}).extend({
+  activityId: z.string(),
+});
+
+export const CommentAddedEventSchema = z.object({
+  activityId: z.string(),
+  comment: ActivityCommentSchema,
+});
+
 // ===== TYPE INFERENCE =====
 
 export type ActivityType = z.infer<typeof ActivityTypeSchema>;
@@ -163,3 +182,5 @@ export type ActivityFeedResponse = z.infer<typeof ActivityFeedResponseSchema>;
 export type CreateActivityResponse = z.infer<typeof CreateActivityResponseSchema>;
 export type ReactResponse = z.infer<typeof ReactResponseSchema>;
 export type CommentResponse = z.infer<typeof CommentResponseSchema>;
+export type ReactionChangedEvent = z.infer<typeof ReactionChangedEventSchema>;
+export type CommentAddedEvent = z.infer<typeof CommentAddedEventSchema>;
@@ -0,0 +1,133 @@
+import { z } from "zod";
+
+// ===== ENUMS =====
+
+// Set by the member; "offline" is derived from a stale heartbeat
+export const PresenceStatusSchema = z.enum(["online", "away", "trading"]);
+
+export const MemberPresenceStatusSchema = z.enum(["online", "away", "trading", "offline"]);
+
+// ===== REQUEST SCHEMAS =====
+
+export const CreateChannelSchema = z.object({
+  // "Earnings Plays" becomes "earnings-plays"
+  name: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((name) => name.replace(/\s+/g, "-"))
+    .pipe(z.string().regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, "Use letters, numbers, dashes and underscores")),
+  description: z.string().trim().max(200).optional(),
+});
+
+export const SendMessageSchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+});
+
+export const EditMessageSchema = z.object({
+  content: z.string().trim().min(1).max(4000),
+});
+
+export const MessagesQuerySchema = z.object({
+  // Message id to page back from (exclusive); omit for the latest messages
+  before: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+});
+
+export const UpdatePresenceSchema = z.object({
+  status: PresenceStatusSchema,
+});
+
+export const ChatQuotesQuerySchema = z.object({
+  symbols: z
+    .string()
+    .transform((value) => [...new Set(value.split(",").map((symbol) => symbol.trim().toUpperCase()).filter(Boolean))])
+    .pipe(z.array(z.string().max(10)).min(1).max(20)),
+});
+
+// ===== RESPONSE SCHEMAS =====
+
+export const ChannelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  isDefault: z.boolean(),
+  unreadCount: z.number(),
+  createdAt: z.date(),
+});
+
+export const ChatMessageSchema = z.object({
+  id: z.string(),
+  channelId: z.string(),
+  authorId: z.string(),
+  authorName: z.string().nullable(),
+  authorImage: z.string().nullable(),
+  isAuthor: z.boolean(),
+  content: z.string(), // Empty once deleted
+  tickers: z.array(z.string()), // $TICKER mentions, in order of first appearance
+  editedAt: z.date().nullable(),
+  deletedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+export const MemberPresenceSchema = z.object({
+  memberId: z.string(),
+  memberName: z.string(),
+  memberImage: z.string().nullable(),
+  isCurrentUser: z.boolean(),
+  status: MemberPresenceStatusSchema,
+  lastSeenAt: z.date().nullable(),
+});
+
+export const ChatQuoteSchema = z.object({
+  symbol: z.string(),
+  price: z.number(),
+  change: z.number().nullable(),
+  changePercent: z.number().nullable(),
+});
+
+export const ChannelsResponseSchema = z.object({
+  channels: z.array(ChannelSchema),
+});
+
+export const ChannelResponseSchema = z.object({
+  channel: ChannelSchema,
+});
+
+export const MessagesResponseSchema = z.object({
+  messages: z.array(ChatMessageSchema), // Oldest first
+  hasMore: z.boolean(),
+  nextCursor: z.string().optional(), // Pass as `before` for older messages
+});
+
+export const MessageResponseSchema = z.object({
+  message: ChatMessageSchema,
+});
+
+export const PresenceResponseSchema = z.object({
+  members: z.array(MemberPresenceSchema), // Online first, then by name
+});
+
+export const ChatQuotesResponseSchema = z.object({
+  quotes: z.array(ChatQuoteSchema), // Symbols without a quote are left out
+});
+
+// ===== TYPE INFERENCE =====
+
+export type PresenceStatus = z.infer<typeof PresenceStatusSchema>;
+export type MemberPresenceStatus = z.infer<typeof MemberPresenceStatusSchema>;
+export type CreateChannelRequest = z.infer<typeof CreateChannelSchema>;
+export type SendMessageRequest = z.infer<typeof SendMessageSchema>;
+export type EditMessageRequest = z.infer<typeof EditMessageSchema>;
+export type MessagesQuery = z.infer<typeof MessagesQuerySchema>;
+export type UpdatePresenceRequest = z.infer<typeof UpdatePresenceSchema>;
+export type Channel = z.infer<typeof ChannelSchema>;
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type MemberPresence = z.infer<typeof MemberPresenceSchema>;
+export type ChatQuote = z.infer<typeof ChatQuoteSchema>;
+export type ChannelsResponse = z.infer<typeof ChannelsResponseSchema>;
+export type ChannelResponse = z.infer<typeof ChannelResponseSchema>;
+export type MessagesResponse = z.infer<typeof MessagesResponseSchema>;
+export type MessageResponse = z.infer<typeof MessageResponseSchema>;
+export type PresenceResponse = z.infer<typeof PresenceResponseSchema>;
+export type ChatQuotesResponse = z.infer<typeof ChatQuotesResponseSchema>;
@@ -0,0 +1,151 @@
+import { z } from "zod";
+
+// ===== ENUMS =====
+
+export const IdeaDirectionSchema = z.enum(["long", "short"]);
+
+// How long an idea has to play out before it expires
+export const IdeaTimeframeSchema = z.enum(["1D", "1W", "2W", "1M", "3M", "6M"]);
+
+export const IdeaStatusSchema = z.enum(["open", "target_hit", "stopped_out", "expired"]);
+
+// ===== REQUEST SCHEMAS =====
+
+const PriceLevelSchema = z.number().positive().finite();
+
+export const CreateTradeIdeaSchema = z.object({
+  symbol: z.string().trim().toUpperCase().regex(/^[A-Z0-9][A-Z0-9.-]{0,9}$/, "Invalid symbol"),
+  title: z.string().trim().min(3).max(120),
+  thesis: z.string().trim().min(1).max(5000),
+  direction: IdeaDirectionSchema,
+  entryPrice: PriceLevelSchema.optional(), // Defaults to the current quote
+  targetPrice: PriceLevelSchema,
+  stopPrice: PriceLevelSchema,
+  timeframe: IdeaTimeframeSchema,
+  tags: z.array(z.string().trim().min(1).max(24)).max(5).default([]),
+});
+
+// Symbol, direction, entry and timeframe are fixed once an idea is posted
+export const UpdateTradeIdeaSchema = z.object({
+  title: z.string().trim().min(3).max(120).optional(),
+  thesis: z.string().trim().min(1).max(5000).optional(),
+  targetPrice: PriceLevelSchema.optional(),
+  stopPrice: PriceLevelSchema.optional(),
+  tags: z.array(z.string().trim().min(1).max(24)).max(5).optional(),
+});
+
+export const TradeIdeaQuerySchema = z.object({
+  status: z.enum(["open", "closed", "all"]).optional().default("all"),
+  sort: z.enum(["recent", "trending"]).optional().default("recent"),
+  symbol: z.string().trim().toUpperCase().optional(),
+  // Real user id, or the pseudonym id of a member in anonymous mode
+  authorId: z.union([z.string().cuid(), z.string().regex(/^anon_[0-9a-f]+$/)]).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+export const CommentOnIdeaSchema = z.object({
+  content: z.string().trim().min(1).max(1000),
+});
+
+// ===== RESPONSE SCHEMAS =====
+
+export const TradeIdeaSchema = z.object({
+  id: z.string(),
+  workspaceId: z.string(),
+  authorId: z.string(),
+  authorName: z.string().nullable(),
+  authorImage: z.string().nullable(),
+  isAuthor: z.boolean(),
+  symbol: z.string(),
+  title: z.string(),
+  thesis: z.string(),
+  direction: IdeaDirectionSchema,
+  entryPrice: z.number(),
+  targetPrice: z.number(),
+  stopPrice: z.number(),
+  timeframe: IdeaTimeframeSchema,
+  tags: z.array(z.string()),
+  status: IdeaStatusSchema,
+  expiresAt: z.date(),
+  closedAt: z.date().nullable(),
+  closePrice: z.number().nullable(),
+  returnPercent: z.number().nullable(), // At close, or so far for open ideas with a quote
+  currentPrice: z.number().nullable(), // Open ideas only
+  likeCount: z.number(),
+  commentCount: z.number(),
+  viewCount: z.number(),
+  likedByMe: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const TradeIdeaCommentSchema = z.object({
+  id: z.string(),
+  ideaId: z.string(),
+  userId: z.string(),
+  userName: z.string().nullable(),
+  userImage: z.string().nullable(),
+  content: z.string(),
+  createdAt: z.date(),
+});
+
+export const TradeIdeasResponseSchema = z.object({
+  ideas: z.array(TradeIdeaSchema),
+  total: z.number(),
+  hasMore: z.boolean(),
+  nextOffset: z.number().optional(),
+});
+
+export const TradeIdeaResponseSchema = z.object({
+  idea: TradeIdeaSchema,
+  comments: z.array(TradeIdeaCommentSchema).optional(), // Included when fetching a single idea
+});
+
+export const LikeIdeaResponseSchema = z.object({
+  liked: z.boolean(),
+  likeCount: z.number(),
+});
+
+export const IdeaCommentResponseSchema = z.object({
+  comment: TradeIdeaCommentSchema,
+});
+
+export const IdeaHitRateSchema = z.object({
+  memberId: z.string(),
+  memberName: z.string(),
+  memberImage: z.string().nullable(),
+  isCurrentUser: z.boolean(),
+  ideas: z.number(),
+  open: z.number(),
+  closed: z.number(),
+  hits: z.number(),
+  stops: z.number(),
+  expired: z.number(),
+  hitRate: z.number().nullable(), // % of closed ideas that hit their target
+  averageReturn: z.number().nullable(), // Mean return of closed ideas, in their direction
+  ranked: z.boolean(), // Enough closed ideas to be ranked
+});
+
+export const IdeaHitRatesResponseSchema = z.object({
+  members: z.array(IdeaHitRateSchema), // Ranked members first, best hit rate first
+  minClosedIdeas: z.number(),
+});
+
+// ===== TYPE INFERENCE =====
+
+export type IdeaDirection = z.infer<typeof IdeaDirectionSchema>;
+export type IdeaTimeframe = z.infer<typeof IdeaTimeframeSchema>;
+export type IdeaStatus = z.infer<typeof IdeaStatusSchema>;
+export type CreateTradeIdeaRequest = z.infer<typeof CreateTradeIdeaSchema>;
+export type UpdateTradeIdeaRequest = z.infer<typeof UpdateTradeIdeaSchema>;
+export type TradeIdeaQuery = z.infer<typeof TradeIdeaQuerySchema>;
+export type CommentOnIdeaRequest = z.infer<typeof CommentOnIdeaSchema>;
+export type TradeIdea = z.infer<typeof TradeIdeaSchema>;
+export type TradeIdeaComment = z.infer<typeof TradeIdeaCommentSchema>;
+export type TradeIdeasResponse = z.infer<typeof TradeIdeasResponseSchema>;
+export type TradeIdeaResponse = z.infer<typeof TradeIdeaResponseSchema>;
+export type LikeIdeaResponse = z.infer<typeof LikeIdeaResponseSchema>;
+export type IdeaCommentResponse = z.infer<typeof IdeaCommentResponseSchema>;
+export type IdeaHitRate = z.infer<typeof IdeaHitRateSchema>;
+export type IdeaHitRatesResponse = z.infer<typeof IdeaHitRatesResponseSchema>;
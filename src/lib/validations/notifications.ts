@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+// ===== ENUMS =====
+
+export const NotificationTypeSchema = z.enum([
+  "COMMENT", // Someone commented on your activity or trade idea
+  "REACTION", // Someone reacted to your activity
+  "MENTION", // Someone @mentioned you in a comment or chat message
+  "LEADERBOARD_PASSED", // Someone passed you on the daily leaderboard
+  "IDEA_POSTED", // A squad member posted a trade idea
+]);
+
+// in_app = the bell in the sidebar; email = the email digest
+export const NotificationChannelSchema = z.enum(["in_app", "email"]);
+
+export const DigestFrequencySchema = z.enum(["off", "daily", "weekly"]);
+
+// ===== PREFERENCES =====
+
+const ChannelPreferencesSchema = z.object({
+  in_app: z.boolean(),
+  email: z.boolean(),
+});
+
+// Stored under `notifications` in User.settings
+export const NotificationPreferencesSchema = z.object({
+  events: z.record(NotificationTypeSchema, ChannelPreferencesSchema),
+  mutedWorkspaceIds: z.array(z.string()).max(100),
+  digest: DigestFrequencySchema, // Email digests are opt-in
+});
+
+// ===== REQUEST SCHEMAS =====
+
+export const NotificationsQuerySchema = z.object({
+  unreadOnly: z.enum(["true", "false"]).optional().transform((value) => value === "true"),
+  before: z.string().cuid().optional(), // Id of the oldest notification already loaded
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+});
+
+export const MarkNotificationsReadSchema = z.object({
+  ids: z.array(z.string().cuid()).min(1).max(100),
+});
+
+export const UpdateNotificationPreferencesSchema = z.object({
+  events: z.partialRecord(NotificationTypeSchema, ChannelPreferencesSchema.partial()).optional(),
+  mutedWorkspaceIds: z.array(z.string().cuid()).max(100).optional(),
+  digest: DigestFrequencySchema.optional(),
+});
+
+// ===== RESPONSE SCHEMAS =====
+
+export const NotificationSchema = z.object({
+  id: z.string(),
+  type: NotificationTypeSchema,
+  workspaceId: z.string(),
+  workspaceName: z.string(),
+  actorId: z.string().nullable(), // Real user id, or pseudonym id when the actor is anonymous
+  actorName: z.string().nullable(),
+  actorImage: z.string().nullable(),
+  title: z.string(),
+  preview: z.string().nullable(), // Excerpt of the comment or message
+  activityId: z.string().nullable(),
+  ideaId: z.string().nullable(),
+  channelId: z.string().nullable(),
+  readAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+export const NotificationsResponseSchema = z.object({
+  notifications: z.array(NotificationSchema),
+  unreadCount: z.number(),
+  hasMore: z.boolean(),
+  nextCursor: z.string().optional(),
+});
+
+export const MarkNotificationsReadResponseSchema = z.object({
+  updated: z.number(),
+  unreadCount: z.number(),
+});
+
+export const NotificationPreferencesResponseSchema = z.object({
+  preferences: NotificationPreferencesSchema,
+});
+
+// ===== TYPE INFERENCE =====
+
+export type NotificationType = z.infer<typeof NotificationTypeSchema>;
+export type NotificationChannel = z.infer<typeof NotificationChannelSchema>;
+export type DigestFrequency = z.infer<typeof DigestFrequencySchema>;
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
+export type NotificationsQuery = z.infer<typeof NotificationsQuerySchema>;
+export type MarkNotificationsReadRequest = z.infer<typeof MarkNotificationsReadSchema>;
+export type UpdateNotificationPreferencesRequest = z.infer<typeof UpdateNotificationPreferencesSchema>;
+export type Notification = z.infer<typeof NotificationSchema>;
+export type NotificationsResponse = z.infer<typeof NotificationsResponseSchema>;
+export type MarkNotificationsReadResponse = z.infer<typeof MarkNotificationsReadResponseSchema>;
+export type NotificationPreferencesResponse = z.infer<typeof NotificationPreferencesResponseSchema>;
@@ -4,15 +4,78 @@ import { z } from "zod";
 
 export const TimePeriodSchema = z.enum(["1D", "1W", "1M", "3M", "6M", "1Y", "YTD"]);
 
+// twr = time-weighted, mwr = money-weighted (XIRR), value = raw value change
+export const ReturnModeSchema = z.enum(["twr", "mwr", "value"]);
+
+// Bucket size for the intraday (1D/1W) charts
+export const IntradayIntervalSchema = z.enum(["5m", "15m", "1h"]);
+
+// Ticker charted as a benchmark (SPY, QQQ, BRK.B, ^GSPC, ...)
+export const BenchmarkSymbolSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^\^?[A-Z0-9][A-Z0-9.-]{0,9}$/, "Invalid ticker symbol");
+
+// Comma-separated benchmark symbols; an empty string turns benchmarks off
+export const BenchmarkListSchema = z
+  .string()
+  .transform((value) => value.split(",").filter((symbol) => symbol.trim()))
+  .pipe(z.array(BenchmarkSymbolSchema).max(3));
+
 // ===== REQUEST SCHEMAS =====
 
 export const PortfolioHistoryQuerySchema = z.object({
   period: TimePeriodSchema.optional().default("1M"),
   accountId: z.string().cuid().optional(),
+  returnMode: ReturnModeSchema.optional().default("value"),
+  interval: IntradayIntervalSchema.optional(), // 1D/1W only; defaults to 15m for 1D, 1h for 1W
+  benchmarks: BenchmarkListSchema.optional(), // Defaults to SPY
+});
+
+export const SquadHistoryQuerySchema = z.object({
+  period: TimePeriodSchema.optional().default("1M"),
+  returnMode: ReturnModeSchema.optional().default("value"),
+  interval: IntradayIntervalSchema.optional(), // 1D/1W only; defaults to 15m for 1D, 1h for 1W
+  benchmarks: BenchmarkListSchema.optional(), // Defaults to the workspace's default benchmark
+});
+
+export const LeaderboardPeriodSchema = z.enum(["1D", "1W", "1M", "YTD"]);
+
+// absolute = $ change, percent = % change, twr = time-weighted return (all net of cash flows)
+export const LeaderboardMetricSchema = z.enum(["absolute", "percent", "twr"]);
+
+export const LeaderboardQuerySchema = z.object({
+  period: LeaderboardPeriodSchema.optional().default("1D"),
+  metric: LeaderboardMetricSchema.optional().default("percent"),
+});
+
+export const PortfolioStatsQuerySchema = z.object({
+  period: TimePeriodSchema.optional().default("1Y"),
+  accountId: z.string().cuid().optional(),
+  benchmark: BenchmarkSymbolSchema.optional(), // Beta is measured against it; defaults to SPY
+});
+
+export const SquadStatsQuerySchema = z.object({
+  period: TimePeriodSchema.optional().default("1Y"),
+  benchmark: BenchmarkSymbolSchema.optional(), // Defaults to the workspace's default benchmark
+});
+
+export const SquadOverlapQuerySchema = z.object({
+  period: TimePeriodSchema.optional().default("3M"), // Window for the returns correlation
+});
+
+export const PortfolioAllocationQuerySchema = z.object({
+  accountId: z.string().cuid().optional(),
 });
 
 export const SyncRequestSchema = z.object({
-  type: z.enum(["full", "quick", "incremental", "positions", "transactions"]).optional().default("quick"),
+  type: z.enum(["full", "quick", "incremental", "positions", "transactions", "backfill"]).optional().default("quick"),
+});
+
+export const SyncJobsQuerySchema = z.object({
+  jobId: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
 });
 
 // ===== RESPONSE SCHEMAS =====
@@ -68,19 +131,43 @@ export const PortfolioHistoryPointSchema = z.object({
   pl: z.number(),
   plPercent: z.number(),
   isInterpolated: z.boolean().optional().default(false),
+  isReconstructed: z.boolean().optional(), // Rebuilt from transaction history (snapshot backfill)
   label: z.string().optional(), // Pre-formatted label for charts
+  returnPercent: z.number().optional(), // Cash-flow adjusted return (twr/mwr modes only)
 });
 
 export const DataQualitySchema = z.object({
   actualPoints: z.number(),
   totalPoints: z.number(),
   coverage: z.number(), // Percentage (0-100)
+  reconstructedPoints: z.number().optional(), // Points backed by reconstructed snapshots
+});
+
+export const ReturnSummarySchema = z.object({
+  twr: z.number().nullable(), // Cumulative time-weighted return (%)
+  mwr: z.number().nullable(), // Annualized money-weighted return (%)
+  netCashFlow: z.number(), // Deposits minus withdrawals over the period
+});
+
+// A benchmark normalised to the chart: 0% (and the portfolio's starting value) on its first date
+export const BenchmarkSeriesSchema = z.object({
+  symbol: z.string(),
+  name: z.string().nullable(), // Display name for presets (e.g. "S&P 500")
+  history: z.array(z.object({
+    date: z.string(),
+    returnPercent: z.number(),
+    value: z.number().optional(), // Value charts only
+  })),
 });
 
 export const PortfolioHistoryResponseSchema = z.object({
   history: z.array(PortfolioHistoryPointSchema),
+  benchmarks: z.array(BenchmarkSeriesSchema).optional(),
   period: TimePeriodSchema,
+  returnMode: ReturnModeSchema.optional(),
+  returns: ReturnSummarySchema.optional(),
   dataQuality: DataQualitySchema.optional(),
+  interval: IntradayIntervalSchema.optional(), // Set when the history is built from intraday snapshots
 });
 
 export const AccountsResponseSchema = z.object({
@@ -93,6 +180,117 @@ export const SyncResponseSchema = z.object({
   jobId: z.string().optional(),
 });
 
+export const SyncStageSchema = z.enum(["connections", "accounts", "positions", "transactions", "snapshots", "backfill"]);
+
+export const SyncJobStageSchema = z.object({
+  stage: SyncStageSchema,
+  status: z.enum(["pending", "running", "completed", "failed"]),
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export const SyncJobSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  status: z.enum(["pending", "running", "completed", "failed", "dead"]),
+  attempts: z.number(),
+  maxAttempts: z.number(),
+  runAfter: z.coerce.date(),
+  startedAt: z.coerce.date().nullable(),
+  completedAt: z.coerce.date().nullable(),
+  error: z.string().nullable(),
+  stages: z.array(SyncJobStageSchema),
+});
+
+export const SyncJobsResponseSchema = z.object({
+  jobs: z.array(SyncJobSchema),
+});
+
+// ===== STATS SCHEMAS =====
+
+export const DailyReturnSchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  returnPercent: z.number(),
+});
+
+// Percentages throughout; ratios (Sharpe, Sortino, beta) are plain numbers.
+// Anything that needs more history than there is comes back null.
+export const PortfolioStatsSchema = z.object({
+  from: z.string().nullable(), // First trading day of the series (the baseline)
+  to: z.string().nullable(),
+  tradingDays: z.number(), // Daily returns the stats are based on
+  totalReturn: z.number().nullable(), // Time-weighted
+  volatility: z.number().nullable(), // Annualized
+  maxDrawdown: z.number().nullable(), // 0 or negative
+  currentDrawdown: z.number().nullable(),
+  sharpe: z.number().nullable(),
+  sortino: z.number().nullable(),
+  beta: z.number().nullable(),
+  benchmark: z.string().nullable(),
+  bestDay: DailyReturnSchema.nullable(),
+  worstDay: DailyReturnSchema.nullable(),
+  greenStreak: z.number(), // Consecutive up days ending on the last day
+  longestGreenStreak: z.number(),
+  winRate: z.number().nullable(), // Share of positions closed in the period at a profit
+  closedPositions: z.number(),
+  winningPositions: z.number(),
+});
+
+export const PortfolioStatsResponseSchema = z.object({
+  stats: PortfolioStatsSchema,
+  period: TimePeriodSchema,
+});
+
+export const SquadStatsResponseSchema = z.object({
+  squad: PortfolioStatsSchema.nullable(), // Equal-weighted across members who show performance
+  members: z.array(z.object({
+    memberId: z.string(),
+    memberName: z.string(),
+    isCurrentUser: z.boolean(),
+    stats: PortfolioStatsSchema.nullable(), // null when the member hides performance
+  })),
+  period: TimePeriodSchema,
+});
+
+// ===== ALLOCATION SCHEMAS =====
+
+export const AllocationDimensionSchema = z.enum(["sector", "assetClass", "country"]);
+
+// Weights are percentages of the portfolio's market value, largest first
+const AllocationWeightSchema = z.object({
+  label: z.string(),
+  weight: z.number(),
+  value: z.number().nullable(), // null when only percentages are shared (tickers_only)
+  positions: z.number(),
+});
+
+export const AllocationSliceSchema = AllocationWeightSchema.extend({
+  children: z.array(AllocationWeightSchema).optional(), // Industries within a sector (treemap)
+});
+
+export const AllocationSchema = z.object({
+  totalValue: z.number().nullable(),
+  positions: z.number(),
+  sector: z.array(AllocationSliceSchema),
+  assetClass: z.array(AllocationSliceSchema),
+  country: z.array(AllocationSliceSchema),
+});
+
+export const PortfolioAllocationResponseSchema = z.object({
+  allocation: AllocationSchema,
+});
+
+export const SquadAllocationResponseSchema = z.object({
+  squad: AllocationSchema.nullable(), // Equal-weighted across members who share positions, percentages only
+  members: z.array(z.object({
+    memberId: z.string(),
+    memberName: z.string(),
+    isCurrentUser: z.boolean(),
+    allocation: AllocationSchema.nullable(), // null when the member hides positions
+  })),
+});
+
 // ===== SQUAD/WORKSPACE SCHEMAS =====
 
 export const SquadMemberHistorySchema = z.object({
@@ -115,11 +313,21 @@ export const SquadHistoryResponseSchema = z.object({
     value: z.number(),
   })),
   members: z.array(SquadMemberHistorySchema),
+  benchmarks: z.array(z.object({
+    symbol: z.string(),
+    name: z.string().nullable(),
+    history: z.array(z.object({
+      date: z.string(),
+      percentChange: z.number(),
+    })),
+  })).optional(),
   yourHistory: z.array(z.object({
     date: z.string(),
     value: z.number(),
     percentChange: z.number(),
   })),
+  returnMode: ReturnModeSchema.optional(),
+  interval: IntradayIntervalSchema.optional(), // Set when the history is built from intraday snapshots
   metadata: z.object({
     totalMembers: z.number(),
     visibleMembers: z.number(),
@@ -127,19 +335,86 @@ export const SquadHistoryResponseSchema = z.object({
   }),
 });
 
+export const SquadHoldingSchema = z.object({
+  symbol: z.string(),
+  securityName: z.string().nullable(),
+  price: z.number(),
+  change: z.number().nullable(),
+  changePercent: z.number().nullable(), // Daily move; null when no quote is available
+  holders: z.number(), // Members holding it (hidden positions aren't counted)
+});
+
+export const SquadHoldingsResponseSchema = z.object({
+  holdings: z.array(SquadHoldingSchema), // Largest absolute daily move first
+  quotedAt: z.string().nullable(), // Oldest quote in the list
+});
+
+export const CrowdedSymbolSchema = z.object({
+  symbol: z.string(),
+  holders: z.number(),
+  holderIds: z.array(z.string()), // Member ids, as in the overlap response's members
+  squadWeight: z.number().nullable(), // % of the capital of members sharing weights; null if none do
+});
+
+// Matrices are square, rows and columns in the order of `members`; null where a pair can't be compared
+const MemberMatrixSchema = z.array(z.array(z.number().nullable()));
+
+export const SquadOverlapResponseSchema = z.object({
+  members: z.array(z.object({
+    memberId: z.string(),
+    memberName: z.string(),
+    isCurrentUser: z.boolean(),
+    positions: z.enum(["full", "tickers_only", "hidden"]), // What you can see of their holdings
+    holdings: z.number().nullable(), // Tickers held; null when positions are hidden
+  })),
+  crowded: z.array(CrowdedSymbolSchema), // Held by more than one member, most holders first
+  jaccard: MemberMatrixSchema, // % of tickers in common
+  weightOverlap: MemberMatrixSchema, // % of portfolio weight in common (full positions only)
+  correlation: MemberMatrixSchema, // Pearson's r of daily returns, -1 to 1
+  period: TimePeriodSchema,
+});
+
 // ===== TYPE INFERENCE =====
 
 export type TimePeriod = z.infer<typeof TimePeriodSchema>;
+export type ReturnMode = z.infer<typeof ReturnModeSchema>;
+export type IntradayInterval = z.infer<typeof IntradayIntervalSchema>;
 export type PortfolioHistoryQuery = z.infer<typeof PortfolioHistoryQuerySchema>;
+export type SquadHistoryQuery = z.infer<typeof SquadHistoryQuerySchema>;
+export type LeaderboardPeriod = z.infer<typeof LeaderboardPeriodSchema>;
+export type LeaderboardMetric = z.infer<typeof LeaderboardMetricSchema>;
+export type LeaderboardQuery = z.infer<typeof LeaderboardQuerySchema>;
+export type PortfolioStatsQuery = z.infer<typeof PortfolioStatsQuerySchema>;
+export type SquadStatsQuery = z.infer<typeof SquadStatsQuerySchema>;
+export type SquadOverlapQuery = z.infer<typeof SquadOverlapQuerySchema>;
+export type PortfolioAllocationQuery = z.infer<typeof PortfolioAllocationQuerySchema>;
 export type SyncRequest = z.infer<typeof SyncRequestSchema>;
 export type Position = z.infer<typeof PositionSchema>;
 export type BrokerageAccount = z.infer<typeof BrokerageAccountSchema>;
 export type PortfolioSummary = z.infer<typeof PortfolioSummarySchema>;
 export type PortfolioHistoryPoint = z.infer<typeof PortfolioHistoryPointSchema>;
 export type DataQuality = z.infer<typeof DataQualitySchema>;
+export type ReturnSummary = z.infer<typeof ReturnSummarySchema>;
+export type BenchmarkSeries = z.infer<typeof BenchmarkSeriesSchema>;
 export type PortfolioHistoryResponse = z.infer<typeof PortfolioHistoryResponseSchema>;
 export type AccountsResponse = z.infer<typeof AccountsResponseSchema>;
 export type SyncResponse = z.infer<typeof SyncResponseSchema>;
+export type SyncJobsQuery = z.infer<typeof SyncJobsQuerySchema>;
+export type SyncJob = z.infer<typeof SyncJobSchema>;
+export type SyncJobsResponse = z.infer<typeof SyncJobsResponseSchema>;
+export type DailyReturn = z.infer<typeof DailyReturnSchema>;
+export type PortfolioStats = z.infer<typeof PortfolioStatsSchema>;
+export type PortfolioStatsResponse = z.infer<typeof PortfolioStatsResponseSchema>;
+export type SquadStatsResponse = z.infer<typeof SquadStatsResponseSchema>;
+export type AllocationDimension = z.infer<typeof AllocationDimensionSchema>;
+export type AllocationSlice = z.infer<typeof AllocationSliceSchema>;
+export type Allocation = z.infer<typeof AllocationSchema>;
+export type PortfolioAllocationResponse = z.infer<typeof PortfolioAllocationResponseSchema>;
+export type SquadAllocationResponse = z.infer<typeof SquadAllocationResponseSchema>;
 export type SquadMemberHistory = z.infer<typeof SquadMemberHistorySchema>;
 export type SquadHistoryResponse = z.infer<typeof SquadHistoryResponseSchema>;
+export type SquadHolding = z.infer<typeof SquadHoldingSchema>;
+export type SquadHoldingsResponse = z.infer<typeof SquadHoldingsResponseSchema>;
+export type CrowdedSymbol = z.infer<typeof CrowdedSymbolSchema>;
+export type SquadOverlapResponse = z.infer<typeof SquadOverlapResponseSchema>;
 
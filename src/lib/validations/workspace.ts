@@ -0,0 +1,248 @@
+import { z } from "zod";
+import { BenchmarkSymbolSchema } from "./portfolio";
+
+// ===== INVITE SCHEMAS =====
+
+// link = shareable URL, email = sent to one address, code = short join code
+export const InviteKindSchema = z.enum(["link", "email", "code"]);
+
+export const InviteStatusSchema = z.enum(["active", "expired", "revoked", "exhausted"]);
+
+export const CreateInviteSchema = z
+  .object({
+    kind: InviteKindSchema.optional().default("link"),
+    email: z.string().email().optional(),
+    maxUses: z.number().int().min(1).max(1000).nullable().optional(), // null = unlimited
+    expiresInHours: z.number().int().min(1).max(24 * 30).nullable().optional().default(24 * 7), // null = never
+  })
+  .refine((data) => data.kind !== "email" || !!data.email, {
+    message: "Email is required for email invites",
+    path: ["email"],
+  });
+
+export const InvitesQuerySchema = z.object({
+  includeInactive: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export const JoinWorkspaceSchema = z.object({
+  token: z.string().min(1).max(128).optional(),
+  code: z.string().min(1).max(32).optional(),
+});
+
+export const WorkspaceInviteSchema = z.object({
+  id: z.string(),
+  kind: InviteKindSchema,
+  status: InviteStatusSchema,
+  code: z.string().nullable(),
+  email: z.string().nullable(),
+  url: z.string(),
+  maxUses: z.number().nullable(),
+  uses: z.number(),
+  expiresAt: z.coerce.date().nullable(),
+  revokedAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date(),
+  createdBy: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+    username: z.string().nullable(),
+  }).optional(),
+});
+
+// ===== MEMBER SCHEMAS =====
+
+export const WorkspaceRoleSchema = z.enum(["MEMBER", "ADMIN", "OWNER"]);
+
+export const UpdateMemberRoleSchema = z.object({
+  role: z.enum(["MEMBER", "ADMIN"]), // OWNER is only handed over via transfer
+});
+
+export const RemoveMemberQuerySchema = z.object({
+  ban: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  reason: z.string().max(500).optional(),
+});
+
+export const BanUserSchema = z.object({
+  userId: z.string().min(1),
+  reason: z.string().max(500).optional(),
+});
+
+export const TransferOwnershipSchema = z.object({
+  userId: z.string().min(1),
+});
+
+export const WorkspaceMemberSchema = z.object({
+  userId: z.string(),
+  name: z.string().nullable(),
+  username: z.string().nullable(),
+  image: z.string().nullable(),
+  role: WorkspaceRoleSchema,
+  joinedAt: z.coerce.date(),
+  isCurrentUser: z.boolean(),
+  canManage: z.boolean(), // Whether the viewer can change this member's role / remove them
+});
+
+export const WorkspaceMembersResponseSchema = z.object({
+  members: z.array(WorkspaceMemberSchema),
+  currentUserRole: WorkspaceRoleSchema,
+});
+
+export const WorkspaceBanSchema = z.object({
+  userId: z.string(),
+  name: z.string().nullable(),
+  username: z.string().nullable(),
+  reason: z.string().nullable(),
+  bannedBy: z.string(),
+  createdAt: z.coerce.date(),
+});
+
+// ===== SETTINGS SCHEMAS =====
+
+// Mirrors PrivacySettings / WorkspacePrivacyPolicy in privacy.ts
+export const PrivacySettingsSchema = z.object({
+  portfolioValue: z.enum(["exact", "approximate", "hidden"]),
+  performance: z.enum(["visible", "hidden"]),
+  positions: z.enum(["full", "tickers_only", "hidden"]),
+  activity: z.enum(["full", "without_amounts", "hidden"]),
+  watchlist: z.enum(["visible", "hidden"]).optional(),
+  activityDelay: z.enum(["none", "1h", "end_of_day", "24h", "7d"]).optional(),
+});
+
+export const WorkspacePrivacyPolicySchema = z.object({
+  minimumSharing: PrivacySettingsSchema.partial().nullable().optional(), // null = no minimum
+  enforcedTransparency: z.boolean().optional(),
+  allowAnonymousMode: z.boolean().optional(),
+});
+
+export const WorkspaceTypeSchema = z.enum(["PRIVATE", "PUBLIC", "COMPETITIVE"]);
+
+export const UpdateWorkspaceSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+    type: WorkspaceTypeSchema.optional(),
+    privacyPolicy: WorkspacePrivacyPolicySchema.optional(),
+    defaultBenchmark: BenchmarkSymbolSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+// ===== PRIVACY OVERRIDE SCHEMAS =====
+
+export const PrivacySourceSchema = z.enum([
+  "enforced",
+  "workspace_override",
+  "user_default",
+  "workspace_minimum",
+]);
+
+export const UpdatePrivacyOverrideSchema = z
+  .object({
+    override: PrivacySettingsSchema.partial().nullable().optional(), // null = follow your defaults
+    anonymous: z.boolean().optional(), // Only allowed if the workspace allows anonymous mode
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+export const ResolvedPrivacySchema = PrivacySettingsSchema.extend({
+  source: PrivacySourceSchema,
+  anonymous: z.boolean(),
+});
+
+export const WorkspacePrivacySchema = z.object({
+  override: PrivacySettingsSchema.partial().nullable(),
+  defaults: PrivacySettingsSchema,
+  policy: z.object({
+    minimumSharing: PrivacySettingsSchema.partial().nullable(),
+    enforcedTransparency: z.boolean(),
+    allowAnonymousMode: z.boolean(),
+  }),
+  anonymous: z.boolean(), // Opted into anonymous mode (whether or not the workspace allows it)
+  resolved: ResolvedPrivacySchema,
+  fieldSources: z.record(z.string(), PrivacySourceSchema), // Which step decided each field
+});
+
+// ===== PRIVACY PREVIEW SCHEMAS =====
+
+// Draft default settings to preview before saving (omitted fields use the saved defaults)
+export const PrivacyPreviewQuerySchema = PrivacySettingsSchema.partial();
+
+export const PrivacyPreviewSchema = z.object({
+  privacy: ResolvedPrivacySchema,
+  identity: z.object({
+    name: z.string().nullable(),
+    image: z.string().nullable(),
+    isAnonymous: z.boolean(),
+  }),
+  leaderboard: z.object({
+    portfolioValue: z.object({
+      display: z.string(),
+      exact: z.number().nullable(),
+      range: z.tuple([z.number(), z.number()]).nullable(),
+    }),
+    performance: z.object({
+      changeAmount: z.number().nullable(),
+      changePercent: z.number().nullable(),
+      twr: z.number().nullable(),
+      hasData: z.boolean(),
+    }),
+    positions: z.object({
+      count: z.number(),
+      data: z.array(z.record(z.string(), z.unknown())),
+      privacyLevel: z.string(),
+    }),
+  }),
+  history: z.object({
+    privacyLevel: z.enum(["full", "partial", "hidden"]),
+  }),
+  activity: z.object({
+    items: z.array(z.object({
+      id: z.string(),
+      type: z.string(),
+      symbol: z.string().nullable(),
+      quantity: z.number().nullable(),
+      price: z.number().nullable(),
+      value: z.number().nullable(),
+      metadata: z.unknown(),
+      createdAt: z.coerce.date(),
+    })),
+    hiddenCount: z.number(), // Recent items other members don't see at all
+    delayedCount: z.number(), // Recent trades held back until the activity delay passes
+  }),
+  watchlist: z.object({
+    itemsAdded: z.number(),
+    attributed: z.boolean(), // Whether items you add show your name
+  }),
+});
+
+// ===== TYPE INFERENCE =====
+
+export type InviteKind = z.infer<typeof InviteKindSchema>;
+export type InviteStatus = z.infer<typeof InviteStatusSchema>;
+export type CreateInviteInput = z.infer<typeof CreateInviteSchema>;
+export type InvitesQuery = z.infer<typeof InvitesQuerySchema>;
+export type JoinWorkspaceInput = z.infer<typeof JoinWorkspaceSchema>;
+export type WorkspaceInvite = z.infer<typeof WorkspaceInviteSchema>;
+export type WorkspaceRole = z.infer<typeof WorkspaceRoleSchema>;
+export type UpdateMemberRoleInput = z.infer<typeof UpdateMemberRoleSchema>;
+export type RemoveMemberQuery = z.infer<typeof RemoveMemberQuerySchema>;
+export type BanUserInput = z.infer<typeof BanUserSchema>;
+export type TransferOwnershipInput = z.infer<typeof TransferOwnershipSchema>;
+export type WorkspaceMember = z.infer<typeof WorkspaceMemberSchema>;
+export type WorkspaceMembersResponse = z.infer<typeof WorkspaceMembersResponseSchema>;
+export type WorkspaceBan = z.infer<typeof WorkspaceBanSchema>;
+export type PrivacySettingsInput = z.infer<typeof PrivacySettingsSchema>;
+export type WorkspacePrivacyPolicyInput = z.infer<typeof WorkspacePrivacyPolicySchema>;
+export type WorkspaceType = z.infer<typeof WorkspaceTypeSchema>;
+export type UpdateWorkspaceInput = z.infer<typeof UpdateWorkspaceSchema>;
+export type UpdatePrivacyOverrideInput = z.infer<typeof UpdatePrivacyOverrideSchema>;
+export type WorkspacePrivacy = z.infer<typeof WorkspacePrivacySchema>;
+export type PrivacyPreviewQuery = z.infer<typeof PrivacyPreviewQuerySchema>;
+export type PrivacyPreview = z.infer<typeof PrivacyPreviewSchema>;
@@ -0,0 +1,267 @@
+/**
+ * Workspace Invites
+ * Invite links, email invites and short join codes for workspaces
+ *
+ * - PUBLIC workspaces can be joined directly; PRIVATE and COMPETITIVE require a valid invite
+ * - Invites can be single-use or multi-use, with optional expiry and max uses
+ * - Email invites can only be redeemed by the invited address
+ * - Banned users can't join, even with a valid invite
+ */
+
+import { randomBytes, randomInt } from "crypto";
+import {
+  Prisma,
+  type Workspace,
+  type WorkspaceInvite,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { escapeHtml, sendEmail } from "./email";
+import { isBanned } from "./workspace-members";
+import type { InviteKind, InviteStatus } from "./validations/workspace";
+
+// Unambiguous characters (no 0/O, 1/I/L) so codes can be read aloud or typed from a screenshot
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 5;
+
+export type InviteResult<T> = { ok: true; data: T } | { ok: false; error: string; status: number };
+
+/**
+ * Only OWNER and ADMIN members can create, list and revoke invites
+ */
+export function canManageInvites(role: WorkspaceRole): boolean {
+  return role === "OWNER" || role === "ADMIN";
+}
+
+/**
+ * Whether joining this workspace requires an invite
+ */
+export function requiresInvite(workspace: Pick<Workspace, "type">): boolean {
+  return workspace.type === "PRIVATE" || workspace.type === "COMPETITIVE";
+}
+
+/**
+ * Generate a short join code, formatted as XXXX-XXXX
+ */
+export function generateJoinCode(): string {
+  let code = "";
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Normalize user-typed codes ("k7qx m2pa", "K7QXM2PA") to the stored format
+ */
+export function normalizeJoinCode(input: string): string {
+  const cleaned = input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return cleaned.length === JOIN_CODE_LENGTH
+    ? `${cleaned.slice(0, 4)}-${cleaned.slice(4)}`
+    : cleaned;
+}
+
+export function getInviteUrl(token: string): string {
+  return `${process.env.APP_URL}/workspaces?invite=${encodeURIComponent(token)}`;
+}
+
+export function getInviteStatus(invite: WorkspaceInvite, now: Date = new Date()): InviteStatus {
+  if (invite.revokedAt) return "revoked";
+  if (invite.expiresAt && invite.expiresAt <= now) return "expired";
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) return "exhausted";
+  return "active";
+}
+
+/**
+ * Create an invite. Email invites default to single-use; links and codes to unlimited uses.
+ */
+export async function createWorkspaceInvite(options: {
+  workspaceId: string;
+  createdBy: string;
+  kind: InviteKind;
+  email?: string;
+  maxUses?: number | null;
+  expiresInHours?: number | null;
+}): Promise<WorkspaceInvite> {
+  const maxUses = options.maxUses !== undefined
+    ? options.maxUses
+    : options.kind === "email" ? 1 : null;
+  const expiresAt = options.expiresInHours
+    ? new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000)
+    : null;
+
+  // Retry on the (unlikely) chance of a join code collision
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.workspaceInvite.create({
+        data: {
+          workspaceId: options.workspaceId,
+          createdBy: options.createdBy,
+          kind: options.kind,
+          token: randomBytes(24).toString("base64url"),
+          code: options.kind === "code" ? generateJoinCode() : null,
+          email: options.email?.toLowerCase() ?? null,
+          maxUses,
+          expiresAt,
+        },
+      });
+    } catch (error) {
+      const isCollision =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      if (!isCollision || attempt >= MAX_CODE_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Look up an invite by link token or join code
+ */
+export async function findInvite(input: { token?: string; code?: string }) {
+  if (input.token) {
+    return prisma.workspaceInvite.findUnique({
+      where: { token: input.token },
+      include: { workspace: true },
+    });
+  }
+
+  if (input.code) {
+    return prisma.workspaceInvite.findUnique({
+      where: { code: normalizeJoinCode(input.code) },
+      include: { workspace: true },
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Join a workspace, redeeming an invite when one is given or required
+ * The use count is incremented with a compare-and-set so concurrent joins can't exceed maxUses
+ */
+export async function joinWorkspace(
+  user: { id: string; email: string },
+  workspace: Workspace,
+  invite: WorkspaceInvite | null
+): Promise<InviteResult<WorkspaceMember>> {
+  const existingMembership = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: workspace.id, userId: user.id },
+    },
+  });
+
+  if (existingMembership) {
+    return { ok: false, error: "Already a member of this workspace", status: 409 };
+  }
+
+  if (await isBanned(workspace.id, user.id)) {
+    return { ok: false, error: "You have been banned from this workspace", status: 403 };
+  }
+
+  if (!invite) {
+    if (requiresInvite(workspace)) {
+      return { ok: false, error: "An invite is required to join this workspace", status: 403 };
+    }
+
+    const membership = await prisma.workspaceMember.create({
+      data: { workspaceId: workspace.id, userId: user.id, role: "MEMBER" },
+    });
+    return { ok: true, data: membership };
+  }
+
+  if (invite.workspaceId !== workspace.id) {
+    return { ok: false, error: "Invite is not valid for this workspace", status: 400 };
+  }
+
+  const status = getInviteStatus(invite);
+  if (status !== "active") {
+    return { ok: false, error: `Invite is ${status}`, status: 410 };
+  }
+
+  if (invite.email && invite.email !== user.email.toLowerCase()) {
+    return { ok: false, error: "This invite was sent to a different email address", status: 403 };
+  }
+
+  try {
+    const membership = await prisma.$transaction(async (tx) => {
+      const redeemed = await tx.workspaceInvite.updateMany({
+        where: { id: invite.id, uses: invite.uses, revokedAt: null },
+        data: { uses: { increment: 1 } },
+      });
+
+      if (redeemed.count === 0) {
+        throw new InviteConflictError();
+      }
+
+      return tx.workspaceMember.create({
+        data: { workspaceId: workspace.id, userId: user.id, role: "MEMBER" },
+      });
+    });
+
+    return { ok: true, data: membership };
+  } catch (error) {
+    if (error instanceof InviteConflictError) {
+      return { ok: false, error: "Invite was just used, please try again", status: 409 };
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return { ok: false, error: "Already a member of this workspace", status: 409 };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Email an invite link (and code, if any) to the invite's recipient
+ */
+export async function sendInviteEmail(
+  invite: WorkspaceInvite,
+  workspace: Pick<Workspace, "name">,
+  inviterName: string
+) {
+  if (!invite.email) return;
+
+  const url = getInviteUrl(invite.token);
+  const expiry = invite.expiresAt
+    ? ` This invite expires on ${invite.expiresAt.toLocaleDateString("en-US", { month: "long", day: "numeric" })}.`
+    : "";
+
+  await sendEmail({
+    to: invite.email,
+    subject: `${inviterName} invited you to join ${workspace.name}`,
+    text: `${inviterName} invited you to join ${workspace.name}. Accept the invite: ${url}${expiry}`,
+    html: `<p>${escapeHtml(inviterName)} invited you to join <strong>${escapeHtml(workspace.name)}</strong>.</p><p><a href="${url}">Accept the invite</a>.${expiry}</p>`,
+  });
+}
+
+/**
+ * Shape an invite for API responses
+ */
+export function serializeInvite(
+  invite: WorkspaceInvite & {
+    createdByUser?: { id: string; name: string | null; username: string | null };
+  }
+) {
+  return {
+    id: invite.id,
+    kind: invite.kind as InviteKind,
+    status: getInviteStatus(invite),
+    code: invite.code,
+    email: invite.email,
+    url: getInviteUrl(invite.token),
+    maxUses: invite.maxUses,
+    uses: invite.uses,
+    expiresAt: invite.expiresAt,
+    revokedAt: invite.revokedAt,
+    createdAt: invite.createdAt,
+    createdBy: invite.createdByUser,
+  };
+}
+
+// ===== INTERNALS =====
+
+class InviteConflictError extends Error {
+  constructor() {
+    super("Invite use count changed during redemption");
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Workspace Members
+ * Role changes, removal, bans, leaving and ownership transfer
+ *
+ * Role hierarchy: OWNER > ADMIN > MEMBER
+ * - You can only act on members ranked strictly below you
+ * - You can only assign roles up to your own (OWNER is only handed over via transfer)
+ * - A workspace always keeps an OWNER while it has members
+ */
+
+import type { WorkspaceMember, WorkspaceRole } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export type MemberResult<T> = { ok: true; data: T } | { ok: false; error: string; status: number };
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  MEMBER: 0,
+  ADMIN: 1,
+  OWNER: 2,
+};
+
+export const MEMBER_USER_SELECT = {
+  select: {
+    id: true,
+    name: true,
+    username: true,
+    image: true,
+  },
+} as const;
+
+/**
+ * Whether an actor can change the role of, kick or ban a target
+ */
+export function canManageMember(actorRole: WorkspaceRole, targetRole: WorkspaceRole): boolean {
+  return actorRole !== "MEMBER" && ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+}
+
+/**
+ * Whether an actor can give someone the given role
+ */
+export function canAssignRole(actorRole: WorkspaceRole, role: WorkspaceRole): boolean {
+  return role !== "OWNER" && actorRole !== "MEMBER" && ROLE_RANK[role] <= ROLE_RANK[actorRole];
+}
+
+/**
+ * Whether a user is banned from a workspace
+ */
+export async function isBanned(workspaceId: string, userId: string): Promise<boolean> {
+  const ban = await prisma.workspaceBan.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  });
+  return ban !== null;
+}
+
+/**
+ * Promote or demote a member
+ */
+export async function updateMemberRole(
+  actor: WorkspaceMember,
+  targetUserId: string,
+  role: WorkspaceRole
+): Promise<MemberResult<WorkspaceMember>> {
+  const target = await findTarget(actor, targetUserId);
+  if (!target.ok) return target;
+
+  if (!canAssignRole(actor.role, role)) {
+    return { ok: false, error: `You can't assign the ${role} role`, status: 403 };
+  }
+
+  if (target.data.role === role) {
+    return { ok: true, data: target.data };
+  }
+
+  const updated = await prisma.workspaceMember.update({
+    where: { id: target.data.id },
+    data: { role },
+  });
+
+  return { ok: true, data: updated };
+}
+
+/**
+ * Remove a member, optionally banning them from re-joining
+ */
+export async function removeMember(
+  actor: WorkspaceMember,
+  targetUserId: string,
+  options: { ban?: boolean; reason?: string } = {}
+): Promise<MemberResult<WorkspaceMember>> {
+  const target = await findTarget(actor, targetUserId);
+  if (!target.ok) return target;
+
+  await prisma.$transaction(async (tx) => {
+    await tx.workspaceMember.delete({ where: { id: target.data.id } });
+
+    if (options.ban) {
+      await tx.workspaceBan.upsert({
+        where: {
+          workspaceId_userId: { workspaceId: actor.workspaceId, userId: targetUserId },
+        },
+        create: {
+          workspaceId: actor.workspaceId,
+          userId: targetUserId,
+          bannedBy: actor.userId,
+          reason: options.reason ?? null,
+        },
+        update: {
+          bannedBy: actor.userId,
+          reason: options.reason ?? null,
+        },
+      });
+    }
+  });
+
+  return { ok: true, data: target.data };
+}
+
+/**
+ * Ban a user who is not (or no longer) a member
+ */
+export async function banUser(
+  actor: WorkspaceMember,
+  targetUserId: string,
+  reason?: string
+): Promise<MemberResult<null>> {
+  const target = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: actor.workspaceId, userId: targetUserId },
+    },
+  });
+
+  if (target) {
+    const removed = await removeMember(actor, targetUserId, { ban: true, reason });
+    return removed.ok ? { ok: true, data: null } : removed;
+  }
+
+  if (actor.role === "MEMBER") {
+    return { ok: false, error: "Only owners and admins can ban users", status: 403 };
+  }
+
+  if (targetUserId === actor.userId) {
+    return { ok: false, error: "You can't ban yourself", status: 400 };
+  }
+
+  await prisma.workspaceBan.upsert({
+    where: {
+      workspaceId_userId: { workspaceId: actor.workspaceId, userId: targetUserId },
+    },
+    create: {
+      workspaceId: actor.workspaceId,
+      userId: targetUserId,
+      bannedBy: actor.userId,
+      reason: reason ?? null,
+    },
+    update: { bannedBy: actor.userId, reason: reason ?? null },
+  });
+
+  return { ok: true, data: null };
+}
+
+/**
+ * Lift a ban so the user can join again
+ */
+export async function unbanUser(
+  actor: WorkspaceMember,
+  targetUserId: string
+): Promise<MemberResult<null>> {
+  if (actor.role === "MEMBER") {
+    return { ok: false, error: "Only owners and admins can unban users", status: 403 };
+  }
+
+  const removed = await prisma.workspaceBan.deleteMany({
+    where: { workspaceId: actor.workspaceId, userId: targetUserId },
+  });
+
+  if (removed.count === 0) {
+    return { ok: false, error: "Ban not found", status: 404 };
+  }
+
+  return { ok: true, data: null };
+}
+
+/**
+ * Leave a workspace
+ * The last OWNER must transfer ownership first, unless they're the last member
+ * (in which case the workspace is deleted)
+ */
+export async function leaveWorkspace(
+  member: WorkspaceMember
+): Promise<MemberResult<{ workspaceDeleted: boolean }>> {
+  const memberCount = await prisma.workspaceMember.count({
+    where: { workspaceId: member.workspaceId },
+  });
+
+  if (memberCount === 1) {
+    await prisma.workspace.delete({ where: { id: member.workspaceId } });
+    return { ok: true, data: { workspaceDeleted: true } };
+  }
+
+  if (member.role === "OWNER") {
+    const ownerCount = await prisma.workspaceMember.count({
+      where: { workspaceId: member.workspaceId, role: "OWNER" },
+    });
+
+    if (ownerCount === 1) {
+      return {
+        ok: false,
+        error: "Transfer ownership to another member before leaving",
+        status: 409,
+      };
+    }
+  }
+
+  await prisma.workspaceMember.delete({ where: { id: member.id } });
+  return { ok: true, data: { workspaceDeleted: false } };
+}
+
+/**
+ * Hand the workspace over to another member
+ * The new owner becomes OWNER and the previous owner is demoted to ADMIN
+ */
+export async function transferOwnership(
+  actor: WorkspaceMember,
+  targetUserId: string
+): Promise<MemberResult<WorkspaceMember>> {
+  if (actor.role !== "OWNER") {
+    return { ok: false, error: "Only the owner can transfer ownership", status: 403 };
+  }
+
+  if (targetUserId === actor.userId) {
+    return { ok: false, error: "You already own this workspace", status: 400 };
+  }
+
+  const target = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: actor.workspaceId, userId: targetUserId },
+    },
+  });
+
+  if (!target) {
+    return { ok: false, error: "Member not found", status: 404 };
+  }
+
+  const [newOwner] = await prisma.$transaction([
+    prisma.workspaceMember.update({
+      where: { id: target.id },
+      data: { role: "OWNER" },
+    }),
+    prisma.workspaceMember.update({
+      where: { id: actor.id },
+      data: { role: "ADMIN" },
+    }),
+  ]);
+
+  return { ok: true, data: newOwner };
+}
+
+/**
+ * Called before a user account is deleted
+ * For every workspace where they are the last OWNER, ownership passes to the
+ * longest-standing ADMIN (or MEMBER if there are no admins). Workspaces with no
+ * other members are deleted.
+ */
+export async function handleOwnerAccountDeletion(userId: string) {
+  const ownerships = await prisma.workspaceMember.findMany({
+    where: { userId, role: "OWNER" },
+  });
+
+  for (const ownership of ownerships) {
+    const otherOwners = await prisma.workspaceMember.count({
+      where: {
+        workspaceId: ownership.workspaceId,
+        role: "OWNER",
+        userId: { not: userId },
+      },
+    });
+
+    if (otherOwners > 0) continue;
+
+    const successor = await prisma.workspaceMember.findFirst({
+      where: {
+        workspaceId: ownership.workspaceId,
+        userId: { not: userId },
+      },
+      // Enum order is MEMBER < ADMIN < OWNER, so desc puts admins first, then longest-standing
+      orderBy: [{ role: "desc" }, { joinedAt: "asc" }],
+    });
+
+    if (successor) {
+      await prisma.workspaceMember.update({
+        where: { id: successor.id },
+        data: { role: "OWNER" },
+      });
+    } else {
+      await prisma.workspace.delete({ where: { id: ownership.workspaceId } });
+    }
+  }
+}
+
+// ===== INTERNALS =====
+
+async function findTarget(
+  actor: WorkspaceMember,
+  targetUserId: string
+): Promise<MemberResult<WorkspaceMember>> {
+  if (targetUserId === actor.userId) {
+    return { ok: false, error: "You can't change your own membership this way", status: 400 };
+  }
+
+  const target = await prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: actor.workspaceId, userId: targetUserId },
+    },
+  });
+
+  if (!target) {
+    return { ok: false, error: "Member not found", status: 404 };
+  }
+
+  if (!canManageMember(actor.role, target.role)) {
+    return { ok: false, error: "You don't have permission to manage this member", status: 403 };
+  }
+
+  return { ok: true, data: target };
+}
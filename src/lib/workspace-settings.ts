@@ -0,0 +1,199 @@
+/**
+ * Workspace Settings
+ * Updates to workspace metadata, default benchmark and privacy policy
+ *
+ * - Only OWNER and ADMIN members can change settings
+ * - Policy patches are merged into the stored policy (minimumSharing field by field)
+ * - When a change forces members to share more than they chose, they're emailed and
+ *   a POLICY_UPDATED activity explains what changed
+ */
+
+import { Prisma, type Workspace, type WorkspaceMember } from "@prisma/client";
+import { prisma } from "./prisma";
+import { escapeHtml, sendEmail } from "./email";
+import { recordActivityEvent } from "./activity-events";
+import {
+  getMoreRevealingFields,
+  parsePartialPrivacySettings,
+  parseWorkspacePrivacyPolicy,
+  resolvePrivacySettings,
+  type PrivacySettings,
+  type WorkspacePrivacyPolicy,
+} from "./privacy";
+import type { UpdateWorkspaceInput, WorkspacePrivacyPolicyInput } from "./validations/workspace";
+
+export type SettingsResult<T> = { ok: true; data: T } | { ok: false; error: string; status: number };
+
+export interface PolicyChange {
+  field: keyof PrivacySettings;
+  from: string;
+  to: string;
+}
+
+const FIELD_LABELS: Record<keyof PrivacySettings, string> = {
+  portfolioValue: "portfolio value",
+  performance: "performance",
+  positions: "positions",
+  activity: "activity",
+  watchlist: "watchlist",
+  activityDelay: "trade disclosure delay",
+};
+
+/**
+ * Merge a policy patch into the current policy
+ * `minimumSharing: null` clears the minimum; a partial object updates only the given fields
+ */
+export function mergePrivacyPolicy(
+  current: WorkspacePrivacyPolicy,
+  patch: WorkspacePrivacyPolicyInput
+): WorkspacePrivacyPolicy {
+  const minimumSharing =
+    patch.minimumSharing === null
+      ? undefined
+      : patch.minimumSharing
+        ? { ...current.minimumSharing, ...parsePartialPrivacySettings(patch.minimumSharing) }
+        : current.minimumSharing;
+
+  return {
+    minimumSharing,
+    enforcedTransparency: patch.enforcedTransparency ?? current.enforcedTransparency,
+    allowAnonymousMode: patch.allowAnonymousMode ?? current.allowAnonymousMode,
+  };
+}
+
+/**
+ * Update a workspace's metadata and/or privacy policy
+ */
+export async function updateWorkspaceSettings(
+  actor: WorkspaceMember,
+  input: UpdateWorkspaceInput
+): Promise<SettingsResult<{ workspace: Workspace; affectedMembers: number }>> {
+  if (actor.role !== "OWNER" && actor.role !== "ADMIN") {
+    return { ok: false, error: "Only owners and admins can change workspace settings", status: 403 };
+  }
+
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: actor.workspaceId },
+    include: {
+      members: {
+        include: {
+          user: { select: { id: true, email: true, name: true, privacyDefaults: true } },
+        },
+      },
+    },
+  });
+
+  if (!workspace) {
+    return { ok: false, error: "Workspace not found", status: 404 };
+  }
+
+  const previousPolicy = parseWorkspacePrivacyPolicy(workspace.privacyPolicy);
+  const nextPolicy = input.privacyPolicy
+    ? mergePrivacyPolicy(previousPolicy, input.privacyPolicy)
+    : previousPolicy;
+
+  // Members who now have to share more than under the previous policy
+  const affected = input.privacyPolicy
+    ? workspace.members
+        .filter((member) => member.userId !== actor.userId)
+        .map((member) => {
+          const before = resolvePrivacySettings(
+            member.user.privacyDefaults,
+            member.privacyOverride,
+            previousPolicy
+          );
+          const after = resolvePrivacySettings(
+            member.user.privacyDefaults,
+            member.privacyOverride,
+            nextPolicy
+          );
+          const changes: PolicyChange[] = getMoreRevealingFields(before, after).map((field) => ({
+            field,
+            from: before[field],
+            to: after[field],
+          }));
+          return { user: member.user, changes };
+        })
+        .filter((entry) => entry.changes.length > 0)
+    : [];
+
+  const updated = await prisma.workspace.update({
+    where: { id: workspace.id },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description || null }),
+      ...(input.type !== undefined && { type: input.type }),
+      ...(input.defaultBenchmark !== undefined && { defaultBenchmark: input.defaultBenchmark }),
+      ...(input.privacyPolicy && {
+        privacyPolicy: nextPolicy as unknown as Prisma.InputJsonValue,
+      }),
+    },
+  });
+
+  if (affected.length > 0) {
+    const raisedFields = Array.from(
+      new Set(affected.flatMap((entry) => entry.changes.map((change) => change.field)))
+    );
+
+    const activity = await prisma.workspaceActivity.create({
+      data: {
+        workspaceId: workspace.id,
+        userId: actor.userId,
+        type: "POLICY_UPDATED",
+        message: describePolicyChange(nextPolicy, raisedFields),
+        metadata: {
+          enforcedTransparency: nextPolicy.enforcedTransparency,
+          minimumSharing: (nextPolicy.minimumSharing ?? null) as unknown as Prisma.InputJsonValue,
+          raisedFields,
+          affectedMembers: affected.length,
+        },
+        visibility: "workspace",
+      },
+    });
+    await recordActivityEvent({ workspaceId: workspace.id, activityId: activity.id, type: "activity-created" });
+
+    // Notification failures shouldn't fail the update itself
+    await Promise.allSettled(
+      affected.map((entry) => sendPolicyChangeEmail(entry.user, updated, entry.changes))
+    );
+  }
+
+  return { ok: true, data: { workspace: updated, affectedMembers: affected.length } };
+}
+
+// ===== INTERNALS =====
+
+function describePolicyChange(
+  policy: WorkspacePrivacyPolicy,
+  raisedFields: Array<keyof PrivacySettings>
+): string {
+  if (policy.enforcedTransparency) {
+    return "Full transparency is now enforced: all members share exact values, positions and activity";
+  }
+  const labels = raisedFields.map((field) => FIELD_LABELS[field]);
+  return `Minimum sharing raised for ${labels.join(", ")}`;
+}
+
+async function sendPolicyChangeEmail(
+  user: { email: string; name: string | null },
+  workspace: Pick<Workspace, "id" | "name">,
+  changes: PolicyChange[]
+) {
+  const lines = changes.map(
+    (change) => `${FIELD_LABELS[change.field]}: ${formatLevel(change.from)} → ${formatLevel(change.to)}`
+  );
+  const settingsUrl = `${process.env.APP_URL}/settings`;
+
+  await sendEmail({
+    to: user.email,
+    subject: `${workspace.name} changed its privacy policy`,
+    text: `The privacy policy of ${workspace.name} was updated. You now share more with its members:\n\n${lines.join("\n")}\n\nReview your privacy settings: ${settingsUrl}`,
+    html: `<p>The privacy policy of <strong>${escapeHtml(workspace.name)}</strong> was updated. You now share more with its members:</p><ul>${lines
+      .map((line) => `<li>${escapeHtml(line)}</li>`)
+      .join("")}</ul><p><a href="${settingsUrl}">Review your privacy settings</a></p>`,
+  });
+}
+
+function formatLevel(level: string): string {
+  return level.replace(/_/g, " ");
+}